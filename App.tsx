@@ -1,62 +1,135 @@
 // App.tsx
 
 import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
-import { indexedDbService } from './services/indexedDbService';
-import { pokemonApiService } from './services/pokemonApiService';
-import { Pokemon, AppMessage, PokemonStatus, PokemonRarity, Achievement, PlayerSettings } from './types';
+import { indexedDbService, InsufficientTokensError, InvalidPokemonStateError, InvalidBidError, DailyBonusUnavailableError, ConcurrentModificationError } from './services/indexedDbService';
+import { createGenerationProvider } from './services/generationProviderFactory';
+import { MockGenerationProvider } from './services/mockGenerationProvider';
+import { createLeaderboardService } from './services/leaderboardServiceFactory';
+import { achievementService, createGameEvent } from './services/achievementService';
+import { getAchievementName } from './services/achievementDefinitions';
+import { generationQueueService } from './services/generationQueue';
+import { marketSimulationService, DEFAULT_NPC_TRADERS, EMPTY_SETTLEMENT_RESULT } from './services/marketSimulation';
+import { getPricingConfig } from './services/pricingEngine';
+import { audioService } from './services/audioService';
+import { getPackName } from './services/packDefinitions';
+import { Pokemon, AppMessage, StoreNames, PokemonStatus, PokemonRarity, PokemonGrade, Achievement, GameEvent, GameEventType, PlayerSettings, LedgerEntry, MarketFeedEntry, MarketSettlementResult, Listing, Auction, DailyBonusRoll, DailyBonusStatus, PlayerProfile, LeaderboardMetric, CollectionQuery, PokemonQuery, Route, View, MarketFilters, PackDefinition, INITIAL_TOKENS, DEFAULT_COLLECTION_QUERY, DEFAULT_MARKET_FILTERS, PLAYER_BIDDER_ID } from './types';
 import Button from './components/Button';
 import Modal from './components/Modal';
-import { Coins, Loader2, XCircle, Bot, Sparkles, Layers, ShieldCheck, ShoppingBag, Store, Star, Trophy, Gift, CheckCircle, Lock, Moon, Sun, Volume2, VolumeX, BarChart3, User } from 'lucide-react';
+import LedgerHistory from './components/LedgerHistory';
+import SettingsPanel from './components/SettingsPanel';
+import RateLimitCountdown from './components/RateLimitCountdown';
+import CardDetailPanel from './components/CardDetailPanel';
+import ContactSheetModal from './components/ContactSheetModal';
+import PackShop from './components/PackShop';
+import PackReveal, { OpenedPack } from './components/PackReveal';
+import BackupPanel from './components/BackupPanel';
+import AchievementList from './components/AchievementList';
+import PriceBreakdown from './components/PriceBreakdown';
+import CollectionQueryBar from './components/CollectionQueryBar';
+import MarketFeed from './components/MarketFeed';
+import ListingModal from './components/ListingModal';
+import Leaderboard from './components/Leaderboard';
+import DailyBonusModal from './components/DailyBonusModal';
+import AuctionPanel from './components/AuctionPanel';
+import PokemonCard, { PokemonCardActions, PokemonCardContext } from './components/PokemonCard';
+import VirtualCardGrid from './components/VirtualCardGrid';
+import RichMessage from './components/RichMessage';
+import Link from './components/Link';
+import { usePagedPokemons } from './hooks/usePagedPokemons';
+import { useDebouncedValue } from './hooks/useDebouncedValue';
+import { useMarketPricing } from './hooks/useMarketPricing';
+import { useLeaderboard } from './hooks/useLeaderboard';
+import { useDataChanges } from './hooks/useDataChanges';
+import { useOnlineStatus } from './hooks/useOnlineStatus';
+import { useI18n } from './hooks/useI18n';
+import { useLocation } from './hooks/useLocation';
+import { useCardEvents } from './hooks/useCardEvents';
+import { useStoredPokemons } from './hooks/useStoredPokemons';
+import { i18n } from './services/i18n';
+import { router } from './services/router';
+import { cardExportService, CardExportError, getCardFileName } from './services/cardExportService';
+import { AuthError, NetworkError, RateLimitError } from './services/apiErrors';
+import { POKEMON_GRADES, formatGrade, compareByGradeDesc } from './utils/grades';
+import { sortPokemons } from './utils/sorting';
+import { getLeadingBid } from './utils/auctions';
+import { getSingleGradeWeights } from './utils/dailyBonus';
+import { toLocalDateKey } from './utils/dates';
+import { buildScoreSnapshot } from './utils/leaderboard';
+import { getViewRoute } from './utils/routes';
+import { downloadBlob } from './utils/download';
+import { Coins, Loader2, XCircle, Bot, Sparkles, Store, Trophy, Moon, Sun, Volume2, VolumeX, BarChart3, User, Settings, Gavel, WifiOff, Hourglass, Printer } from 'lucide-react';
 
 const GENERATION_COST = 10;
-const INITIAL_TOKENS = 100;
+const GENERATION_QUEUE_RETRY_INTERVAL = 60 * 1000; // Retry delay while queued forges wait for the API
+const DEFAULT_RATE_LIMIT_COOLDOWN = 30000; // Used when a 429 comes without a Retry-After header
+const COLLECTION_SEARCH_DEBOUNCE = 250; // ms between the last keystroke and the indexed query
+const MARKET_SIMULATION_INTERVAL = 60000; // How often the NPC traders catch up while the app is open
+const MARKET_FEED_LIMIT = 20;
+const STUDIO_CARD_COUNT = 4; // Latest owned cards shown next to the forge
+const NPC_TRADER_NAMES = new Map(DEFAULT_NPC_TRADERS.map(trader => [trader.id, trader.name]));
 
-type View = 'studio' | 'collection' | 'market' | 'achievements' | 'leaderboard';
+const toListingMap = (listings: Listing[]) => new Map(listings.map(listing => [listing.pokemonId, listing]));
 
-const ALL_ACHIEVEMENTS: Omit<Achievement, 'unlocked' | 'unlockedAt'>[] = [
-  { id: 'FIRST_FORGE', name: 'Première Forge', description: 'Générer votre premier Pokémon.' },
-  { id: 'TEN_FORGES', name: 'Forgeron Amateur', description: 'Générer 10 Pokémon.' },
-  { id: 'FIRST_SALE', name: 'Premier Profit', description: 'Revendre un Pokémon sur le marché.' },
-  { id: 'LEGENDARY_FORGE', name: 'Main de Midas', description: 'Générer un Pokémon Légendaire ou Mythique.' },
-];
+const getPokemonKey = (pokemon: Pokemon) => pokemon.id;
 
-const NavLink = ({ children, onClick, isActive }: { children: React.ReactNode; onClick: () => void; isActive: boolean; }) => (
-  <button onClick={onClick} className={`font-medium transition-colors relative py-2 text-gray-500 hover:text-gray-900 dark:text-gray-400 dark:hover:text-white ${isActive ? 'text-gray-900 dark:text-white' : ''}`}>
+const STUDIO_QUERY: PokemonQuery = {
+  search: '',
+  rarities: [],
+  statuses: [PokemonStatus.OWNED],
+  grades: [],
+  favoritesOnly: false,
+  playerCardsOnly: false,
+  generatedFrom: null,
+  generatedTo: null,
+};
+
+const NAV_VIEWS = ['studio', 'collection', 'market', 'achievements', 'leaderboard'] as const;
+
+const NavLink: React.FC<{ children: React.ReactNode; view: View; isActive: boolean; }> = ({ children, view, isActive }) => (
+  <Link to={getViewRoute(view)} aria-current={isActive ? 'page' : undefined} className={`font-medium whitespace-nowrap transition-colors relative py-2 text-gray-500 hover:text-gray-900 dark:text-gray-400 dark:hover:text-white ${isActive ? 'text-gray-900 dark:text-white' : ''}`}>
     {children}
     {isActive && <span className="absolute bottom-0 left-0 w-full h-0.5 bg-yellow-400 rounded-full"></span>}
-  </button>
+  </Link>
 );
 
-const Header = ({ tokenBalance, onGenerateClick, currentView, onNavigate, theme, onToggleTheme, isMuted, onToggleMute }: { tokenBalance: number; onGenerateClick: () => void; currentView: View; onNavigate: (view: View) => void; theme: 'light' | 'dark'; onToggleTheme: () => void; isMuted: boolean; onToggleMute: () => void; }) => (
+const Header = ({ tokenBalance, onGenerateClick, currentView, theme, onToggleTheme, isMuted, onToggleMute, profileSwitcher, isOnline, pendingForges }: { tokenBalance: number; onGenerateClick: () => void; currentView: Route['view']; theme: 'light' | 'dark'; onToggleTheme: () => void; isMuted: boolean; onToggleMute: () => void; profileSwitcher: React.ReactNode; isOnline: boolean; pendingForges: number; }) => {
+  const { t, formatTokens } = useI18n();
+  return (
   <header className="sticky top-0 z-40 bg-white/80 dark:bg-black/30 backdrop-blur-lg border-b border-gray-200/50 dark:border-white/10">
     <div className="container mx-auto px-4 sm:px-6 lg:px-8 flex items-center justify-between h-20">
-      <div className="flex items-center gap-3 cursor-pointer" onClick={() => onNavigate('studio')}>
+      <Link to={getViewRoute('studio')} className="flex items-center gap-3">
         <div className="bg-yellow-400 h-8 w-8 rounded-full shadow-[0_0_10px_theme(colors.yellow.400)]"></div>
         <span className="text-2xl font-bold text-gray-900 dark:text-white">PokéForge</span>
-      </div>
-      <nav className="hidden md:flex items-center gap-8">
-        <NavLink onClick={() => onNavigate('studio')} isActive={currentView === 'studio'}>Studio</NavLink>
-        <NavLink onClick={() => onNavigate('collection')} isActive={currentView === 'collection'}>Collection</NavLink>
-        <NavLink onClick={() => onNavigate('market')} isActive={currentView === 'market'}>Marché</NavLink>
-        <NavLink onClick={() => onNavigate('achievements')} isActive={currentView === 'achievements'}>Succès</NavLink>
-        <NavLink onClick={() => onNavigate('leaderboard')} isActive={currentView === 'leaderboard'}>Classement</NavLink>
+      </Link>
+      <nav aria-label={t('header.navigation')} className="hidden md:flex items-center gap-8">
+        {NAV_VIEWS.map(view => <NavLink key={view} view={view} isActive={currentView === view}>{t(`nav.${view}`)}</NavLink>)}
       </nav>
       <div className="flex items-center gap-4">
-        <div className="flex items-center gap-2 bg-gray-100 dark:bg-black/20 border border-gray-200 dark:border-white/10 rounded-full px-4 py-2 shadow-sm text-gray-900 dark:text-white">
+        {!isOnline && <span title={t('header.offlineHint')} className="flex items-center gap-1 text-sm font-semibold text-orange-500 dark:text-orange-400"><WifiOff className="h-5 w-5" /><span className="hidden lg:inline">{t('header.offline')}</span></span>}
+        {pendingForges > 0 && <span title={t('header.pendingForgesHint')} className="flex items-center gap-1 rounded-full bg-yellow-400/20 border border-yellow-400/30 px-2 py-1 text-sm font-semibold text-yellow-600 dark:text-yellow-300"><Hourglass className="h-4 w-4" />{pendingForges}</span>}
+        {profileSwitcher}
+        <Link to={getViewRoute('ledger')} title={t('header.ledgerHint')} className={`flex items-center gap-2 bg-gray-100 dark:bg-black/20 border rounded-full px-4 py-2 shadow-sm text-gray-900 dark:text-white transition-colors hover:border-yellow-400/60 ${currentView === 'ledger' ? 'border-yellow-400/60' : 'border-gray-200 dark:border-white/10'}`}>
           <Coins className="h-5 w-5 text-yellow-400" />
-          <span className="font-semibold">{tokenBalance} jetons</span>
-        </div>
-        <Button variant="primary" size="sm" className="hidden sm:flex" onClick={onGenerateClick}>Générer</Button>
+          <span className="font-semibold">{formatTokens(tokenBalance)}</span>
+        </Link>
+        <Button variant="primary" size="sm" className="hidden sm:flex" onClick={onGenerateClick}>{t('header.generate')}</Button>
         <button onClick={onToggleTheme} className="p-2 rounded-full hover:bg-gray-200 dark:hover:bg-white/10 transition-colors text-gray-500 dark:text-gray-400">
           {theme === 'dark' ? <Sun className="h-5 w-5" /> : <Moon className="h-5 w-5" />}
         </button>
         <button onClick={onToggleMute} className="p-2 rounded-full hover:bg-gray-200 dark:hover:bg-white/10 transition-colors text-gray-500 dark:text-gray-400">
           {isMuted ? <VolumeX className="h-5 w-5" /> : <Volume2 className="h-5 w-5" />}
         </button>
+        <Link to={getViewRoute('settings')} title={t('header.settingsHint')} className={`p-2 rounded-full hover:bg-gray-200 dark:hover:bg-white/10 transition-colors ${currentView === 'settings' ? 'text-yellow-400' : 'text-gray-500 dark:text-gray-400'}`}>
+          <Settings className="h-5 w-5" />
+        </Link>
       </div>
     </div>
+    <nav aria-label={t('header.navigation')} className="md:hidden flex items-center gap-6 overflow-x-auto px-4 sm:px-6 pb-2">
+      {NAV_VIEWS.map(view => <NavLink key={view} view={view} isActive={currentView === view}>{t(`nav.${view}`)}</NavLink>)}
+    </nav>
   </header>
-);
+  );
+};
 
 const ForgeEffect = () => {
   const particles = useMemo(() => {
@@ -79,29 +152,65 @@ const ForgeEffect = () => {
   );
 };
 
-const App: React.FC = () => {
-  const [pokemons, setPokemons] = useState<Pokemon[]>([]);
+interface AppProps {
+  profile: PlayerProfile; // Profile whose save is open in indexedDbService
+  profileSwitcher: React.ReactNode;
+}
+
+const App: React.FC<AppProps> = ({ profile, profileSwitcher }) => {
+  const { t, formatTokens, formatRarity } = useI18n();
+  // Cards are read from IndexedDB by the views that show them; this counter tells them to read again.
+  const [pokemonsVersion, setPokemonsVersion] = useState(0);
+  const [storedPokemonCount, setStoredPokemonCount] = useState(0);
   const [tokenBalance, setTokenBalance] = useState<number>(0);
   const [achievements, setAchievements] = useState<Achievement[]>([]);
   const [settings, setSettings] = useState<PlayerSettings | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [isGeneratingPokemon, setIsGeneratingPokemon] = useState<boolean>(false);
+  const [rateLimitedUntil, setRateLimitedUntil] = useState<number | null>(null);
   const [message, setMessage] = useState<AppMessage | null>(null);
+  const [ledgerEntries, setLedgerEntries] = useState<LedgerEntry[]>([]);
+  const [isLedgerLoading, setIsLedgerLoading] = useState<boolean>(false);
+  const [marketFeed, setMarketFeed] = useState<MarketFeedEntry[]>([]);
+  const [listings, setListings] = useState<Map<string, Listing>>(new Map());
+  const [listingPokemon, setListingPokemon] = useState<Pokemon | null>(null);
+  const [isContactSheetOpen, setIsContactSheetOpen] = useState(false);
+  const [auctions, setAuctions] = useState<Auction[]>([]);
+  const [leaderboardMetric, setLeaderboardMetric] = useState<LeaderboardMetric>('avgRarity');
 
   const [isModalOpen, setIsModalOpen] = useState<boolean>(false);
   const [modalTitle, setModalTitle] = useState<string>('');
   const [modalContent, setModalContent] = useState<React.ReactNode>(null);
   const [modalOnConfirm, setModalOnConfirm] = useState<(() => void) | undefined>(undefined);
-  const [modalConfirmButtonText, setModalConfirmButtonText] = useState<string>('Confirm');
+  const [modalConfirmButtonText, setModalConfirmButtonText] = useState<string>('');
   const [modalConfirmButtonVariant, setModalConfirmButtonVariant] = useState<'primary' | 'danger'>('primary');
   const [isModalConfirmLoading, setIsModalConfirmLoading] = useState<boolean>(false);
   
-  const [isDailyBonusModalOpen, setIsDailyBonusModalOpen] = useState(false);
-  const [dailyBonusAmount, setDailyBonusAmount] = useState(0);
+  const [dailyBonusRoll, setDailyBonusRoll] = useState<DailyBonusRoll | null>(null);
+  const [dailyBonusStatus, setDailyBonusStatus] = useState<DailyBonusStatus | null>(null);
+  const [isClaimingDailyBonus, setIsClaimingDailyBonus] = useState(false);
+  const [isDatabaseStale, setIsDatabaseStale] = useState(false);
+  const [pendingForges, setPendingForges] = useState(0);
+  const [openingPackId, setOpeningPackId] = useState<string | null>(null);
+  const [openedPack, setOpenedPack] = useState<OpenedPack | null>(null);
+  const isOnline = useOnlineStatus();
 
-  const [currentView, setCurrentView] = useState<View>('studio');
-  const [collectionFilter, setCollectionFilter] = useState<PokemonStatus | 'ALL' | 'FAVORITES'>(PokemonStatus.OWNED);
-  const [marketRarityFilter, setMarketRarityFilter] = useState<PokemonRarity | 'ALL'>('ALL');
+  // The view and its filters live in the URL. A card opened from a page keeps that page rendered behind it;
+  // a card reached from a link shows the collection.
+  const { route, background } = useLocation();
+  const page = route.view === 'card' ? background ?? getViewRoute('collection') : route;
+  const currentView = page.view;
+  const collectionQuery = page.view === 'collection' ? page.query : DEFAULT_COLLECTION_QUERY;
+  const marketFilters = page.view === 'market' ? page.filters : DEFAULT_MARKET_FILTERS;
+  const { section: marketSection, rarity: marketRarityFilter, grade: marketGradeFilter, sort: marketSort } = marketFilters;
+  const setCurrentView = (view: View) => router.navigate(getViewRoute(view));
+  // Filter edits replace the history entry, so Back leaves the view instead of undoing each keystroke.
+  const setCollectionQuery = (query: CollectionQuery) => router.navigate({ view: 'collection', query }, { replace: true });
+  const setMarketFilters = (changes: Partial<MarketFilters>) => router.navigate({ view: 'market', filters: { ...marketFilters, ...changes } }, { replace: true });
+  const setMarketRarityFilter = (rarity: PokemonRarity | 'ALL') => setMarketFilters({ rarity });
+  const setMarketGradeFilter = (grade: PokemonGrade | 'ALL') => setMarketFilters({ grade });
+  const setMarketSort = (sort: MarketFilters['sort']) => setMarketFilters({ sort });
+  const setMarketSection = (section: MarketFilters['section']) => setMarketFilters({ section });
 
   useEffect(() => {
     // FIX: Use a more robust method to add/remove the 'dark' class
@@ -113,197 +222,458 @@ const App: React.FC = () => {
     }
   }, [settings?.theme]);
 
+  useEffect(() => {
+    if (settings) audioService.configure(settings);
+  }, [settings?.isMuted, settings?.musicVolume, settings?.effectsVolume, settings?.isAmbientEnabled]);
+
+  useEffect(() => {
+    if (settings) i18n.setLocale(settings.language);
+  }, [settings?.language]);
+
+  const refreshPokemons = useCallback(() => setPokemonsVersion(version => version + 1), []);
+
+  useEffect(() => {
+    indexedDbService.countPokemons()
+      .then(setStoredPokemonCount)
+      .catch(error => console.error("Failed to count the stored Pokémon:", error));
+  }, [pokemonsVersion]);
+
   const showMessage = useCallback((type: 'success' | 'error' | 'warning', text: string) => {
     setMessage({ type, text });
     const timer = setTimeout(() => setMessage(null), 5000);
     return () => clearTimeout(timer);
   }, []);
 
-  const checkAndUnlockAchievements = useCallback(async (currentPokemons: Pokemon[], currentAchievements: Achievement[]) => {
-    const unlockedAchievements: Achievement[] = [];
-
-    for (const achievementDef of ALL_ACHIEVEMENTS) {
-      const existingAchievement = currentAchievements.find(a => a.id === achievementDef.id);
-      if (existingAchievement && existingAchievement.unlocked) continue;
-
-      let shouldUnlock = false;
-      switch (achievementDef.id) {
-        case 'FIRST_FORGE':
-          shouldUnlock = currentPokemons.length >= 1;
-          break;
-        case 'TEN_FORGES':
-          shouldUnlock = currentPokemons.length >= 10;
-          break;
-        case 'FIRST_SALE':
-          shouldUnlock = currentPokemons.some(p => p.status === PokemonStatus.RESOLD);
-          break;
-        case 'LEGENDARY_FORGE':
-          shouldUnlock = currentPokemons.some(p => p.rarity === PokemonRarity.LEGENDARY || p.rarity === PokemonRarity.MYTHIC);
-          break;
+  /**
+   * Feeds a player action to the achievement engine and reports what it unlocked.
+   * Failures are only logged: achievements must never break the action itself.
+   */
+  const recordGameEvent = useCallback(async (event: GameEvent) => {
+    try {
+      const { updated, unlocked, rewardEntry } = await achievementService.recordEvent(event);
+      if (updated.length > 0) {
+        const updatedById = new Map(updated.map(a => [a.id, a]));
+        setAchievements(prev => prev.map(a => updatedById.get(a.id) ?? a));
       }
-
-      if (shouldUnlock) {
-        const newAchievement: Achievement = {
-          ...achievementDef,
-          unlocked: true,
-          unlockedAt: new Date().toISOString(),
-        };
-        await indexedDbService.updateAchievement(newAchievement);
-        unlockedAchievements.push(newAchievement);
-        showMessage('success', `Succès débloqué : ${newAchievement.name} !`);
+      if (rewardEntry) setTokenBalance(rewardEntry.balanceAfter);
+      if (unlocked.length > 0) audioService.play('achievement');
+      for (const definition of unlocked) {
+        const name = getAchievementName(definition);
+        showMessage('success', definition.reward > 0 ? t('achievements.unlockedWithReward', { name, reward: formatTokens(definition.reward) }) : t('achievements.unlocked', { name }));
       }
-    }
-    
-    if (unlockedAchievements.length > 0) {
-      setAchievements(prev => {
-        const updated = [...prev];
-        unlockedAchievements.forEach(unlocked => {
-          const index = updated.findIndex(a => a.id === unlocked.id);
-          if (index > -1) {
-            updated[index] = unlocked;
-          } else {
-            updated.push(unlocked);
-          }
-        });
-        return updated;
-      });
+    } catch (error) {
+      console.error("Failed to record achievement progress:", error);
     }
   }, [showMessage]);
 
+  /**
+   * Tells the player what the traders did with their listings and bids, and feeds the sales and won auctions to the achievements.
+   * @param result The outcome of a settlement.
+   */
+  const reportSettlement = useCallback(async ({ feed, expired, outbid, resolved }: MarketSettlementResult) => {
+    const sales = feed.filter(entry => entry.fromPlayer);
+    const won = resolved.filter(auction => getLeadingBid(auction)?.bidderId === PLAYER_BIDDER_ID);
+    const involvedIds = [...sales.map(sale => sale.pokemonId), ...[...outbid, ...won].map(auction => auction.pokemonId)];
+    const pokemonsById = new Map((await indexedDbService.getPokemonsByIds(involvedIds)).map(p => [p.id, p]));
+    const parts: string[] = [];
+    if (sales.length > 0) {
+      const earned = sales.reduce((sum, entry) => sum + entry.price, 0);
+      parts.push(t('market.sold', { count: sales.length, trader: sales[0].traderName, name: sales[0].pokemonName, earned: formatTokens(earned) }));
+    }
+    if (expired.length > 0) {
+      parts.push(t('market.expired', { count: expired.length, name: expired[0].name }));
+    }
+    for (const auction of outbid) {
+      const refunded = auction.bids.filter(bid => bid.bidderId === PLAYER_BIDDER_ID).reduce((max, bid) => Math.max(max, bid.amount), 0);
+      parts.push(t('market.outbid', { name: pokemonsById.get(auction.pokemonId)?.name ?? t('common.aCard'), amount: formatTokens(refunded) }));
+    }
+    for (const auction of won) {
+      parts.push(t('market.won', { name: pokemonsById.get(auction.pokemonId)?.name ?? t('common.aCard'), amount: formatTokens(getLeadingBid(auction)!.amount) }));
+    }
+    if (parts.length > 0) showMessage(sales.length > 0 || won.length > 0 ? 'success' : 'warning', parts.join(' '));
+
+    for (const sale of sales) {
+      await recordGameEvent(createGameEvent(GameEventType.SALE, pokemonsById.get(sale.pokemonId) ?? null, sale.price));
+    }
+    for (const auction of won) {
+      await recordGameEvent(createGameEvent(GameEventType.PURCHASE, pokemonsById.get(auction.pokemonId) ?? null, getLeadingBid(auction)!.amount));
+    }
+  }, [showMessage, recordGameEvent]);
+
   const fetchAppData = useCallback(async () => {
     setIsLoading(true);
     try {
       await indexedDbService.openDatabase();
-      const [fetchedPokemons, balance, fetchedAchievements, bonusStatus, playerSettings] = await Promise.all([
-        indexedDbService.getPokemons(),
+      // The traders catch up on the time the app was closed before anything is displayed.
+      let awayActivity = EMPTY_SETTLEMENT_RESULT;
+      try {
+        awayActivity = await marketSimulationService.settle(getPricingConfig(await indexedDbService.getPlayerSettings()));
+      } catch (error) {
+        console.error("Failed to settle the market simulation:", error);
+      }
+      const [balance, loadedAchievements, bonusStatus, bonusOffer, playerSettings, feed, storedListings, storedAuctions, generationQueue] = await Promise.all([
         indexedDbService.getTokenBalance(),
-        indexedDbService.getAchievements(),
+        achievementService.loadAchievements(),
         indexedDbService.getDailyBonusStatus(),
+        indexedDbService.getDailyBonusOffer(toLocalDateKey()),
         indexedDbService.getPlayerSettings(),
+        indexedDbService.getMarketFeed(MARKET_FEED_LIMIT),
+        indexedDbService.getListings(),
+        indexedDbService.getAuctions(),
+        indexedDbService.getGenerationQueue(),
       ]);
 
-      setPokemons(fetchedPokemons.sort((a, b) => new Date(b.generatedAt).getTime() - new Date(a.generatedAt).getTime()));
+      refreshPokemons();
       setTokenBalance(balance.amount);
       setSettings(playerSettings);
+      setMarketFeed(feed);
+      setListings(toListingMap(storedListings));
+      setAuctions(storedAuctions);
+      setPendingForges(generationQueue.length);
 
-      const today = new Date().toDateString();
-      if (!bonusStatus || new Date(bonusStatus.lastClaimed).toDateString() !== today) {
-        setDailyBonusAmount(Math.floor(Math.random() * 6) + 5); // 5 to 10 tokens
-        setIsDailyBonusModalOpen(true);
-      }
-
-      const achievementsMap = new Map(fetchedAchievements.map(a => [a.id, a]));
-      const allAchievements = ALL_ACHIEVEMENTS.map(def => 
-        achievementsMap.has(def.id) 
-          ? achievementsMap.get(def.id)! 
-          : { ...def, unlocked: false, unlockedAt: null }
-      );
-      setAchievements(allAchievements);
-      
-      await checkAndUnlockAchievements(fetchedPokemons, allAchievements);
+      setDailyBonusStatus(bonusStatus);
+      setDailyBonusRoll(bonusOffer);
 
+      setAchievements(loadedAchievements);
+      await reportSettlement(awayActivity);
     } catch (error) {
       console.error("Failed to fetch app data:", error);
-      showMessage('error', 'Failed to load app data.');
+      showMessage('error', t('app.loadFailed'));
     } finally {
       setIsLoading(false);
     }
-  }, [showMessage, checkAndUnlockAchievements]);
+  }, [showMessage, reportSettlement, refreshPokemons]);
 
   useEffect(() => {
     fetchAppData();
   }, [fetchAppData]);
+
+  // A tab left open overnight offers the new day's bonus when the player comes back to it.
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState !== 'visible') return;
+      indexedDbService.getDailyBonusOffer(toLocalDateKey())
+        .then(offer => offer && setDailyBonusRoll(prev => prev ?? offer))
+        .catch(error => console.error("Failed to check the daily bonus:", error));
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, []);
+
+  // Another tab committed writes to this save: reload what it touched, so nothing acts on a stale balance or collection.
+  useDataChanges(profile.dbName, async stores => {
+    try {
+      if (stores.has(StoreNames.Pokemons)) refreshPokemons();
+      if (stores.has(StoreNames.Ledger)) setTokenBalance((await indexedDbService.getTokenBalance()).amount);
+      if (stores.has(StoreNames.Listings)) setListings(toListingMap(await indexedDbService.getListings()));
+      if (stores.has(StoreNames.Auctions)) setAuctions(await indexedDbService.getAuctions());
+      if (stores.has(StoreNames.MarketFeed)) setMarketFeed(await indexedDbService.getMarketFeed(MARKET_FEED_LIMIT));
+      if (stores.has(StoreNames.GenerationQueue)) setPendingForges((await indexedDbService.getGenerationQueue()).length);
+      if (stores.has(StoreNames.Achievements)) setAchievements(await achievementService.loadAchievements());
+      if (stores.has(StoreNames.Settings)) {
+        const [playerSettings, bonusStatus] = await Promise.all([indexedDbService.getPlayerSettings(), indexedDbService.getDailyBonusStatus()]);
+        setSettings(playerSettings);
+        setDailyBonusStatus(bonusStatus);
+        // The bonus was claimed in another tab: stop offering it here.
+        setDailyBonusRoll(prev => (prev && bonusStatus.lastClaimed === prev.date ? null : prev));
+      }
+    } catch (error) {
+      console.error("Failed to reload data changed in another tab:", error);
+    }
+  });
+
+  useEffect(() => indexedDbService.subscribeToConnectionEvents(event => {
+    if (event === 'blocked') {
+      showMessage('warning', t('database.blocked'));
+    } else {
+      setIsDatabaseStale(true);
+    }
+  }), [showMessage]);
+
+  useEffect(() => {
+    if (!settings) return;
+    const pricing = getPricingConfig(settings);
+    const timer = setInterval(async () => {
+      try {
+        const result = await marketSimulationService.settle(pricing);
+        if (result.feed.length === 0 && result.expired.length === 0 && result.outbid.length === 0 && result.resolved.length === 0) return;
+        const [feed, storedListings, storedAuctions, balance] = await Promise.all([
+          indexedDbService.getMarketFeed(MARKET_FEED_LIMIT),
+          indexedDbService.getListings(),
+          indexedDbService.getAuctions(),
+          indexedDbService.getTokenBalance(),
+        ]);
+        refreshPokemons();
+        setMarketFeed(feed);
+        setListings(toListingMap(storedListings));
+        setAuctions(storedAuctions);
+        setTokenBalance(balance.amount);
+        await reportSettlement(result);
+      } catch (error) {
+        console.error("Failed to run the market simulation:", error);
+      }
+    }, MARKET_SIMULATION_INTERVAL);
+    return () => clearInterval(timer);
+  }, [settings !== null, settings?.priceFloor, settings?.priceCeiling, reportSettlement, refreshPokemons]);
+
+  useEffect(() => {
+    if (currentView !== 'ledger') return;
+    setIsLedgerLoading(true);
+    indexedDbService.getLedgerEntries()
+      .then(setLedgerEntries)
+      .catch(error => {
+        console.error("Failed to load ledger:", error);
+        showMessage('error', t('ledger.loadFailed'));
+      })
+      .finally(() => setIsLedgerLoading(false));
+  }, [currentView, tokenBalance, showMessage]);
   
-  const handleClaimDailyBonus = async () => {
-    const newBalance = tokenBalance + dailyBonusAmount;
-    await indexedDbService.updateTokenBalance(newBalance);
-    await indexedDbService.updateDailyBonusStatus({ id: 'dailyBonus', lastClaimed: new Date().toISOString() });
-    setTokenBalance(newBalance);
-    setIsDailyBonusModalOpen(false);
-    showMessage('success', `Vous avez reçu ${dailyBonusAmount} jetons !`);
+  const handleClaimDailyBonus = () => indexedDbService.trackOperation(async () => {
+    if (!dailyBonusRoll) return;
+    setIsClaimingDailyBonus(true);
+    try {
+      // The free forge always runs offline, at the grade rolled for the day.
+      const forged = dailyBonusRoll.forgeGrade
+        ? await new MockGenerationProvider({ gradeWeights: getSingleGradeWeights(dailyBonusRoll.forgeGrade), latencyMs: 0 }).generatePokemon()
+        : null;
+      const { status, entry, pokemon } = await indexedDbService.claimDailyBonus(dailyBonusRoll.date, forged);
+      setDailyBonusStatus(status);
+      setTokenBalance(entry.balanceAfter);
+      audioService.play('bonus');
+      if (pokemon) refreshPokemons();
+      const claimParams = { count: status.currentStreak, amount: formatTokens(entry.amount) };
+      showMessage('success', pokemon
+        ? t('dailyBonus.claimedWithPokemon', { ...claimParams, name: pokemon.name, rarity: formatRarity(pokemon.rarity) })
+        : t('dailyBonus.claimed', claimParams));
+      await recordGameEvent(createGameEvent(GameEventType.DAILY_BONUS, null, entry.amount));
+      if (pokemon) await recordGameEvent(createGameEvent(GameEventType.FORGE, pokemon));
+    } catch (error) {
+      console.error("Error claiming daily bonus:", error);
+      showMessage('error', error instanceof DailyBonusUnavailableError ? error.message : t('dailyBonus.claimFailed'));
+    } finally {
+      setIsClaimingDailyBonus(false);
+      setDailyBonusRoll(null);
+    }
+  });
+
+  /**
+   * Saves the settings unless another tab saved them first, in which case its settings are shown instead.
+   * @returns Whether the settings were saved.
+   */
+  const saveSettings = async (newSettings: PlayerSettings): Promise<boolean> => {
+    try {
+      setSettings(await indexedDbService.updatePlayerSettings(newSettings));
+      return true;
+    } catch (error) {
+      if (error instanceof ConcurrentModificationError) {
+        setSettings(error.current as PlayerSettings);
+        showMessage('warning', t('settings.conflict'));
+      } else {
+        console.error("Error saving settings:", error);
+        showMessage('error', t('settings.saveFailed'));
+      }
+      return false;
+    }
   };
-  
+
   const handleToggleTheme = async () => {
     if (!settings) return;
     const newTheme = settings.theme === 'dark' ? 'light' : 'dark';
     const newSettings: PlayerSettings = { ...settings, theme: newTheme };
     setSettings(newSettings);
-    await indexedDbService.updatePlayerSettings(newSettings);
+    await saveSettings(newSettings);
   };
   
   const handleToggleMute = async () => {
     if (!settings) return;
     const newSettings = { ...settings, isMuted: !settings.isMuted };
     setSettings(newSettings);
-    await indexedDbService.updatePlayerSettings(newSettings);
+    await saveSettings(newSettings);
   };
 
+  const handleSaveSettings = async (newSettings: PlayerSettings) => {
+    if (await saveSettings(newSettings)) showMessage('success', t('settings.saved'));
+  };
 
-  const getResellValue = useCallback((rarity: PokemonRarity): number => {
-    switch (rarity) {
-      case PokemonRarity.COMMON: return 5;
-      case PokemonRarity.RARE: return 10;
-      case PokemonRarity.EPIC: return 20;
-      case PokemonRarity.LEGENDARY: return 40;
-      case PokemonRarity.MYTHIC: return 80;
-      default: return 0;
-    }
-  }, []);
+  // Only rebuild the provider when its own configuration changes, so the replay cursor survives a theme toggle.
+  const generationProvider = useMemo(
+    () => settings ? createGenerationProvider(settings) : null,
+    [settings?.generationProvider, settings?.apiBaseUrl, settings?.apiToken, settings?.mockGradeWeights],
+  );
 
-  const getBuyPrice = useCallback((rarity: PokemonRarity): number => getResellValue(rarity) * 2, [getResellValue]);
+  // Forges the requests queued offline as soon as the provider can be reached, then retries while some remain.
+  const canReplayQueue = generationProvider !== null && (isOnline || generationProvider.id !== 'http');
+  useEffect(() => {
+    if (!canReplayQueue || pendingForges === 0) return;
+    const replay = () => indexedDbService.trackOperation(async () => {
+      try {
+        const { forged, refunded, remaining } = await generationQueueService.replay(generationProvider!);
+        setPendingForges(remaining);
+        if (forged.length === 0 && refunded.length === 0) return;
+        refreshPokemons();
+        setTokenBalance((await indexedDbService.getTokenBalance()).amount);
+        const parts: string[] = [];
+        if (forged.length > 0) parts.push(t('generation.queuedForged', { count: forged.length, name: forged[0].name }));
+        if (refunded.length > 0) parts.push(t('generation.queuedRefunded', { count: refunded.length, amount: formatTokens(refunded.reduce((sum, { entry }) => sum + entry.amount, 0)) }));
+        showMessage(refunded.length > 0 ? 'warning' : 'success', parts.join(' '));
+        for (const pokemon of forged) {
+          await recordGameEvent(createGameEvent(GameEventType.FORGE, pokemon));
+        }
+      } catch (error) {
+        console.error("Failed to replay the queued generations:", error);
+      }
+    });
+    replay();
+    const timer = setInterval(replay, GENERATION_QUEUE_RETRY_INTERVAL);
+    return () => clearInterval(timer);
+  }, [canReplayQueue, generationProvider, pendingForges > 0, showMessage, recordGameEvent, refreshPokemons]);
 
-  const handleGeneratePokemon = async () => {
+
+  const { getQuote, getTrend } = useMarketPricing(pokemonsVersion, settings);
+  const getResellValue = useCallback((pokemon: Pokemon): number => getQuote(pokemon).sell, [getQuote]);
+  const getBuyPrice = useCallback((pokemon: Pokemon): number => getQuote(pokemon).buy, [getQuote]);
+
+  const handleGeneratePokemon = () => indexedDbService.trackOperation(async () => {
+    if (!generationProvider) return;
+    if (rateLimitedUntil !== null) {
+      setCurrentView('studio');
+      return;
+    }
     if (tokenBalance < GENERATION_COST) {
-      showMessage('warning', `Il faut ${GENERATION_COST} jetons pour générer.`);
+      showMessage('warning', t('generation.notEnoughTokens', { cost: formatTokens(GENERATION_COST) }));
+      return;
+    }
+    // The remote API can't be reached offline: reserve the tokens and forge once the network is back.
+    if (generationProvider.id === 'http' && !isOnline) {
+      await queueGeneration();
       return;
     }
     setIsGeneratingPokemon(true);
-    let originalTokenBalance = tokenBalance;
+    audioService.play('forgeStart');
+    const originalTokenBalance = tokenBalance;
     try {
-      const newBalanceAfterDeduction = originalTokenBalance - GENERATION_COST;
-      setTokenBalance(newBalanceAfterDeduction);
-      await indexedDbService.updateTokenBalance(newBalanceAfterDeduction);
-      const newPokemon = await pokemonApiService.generatePokemon();
-      await indexedDbService.addPokemon(newPokemon);
-      const updatedPokemons = [newPokemon, ...pokemons].sort((a, b) => new Date(b.generatedAt).getTime() - new Date(a.generatedAt).getTime());
-      setPokemons(updatedPokemons);
-      await checkAndUnlockAchievements(updatedPokemons, achievements);
-      showMessage('success', `Nouveau Pokémon généré : ${newPokemon.name} !`);
+      // Show the cost as spent right away; the ledger is only debited once the Pokémon is stored.
+      setTokenBalance(originalTokenBalance - GENERATION_COST);
+      const generatedPokemon = await generationProvider.generatePokemon();
+      const { pokemon: newPokemon, entry } = await indexedDbService.commitGeneration(generatedPokemon, GENERATION_COST);
+      setTokenBalance(entry.balanceAfter);
+      audioService.playReveal(newPokemon.rarity);
+      refreshPokemons();
+      showMessage('success', t('generation.success', { name: newPokemon.name }));
+      await recordGameEvent(createGameEvent(GameEventType.FORGE, newPokemon));
     } catch (error) {
       console.error("Error generating Pokémon:", error);
+      if (error instanceof InsufficientTokensError) {
+        setTokenBalance(error.available);
+        showMessage('warning', t('generation.notEnoughTokens', { cost: formatTokens(GENERATION_COST) }));
+        return;
+      }
       setTokenBalance(originalTokenBalance);
-      await indexedDbService.updateTokenBalance(originalTokenBalance);
-      showMessage('error', (error as Error).message || `Échec de la génération. Jetons remboursés.`);
+      if (error instanceof NetworkError) {
+        await queueGeneration();
+        return;
+      }
+      if (error instanceof RateLimitError) {
+        setRateLimitedUntil(Date.now() + (error.retryAfterMs ?? DEFAULT_RATE_LIMIT_COOLDOWN));
+        setCurrentView('studio');
+        return;
+      }
+      if (error instanceof AuthError) {
+        showMessage('error', t('generation.authError', { message: error.message }));
+        return;
+      }
+      showMessage('error', (error as Error).message || t('generation.failed'));
     } finally {
       setIsGeneratingPokemon(false);
     }
+  });
+
+  const queueGeneration = async () => {
+    try {
+      const entry = await indexedDbService.enqueueGeneration(GENERATION_COST);
+      setTokenBalance(entry.balanceAfter);
+      setPendingForges(prev => prev + 1);
+      showMessage('warning', t('generation.queued', { cost: formatTokens(GENERATION_COST) }));
+    } catch (error) {
+      console.error("Error queuing generation:", error);
+      if (error instanceof InsufficientTokensError) {
+        setTokenBalance(error.available);
+        showMessage('warning', t('generation.notEnoughTokens', { cost: formatTokens(GENERATION_COST) }));
+        return;
+      }
+      showMessage('error', t('generation.queueFailed'));
+    }
   };
 
+  const handleOpenPack = (definition: PackDefinition) => indexedDbService.trackOperation(async () => {
+    if (!generationProvider || rateLimitedUntil !== null) return;
+    if (tokenBalance < definition.price) {
+      showMessage('warning', t('packs.notEnoughTokens', { price: formatTokens(definition.price) }));
+      return;
+    }
+    if (generationProvider.id === 'http' && !isOnline) {
+      showMessage('warning', t('packs.offline'));
+      return;
+    }
+    setOpeningPackId(definition.id);
+    audioService.play('forgeStart');
+    try {
+      const { forged, refunded } = await generationQueueService.openPack(definition, generationProvider);
+      refreshPokemons();
+      setTokenBalance((await indexedDbService.getTokenBalance()).amount);
+      const rateLimitError = refunded.map(({ error }) => error).find((error): error is RateLimitError => error instanceof RateLimitError);
+      if (rateLimitError) setRateLimitedUntil(Date.now() + (rateLimitError.retryAfterMs ?? DEFAULT_RATE_LIMIT_COOLDOWN));
+      const refundedAmount = refunded.reduce((sum, { entry }) => sum + entry.amount, 0);
+      const name = getPackName(definition);
+      if (forged.length === 0) {
+        showMessage('error', t('packs.allFailed', { amount: formatTokens(refundedAmount) }));
+        return;
+      }
+      setOpenedPack({ name, forged, refundedCount: refunded.length, refundedAmount });
+      showMessage(refunded.length > 0 ? 'warning' : 'success', t('packs.opened', { count: forged.length, name }));
+      for (const pokemon of forged) {
+        await recordGameEvent(createGameEvent(GameEventType.FORGE, pokemon));
+      }
+    } catch (error) {
+      console.error("Error opening pack:", error);
+      if (error instanceof InsufficientTokensError) {
+        setTokenBalance(error.available);
+        showMessage('warning', t('packs.notEnoughTokens', { price: formatTokens(definition.price) }));
+        return;
+      }
+      showMessage('error', t('packs.openFailed'));
+    } finally {
+      setOpeningPackId(null);
+    }
+  });
+
+  const handleRateLimitExpired = useCallback(() => setRateLimitedUntil(null), []);
+
   const handleResellConfirmation = (pokemon: Pokemon) => {
-    const resellValue = getResellValue(pokemon.rarity);
-    setModalTitle('Revendre le Pokémon');
+    const quote = getQuote(pokemon);
+    const resellValue = quote.sell;
+    setModalTitle(t('resell.title'));
     setModalContent(
       <>
-        <p className="text-gray-600 dark:text-gray-300 mb-2">Êtes-vous sûr de vouloir revendre <span className="font-semibold text-orange-400">{pokemon.name}</span> ?</p>
-        <p className="text-gray-500 dark:text-gray-400">Vous recevrez <span className="font-bold text-green-400">{resellValue} jetons</span> et la carte sera mise en vente sur le marché.</p>
+        <p className="text-gray-600 dark:text-gray-300 mb-2"><RichMessage id="resell.question" nodes={{ name: <span className="font-semibold text-orange-400">{pokemon.name}</span> }} /></p>
+        <p className="text-gray-500 dark:text-gray-400 mb-3"><RichMessage id="resell.details" nodes={{ amount: <span className="font-bold text-green-400">{formatTokens(resellValue)}</span> }} /></p>
+        <PriceBreakdown quote={quote} />
       </>
     );
     setModalConfirmButtonVariant('danger');
-    setModalConfirmButtonText("Confirmer la revente");
+    setModalConfirmButtonText(t('resell.confirm'));
     setModalOnConfirm(() => async () => {
       setIsModalConfirmLoading(true);
       try {
-        const updatedPokemon = { ...pokemon, status: PokemonStatus.RESOLD };
-        await indexedDbService.updatePokemon(updatedPokemon);
-        const newBalance = tokenBalance + resellValue;
-        await indexedDbService.updateTokenBalance(newBalance);
-        const updatedPokemons = pokemons.map(p => (p.id === updatedPokemon.id ? updatedPokemon : p));
-        setPokemons(updatedPokemons);
-        setTokenBalance(newBalance);
-        await checkAndUnlockAchievements(updatedPokemons, achievements);
-        showMessage('success', `${pokemon.name} revendu ! +${resellValue} jetons.`);
+        const { pokemon: updatedPokemon, entry } = await indexedDbService.resellPokemon(pokemon.id, resellValue);
+        refreshPokemons();
+        setTokenBalance(entry.balanceAfter);
+        audioService.play('resale');
+        showMessage('success', t('resell.success', { name: pokemon.name, amount: formatTokens(resellValue) }));
+        await recordGameEvent(createGameEvent(GameEventType.SALE, updatedPokemon, resellValue));
       } catch (error) {
-        showMessage('error', `Échec de la revente.`);
+        console.error("Error reselling Pokémon:", error);
+        showMessage('error', error instanceof InvalidPokemonStateError ? error.message : t('resell.failed'));
       } finally {
         setIsModalConfirmLoading(false);
         closeModal();
@@ -312,130 +682,243 @@ const App: React.FC = () => {
     setIsModalOpen(true);
   };
   
-  const handleToggleFavorite = async (pokemonId: string) => {
-    const pokemon = pokemons.find(p => p.id === pokemonId);
-    if (!pokemon) return;
+  const handleToggleFavorite = async (pokemon: Pokemon) => {
+    try {
+      const updatedPokemon = await indexedDbService.setFavorite(pokemon.id, !pokemon.isFavorite);
+      refreshPokemons();
+      // Counting the cards currently marked keeps a card favorited again and again from counting twice.
+      if (updatedPokemon.isFavorite) await recordGameEvent(createGameEvent(GameEventType.FAVORITE, updatedPokemon, await indexedDbService.countFavorites()));
+    } catch (error) {
+      showMessage('error', t('favorite.failed'));
+    }
+  };
 
-    const updatedPokemon = { ...pokemon, isFavorite: !pokemon.isFavorite };
+  const handleCreateListing = async (askingPrice: number, expiresAt: string | null) => {
+    if (!listingPokemon) return;
     try {
-      await indexedDbService.updatePokemon(updatedPokemon);
-      setPokemons(pokemons.map(p => p.id === pokemonId ? updatedPokemon : p));
+      const { pokemon: updatedPokemon, listing } = await indexedDbService.createListing(listingPokemon.id, askingPrice, expiresAt);
+      refreshPokemons();
+      setListings(prev => new Map(prev).set(listing.pokemonId, listing));
+      showMessage('success', t('listing.created', { name: updatedPokemon.name, price: formatTokens(askingPrice) }));
+    } catch (error) {
+      console.error("Error listing Pokémon:", error);
+      showMessage('error', error instanceof InvalidPokemonStateError ? error.message : t('listing.createFailed'));
+    } finally {
+      setListingPokemon(null);
+    }
+  };
+
+  const handleCancelListing = async (pokemon: Pokemon) => {
+    try {
+      const updatedPokemon = await indexedDbService.cancelListing(pokemon.id);
+      refreshPokemons();
+      setListings(prev => {
+        const next = new Map(prev);
+        next.delete(pokemon.id);
+        return next;
+      });
+      showMessage('success', t('listing.cancelled', { name: pokemon.name }));
     } catch (error) {
-      showMessage('error', 'Failed to update favorite status.');
+      console.error("Error cancelling listing:", error);
+      showMessage('error', error instanceof InvalidPokemonStateError ? error.message : t('listing.cancelFailed'));
     }
   };
 
   const handleBuyPokemon = async (pokemon: Pokemon) => {
-    const buyPrice = getBuyPrice(pokemon.rarity);
+    const listing = listings.get(pokemon.id);
+    const buyPrice = listing ? listing.askingPrice : getBuyPrice(pokemon);
     if (tokenBalance < buyPrice) {
-      showMessage('warning', `Pas assez de jetons. Il vous faut ${buyPrice} jetons.`);
+      showMessage('warning', t('purchase.notEnoughTokens', { amount: formatTokens(buyPrice) }));
       return;
     }
 
     try {
-      const updatedPokemon = { ...pokemon, status: PokemonStatus.OWNED };
-      await indexedDbService.updatePokemon(updatedPokemon);
-      const newBalance = tokenBalance - buyPrice;
-      await indexedDbService.updateTokenBalance(newBalance);
-      setPokemons(prev => prev.map(p => (p.id === updatedPokemon.id ? updatedPokemon : p)));
-      setTokenBalance(newBalance);
-      showMessage('success', `${pokemon.name} acheté ! -${buyPrice} jetons.`);
+      const { pokemon: updatedPokemon, entry } = listing
+        ? await indexedDbService.buyListing(pokemon.id)
+        : await indexedDbService.buyPokemon(pokemon.id, buyPrice);
+      refreshPokemons();
+      if (listing) {
+        setListings(prev => {
+          const next = new Map(prev);
+          next.delete(pokemon.id);
+          return next;
+        });
+      }
+      setTokenBalance(entry.balanceAfter);
+      audioService.play('purchase');
+      showMessage('success', t('purchase.success', { name: pokemon.name, amount: formatTokens(buyPrice) }));
+      await recordGameEvent(createGameEvent(GameEventType.PURCHASE, updatedPokemon, buyPrice));
+    } catch (error) {
+      if (error instanceof InsufficientTokensError) {
+        setTokenBalance(error.available);
+        showMessage('warning', t('purchase.notEnoughTokens', { amount: formatTokens(buyPrice) }));
+        return;
+      }
+      console.error("Error buying Pokémon:", error);
+      showMessage('error', error instanceof InvalidPokemonStateError ? error.message : t('purchase.failed'));
+    }
+  };
+
+  const handlePlaceBid = async (auction: Auction, amount: number) => {
+    const pokemonName = auctionPokemons?.get(auction.pokemonId)?.name ?? t('common.theCard');
+    try {
+      const { auction: updatedAuction, entry } = await indexedDbService.placeBid(auction.id, amount);
+      setAuctions(prev => prev.map(a => (a.id === updatedAuction.id ? updatedAuction : a)));
+      setTokenBalance(entry.balanceAfter);
+      showMessage('success', t('bid.placed', { amount: formatTokens(amount), name: pokemonName }));
     } catch (error) {
-      showMessage('error', `Échec de l'achat.`);
+      if (error instanceof InsufficientTokensError) {
+        setTokenBalance(error.available);
+        showMessage('warning', t('purchase.notEnoughTokens', { amount: formatTokens(amount) }));
+        return;
+      }
+      if (error instanceof InvalidBidError) {
+        showMessage('warning', error.message);
+        setAuctions(await indexedDbService.getAuctions());
+        return;
+      }
+      console.error("Error placing bid:", error);
+      showMessage('error', t('bid.failed'));
+    }
+  };
+
+  // Exported cards are signed with the profile's name, which the player picked for this save.
+  const handleExportCard = async (pokemon: Pokemon, dpi: number) => {
+    try {
+      const blob = await cardExportService.exportCard(pokemon, { dpi, playerName: profile.name, traderNames: NPC_TRADER_NAMES });
+      downloadBlob(blob, getCardFileName(pokemon));
+    } catch (error) {
+      console.error('Card export failed:', error);
+      showMessage('error', error instanceof CardExportError ? error.message : t('cardExport.failed'));
+    }
+  };
+
+  // The sheet holds every match of the collection filters, not only the pages loaded in the grid.
+  const handleExportContactSheet = async (dpi: number, columns: number) => {
+    try {
+      const matches = await indexedDbService.queryPokemons(collectionQuery);
+      const selection = sortPokemons(matches, collectionQuery.sortBy, collectionQuery.sortDirection, getResellValue);
+      const blob = await cardExportService.exportContactSheet(selection, { dpi, columns, playerName: profile.name, traderNames: NPC_TRADER_NAMES });
+      downloadBlob(blob, t('cardExport.sheetFileName', { date: toLocalDateKey() }));
+      setIsContactSheetOpen(false);
+      showMessage('success', t('cardExport.sheetExported', { count: selection.length }));
+    } catch (error) {
+      console.error('Contact sheet export failed:', error);
+      showMessage('error', error instanceof CardExportError ? error.message : t('cardExport.failed'));
     }
   };
 
   const closeModal = () => setIsModalOpen(false);
 
-  const getRarityStyles = useCallback((rarity: PokemonRarity) => ({
-      [PokemonRarity.COMMON]: { tag: 'bg-gray-500/50 text-gray-200', border: 'border-gray-500/50', glow: '', shimmer: 'from-transparent via-black/10 dark:via-white/10 to-transparent' },
-      [PokemonRarity.RARE]: { tag: 'bg-blue-500/50 text-blue-200', border: 'border-blue-500/60', glow: 'shadow-[0_0_8px_theme(colors.blue.500/0.5)]', shimmer: 'from-transparent via-cyan-400/20 to-transparent' },
-      [PokemonRarity.EPIC]: { tag: 'bg-purple-500/50 text-purple-200', border: 'border-purple-500/60', glow: 'shadow-[0_0_12px_theme(colors.purple.500/0.6)]', shimmer: 'from-transparent via-purple-400/20 to-transparent' },
-      [PokemonRarity.LEGENDARY]: { tag: 'bg-yellow-500/50 text-yellow-200', border: 'border-yellow-500/60', glow: 'shadow-[0_0_15px_theme(colors.yellow.500/0.7)]', shimmer: 'from-transparent via-yellow-300/20 to-transparent' },
-      [PokemonRarity.MYTHIC]: { tag: 'bg-gradient-to-r from-fuchsia-500/60 to-cyan-500/60 text-white font-bold', border: 'p-0.5 bg-gradient-to-br from-fuchsia-500 to-cyan-500', glow: 'shadow-[0_0_20px_theme(colors.fuchsia.500/0.8)]', shimmer: 'from-transparent via-fuchsia-400/30 to-transparent' },
-  }[rarity]), []);
-
-  const PokemonCard = ({ pokemon, context }: { pokemon: Pokemon; context: View | 'studio' }) => {
-    const { tag, border, glow, shimmer } = getRarityStyles(pokemon.rarity);
-    const resellValue = getResellValue(pokemon.rarity);
-    const buyPrice = getBuyPrice(pokemon.rarity);
-    
-    const cardContent = (
-      <div className="w-full h-full bg-gray-200/50 dark:bg-gray-900/80 rounded-2xl flex flex-col aspect-[3/4] relative group transition-all duration-300 overflow-hidden hover:-translate-y-1">
-        <div className={`absolute top-0 left-0 w-full h-full bg-gradient-to-r ${shimmer} transform -translate-x-full group-hover:translate-x-full transition-transform duration-700 ease-in-out`}></div>
-        
-        <div className="relative w-full flex-grow mb-2 rounded-lg overflow-hidden bg-black/5 dark:bg-black/20 p-2">
-          <img src={`data:image/png;base64,${pokemon.imageBase64}`} alt={pokemon.name} className="object-contain w-full h-full rounded-md" loading="lazy" />
-          {pokemon.status === PokemonStatus.RESOLD && context === 'collection' && <div className="absolute inset-0 bg-black/80 flex items-center justify-center text-white text-sm font-bold uppercase tracking-widest">REVENDU</div>}
-          <span className={`absolute top-2 right-2 text-xs px-2 py-1 rounded-full font-bold backdrop-blur-sm ${tag}`}>{pokemon.rarity}</span>
-          {pokemon.status === PokemonStatus.OWNED && context !== 'studio' && (
-            <button onClick={() => handleToggleFavorite(pokemon.id)} className="absolute top-2 left-2 p-1.5 rounded-full bg-black/30 backdrop-blur-sm text-gray-300 hover:text-yellow-400 transition-colors z-10">
-              <Star className={`h-4 w-4 ${pokemon.isFavorite ? 'text-yellow-400 fill-current' : ''}`} />
-            </button>
-          )}
-        </div>
-        <h3 className="text-sm font-semibold text-gray-800 dark:text-gray-200 truncate px-2 pb-2">{pokemon.name}</h3>
-        {pokemon.status === PokemonStatus.OWNED && context === 'collection' && (
-          <div className="absolute inset-0 bg-black/70 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity rounded-xl backdrop-blur-sm">
-            <Button variant="secondary" size="sm" className="px-3 py-1 text-xs" onClick={() => handleResellConfirmation(pokemon)}><Coins className="h-4 w-4 mr-1" /> Revendre (+{resellValue})</Button>
-          </div>
-        )}
-        {context === 'market' && (
-           <div className="absolute inset-0 bg-black/70 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity rounded-xl backdrop-blur-sm">
-             <Button variant="primary" size="sm" className="px-3 py-1 text-xs" onClick={() => handleBuyPokemon(pokemon)} disabled={tokenBalance < buyPrice}><ShoppingBag className="h-4 w-4 mr-1" /> Acheter ({buyPrice})</Button>
-           </div>
-        )}
-      </div>
-    );
+  // Cards get one stable actions object forwarding to the latest handlers, so memoized cards skip re-renders.
+  const cardHandlersRef = useRef({ handleToggleFavorite, handleResellConfirmation, handleCancelListing, handleBuyPokemon });
+  cardHandlersRef.current = { handleToggleFavorite, handleResellConfirmation, handleCancelListing, handleBuyPokemon };
+  const cardActions = useMemo<PokemonCardActions>(() => ({
+    onOpen: pokemon => {
+      const { route: current, background: behind } = router.getLocation();
+      router.navigate({ view: 'card', pokemonId: pokemon.id }, { background: current.view === 'card' ? behind ?? undefined : current });
+    },
+    onToggleFavorite: pokemon => cardHandlersRef.current.handleToggleFavorite(pokemon),
+    onResell: pokemon => cardHandlersRef.current.handleResellConfirmation(pokemon),
+    onList: setListingPokemon,
+    onCancelListing: pokemon => cardHandlersRef.current.handleCancelListing(pokemon),
+    onBuy: pokemon => cardHandlersRef.current.handleBuyPokemon(pokemon),
+  }), []);
 
+  const getSellerName = (pokemon: Pokemon): string | undefined => {
+    if (pokemon.status !== PokemonStatus.LISTED) return undefined;
+    return pokemon.traderId ? NPC_TRADER_NAMES.get(pokemon.traderId) : t('common.you');
+  };
+
+  const renderCard = (pokemon: Pokemon, context: PokemonCardContext) => {
+    const listing = listings.get(pokemon.id);
+    const buyPrice = listing ? listing.askingPrice : getBuyPrice(pokemon);
     return (
-      <div className={`rounded-3xl shadow-lg transition-all duration-300 ${pokemon.rarity === PokemonRarity.MYTHIC ? border : `bg-white/50 dark:bg-white/10 backdrop-blur-md border ${border} ${glow}`} ${pokemon.rarity !== PokemonRarity.MYTHIC ? 'group-hover:' + glow : 'group-hover:shadow-[0_0_30px_theme(colors.fuchsia.500/0.5)]'}`}>
-        {cardContent}
-      </div>
+      <PokemonCard pokemon={pokemon} context={context} resellValue={getResellValue(pokemon)} buyPrice={buyPrice} listing={listing} canAfford={tokenBalance >= buyPrice} priceTrend={context === 'market' ? getTrend(pokemon) : undefined} sellerName={context === 'market' ? getSellerName(pokemon) : undefined} actions={cardActions} />
     );
   };
-  
-  const collectionPokemons = useMemo(() => pokemons.filter(p => {
-    if (collectionFilter === 'ALL') return true;
-    if (collectionFilter === 'FAVORITES') return p.isFavorite && p.status === PokemonStatus.OWNED;
-    return p.status === collectionFilter;
-  }), [pokemons, collectionFilter]);
-  
-  const marketPokemons = useMemo(() => pokemons.filter(p => p.status === PokemonStatus.RESOLD && (marketRarityFilter === 'ALL' || p.rarity === marketRarityFilter)), [pokemons, marketRarityFilter]);
-  
-  const rarityScore: Record<PokemonRarity, number> = {
-    [PokemonRarity.COMMON]: 1,
-    [PokemonRarity.RARE]: 2,
-    [PokemonRarity.EPIC]: 3,
-    [PokemonRarity.LEGENDARY]: 4,
-    [PokemonRarity.MYTHIC]: 5,
+
+  // Grids read their cards from IndexedDB page by page and re-read them whenever `pokemonsVersion` changes.
+  // Date order is paged through the generatedAt index; the other orders need every match to sort them.
+  const debouncedCollectionQuery = useDebouncedValue(collectionQuery, collectionQuery.search ? COLLECTION_SEARCH_DEBOUNCE : 0);
+  const isCollectionPaged = debouncedCollectionQuery.sortBy === 'date';
+  const collectionPages = usePagedPokemons(
+    currentView === 'collection' ? debouncedCollectionQuery : null,
+    debouncedCollectionQuery.sortDirection,
+    pokemonsVersion,
+    isCollectionPaged ? undefined : null,
+  );
+  const collectionPokemons = useMemo(
+    () => isCollectionPaged
+      ? collectionPages.items
+      : sortPokemons(collectionPages.items, debouncedCollectionQuery.sortBy, debouncedCollectionQuery.sortDirection, getResellValue),
+    [collectionPages.items, isCollectionPaged, debouncedCollectionQuery.sortBy, debouncedCollectionQuery.sortDirection, getResellValue],
+  );
+
+  const marketQuery = useMemo<PokemonQuery>(() => ({
+    search: '',
+    rarities: marketRarityFilter === 'ALL' ? [] : [marketRarityFilter],
+    statuses: [marketSection === 'house' ? PokemonStatus.RESOLD : PokemonStatus.LISTED],
+    grades: marketGradeFilter === 'ALL' ? [] : [marketGradeFilter],
+    favoritesOnly: false,
+    playerCardsOnly: false,
+    generatedFrom: null,
+    generatedTo: null,
+  }), [marketSection, marketRarityFilter, marketGradeFilter]);
+  const marketPages = usePagedPokemons(currentView === 'market' && marketSection !== 'auctions' ? marketQuery : null, 'desc', pokemonsVersion, marketSort === 'RECENT' ? undefined : null);
+  const openAuctions = useMemo(() => auctions.filter(auction => auction.status === 'OPEN'), [auctions]);
+  const auctionIds = useMemo(() => openAuctions.map(auction => auction.pokemonId), [openAuctions]);
+  const auctionPokemons = useStoredPokemons(currentView === 'market' && marketSection === 'auctions' ? auctionIds : [], pokemonsVersion);
+  const closeCard = () => {
+    if (background) {
+      router.back();
+    } else {
+      router.navigate(page, { replace: true });
+    }
+  };
+  const marketPokemons = useMemo(
+    () => marketSort === 'GRADE' ? [...marketPages.items].sort(compareByGradeDesc) : marketPages.items,
+    [marketPages.items, marketSort],
+  );
+  const studioPokemons = usePagedPokemons(currentView === 'studio' ? STUDIO_QUERY : null, 'desc', pokemonsVersion, STUDIO_CARD_COUNT).items;
+  // The arrow keys step through the cards shown by the page behind the opened card.
+  const browsedPokemons = page.view === 'collection' ? collectionPokemons
+    : page.view === 'market' && marketSection !== 'auctions' ? marketPokemons
+    : page.view === 'studio' ? studioPokemons
+    : [];
+  // A card shown behind opens at once; a card reached from a link or an auction is read from the store.
+  const openedPokemons = useStoredPokemons(route.view === 'card' ? [route.pokemonId] : [], pokemonsVersion);
+  const openedPokemon = route.view === 'card'
+    ? browsedPokemons.find(p => p.id === route.pokemonId) ?? openedPokemons?.get(route.pokemonId) ?? null
+    : null;
+  const isOpenedPokemonLoading = route.view === 'card' && openedPokemon === null && (isLoading || openedPokemons === null);
+  const openedPokemonEvents = useCardEvents(openedPokemon?.id ?? null, pokemonsVersion);
+  const openedIndex = openedPokemon ? browsedPokemons.findIndex(p => p.id === openedPokemon.id) : -1;
+  const showSiblingCard = (offset: number) => {
+    const sibling = openedIndex >= 0 ? browsedPokemons[openedIndex + offset] : undefined;
+    if (!sibling) return null;
+    return () => router.navigate({ view: 'card', pokemonId: sibling.id }, { replace: true, background: background ?? undefined });
   };
   
-  const userLeaderboardStats = useMemo(() => {
-    const totalPokemons = pokemons.length;
-    if (totalPokemons === 0) return { name: settings?.playerName || 'Vous', pokemons: 0, avgRarity: 0, avgRarityName: 'N/A' };
-    const totalRarityScore = pokemons.reduce((sum, p) => sum + rarityScore[p.rarity], 0);
-    const avgRarity = totalRarityScore / totalPokemons;
-    const avgRarityName = Object.keys(rarityScore).find(key => rarityScore[key as PokemonRarity] >= Math.round(avgRarity)) || 'Commun';
-    return { name: settings?.playerName || 'Vous', pokemons: totalPokemons, avgRarity, avgRarityName };
-  }, [pokemons, settings?.playerName, rarityScore]);
-  
-  const leaderboardData = useMemo(() => {
-      const mockData = [
-        { name: 'Red', pokemons: 152, avgRarity: 4.8, avgRarityName: 'Mythique' },
-        { name: 'Blue', pokemons: 131, avgRarity: 4.5, avgRarityName: 'Légendaire' },
-        { name: 'Cynthia', pokemons: 98, avgRarity: 4.9, avgRarityName: 'Mythique' },
-        { name: 'Lance', pokemons: 78, avgRarity: 4.2, avgRarityName: 'Légendaire' },
-      ];
-      return [...mockData, userLeaderboardStats].sort((a, b) => b.avgRarity - a.avgRarity || b.pokemons - a.pokemons);
-  }, [userLeaderboardStats]);
+  // Only rebuild the leaderboard when its own configuration changes.
+  const leaderboardService = useMemo(
+    () => (settings ? createLeaderboardService(settings, profile) : null),
+    [settings?.leaderboardProvider, settings?.leaderboardUrl, profile.id],
+  );
+  // The scores cover the whole collection, so it is only read when the leaderboard syncs.
+  const leaderboardPlayerId = settings?.leaderboardPlayerId ?? profile.id;
+  const getScoreSnapshot = useCallback(
+    async () => buildScoreSnapshot({ id: leaderboardPlayerId, name: profile.name }, await indexedDbService.getPokemons(), getResellValue, achievements),
+    [leaderboardPlayerId, profile.name, getResellValue, achievements],
+  );
+  const leaderboard = useLeaderboard(leaderboardService, getScoreSnapshot, leaderboardMetric, currentView === 'leaderboard');
 
 
   return (
     <div className="bg-transparent">
-      <Header tokenBalance={tokenBalance} onGenerateClick={handleGeneratePokemon} currentView={currentView} onNavigate={setCurrentView} theme={settings?.theme || 'dark'} onToggleTheme={handleToggleTheme} isMuted={settings?.isMuted || true} onToggleMute={handleToggleMute} />
+      <Header tokenBalance={tokenBalance} onGenerateClick={handleGeneratePokemon} currentView={currentView} theme={settings?.theme || 'dark'} onToggleTheme={handleToggleTheme} isMuted={settings?.isMuted ?? true} onToggleMute={handleToggleMute} profileSwitcher={profileSwitcher} isOnline={isOnline} pendingForges={pendingForges} />
       <main>
-        {isGeneratingPokemon && <ForgeEffect />}
+        {(isGeneratingPokemon || openingPackId !== null) && <ForgeEffect />}
         {message && (
           <div role="alert" className={`fixed top-24 left-1/2 -translate-x-1/2 z-50 py-2 px-4 rounded-full shadow-lg flex items-center justify-between transition-all duration-300 backdrop-blur-md border border-white/10 ${
               message.type === 'success' ? 'bg-green-500/30 text-white' : message.type === 'error' ? 'bg-red-500/30 text-white' : 'bg-yellow-400/30 text-white'
@@ -452,133 +935,146 @@ const App: React.FC = () => {
               <div className="bg-white/50 dark:bg-black/20 rounded-3xl p-8 md:p-12 lg:p-16 border border-gray-200/50 dark:border-white/10 backdrop-blur-lg">
                 <div className="grid md:grid-cols-2 gap-12 items-center">
                   <div>
-                    <span className="inline-block bg-yellow-400/20 text-yellow-500 dark:text-yellow-300 text-sm font-bold px-3 py-1 rounded-full mb-4 border border-yellow-400/30">STUDIO POKÉMON</span>
-                    <h1 className="text-4xl md:text-5xl lg:text-6xl font-extrabold text-gray-900 dark:text-white leading-tight mb-4">Forge tes Pokémon uniques</h1>
-                    <p className="text-gray-600 dark:text-gray-400 text-lg mb-8">Lance une génération, observe la carte prendre forme et enrichis ta collection. Les meilleurs forgerons savent quand conserver une carte ou la revendre pour recharger leurs jetons.</p>
+                    <span className="inline-block bg-yellow-400/20 text-yellow-500 dark:text-yellow-300 text-sm font-bold px-3 py-1 rounded-full mb-4 border border-yellow-400/30">{t('studio.badge')}</span>
+                    <h1 className="text-4xl md:text-5xl lg:text-6xl font-extrabold text-gray-900 dark:text-white leading-tight mb-4">{t('studio.title')}</h1>
+                    <p className="text-gray-600 dark:text-gray-400 text-lg mb-8">{t('studio.intro')}</p>
+                    {rateLimitedUntil !== null && <RateLimitCountdown until={rateLimitedUntil} onExpire={handleRateLimitExpired} />}
                     <div className="flex flex-col sm:flex-row gap-4 mb-12">
-                      <Button variant="primary" size="md" onClick={handleGeneratePokemon} disabled={isGeneratingPokemon || isLoading || tokenBalance < GENERATION_COST}>
-                        {isGeneratingPokemon ? <span className="flex items-center"><Loader2 className="animate-spin mr-2 h-5 w-5" />Génération...</span> : 'Générer un Pokémon'}
+                      <Button variant="primary" size="md" onClick={handleGeneratePokemon} disabled={isGeneratingPokemon || openingPackId !== null || isLoading || tokenBalance < GENERATION_COST || rateLimitedUntil !== null}>
+                        {isGeneratingPokemon ? <span className="flex items-center"><Loader2 className="animate-spin mr-2 h-5 w-5" />{t('studio.generating')}</span> : t('studio.generate')}
                       </Button>
-                      <Button variant="secondary" size="md" onClick={() => setCurrentView('collection')}>Explorer la collection</Button>
+                      <Button variant="secondary" size="md" onClick={() => setCurrentView('collection')}>{t('studio.explore')}</Button>
                     </div>
                     <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 text-center">
-                      <div className="bg-gray-200/50 dark:bg-white/5 backdrop-blur-md rounded-2xl p-4 border border-gray-200 dark:border-white/10"><p className="text-sm text-gray-500 dark:text-gray-400 uppercase font-semibold">Jetons offerts</p><p className="text-2xl font-bold text-gray-900 dark:text-white">{INITIAL_TOKENS}</p></div>
-                      <div className="bg-gray-200/50 dark:bg-white/5 backdrop-blur-md rounded-2xl p-4 border border-gray-200 dark:border-white/10"><p className="text-sm text-gray-500 dark:text-gray-400 uppercase font-semibold">Coût génération</p><p className="text-2xl font-bold text-gray-900 dark:text-white">-{GENERATION_COST}</p></div>
-                      <div className="bg-gray-200/50 dark:bg-white/5 backdrop-blur-md rounded-2xl p-4 border border-gray-200 dark:border-white/10"><p className="text-sm text-gray-500 dark:text-gray-400 uppercase font-semibold">Revente carte</p><p className="text-xl font-bold text-green-500 dark:text-green-400">Selon rareté</p></div>
+                      <div className="bg-gray-200/50 dark:bg-white/5 backdrop-blur-md rounded-2xl p-4 border border-gray-200 dark:border-white/10"><p className="text-sm text-gray-500 dark:text-gray-400 uppercase font-semibold">{t('studio.initialTokens')}</p><p className="text-2xl font-bold text-gray-900 dark:text-white">{INITIAL_TOKENS}</p></div>
+                      <div className="bg-gray-200/50 dark:bg-white/5 backdrop-blur-md rounded-2xl p-4 border border-gray-200 dark:border-white/10"><p className="text-sm text-gray-500 dark:text-gray-400 uppercase font-semibold">{t('studio.generationCost')}</p><p className="text-2xl font-bold text-gray-900 dark:text-white">-{GENERATION_COST}</p></div>
+                      <div className="bg-gray-200/50 dark:bg-white/5 backdrop-blur-md rounded-2xl p-4 border border-gray-200 dark:border-white/10"><p className="text-sm text-gray-500 dark:text-gray-400 uppercase font-semibold">{t('studio.resale')}</p><p className="text-xl font-bold text-green-500 dark:text-green-400">{t('studio.resaleValue')}</p></div>
                     </div>
                   </div>
                   <div className="grid grid-cols-2 gap-4">
-                    {isLoading ? Array.from({ length: 4 }).map((_, i) => <div key={i} className="bg-gray-200/50 dark:bg-white/5 rounded-3xl aspect-[3/4] animate-pulse border border-gray-200 dark:border-white/10"></div>) : (
+                    {isLoading ? Array.from({ length: STUDIO_CARD_COUNT }).map((_, i) => <div key={i} className="bg-gray-200/50 dark:bg-white/5 rounded-3xl aspect-[3/4] animate-pulse border border-gray-200 dark:border-white/10"></div>) : (
                       <>
-                        {pokemons.filter(p => p.status === PokemonStatus.OWNED).slice(0, 4).map((pokemon) => <PokemonCard key={pokemon.id} pokemon={pokemon} context="studio" />)}
-                        {Array.from({ length: Math.max(0, 4 - pokemons.filter(p => p.status === PokemonStatus.OWNED).length) }).map((_, i) => <div key={`placeholder-${i}`} className="bg-black/5 dark:bg-black/20 rounded-3xl aspect-[3/4] flex items-center justify-center border-2 border-dashed border-gray-300 dark:border-white/20"><Bot className="h-12 w-12 text-gray-400 dark:text-white/30" /></div>)}
+                        {studioPokemons.map((pokemon) => <React.Fragment key={pokemon.id}>{renderCard(pokemon, 'studio')}</React.Fragment>)}
+                        {Array.from({ length: STUDIO_CARD_COUNT - studioPokemons.length }).map((_, i) => <div key={`placeholder-${i}`} className="bg-black/5 dark:bg-black/20 rounded-3xl aspect-[3/4] flex items-center justify-center border-2 border-dashed border-gray-300 dark:border-white/20"><Bot className="h-12 w-12 text-gray-400 dark:text-white/30" /></div>)}
                       </>
                     )}
                   </div>
                 </div>
               </div>
             </section>
+            <PackShop
+              singleForgeCost={GENERATION_COST}
+              tokenBalance={tokenBalance}
+              gradeWeights={settings?.generationProvider === 'mock' ? settings.mockGradeWeights : null}
+              openingPackId={openingPackId}
+              disabled={isGeneratingPokemon || isLoading || rateLimitedUntil !== null}
+              onOpen={handleOpenPack}
+            />
           </>
         )}
 
         {currentView === 'collection' && (
           <section className="container mx-auto px-4 sm:px-6 lg:px-8 py-16">
-            <div className="flex justify-between items-center mb-8">
-              <h1 className="text-4xl font-extrabold text-gray-900 dark:text-white">Ma Collection</h1>
-              <div className="flex items-center gap-2 bg-gray-200/50 dark:bg-black/20 border border-gray-200 dark:border-white/10 rounded-full p-1">
-                <Button onClick={() => setCollectionFilter(PokemonStatus.OWNED)} size="sm" variant={collectionFilter === PokemonStatus.OWNED ? 'secondary' : 'ghost'} className="!rounded-full !px-4 !py-1 text-sm flex items-center"><ShieldCheck className="h-4 w-4 mr-2" /> Possédées</Button>
-                <Button onClick={() => setCollectionFilter('FAVORITES')} size="sm" variant={collectionFilter === 'FAVORITES' ? 'secondary' : 'ghost'} className="!rounded-full !px-4 !py-1 text-sm flex items-center"><Star className="h-4 w-4 mr-2" /> Favorites</Button>
-                <Button onClick={() => setCollectionFilter('ALL')} size="sm" variant={collectionFilter === 'ALL' ? 'secondary' : 'ghost'} className="!rounded-full !px-4 !py-1 text-sm flex items-center"><Layers className="h-4 w-4 mr-2" /> Toutes</Button>
-              </div>
+            <div className="flex flex-wrap items-center justify-between gap-4 mb-8">
+              <h1 className="text-4xl font-extrabold text-gray-900 dark:text-white">{t('collection.title')}</h1>
+              <Button variant="secondary" size="sm" onClick={() => setIsContactSheetOpen(true)} disabled={collectionPokemons.length === 0} className="flex items-center"><Printer className="h-4 w-4 mr-2" />{t('cardExport.sheetOpen')}</Button>
             </div>
-            {isLoading ? <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-4">{Array.from({ length: 12 }).map((_, i) => <div key={i} className="bg-white/5 rounded-3xl aspect-[3/4] animate-pulse border border-white/10"></div>)}</div>
-            : collectionPokemons.length > 0 ? <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-4">{collectionPokemons.map(pokemon => <PokemonCard key={pokemon.id} pokemon={pokemon} context="collection" />)}</div>
-            : <div className="text-center py-20 bg-gray-200/50 dark:bg-black/20 rounded-3xl border-2 border-dashed border-gray-300 dark:border-white/20"><Bot className="h-16 w-16 text-gray-400 dark:text-white/30 mx-auto mb-4" /><h2 className="text-2xl font-bold text-gray-900 dark:text-white">Collection vide</h2><p className="text-gray-500 dark:text-gray-400 mt-2">Générez des Pokémon pour commencer votre collection !</p></div>}
+            <CollectionQueryBar query={collectionQuery} onChange={setCollectionQuery} resultCount={collectionPokemons.length} hasMore={collectionPages.hasMore} />
+            {isLoading || (collectionPages.isLoading && collectionPokemons.length === 0) ? <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-4">{Array.from({ length: 12 }).map((_, i) => <div key={i} className="bg-white/5 rounded-3xl aspect-[3/4] animate-pulse border border-white/10"></div>)}</div>
+            : collectionPokemons.length > 0 ? <VirtualCardGrid items={collectionPokemons} getKey={getPokemonKey} renderItem={pokemon => renderCard(pokemon, 'collection')} onEndReached={collectionPages.loadMore} />
+            : <div className="text-center py-20 bg-gray-200/50 dark:bg-black/20 rounded-3xl border-2 border-dashed border-gray-300 dark:border-white/20"><Bot className="h-16 w-16 text-gray-400 dark:text-white/30 mx-auto mb-4" /><h2 className="text-2xl font-bold text-gray-900 dark:text-white">{storedPokemonCount > 0 ? t('collection.noResults') : t('collection.empty')}</h2><p className="text-gray-500 dark:text-gray-400 mt-2">{storedPokemonCount > 0 ? t('collection.noResultsHint') : t('collection.emptyHint')}</p></div>}
           </section>
         )}
         
         {currentView === 'market' && (
           <section className="container mx-auto px-4 sm:px-6 lg:px-8 py-16">
             <div className="flex flex-wrap justify-between items-center gap-4 mb-8">
-              <h1 className="text-4xl font-extrabold text-gray-900 dark:text-white">Marché des Cartes</h1>
+              <h1 className="text-4xl font-extrabold text-gray-900 dark:text-white">{t('market.title')}</h1>
+              {marketSection !== 'auctions' && <div className="flex items-center flex-wrap gap-2 bg-gray-200/50 dark:bg-black/20 border border-gray-200 dark:border-white/10 rounded-full p-1">
+                <Button onClick={() => setMarketRarityFilter('ALL')} size="sm" variant={marketRarityFilter === 'ALL' ? 'secondary' : 'ghost'} className="!rounded-full !px-4 !py-1 text-sm flex items-center"><Sparkles className="h-4 w-4 mr-2" />{t('market.allRarities')}</Button>
+                {Object.values(PokemonRarity).map(rarity => (<Button key={rarity} onClick={() => setMarketRarityFilter(rarity)} size="sm" variant={marketRarityFilter === rarity ? 'secondary' : 'ghost'} className="!rounded-full !px-4 !py-1 text-sm">{formatRarity(rarity)}</Button>))}
+              </div>}
+            </div>
+            {marketSection !== 'auctions' && <div className="flex flex-wrap justify-between items-center gap-4 mb-8">
               <div className="flex items-center flex-wrap gap-2 bg-gray-200/50 dark:bg-black/20 border border-gray-200 dark:border-white/10 rounded-full p-1">
-                <Button onClick={() => setMarketRarityFilter('ALL')} size="sm" variant={marketRarityFilter === 'ALL' ? 'secondary' : 'ghost'} className="!rounded-full !px-4 !py-1 text-sm flex items-center"><Sparkles className="h-4 w-4 mr-2" />Toutes</Button>
-                {Object.values(PokemonRarity).map(rarity => (<Button key={rarity} onClick={() => setMarketRarityFilter(rarity)} size="sm" variant={marketRarityFilter === rarity ? 'secondary' : 'ghost'} className="!rounded-full !px-4 !py-1 text-sm">{rarity}</Button>))}
+                <Button onClick={() => setMarketGradeFilter('ALL')} size="sm" variant={marketGradeFilter === 'ALL' ? 'secondary' : 'ghost'} className="!rounded-full !px-4 !py-1 text-sm">{t('market.allGrades')}</Button>
+                {POKEMON_GRADES.map(grade => (<Button key={grade} onClick={() => setMarketGradeFilter(grade)} size="sm" variant={marketGradeFilter === grade ? 'secondary' : 'ghost'} className="!rounded-full !px-3 !py-1 text-sm font-mono">{formatGrade(grade)}</Button>))}
               </div>
+              <div className="flex items-center gap-2 bg-gray-200/50 dark:bg-black/20 border border-gray-200 dark:border-white/10 rounded-full p-1">
+                <Button onClick={() => setMarketSort('RECENT')} size="sm" variant={marketSort === 'RECENT' ? 'secondary' : 'ghost'} className="!rounded-full !px-4 !py-1 text-sm">{t('market.sortRecent')}</Button>
+                <Button onClick={() => setMarketSort('GRADE')} size="sm" variant={marketSort === 'GRADE' ? 'secondary' : 'ghost'} className="!rounded-full !px-4 !py-1 text-sm">{t('market.sortGrade')}</Button>
+              </div>
+            </div>}
+            <MarketFeed entries={marketFeed} />
+            <div className="flex items-center gap-2 mb-8 bg-gray-200/50 dark:bg-black/20 border border-gray-200 dark:border-white/10 rounded-full p-1 w-fit">
+              <Button onClick={() => setMarketSection('house')} size="sm" variant={marketSection === 'house' ? 'secondary' : 'ghost'} className="!rounded-full !px-4 !py-1 text-sm flex items-center"><Store className="h-4 w-4 mr-2" />{t('market.house')}</Button>
+              <Button onClick={() => setMarketSection('listings')} size="sm" variant={marketSection === 'listings' ? 'secondary' : 'ghost'} className="!rounded-full !px-4 !py-1 text-sm flex items-center"><User className="h-4 w-4 mr-2" />{t('market.listings')}</Button>
+              <Button onClick={() => setMarketSection('auctions')} size="sm" variant={marketSection === 'auctions' ? 'secondary' : 'ghost'} className="!rounded-full !px-4 !py-1 text-sm flex items-center"><Gavel className="h-4 w-4 mr-2" />{t('market.auctions')}</Button>
             </div>
-            {isLoading ? <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-4">{Array.from({ length: 12 }).map((_, i) => <div key={i} className="bg-white/5 rounded-3xl aspect-[3/4] animate-pulse border border-white/10"></div>)}</div>
-            : marketPokemons.length > 0 ? <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-4">{marketPokemons.map(pokemon => <PokemonCard key={pokemon.id} pokemon={pokemon} context="market" />)}</div>
-            : <div className="text-center py-20 bg-gray-200/50 dark:bg-black/20 rounded-3xl border-2 border-dashed border-gray-300 dark:border-white/20"><Store className="h-16 w-16 text-gray-400 dark:text-white/30 mx-auto mb-4" /><h2 className="text-2xl font-bold text-gray-900 dark:text-white">Le marché est vide</h2><p className="text-gray-500 dark:text-gray-400 mt-2">Revendez des Pokémon de votre collection pour les voir apparaître ici.</p></div>}
+            {marketSection === 'auctions' ? <AuctionPanel auctions={openAuctions} pokemonsById={auctionPokemons ?? new Map()} traderNames={NPC_TRADER_NAMES} tokenBalance={tokenBalance} onBid={handlePlaceBid} />
+            : isLoading || (marketPages.isLoading && marketPokemons.length === 0) ? <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-4">{Array.from({ length: 12 }).map((_, i) => <div key={i} className="bg-white/5 rounded-3xl aspect-[3/4] animate-pulse border border-white/10"></div>)}</div>
+            : marketPokemons.length > 0 ? <VirtualCardGrid items={marketPokemons} getKey={getPokemonKey} renderItem={pokemon => renderCard(pokemon, 'market')} onEndReached={marketPages.loadMore} />
+            : <div className="text-center py-20 bg-gray-200/50 dark:bg-black/20 rounded-3xl border-2 border-dashed border-gray-300 dark:border-white/20"><Store className="h-16 w-16 text-gray-400 dark:text-white/30 mx-auto mb-4" /><h2 className="text-2xl font-bold text-gray-900 dark:text-white">{marketSection === 'house' ? t('market.houseEmpty') : t('market.listingsEmpty')}</h2><p className="text-gray-500 dark:text-gray-400 mt-2">{marketSection === 'house' ? t('market.houseEmptyHint') : t('market.listingsEmptyHint')}</p></div>}
           </section>
         )}
         
-        {currentView === 'achievements' && (
-          <section className="container mx-auto px-4 sm:px-6 lg:px-8 py-16">
-            <h1 className="text-4xl font-extrabold text-gray-900 dark:text-white mb-8">Mes Succès</h1>
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-              {achievements.map(ach => (
-                <div key={ach.id} className={`p-6 rounded-2xl border transition-all duration-300 flex items-start gap-5 ${ach.unlocked ? 'bg-green-500/10 border-green-500/30' : 'bg-gray-200/50 dark:bg-white/5 border-gray-200 dark:border-white/10'}`}>
-                  <div className={`flex-shrink-0 h-12 w-12 rounded-full flex items-center justify-center ${ach.unlocked ? 'bg-green-500/20 text-green-400' : 'bg-gray-300/50 dark:bg-white/10 text-gray-500 dark:text-gray-400'}`}>
-                    {ach.unlocked ? <CheckCircle className="h-7 w-7" /> : <Lock className="h-7 w-7" />}
-                  </div>
-                  <div>
-                    <h3 className={`font-bold text-lg ${ach.unlocked ? 'text-gray-900 dark:text-white' : 'text-gray-500 dark:text-gray-400'}`}>{ach.name}</h3>
-                    <p className="text-gray-500 dark:text-gray-400 mt-1">{ach.description}</p>
-                    {ach.unlocked && ach.unlockedAt && <p className="text-xs text-green-500/70 dark:text-green-400/70 mt-2">Débloqué le {new Date(ach.unlockedAt).toLocaleDateString()}</p>}
-                  </div>
-                </div>
-              ))}
-            </div>
-          </section>
-        )}
+        {currentView === 'achievements' && <AchievementList definitions={achievementService.getDefinitions()} achievements={achievements} />}
         
-        {currentView === 'leaderboard' && (
-           <section className="container mx-auto px-4 sm:px-6 lg:px-8 py-16">
-            <h1 className="text-4xl font-extrabold text-gray-900 dark:text-white mb-8">Classement des Forgerons</h1>
-             <div className="bg-white/50 dark:bg-black/20 rounded-2xl border border-gray-200/50 dark:border-white/10 overflow-hidden">
-                <table className="w-full text-left">
-                  <thead className="bg-gray-200/50 dark:bg-white/5">
-                    <tr>
-                      <th className="p-4 font-semibold text-gray-600 dark:text-gray-300 w-16 text-center">Rang</th>
-                      <th className="p-4 font-semibold text-gray-600 dark:text-gray-300">Forgeron</th>
-                      <th className="p-4 font-semibold text-gray-600 dark:text-gray-300 w-48 text-center">Pokémon Créés</th>
-                      <th className="p-4 font-semibold text-gray-600 dark:text-gray-300 w-48 text-center">Rareté Moyenne</th>
-                    </tr>
-                  </thead>
-                  <tbody>
-                    {leaderboardData.map((player, index) => (
-                      <tr key={player.name} className={`border-t border-gray-200/50 dark:border-white/10 ${player.name === userLeaderboardStats.name ? 'bg-yellow-400/20' : ''}`}>
-                        <td className="p-4 font-bold text-lg text-center">{index + 1}</td>
-                        <td className="p-4 font-semibold flex items-center gap-3">
-                          <div className={`h-10 w-10 rounded-full flex items-center justify-center ${player.name === userLeaderboardStats.name ? 'bg-yellow-400/30' : 'bg-gray-300/50 dark:bg-white/10'}`}>
-                            <User className="h-6 w-6" />
-                          </div>
-                          {player.name}
-                        </td>
-                        <td className="p-4 font-mono text-center text-lg">{player.pokemons}</td>
-                        <td className="p-4 text-center font-semibold">{player.avgRarityName} <span className="text-sm font-normal text-gray-500">({player.avgRarity.toFixed(2)})</span></td>
-                      </tr>
-                    ))}
-                  </tbody>
-                </table>
-             </div>
-          </section>
+        {currentView === 'leaderboard' && settings && (
+          <Leaderboard ranking={leaderboard.ranking} metric={leaderboardMetric} onMetricChange={setLeaderboardMetric} playerId={leaderboardPlayerId} provider={settings.leaderboardProvider} lastSyncedAt={leaderboard.lastSyncedAt} isSyncing={leaderboard.isSyncing} isOffline={leaderboard.isOffline} error={leaderboard.error} onRefresh={leaderboard.sync} />
+        )}
+
+        {page.view === 'notFound' && (
+          <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-20 text-center">
+            <h1 className="text-4xl font-bold text-gray-900 dark:text-white">{t('notFound.title')}</h1>
+            <p className="text-gray-500 dark:text-gray-400 mt-4">{t('notFound.body', { path: page.path })}</p>
+            <Link to={getViewRoute('studio')} className="inline-block mt-8 font-semibold text-yellow-500 hover:text-yellow-400">{t('notFound.home')}</Link>
+          </div>
+        )}
+
+        {currentView === 'ledger' && <LedgerHistory entries={ledgerEntries} isLoading={isLedgerLoading} />}
+
+        {currentView === 'settings' && settings && (
+          <SettingsPanel settings={settings} onSave={handleSaveSettings}>
+            <BackupPanel onImported={fetchAppData} showMessage={showMessage} />
+          </SettingsPanel>
         )}
 
       </main>
 
       <footer className="border-t border-gray-200/50 dark:border-white/10 mt-16">
-        <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-8"><div className="sm:flex sm:items-center sm:justify-between"><div><p className="text-base font-bold text-gray-900 dark:text-white">© 2025 PokéForge</p><p className="mt-1 text-sm text-gray-500 dark:text-gray-400">Atelier de génération Pokémon.</p></div><div className="flex items-center gap-6 mt-4 sm:mt-0 text-sm font-medium"><a href="#" className="text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white">Mentions légales</a><a href="#" className="text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white">Contact</a></div></div></div>
+        <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-8"><div className="sm:flex sm:items-center sm:justify-between"><div><p className="text-base font-bold text-gray-900 dark:text-white">© 2025 PokéForge</p><p className="mt-1 text-sm text-gray-500 dark:text-gray-400">{t('footer.tagline')}</p></div><div className="flex items-center gap-6 mt-4 sm:mt-0 text-sm font-medium"><a href="#" className="text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white">{t('footer.legal')}</a><a href="#" className="text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white">{t('footer.contact')}</a></div></div></div>
       </footer>
 
-      <Modal isOpen={isModalOpen} onClose={closeModal} title={modalTitle} onConfirm={modalOnConfirm} confirmButtonText={modalConfirmButtonText} cancelButtonText="Annuler" confirmButtonVariant={modalConfirmButtonVariant} isLoading={isModalConfirmLoading}>{modalContent}</Modal>
+      <Modal isOpen={isModalOpen} onClose={closeModal} title={modalTitle} onConfirm={modalOnConfirm} confirmButtonText={modalConfirmButtonText} confirmButtonVariant={modalConfirmButtonVariant} isLoading={isModalConfirmLoading}>{modalContent}</Modal>
       
-      <Modal isOpen={isDailyBonusModalOpen} onClose={() => setIsDailyBonusModalOpen(false)} title="Bonus Quotidien !" onConfirm={handleClaimDailyBonus} confirmButtonText={`Réclamer (+${dailyBonusAmount} jetons)`}>
-        <div className="text-center">
-          <Gift className="h-16 w-16 text-yellow-400 mx-auto mb-4 animate-pulse" />
-          <p className="text-lg text-gray-600 dark:text-gray-300">Bienvenue ! Voici votre coffre du jour pour vous récompenser de votre fidélité.</p>
-        </div>
+      <PackReveal pack={openedPack} onClose={() => setOpenedPack(null)} />
+      <ContactSheetModal isOpen={isContactSheetOpen} onClose={() => setIsContactSheetOpen(false)} onExport={handleExportContactSheet} />
+
+      <ListingModal pokemon={listingPokemon} marketPrice={listingPokemon ? getBuyPrice(listingPokemon) : 0} onClose={() => setListingPokemon(null)} onSubmit={handleCreateListing} />
+
+      <Modal isOpen={route.view === 'card' && !isOpenedPokemonLoading} onClose={closeCard} title={openedPokemon?.name ?? t('card.notFoundTitle')} size={openedPokemon ? 'lg' : 'md'}>
+        {openedPokemon ? (
+          <CardDetailPanel
+            pokemon={openedPokemon}
+            resellValue={getResellValue(openedPokemon)}
+            buyPrice={listings.get(openedPokemon.id)?.askingPrice ?? getBuyPrice(openedPokemon)}
+            events={openedPokemonEvents}
+            onToggleFavorite={handleToggleFavorite}
+            onExport={handleExportCard}
+            onPrevious={showSiblingCard(-1)}
+            onNext={showSiblingCard(1)}
+          />
+        ) : <p className="text-gray-500 dark:text-gray-400">{t('card.notFound')}</p>}
       </Modal>
+
+      {/* The connection is closed: any way out of this dialog reloads the page. */}
+      <Modal isOpen={isDatabaseStale} onClose={() => window.location.reload()} title={t('database.staleTitle')}>
+        <p className="mb-4">{t('database.staleBody')}</p>
+        <Button onClick={() => window.location.reload()}>{t('common.reload')}</Button>
+      </Modal>
+
+      <DailyBonusModal roll={dailyBonusRoll} status={dailyBonusStatus} isClaiming={isClaimingDailyBonus} onClose={() => setDailyBonusRoll(null)} onClaim={handleClaimDailyBonus} />
     </div>
   );
 };
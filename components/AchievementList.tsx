@@ -0,0 +1,71 @@
+// components/AchievementList.tsx
+
+import React from 'react';
+import { CheckCircle, Lock, Medal, Coins } from 'lucide-react';
+import { Achievement, AchievementDefinition, AchievementTier } from '../types';
+import { MessageKey } from '../locales/fr';
+import { getAchievementDescription, getAchievementName } from '../services/achievementDefinitions';
+import { useI18n } from '../hooks/useI18n';
+
+interface AchievementListProps {
+  definitions: AchievementDefinition[];
+  achievements: Achievement[];
+}
+
+const TIER_STYLES: Record<AchievementTier, { label: MessageKey; badge: string; bar: string }> = {
+  bronze: { label: 'achievements.tier.bronze', badge: 'bg-amber-700/20 text-amber-600 dark:text-amber-400 border-amber-700/40', bar: 'bg-amber-600' },
+  silver: { label: 'achievements.tier.silver', badge: 'bg-slate-400/20 text-slate-500 dark:text-slate-300 border-slate-400/40', bar: 'bg-slate-400' },
+  gold: { label: 'achievements.tier.gold', badge: 'bg-yellow-400/20 text-yellow-600 dark:text-yellow-300 border-yellow-400/40', bar: 'bg-yellow-400' },
+};
+
+/**
+ * The Achievements view: every achievement with its progress bar, tier and token reward.
+ */
+const AchievementList: React.FC<AchievementListProps> = ({ definitions, achievements }) => {
+  const { t, formatDate } = useI18n();
+  const byId = new Map<string, Achievement>(achievements.map(a => [a.id, a]));
+  const unlockedCount = achievements.filter(a => a.unlocked).length;
+
+  return (
+    <section className="container mx-auto px-4 sm:px-6 lg:px-8 py-16">
+      <div className="flex flex-wrap justify-between items-baseline gap-4 mb-8">
+        <h1 className="text-4xl font-extrabold text-gray-900 dark:text-white">{t('achievements.title')}</h1>
+        <p className="text-gray-500 dark:text-gray-400 font-semibold">{t('achievements.progress', { count: unlockedCount, total: definitions.length })}</p>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+        {definitions.map(definition => {
+          const achievement = byId.get(definition.id);
+          const progress = Math.min(achievement?.progress ?? 0, definition.target);
+          const isUnlocked = achievement?.unlocked ?? false;
+          const tier = definition.tier ? TIER_STYLES[definition.tier] : null;
+          return (
+            <div key={definition.id} className={`p-6 rounded-2xl border transition-all duration-300 flex items-start gap-5 ${isUnlocked ? 'bg-green-500/10 border-green-500/30' : 'bg-gray-200/50 dark:bg-white/5 border-gray-200 dark:border-white/10'}`}>
+              <div className={`flex-shrink-0 h-12 w-12 rounded-full flex items-center justify-center ${isUnlocked ? 'bg-green-500/20 text-green-400' : 'bg-gray-300/50 dark:bg-white/10 text-gray-500 dark:text-gray-400'}`}>
+                {isUnlocked ? <CheckCircle className="h-7 w-7" /> : <Lock className="h-7 w-7" />}
+              </div>
+              <div className="flex-grow min-w-0">
+                <div className="flex items-center justify-between gap-2">
+                  <h3 className={`font-bold text-lg ${isUnlocked ? 'text-gray-900 dark:text-white' : 'text-gray-500 dark:text-gray-400'}`}>{getAchievementName(definition)}</h3>
+                  {tier && <span className={`flex items-center text-xs font-bold px-2 py-0.5 rounded-full border ${tier.badge}`}><Medal className="h-3 w-3 mr-1" />{t(tier.label)}</span>}
+                </div>
+                <p className="text-gray-500 dark:text-gray-400 mt-1">{getAchievementDescription(definition)}</p>
+                <div className="mt-3">
+                  <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mb-1">
+                    <span>{progress}/{definition.target}</span>
+                    {definition.reward > 0 && <span className="flex items-center"><Coins className="h-3 w-3 mr-1 text-yellow-400" />+{definition.reward}</span>}
+                  </div>
+                  <div className="h-2 rounded-full bg-gray-300/50 dark:bg-white/10 overflow-hidden">
+                    <div className={`h-full rounded-full transition-all duration-500 ${isUnlocked ? 'bg-green-500' : tier?.bar ?? 'bg-orange-400'}`} style={{ width: `${(progress / definition.target) * 100}%` }}></div>
+                  </div>
+                </div>
+                {isUnlocked && achievement?.unlockedAt && <p className="text-xs text-green-500/70 dark:text-green-400/70 mt-2">{t('achievements.unlockedOn', { date: formatDate(achievement.unlockedAt) })}</p>}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </section>
+  );
+};
+
+export default AchievementList;
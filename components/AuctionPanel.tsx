@@ -0,0 +1,127 @@
+// components/AuctionPanel.tsx
+
+import React, { useEffect, useState } from 'react';
+import { Gavel, Lock, Timer } from 'lucide-react';
+import { Auction, Pokemon, PLAYER_BIDDER_ID } from '../types';
+import { usePokemonImage } from '../hooks/usePokemonImage';
+import { getLeadingBid, getMinimumBid } from '../utils/auctions';
+import { formatGrade } from '../utils/grades';
+import Button from './Button';
+import RichMessage from './RichMessage';
+import { i18n } from '../services/i18n';
+import { useI18n } from '../hooks/useI18n';
+
+interface AuctionPanelProps {
+  auctions: Auction[]; // Open auctions, including the ones ended but not settled yet
+  pokemonsById: Map<string, Pokemon>;
+  traderNames: Map<string, string>;
+  tokenBalance: number;
+  onBid: (auction: Auction, amount: number) => Promise<void>;
+}
+
+interface AuctionCardProps {
+  auction: Auction;
+  pokemon: Pokemon;
+  traderNames: Map<string, string>;
+  now: number;
+  tokenBalance: number;
+  onBid: (auction: Auction, amount: number) => Promise<void>;
+}
+
+const formatTimeLeft = (ms: number): string => {
+  const totalMinutes = Math.floor(ms / 60000);
+  if (totalMinutes >= 60) return i18n.t('time.hoursMinutes', { hours: Math.floor(totalMinutes / 60), minutes: totalMinutes % 60 });
+  if (totalMinutes >= 1) return i18n.t('time.minutes', { minutes: totalMinutes });
+  return i18n.t('time.seconds', { seconds: Math.max(0, Math.ceil(ms / 1000)) });
+};
+
+const AuctionCard: React.FC<AuctionCardProps> = ({ auction, pokemon, traderNames, now, tokenBalance, onBid }) => {
+  const { t, formatTokens, formatRarity } = useI18n();
+  const thumbnailUrl = usePokemonImage(pokemon.id, 'thumbnail');
+  const minimumBid = getMinimumBid(auction);
+  const [amount, setAmount] = useState(minimumBid);
+  const [isBidding, setIsBidding] = useState(false);
+
+  useEffect(() => setAmount(prev => Math.max(prev, minimumBid)), [minimumBid]);
+
+  const leading = getLeadingBid(auction);
+  const isLeading = leading?.bidderId === PLAYER_BIDDER_ID;
+  const timeLeft = new Date(auction.endsAt).getTime() - now;
+  const hasEnded = timeLeft <= 0;
+
+  const handleBid = async () => {
+    setIsBidding(true);
+    try {
+      await onBid(auction, amount);
+    } finally {
+      setIsBidding(false);
+    }
+  };
+
+  return (
+    <div className={`rounded-3xl p-4 border backdrop-blur-md bg-white/50 dark:bg-white/10 ${isLeading ? 'border-green-400/60' : 'border-yellow-500/40'}`}>
+      <div className="flex gap-4">
+        <div className="w-24 h-32 flex-shrink-0 rounded-xl overflow-hidden bg-black/5 dark:bg-black/20">
+          {thumbnailUrl ? <img src={thumbnailUrl} alt={pokemon.name} className="object-contain w-full h-full" /> : <div className="w-full h-full animate-pulse bg-black/10 dark:bg-white/5"></div>}
+        </div>
+        <div className="min-w-0 flex-grow">
+          <h3 className="font-bold text-gray-900 dark:text-white truncate">{pokemon.name}</h3>
+          <p className="text-xs text-gray-500 dark:text-gray-400">{formatRarity(pokemon.rarity)} · <span className="font-mono">{formatGrade(pokemon.grade)}</span> · {t('auction.soldBy', { seller: traderNames.get(auction.sellerId) ?? auction.sellerId })}</p>
+          <p className="mt-2 text-sm text-gray-700 dark:text-gray-300">
+            {leading
+              ? <RichMessage id="auction.currentBid" nodes={{ amount: <span className="font-mono font-bold">{formatTokens(leading.amount)}</span> }} params={{ bidder: isLeading ? t('common.you') : traderNames.get(leading.bidderId) ?? leading.bidderId }} />
+              : <RichMessage id="auction.startPrice" nodes={{ amount: <span className="font-mono font-bold">{formatTokens(auction.startPrice)}</span> }} />}
+          </p>
+          <p className="mt-1 text-xs flex items-center gap-1 text-gray-500 dark:text-gray-400"><Timer className="h-3 w-3" />{hasEnded ? t('auction.settling') : t('auction.endsIn', { time: formatTimeLeft(timeLeft) })}</p>
+        </div>
+      </div>
+      {!hasEnded && (
+        isLeading ? (
+          <p className="mt-4 text-sm font-semibold text-green-600 dark:text-green-400 flex items-center gap-2"><Lock className="h-4 w-4" /> {t('auction.leading', { amount: formatTokens(leading!.amount) })}</p>
+        ) : (
+          <div className="mt-4 flex gap-2">
+            <input type="number" min={minimumBid} aria-label={t('auction.amountLabel', { name: pokemon.name })} className="w-28 px-3 py-1 rounded-md bg-white dark:bg-black/30 border border-gray-300 dark:border-white/10 text-gray-900 dark:text-white font-mono" value={amount} onChange={e => setAmount(Math.round(Number(e.target.value) || 0))} />
+            <Button variant="primary" size="sm" className="!px-3 !py-1 text-xs" onClick={handleBid} disabled={isBidding || amount < minimumBid || amount > tokenBalance}><span className="flex items-center"><Gavel className="h-4 w-4 mr-1" />{t('auction.bid')}</span></Button>
+          </div>
+        )
+      )}
+    </div>
+  );
+};
+
+/**
+ * Timed auctions of high-rarity cards, with the tokens currently held by the player's leading bids.
+ */
+const AuctionPanel: React.FC<AuctionPanelProps> = ({ auctions, pokemonsById, traderNames, tokenBalance, onBid }) => {
+  const { t } = useI18n();
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const escrowed = auctions.reduce((sum, auction) => {
+    const leading = getLeadingBid(auction);
+    return leading?.bidderId === PLAYER_BIDDER_ID ? sum + leading.amount : sum;
+  }, 0);
+  const sortedAuctions = [...auctions].sort((a, b) => a.endsAt.localeCompare(b.endsAt));
+
+  return (
+    <div>
+      {escrowed > 0 && <p className="mb-4 text-sm text-gray-600 dark:text-gray-300 flex items-center gap-2"><Lock className="h-4 w-4" /> {t('auction.escrowed')} <span className="font-mono font-bold">{escrowed}</span></p>}
+      {sortedAuctions.length === 0 ? (
+        <div className="text-center py-20 bg-gray-200/50 dark:bg-black/20 rounded-3xl border-2 border-dashed border-gray-300 dark:border-white/20"><Gavel className="h-16 w-16 text-gray-400 dark:text-white/30 mx-auto mb-4" /><h2 className="text-2xl font-bold text-gray-900 dark:text-white">{t('auction.empty')}</h2><p className="text-gray-500 dark:text-gray-400 mt-2">{t('auction.emptyHint')}</p></div>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
+          {sortedAuctions.map(auction => {
+            const pokemon = pokemonsById.get(auction.pokemonId);
+            return pokemon && <AuctionCard key={auction.id} auction={auction} pokemon={pokemon} traderNames={traderNames} now={now} tokenBalance={tokenBalance} onBid={onBid} />;
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AuctionPanel;
@@ -0,0 +1,116 @@
+// components/BackupPanel.tsx
+
+import React, { useRef, useState } from 'react';
+import { Download, Upload, AlertTriangle } from 'lucide-react';
+import { BackupArchive, BackupImportMode, BackupReport } from '../types';
+import { backupService, BackupValidationError } from '../services/backupService';
+import Button from './Button';
+import Modal from './Modal';
+import RichMessage from './RichMessage';
+import { useI18n } from '../hooks/useI18n';
+import { downloadBlob } from '../utils/download';
+
+interface BackupPanelProps {
+  onImported: () => Promise<void>;
+  showMessage: (type: 'success' | 'error' | 'warning', text: string) => void;
+}
+
+/**
+ * Export of the whole local database to a file, and restore from such a file.
+ */
+const BackupPanel: React.FC<BackupPanelProps> = ({ onImported, showMessage }) => {
+  const { t, formatDateTime } = useI18n();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [pendingImport, setPendingImport] = useState<{ archive: BackupArchive; report: BackupReport } | null>(null);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const blob = await backupService.exportBackup();
+      downloadBlob(blob, t('backup.fileName', { date: new Date().toISOString().slice(0, 10) }));
+      showMessage('success', t('backup.exported'));
+    } catch (error) {
+      console.error('Backup export failed:', error);
+      showMessage('error', t('backup.exportFailed'));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const archive = await backupService.parseBackup(file);
+      const report = await backupService.analyzeBackup(archive);
+      setPendingImport({ archive, report });
+    } catch (error) {
+      console.error('Backup validation failed:', error);
+      showMessage('error', error instanceof BackupValidationError ? error.message : t('backup.unreadable'));
+    }
+  };
+
+  const handleImport = async (mode: BackupImportMode) => {
+    if (!pendingImport) return;
+    setIsImporting(true);
+    try {
+      await backupService.importBackup(pendingImport.archive, mode);
+      setPendingImport(null);
+      await onImported();
+      showMessage('success', mode === 'replace' ? t('backup.replaced') : t('backup.merged'));
+    } catch (error) {
+      console.error('Backup import failed:', error);
+      showMessage('error', t('backup.importFailed'));
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const report = pendingImport?.report;
+
+  return (
+    <div className="bg-white/50 dark:bg-black/20 rounded-3xl p-8 border border-gray-200/50 dark:border-white/10 backdrop-blur-lg max-w-3xl mt-8">
+      <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">{t('backup.title')}</h2>
+      <p className="text-gray-500 dark:text-gray-400 mb-6">{t('backup.intro')}</p>
+      <div className="flex flex-col sm:flex-row gap-4">
+        <Button variant="secondary" onClick={handleExport} disabled={isExporting}><span className="flex items-center justify-center"><Download className="h-5 w-5 mr-2" />{isExporting ? t('backup.exporting') : t('backup.export')}</span></Button>
+        <Button variant="secondary" onClick={() => fileInputRef.current?.click()}><span className="flex items-center justify-center"><Upload className="h-5 w-5 mr-2" />{t('backup.import')}</span></Button>
+        <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleFileSelected} />
+      </div>
+
+      <Modal isOpen={pendingImport !== null} onClose={() => !isImporting && setPendingImport(null)} title={t('backup.importTitle')}>
+        {report && (
+          <div className="space-y-4">
+            <ul className="text-gray-600 dark:text-gray-300 space-y-1">
+              <li><RichMessage id="backup.exportedAt" nodes={{ date: <span className="font-semibold">{formatDateTime(report.exportedAt)}</span> }} params={{ version: String(report.schemaVersion) }} /></li>
+              <li><RichMessage id="backup.contents" nodes={{
+                pokemons: <span className="font-semibold">{report.pokemonCount}</span>,
+                images: <span className="font-semibold">{report.imageCount}</span>,
+                entries: <span className="font-semibold">{report.ledgerEntryCount}</span>,
+              }} /></li>
+            </ul>
+            {report.conflictingPokemonIds.length > 0 && (
+              <div className="flex gap-3 p-3 rounded-xl bg-yellow-400/20 border border-yellow-400/30 text-yellow-700 dark:text-yellow-200 text-sm">
+                <AlertTriangle className="h-5 w-5 flex-shrink-0" />
+                <div>
+                  <p className="font-semibold">{t('backup.conflicts', { count: report.conflictingPokemonIds.length })}</p>
+                  <p className="font-mono text-xs mt-1 break-all">{report.conflictingPokemonIds.slice(0, 5).join(', ')}{report.conflictingPokemonIds.length > 5 ? '…' : ''}</p>
+                </div>
+              </div>
+            )}
+            <p className="text-sm text-gray-500 dark:text-gray-400"><RichMessage id="backup.modes" nodes={{ merge: <span className="font-semibold">{t('backup.merge')}</span>, replace: <span className="font-semibold">{t('backup.replace')}</span> }} /></p>
+            <div className="flex justify-end gap-3 pt-2">
+              <Button variant="secondary" onClick={() => handleImport('merge')} disabled={isImporting}>{t('backup.merge')}</Button>
+              <Button variant="danger" onClick={() => handleImport('replace')} disabled={isImporting}>{isImporting ? t('backup.importing') : t('backup.replace')}</Button>
+            </div>
+          </div>
+        )}
+      </Modal>
+    </div>
+  );
+};
+
+export default BackupPanel;
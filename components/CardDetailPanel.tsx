@@ -0,0 +1,181 @@
+// components/CardDetailPanel.tsx
+
+import React, { useEffect, useState } from 'react';
+import { ArrowDownCircle, ArrowUpCircle, ChevronLeft, ChevronRight, Download, Sparkles, Star, Store, Tag, XCircle, ZoomIn, ZoomOut } from 'lucide-react';
+import { CardEvent, CardEventType, Pokemon, PokemonStatus } from '../types';
+import { MessageKey } from '../locales/fr';
+import { useI18n } from '../hooks/useI18n';
+import { formatGrade } from '../utils/grades';
+import FullSizeImage from './FullSizeImage';
+import { CARD_EXPORT_RESOLUTIONS, DEFAULT_CARD_EXPORT_RESOLUTION } from '../services/cardExportService';
+
+const ZOOM_SCALE = 2.5;
+
+const EVENT_ICONS: Record<CardEventType, React.ReactNode> = {
+  [CardEventType.FORGED]: <Sparkles className="h-4 w-4 text-yellow-400" />,
+  [CardEventType.LISTED]: <Tag className="h-4 w-4 text-green-400" />,
+  [CardEventType.UNLISTED]: <XCircle className="h-4 w-4 text-gray-400" />,
+  [CardEventType.SOLD]: <ArrowUpCircle className="h-4 w-4 text-green-400" />,
+  [CardEventType.RESOLD]: <Store className="h-4 w-4 text-orange-400" />,
+  [CardEventType.BOUGHT]: <ArrowDownCircle className="h-4 w-4 text-blue-400" />,
+};
+
+const EVENT_LABELS: Record<CardEventType, MessageKey> = {
+  [CardEventType.FORGED]: 'cardEvent.FORGED',
+  [CardEventType.LISTED]: 'cardEvent.LISTED',
+  [CardEventType.UNLISTED]: 'cardEvent.UNLISTED',
+  [CardEventType.SOLD]: 'cardEvent.SOLD',
+  [CardEventType.RESOLD]: 'cardEvent.RESOLD',
+  [CardEventType.BOUGHT]: 'cardEvent.BOUGHT',
+};
+
+interface CardDetailPanelProps {
+  pokemon: Pokemon;
+  resellValue: number;
+  buyPrice: number; // The asking price for listed cards
+  events: CardEvent[] | null; // The card's history, oldest first, or null while loading
+  onToggleFavorite: (pokemon: Pokemon) => void;
+  onExport: (pokemon: Pokemon, dpi: number) => Promise<void>; // Downloads the card as a printable image
+  onPrevious: (() => void) | null; // Opens the previous card of the list behind, if any
+  onNext: (() => void) | null;
+}
+
+/**
+ * Everything known about a card: its image with a zoom, its metadata, its current prices and its history,
+ * and a printable export of it.
+ * The arrow keys move to the previous or next card of the list it was opened from.
+ */
+const CardDetailPanel: React.FC<CardDetailPanelProps> = ({ pokemon, resellValue, buyPrice, events, onToggleFavorite, onExport, onPrevious, onNext }) => {
+  const { t, formatTokens, formatRarity, formatDateTime } = useI18n();
+  const [isZoomed, setIsZoomed] = useState(false);
+  const [zoomOrigin, setZoomOrigin] = useState('50% 50%');
+  const [exportDpi, setExportDpi] = useState(DEFAULT_CARD_EXPORT_RESOLUTION);
+  const [isExporting, setIsExporting] = useState(false);
+  const isPlayerCard = pokemon.status === PokemonStatus.OWNED || (pokemon.status === PokemonStatus.LISTED && !pokemon.traderId);
+
+  useEffect(() => {
+    setIsZoomed(false);
+    setZoomOrigin('50% 50%');
+  }, [pokemon.id]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.target instanceof HTMLElement && event.target.closest('input, textarea, select')) return;
+      if (event.key === 'ArrowLeft' && onPrevious) onPrevious();
+      if (event.key === 'ArrowRight' && onNext) onNext();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onPrevious, onNext]);
+
+  // The zoom follows the pointer, so the whole image can be inspected by moving over it.
+  const updateZoomOrigin = (event: React.MouseEvent<HTMLDivElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    const x = ((event.clientX - bounds.left) / bounds.width) * 100;
+    const y = ((event.clientY - bounds.top) / bounds.height) * 100;
+    setZoomOrigin(`${x}% ${y}%`);
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      await onExport(pokemon, exportDpi);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const formatAmount = (amount: number) => `${amount >= 0 ? '+' : '−'}${formatTokens(Math.abs(amount))}`;
+
+  return (
+    <div className="grid md:grid-cols-2 gap-6">
+      <div>
+        <div
+          className={`relative overflow-hidden rounded-2xl ${isZoomed ? 'cursor-zoom-out' : 'cursor-zoom-in'}`}
+          onClick={event => {
+            updateZoomOrigin(event);
+            setIsZoomed(zoomed => !zoomed);
+          }}
+          onMouseMove={isZoomed ? updateZoomOrigin : undefined}
+        >
+          <div className="transition-transform duration-200" style={{ transform: isZoomed ? `scale(${ZOOM_SCALE})` : 'none', transformOrigin: zoomOrigin }}>
+            <FullSizeImage pokemon={pokemon} />
+          </div>
+        </div>
+        <div className="flex items-center justify-between mt-3">
+          <button onClick={onPrevious ?? undefined} disabled={!onPrevious} aria-label={t('cardDetail.previous')} title={t('cardDetail.previous')} className="p-2 rounded-full text-gray-400 hover:text-white hover:bg-white/10 disabled:opacity-30 disabled:hover:bg-transparent transition-colors">
+            <ChevronLeft className="h-5 w-5" />
+          </button>
+          <button onClick={() => setIsZoomed(zoomed => !zoomed)} className="flex items-center gap-2 px-3 py-1 rounded-full text-sm text-gray-300 hover:text-white hover:bg-white/10 transition-colors">
+            {isZoomed ? <ZoomOut className="h-4 w-4" /> : <ZoomIn className="h-4 w-4" />}
+            {isZoomed ? t('cardDetail.zoomOut') : t('cardDetail.zoomIn')}
+          </button>
+          <button onClick={onNext ?? undefined} disabled={!onNext} aria-label={t('cardDetail.next')} title={t('cardDetail.next')} className="p-2 rounded-full text-gray-400 hover:text-white hover:bg-white/10 disabled:opacity-30 disabled:hover:bg-transparent transition-colors">
+            <ChevronRight className="h-5 w-5" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-6 text-sm">
+        <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-2">
+          <dt className="text-gray-400">{t('cardDetail.id')}</dt>
+          <dd className="font-mono break-all text-gray-200">{pokemon.id}</dd>
+          <dt className="text-gray-400">{t('cardDetail.grade')}</dt>
+          <dd className="font-mono font-bold text-white">{formatGrade(pokemon.grade)}</dd>
+          <dt className="text-gray-400">{t('cardDetail.rarity')}</dt>
+          <dd className="font-semibold text-white">{formatRarity(pokemon.rarity)}</dd>
+          <dt className="text-gray-400">{t('cardDetail.generatedAt')}</dt>
+          <dd className="text-gray-200">
+            {formatDateTime(pokemon.generatedAt)}
+            <span className="block font-mono text-xs text-gray-500 break-all">{pokemon.generatedAt}</span>
+          </dd>
+          <dt className="text-gray-400">{t('cardDetail.resellValue')}</dt>
+          <dd className="font-semibold text-white">{formatTokens(resellValue)}</dd>
+          <dt className="text-gray-400">{t('cardDetail.buyPrice')}</dt>
+          <dd className="font-semibold text-white">{formatTokens(buyPrice)}</dd>
+        </dl>
+
+        <div className="flex items-center gap-2">
+          <select aria-label={t('cardExport.resolution')} value={exportDpi} onChange={e => setExportDpi(Number(e.target.value))} className="px-3 py-2 rounded-full bg-black/30 border border-white/10 text-gray-200">
+            {CARD_EXPORT_RESOLUTIONS.map(option => <option key={option} value={option}>{t('cardExport.resolutionOption', { dpi: option })}</option>)}
+          </select>
+          <button onClick={handleExport} disabled={isExporting} className="flex items-center gap-2 px-4 py-2 rounded-full border border-white/10 text-gray-200 hover:border-yellow-400/60 disabled:opacity-60 transition-colors">
+            <Download className="h-4 w-4" />
+            {isExporting ? t('cardExport.exporting') : t('cardExport.download')}
+          </button>
+        </div>
+
+        {isPlayerCard && (
+          <button onClick={() => onToggleFavorite(pokemon)} aria-pressed={pokemon.isFavorite} className="self-start flex items-center gap-2 px-4 py-2 rounded-full border border-white/10 text-gray-200 hover:border-yellow-400/60 transition-colors">
+            <Star className={`h-4 w-4 ${pokemon.isFavorite ? 'text-yellow-400 fill-current' : ''}`} />
+            {pokemon.isFavorite ? t('cardDetail.unfavorite') : t('cardDetail.favorite')}
+          </button>
+        )}
+
+        <section>
+          <h4 className="font-semibold text-white mb-3">{t('cardDetail.history')}</h4>
+          {events === null ? (
+            <p className="text-gray-500">{t('cardDetail.historyLoading')}</p>
+          ) : events.length === 0 ? (
+            <p className="text-gray-500">{t('cardDetail.historyEmpty')}</p>
+          ) : (
+            <ol className="relative border-l border-white/10 ml-2 space-y-4">
+              {events.map(event => (
+                <li key={event.id} className="ml-5">
+                  <span className="absolute -left-2.5 flex items-center justify-center h-5 w-5 rounded-full bg-gray-800">{EVENT_ICONS[event.type]}</span>
+                  <div className="flex items-center justify-between gap-3">
+                    <span className="font-medium text-gray-200">{t(EVENT_LABELS[event.type])}</span>
+                    {event.amount !== null && <span className={`font-mono font-bold ${event.amount >= 0 ? 'text-green-400' : 'text-red-400'}`}>{formatAmount(event.amount)}</span>}
+                  </div>
+                  <time dateTime={event.timestamp} className="text-xs text-gray-500">{formatDateTime(event.timestamp)}</time>
+                </li>
+              ))}
+            </ol>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default CardDetailPanel;
@@ -0,0 +1,91 @@
+// components/CollectionQueryBar.tsx
+
+import React from 'react';
+import { Search, ShieldCheck, Store, Tag, Handshake, Star, ArrowDownWideNarrow, ArrowUpNarrowWide, RotateCcw } from 'lucide-react';
+import { CollectionQuery, CollectionSortKey, PokemonRarity, PokemonStatus, DEFAULT_COLLECTION_QUERY } from '../types';
+import Button from './Button';
+import { MessageKey } from '../locales/fr';
+import { useI18n } from '../hooks/useI18n';
+
+interface CollectionQueryBarProps {
+  query: CollectionQuery;
+  onChange: (query: CollectionQuery) => void;
+  resultCount: number;
+  hasMore: boolean; // More matches exist beyond the pages loaded so far
+}
+
+const STATUS_OPTIONS: { status: PokemonStatus; label: MessageKey; icon: React.ReactNode }[] = [
+  { status: PokemonStatus.OWNED, label: 'collection.status.owned', icon: <ShieldCheck className="h-4 w-4 mr-2" /> },
+  { status: PokemonStatus.LISTED, label: 'collection.status.listed', icon: <Store className="h-4 w-4 mr-2" /> },
+  { status: PokemonStatus.RESOLD, label: 'collection.status.resold', icon: <Tag className="h-4 w-4 mr-2" /> },
+  { status: PokemonStatus.TRADED, label: 'collection.status.traded', icon: <Handshake className="h-4 w-4 mr-2" /> },
+];
+
+const SORT_LABELS: Record<CollectionSortKey, MessageKey> = {
+  date: 'collection.sort.date',
+  name: 'collection.sort.name',
+  rarity: 'collection.sort.rarity',
+  value: 'collection.sort.value',
+};
+
+const inputStyles = 'px-4 py-2 rounded-full bg-white dark:bg-black/30 border border-gray-300 dark:border-white/10 text-gray-900 dark:text-white text-sm shadow-sm focus:ring-orange-500 focus:border-orange-500';
+const chipGroupStyles = 'flex items-center flex-wrap gap-2 bg-gray-200/50 dark:bg-black/20 border border-gray-200 dark:border-white/10 rounded-full p-1';
+
+/**
+ * Toggles a value in a multi-select list.
+ */
+const toggle = <T,>(values: T[], value: T): T[] => values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+
+/**
+ * Search field, multi-select filters, date range and sort order of the Collection view.
+ */
+const CollectionQueryBar: React.FC<CollectionQueryBarProps> = ({ query, onChange, resultCount, hasMore }) => {
+  const { t, formatRarity } = useI18n();
+  const update = (changes: Partial<CollectionQuery>) => onChange({ ...query, ...changes });
+
+  return (
+    <div className="space-y-4 mb-8">
+      <div className="flex flex-wrap items-center gap-4">
+        <div className="relative flex-grow min-w-[14rem]">
+          <Search className="h-4 w-4 absolute left-4 top-1/2 -translate-y-1/2 text-gray-400" />
+          <input type="search" aria-label={t('collection.searchLabel')} placeholder={t('collection.searchPlaceholder')} className={`${inputStyles} w-full !pl-10`} value={query.search} onChange={e => update({ search: e.target.value })} />
+        </div>
+        <div className="flex items-center gap-2">
+          <select aria-label={t('collection.sortLabel')} className={inputStyles} value={query.sortBy} onChange={e => update({ sortBy: e.target.value as CollectionSortKey })}>
+            {(Object.keys(SORT_LABELS) as CollectionSortKey[]).map(key => <option key={key} value={key}>{t(SORT_LABELS[key])}</option>)}
+          </select>
+          <Button variant="ghost" size="sm" className="!px-3" title={query.sortDirection === 'asc' ? t('collection.ascending') : t('collection.descending')} onClick={() => update({ sortDirection: query.sortDirection === 'asc' ? 'desc' : 'asc' })}>
+            {query.sortDirection === 'asc' ? <ArrowUpNarrowWide className="h-5 w-5" /> : <ArrowDownWideNarrow className="h-5 w-5" />}
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4">
+        <div className={chipGroupStyles}>
+          {STATUS_OPTIONS.map(({ status, label, icon }) => (
+            <Button key={status} onClick={() => update({ statuses: toggle(query.statuses, status) })} size="sm" variant={query.statuses.includes(status) ? 'secondary' : 'ghost'} className="!rounded-full !px-4 !py-1 text-sm flex items-center">{icon}{t(label)}</Button>
+          ))}
+          <Button onClick={() => update({ favoritesOnly: !query.favoritesOnly })} size="sm" variant={query.favoritesOnly ? 'secondary' : 'ghost'} className="!rounded-full !px-4 !py-1 text-sm flex items-center"><Star className="h-4 w-4 mr-2" /> {t('collection.favorites')}</Button>
+        </div>
+        <div className={chipGroupStyles}>
+          {Object.values(PokemonRarity).map(rarity => (
+            <Button key={rarity} onClick={() => update({ rarities: toggle(query.rarities, rarity) })} size="sm" variant={query.rarities.includes(rarity) ? 'secondary' : 'ghost'} className="!rounded-full !px-4 !py-1 text-sm">{formatRarity(rarity)}</Button>
+          ))}
+        </div>
+        <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+          <label htmlFor="generatedFrom">{t('collection.from')}</label>
+          <input id="generatedFrom" type="date" className={inputStyles} value={query.generatedFrom ?? ''} max={query.generatedTo ?? undefined} onChange={e => update({ generatedFrom: e.target.value || null })} />
+          <label htmlFor="generatedTo">{t('collection.to')}</label>
+          <input id="generatedTo" type="date" className={inputStyles} value={query.generatedTo ?? ''} min={query.generatedFrom ?? undefined} onChange={e => update({ generatedTo: e.target.value || null })} />
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between text-sm text-gray-500 dark:text-gray-400">
+        <span>{t(hasMore ? 'collection.countMore' : 'collection.count', { count: resultCount })}</span>
+        <Button variant="ghost" size="sm" className="!px-3 !py-1 text-xs flex items-center" onClick={() => onChange(DEFAULT_COLLECTION_QUERY)}><RotateCcw className="h-4 w-4 mr-1" /> {t('collection.reset')}</Button>
+      </div>
+    </div>
+  );
+};
+
+export default CollectionQueryBar;
@@ -0,0 +1,59 @@
+// components/ContactSheetModal.tsx
+
+import React, { useState } from 'react';
+import Modal from './Modal';
+import { useI18n } from '../hooks/useI18n';
+import { CARD_EXPORT_RESOLUTIONS, DEFAULT_CARD_EXPORT_RESOLUTION } from '../services/cardExportService';
+
+const COLUMN_OPTIONS = [2, 3, 4, 5, 6];
+const DEFAULT_COLUMNS = 3; // Fits an A4 page at the cards' real size
+
+interface ContactSheetModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onExport: (dpi: number, columns: number) => Promise<void>; // Closes the modal on success; failures keep it open
+}
+
+const inputStyles = 'mt-1 block w-full px-4 py-2 rounded-md bg-white dark:bg-black/30 border border-gray-300 dark:border-white/10 text-gray-900 dark:text-white shadow-sm focus:ring-orange-500 focus:border-orange-500 sm:text-base';
+const labelStyles = 'block text-sm font-medium text-gray-700 dark:text-gray-300';
+
+/**
+ * Options of a contact sheet export: the print resolution and the number of cards per row.
+ */
+const ContactSheetModal: React.FC<ContactSheetModalProps> = ({ isOpen, onClose, onExport }) => {
+  const { t } = useI18n();
+  const [dpi, setDpi] = useState(DEFAULT_CARD_EXPORT_RESOLUTION);
+  const [columns, setColumns] = useState(DEFAULT_COLUMNS);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleConfirm = async () => {
+    setIsExporting(true);
+    try {
+      await onExport(dpi, columns);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={() => !isExporting && onClose()} title={t('cardExport.sheetTitle')} onConfirm={handleConfirm} confirmButtonText={t('cardExport.download')} isLoading={isExporting}>
+      <div className="space-y-4">
+        <p className="text-gray-600 dark:text-gray-300">{t('cardExport.sheetBody')}</p>
+        <div>
+          <label htmlFor="sheetResolution" className={labelStyles}>{t('cardExport.resolution')}</label>
+          <select id="sheetResolution" className={inputStyles} value={dpi} onChange={e => setDpi(Number(e.target.value))}>
+            {CARD_EXPORT_RESOLUTIONS.map(option => <option key={option} value={option}>{t('cardExport.resolutionOption', { dpi: option })}</option>)}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="sheetColumns" className={labelStyles}>{t('cardExport.columns')}</label>
+          <select id="sheetColumns" className={inputStyles} value={columns} onChange={e => setColumns(Number(e.target.value))}>
+            {COLUMN_OPTIONS.map(option => <option key={option} value={option}>{option}</option>)}
+          </select>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default ContactSheetModal;
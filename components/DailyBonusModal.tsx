@@ -0,0 +1,54 @@
+// components/DailyBonusModal.tsx
+
+import React from 'react';
+import { Check, Flame, Gift, Sparkles } from 'lucide-react';
+import { DailyBonusRoll, DailyBonusStatus, DAILY_BONUS_CYCLE_DAYS } from '../types';
+import { DAILY_BONUS_CALENDAR, DAILY_BONUS_GRACE_DAYS } from '../utils/dailyBonus';
+import Modal from './Modal';
+import { useI18n } from '../hooks/useI18n';
+
+interface DailyBonusModalProps {
+  roll: DailyBonusRoll | null; // Today's unclaimed reward; the modal is closed when null
+  status: DailyBonusStatus | null;
+  isClaiming: boolean;
+  onClose: () => void;
+  onClaim: () => void;
+}
+
+/**
+ * Offers the daily reward, with the streak and where it stands on the reward calendar.
+ */
+const DailyBonusModal: React.FC<DailyBonusModalProps> = ({ roll, status, isClaiming, onClose, onClaim }) => {
+  const { t, formatTokens } = useI18n();
+  const calendarDay = roll ? (roll.streak - 1) % DAILY_BONUS_CYCLE_DAYS : 0;
+  const streakLost = roll !== null && roll.streak === 1 && (status?.currentStreak ?? 0) > 1;
+  const confirmText = roll ? t(roll.forgeGrade ? 'dailyBonus.claimWithCard' : 'dailyBonus.claimAmount', { amount: formatTokens(roll.amount) }) : t('dailyBonus.claim');
+
+  return (
+    <Modal isOpen={roll !== null} onClose={onClose} title={t('dailyBonus.title')} onConfirm={onClaim} confirmButtonText={confirmText} cancelButtonText={t('dailyBonus.later')} isLoading={isClaiming}>
+      <div className="text-center">
+        <Gift className="h-16 w-16 text-yellow-400 mx-auto mb-4 animate-pulse" />
+        <p className="text-lg text-gray-600 dark:text-gray-300">{t('dailyBonus.welcome')}</p>
+        {roll && (
+          <>
+            <p className="mt-4 font-semibold text-orange-500 dark:text-orange-400 flex items-center justify-center gap-2"><Flame className="h-5 w-5" /> {t('dailyBonus.streak', { count: roll.streak, best: Math.max(roll.streak, status?.bestStreak ?? 0) })}</p>
+            {streakLost && <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">{t('dailyBonus.streakLost', { count: status!.currentStreak })}</p>}
+            <ol className="mt-4 grid grid-cols-7 gap-2">
+              {DAILY_BONUS_CALENDAR.map((reward, index) => (
+                <li key={index} className={`rounded-xl p-2 text-xs border ${index === calendarDay ? 'border-yellow-400 bg-yellow-400/10 text-gray-900 dark:text-white' : index < calendarDay ? 'border-green-400/40 text-green-600 dark:text-green-400' : 'border-gray-300 dark:border-white/10 text-gray-500 dark:text-gray-400'}`}>
+                  <p className="font-semibold">{t('dailyBonus.day', { day: index + 1 })}</p>
+                  {index < calendarDay ? <Check className="h-4 w-4 mx-auto my-1" /> : <p className="font-mono">{index === calendarDay ? roll.amount : `${reward.minTokens}–${reward.maxTokens}`}</p>}
+                  {reward.rareForge && <Sparkles className="h-4 w-4 mx-auto text-purple-400" aria-label={t('dailyBonus.rareForge')} />}
+                </li>
+              ))}
+            </ol>
+            {roll.forgeGrade && <p className="mt-4 font-semibold text-purple-500 dark:text-purple-400">{t('dailyBonus.forgeWaiting', { grade: String(roll.forgeGrade) })}</p>}
+            <p className="mt-4 text-xs text-gray-500 dark:text-gray-400">{t('dailyBonus.graceHint', { count: DAILY_BONUS_GRACE_DAYS })}</p>
+          </>
+        )}
+      </div>
+    </Modal>
+  );
+};
+
+export default DailyBonusModal;
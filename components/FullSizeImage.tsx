@@ -0,0 +1,30 @@
+// components/FullSizeImage.tsx
+
+import React from 'react';
+import { Loader2 } from 'lucide-react';
+import { Pokemon } from '../types';
+import { usePokemonImage } from '../hooks/usePokemonImage';
+
+interface FullSizeImageProps {
+  pokemon: Pokemon;
+  className?: string;
+}
+
+/**
+ * Loads and displays the full-size image of a card; only mounted once the card is opened.
+ */
+const FullSizeImage: React.FC<FullSizeImageProps> = ({ pokemon, className }) => {
+  const imageUrl = usePokemonImage(pokemon.id, 'full');
+
+  if (!imageUrl) {
+    return (
+      <div className={`flex items-center justify-center aspect-square bg-black/20 rounded-2xl ${className || ''}`}>
+        <Loader2 className="h-8 w-8 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  return <img src={imageUrl} alt={pokemon.name} className={`w-full h-auto rounded-2xl object-contain ${className || ''}`} />;
+};
+
+export default FullSizeImage;
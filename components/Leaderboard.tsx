@@ -0,0 +1,95 @@
+// components/Leaderboard.tsx
+
+import React from 'react';
+import { Loader2, RefreshCw, User, WifiOff } from 'lucide-react';
+import { LeaderboardMetric, LeaderboardProviderId, LeaderboardRanking } from '../types';
+import { LEADERBOARD_METRICS, getAverageRarity } from '../utils/leaderboard';
+import Button from './Button';
+import { useI18n } from '../hooks/useI18n';
+
+interface LeaderboardProps {
+  ranking: LeaderboardRanking | null;
+  metric: LeaderboardMetric;
+  onMetricChange: (metric: LeaderboardMetric) => void;
+  playerId: string; // Highlights the player's own row
+  provider: LeaderboardProviderId;
+  lastSyncedAt: string | null;
+  isSyncing: boolean;
+  isOffline: boolean;
+  error: string | null;
+  onRefresh: () => void;
+}
+
+const headerStyles = 'p-4 font-semibold text-gray-600 dark:text-gray-300 text-center';
+
+/**
+ * The Classement view: players ranked on the chosen metric, with the sync status of the leaderboard.
+ */
+const Leaderboard: React.FC<LeaderboardProps> = ({ ranking, metric, onMetricChange, playerId, provider, lastSyncedAt, isSyncing, isOffline, error, onRefresh }) => {
+  const { t, formatDateTime, formatNumber, formatRarity } = useI18n();
+  const averageRarityName = (avgRarity: number) => {
+    const rarity = getAverageRarity(avgRarity);
+    return rarity ? formatRarity(rarity) : t('common.notAvailable');
+  };
+  const highlight = (column: LeaderboardMetric) => (column === metric ? 'bg-yellow-400/10' : '');
+
+  return (
+    <section className="container mx-auto px-4 sm:px-6 lg:px-8 py-16">
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-8">
+        <h1 className="text-4xl font-extrabold text-gray-900 dark:text-white">{t('leaderboard.title')}</h1>
+        <div className="flex items-center gap-3 text-sm text-gray-500 dark:text-gray-400">
+          {isOffline && <span className="flex items-center gap-1 text-orange-500"><WifiOff className="h-4 w-4" /> {t('header.offline')}</span>}
+          <span>{provider === 'local' ? t('leaderboard.local') : t('leaderboard.online')} · {lastSyncedAt ? t('leaderboard.syncedAt', { date: formatDateTime(lastSyncedAt) }) : t('leaderboard.neverSynced')}</span>
+          <Button variant="ghost" size="sm" className="!px-3 !py-1" onClick={onRefresh} disabled={isSyncing} title={t('leaderboard.sync')}>
+            {isSyncing ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+          </Button>
+        </div>
+      </div>
+      <div className="flex items-center flex-wrap gap-2 mb-8 bg-gray-200/50 dark:bg-black/20 border border-gray-200 dark:border-white/10 rounded-full p-1 w-fit">
+        {LEADERBOARD_METRICS.map(option => (
+          <Button key={option.id} onClick={() => onMetricChange(option.id)} size="sm" variant={metric === option.id ? 'secondary' : 'ghost'} className="!rounded-full !px-4 !py-1 text-sm">{t(option.label)}</Button>
+        ))}
+      </div>
+      {isOffline && <p className="mb-4 text-sm text-orange-500">{t('leaderboard.unreachable')} {ranking ? t('leaderboard.unreachableCached') : t('leaderboard.unreachableEmpty')}</p>}
+      {error && <p className="mb-4 text-sm text-red-500">{error}</p>}
+      <div className="bg-white/50 dark:bg-black/20 rounded-2xl border border-gray-200/50 dark:border-white/10 overflow-x-auto">
+        <table className="w-full text-left">
+          <thead className="bg-gray-200/50 dark:bg-white/5">
+            <tr>
+              <th className={`${headerStyles} w-16`}>{t('leaderboard.column.rank')}</th>
+              <th className="p-4 font-semibold text-gray-600 dark:text-gray-300">{t('leaderboard.column.player')}</th>
+              <th className={`${headerStyles} ${highlight('pokemonCount')}`}>{t('leaderboard.column.pokemonCount')}</th>
+              <th className={`${headerStyles} ${highlight('avgRarity')}`}>{t('leaderboard.column.avgRarity')}</th>
+              <th className={`${headerStyles} ${highlight('collectionValue')}`}>{t('leaderboard.column.collectionValue')}</th>
+              <th className={`${headerStyles} ${highlight('achievementCount')}`}>{t('leaderboard.column.achievementCount')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {!ranking || ranking.entries.length === 0 ? (
+              <tr><td colSpan={6} className="p-8 text-center text-gray-500 dark:text-gray-400">{isSyncing ? t('leaderboard.loading') : t('leaderboard.empty')}</td></tr>
+            ) : ranking.entries.map((player, index) => {
+              const isPlayer = player.playerId === playerId;
+              return (
+                <tr key={player.playerId} className={`border-t border-gray-200/50 dark:border-white/10 ${isPlayer ? 'bg-yellow-400/20' : ''}`}>
+                  <td className="p-4 font-bold text-lg text-center">{index + 1}</td>
+                  <td className="p-4 font-semibold flex items-center gap-3">
+                    <div className={`h-10 w-10 rounded-full flex items-center justify-center ${isPlayer ? 'bg-yellow-400/30' : 'bg-gray-300/50 dark:bg-white/10'}`}>
+                      <User className="h-6 w-6" />
+                    </div>
+                    {player.playerName}
+                  </td>
+                  <td className={`p-4 font-mono text-center text-lg ${highlight('pokemonCount')}`}>{player.pokemonCount}</td>
+                  <td className={`p-4 text-center font-semibold ${highlight('avgRarity')}`}>{averageRarityName(player.avgRarity)} <span className="text-sm font-normal text-gray-500">({formatNumber(player.avgRarity, { minimumFractionDigits: 2, maximumFractionDigits: 2 })})</span></td>
+                  <td className={`p-4 font-mono text-center ${highlight('collectionValue')}`}>{formatNumber(player.collectionValue)}</td>
+                  <td className={`p-4 font-mono text-center ${highlight('achievementCount')}`}>{player.achievementCount}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+};
+
+export default Leaderboard;
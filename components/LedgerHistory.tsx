@@ -0,0 +1,77 @@
+// components/LedgerHistory.tsx
+
+import React from 'react';
+import { ArrowDownCircle, ArrowUpCircle, History } from 'lucide-react';
+import { LedgerEntry, LedgerReason } from '../types';
+import { MessageKey } from '../locales/fr';
+import { useI18n } from '../hooks/useI18n';
+
+interface LedgerHistoryProps {
+  entries: LedgerEntry[];
+  isLoading: boolean;
+}
+
+const REASON_LABELS: Record<LedgerReason, MessageKey> = {
+  [LedgerReason.INITIAL_GRANT]: 'ledger.reason.initialGrant',
+  [LedgerReason.MIGRATION]: 'ledger.reason.migration',
+  [LedgerReason.GENERATION]: 'ledger.reason.generation',
+  [LedgerReason.REFUND]: 'ledger.reason.refund',
+  [LedgerReason.RESALE]: 'ledger.reason.resale',
+  [LedgerReason.MARKET_PURCHASE]: 'ledger.reason.marketPurchase',
+  [LedgerReason.DAILY_BONUS]: 'ledger.reason.dailyBonus',
+  [LedgerReason.ACHIEVEMENT_REWARD]: 'ledger.reason.achievementReward',
+  [LedgerReason.LISTING_SALE]: 'ledger.reason.listingSale',
+  [LedgerReason.AUCTION_ESCROW]: 'ledger.reason.auctionEscrow',
+  [LedgerReason.AUCTION_REFUND]: 'ledger.reason.auctionRefund',
+  [LedgerReason.QUEUED_GENERATION]: 'ledger.reason.queuedGeneration',
+  [LedgerReason.PACK_PURCHASE]: 'ledger.reason.packPurchase',
+};
+
+/**
+ * Lists every token movement recorded in the ledger, most recent first.
+ */
+const LedgerHistory: React.FC<LedgerHistoryProps> = ({ entries, isLoading }) => {
+  const { t, formatDateTime } = useI18n();
+  const sortedEntries = [...entries].sort((a, b) => (b.id ?? 0) - (a.id ?? 0));
+
+  return (
+    <section className="container mx-auto px-4 sm:px-6 lg:px-8 py-16">
+      <h1 className="text-4xl font-extrabold text-gray-900 dark:text-white mb-8">{t('ledger.title')}</h1>
+      {isLoading ? (
+        <div className="space-y-2">{Array.from({ length: 6 }).map((_, i) => <div key={i} className="h-14 bg-white/5 rounded-2xl animate-pulse border border-white/10"></div>)}</div>
+      ) : sortedEntries.length === 0 ? (
+        <div className="text-center py-20 bg-gray-200/50 dark:bg-black/20 rounded-3xl border-2 border-dashed border-gray-300 dark:border-white/20"><History className="h-16 w-16 text-gray-400 dark:text-white/30 mx-auto mb-4" /><h2 className="text-2xl font-bold text-gray-900 dark:text-white">{t('ledger.empty')}</h2><p className="text-gray-500 dark:text-gray-400 mt-2">{t('ledger.emptyHint')}</p></div>
+      ) : (
+        <div className="bg-white/50 dark:bg-black/20 rounded-2xl border border-gray-200/50 dark:border-white/10 overflow-hidden">
+          <table className="w-full text-left">
+            <thead className="bg-gray-200/50 dark:bg-white/5">
+              <tr>
+                <th className="p-4 font-semibold text-gray-600 dark:text-gray-300">{t('ledger.column.date')}</th>
+                <th className="p-4 font-semibold text-gray-600 dark:text-gray-300">{t('ledger.column.reason')}</th>
+                <th className="p-4 font-semibold text-gray-600 dark:text-gray-300 hidden sm:table-cell">{t('ledger.column.pokemon')}</th>
+                <th className="p-4 font-semibold text-gray-600 dark:text-gray-300 text-right">{t('ledger.column.amount')}</th>
+                <th className="p-4 font-semibold text-gray-600 dark:text-gray-300 text-right">{t('ledger.column.balance')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {sortedEntries.map(entry => (
+                <tr key={entry.id} className="border-t border-gray-200/50 dark:border-white/10">
+                  <td className="p-4 text-sm text-gray-500 dark:text-gray-400">{formatDateTime(entry.timestamp)}</td>
+                  <td className="p-4 font-semibold flex items-center gap-2">
+                    {entry.amount >= 0 ? <ArrowUpCircle className="h-4 w-4 text-green-400" /> : <ArrowDownCircle className="h-4 w-4 text-red-400" />}
+                    {t(REASON_LABELS[entry.reason])}
+                  </td>
+                  <td className="p-4 font-mono text-xs text-gray-500 dark:text-gray-400 hidden sm:table-cell">{entry.pokemonId ?? '—'}</td>
+                  <td className={`p-4 font-mono text-right font-bold ${entry.amount >= 0 ? 'text-green-500 dark:text-green-400' : 'text-red-500 dark:text-red-400'}`}>{entry.amount >= 0 ? `+${entry.amount}` : entry.amount}</td>
+                  <td className="p-4 font-mono text-right">{entry.balanceAfter}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default LedgerHistory;
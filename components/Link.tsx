@@ -0,0 +1,31 @@
+// components/Link.tsx
+
+import React from 'react';
+import { Route } from '../types';
+import { router } from '../services/router';
+import { formatRoute } from '../utils/routes';
+
+interface LinkProps extends React.AnchorHTMLAttributes<HTMLAnchorElement> {
+  to: Route;
+  children: React.ReactNode;
+}
+
+/**
+ * A link to a page of the app. Plain clicks navigate in place; modified clicks (new tab, new window) are left to the browser.
+ */
+const Link: React.FC<LinkProps> = ({ to, onClick, children, ...rest }) => {
+  const handleClick = (event: React.MouseEvent<HTMLAnchorElement>) => {
+    onClick?.(event);
+    if (event.defaultPrevented || event.button !== 0 || event.metaKey || event.ctrlKey || event.shiftKey || event.altKey) return;
+    event.preventDefault();
+    router.navigate(to);
+  };
+
+  return (
+    <a href={formatRoute(to)} onClick={handleClick} {...rest}>
+      {children}
+    </a>
+  );
+};
+
+export default Link;
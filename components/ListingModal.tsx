@@ -0,0 +1,65 @@
+// components/ListingModal.tsx
+
+import React, { useEffect, useState } from 'react';
+import { Pokemon } from '../types';
+import { MAX_LISTING_OVERPRICE } from '../services/marketSimulation';
+import Modal from './Modal';
+import RichMessage from './RichMessage';
+import { useI18n } from '../hooks/useI18n';
+
+interface ListingModalProps {
+  pokemon: Pokemon | null; // Card being put on sale; the modal is closed when null
+  marketPrice: number; // Current market buy price of the card, suggested as asking price
+  onClose: () => void;
+  onSubmit: (askingPrice: number, expiresAt: string | null) => Promise<void>;
+}
+
+const inputStyles = 'mt-1 block w-full px-4 py-2 rounded-md bg-white dark:bg-black/30 border border-gray-300 dark:border-white/10 text-gray-900 dark:text-white shadow-sm focus:ring-orange-500 focus:border-orange-500 sm:text-base';
+const labelStyles = 'block text-sm font-medium text-gray-700 dark:text-gray-300';
+
+const DURATION_OPTIONS: (number | null)[] = [1, 3, 7, null]; // In days, null for a listing without expiration
+
+/**
+ * Form putting a card on sale at the player's own asking price, for a chosen duration.
+ */
+const ListingModal: React.FC<ListingModalProps> = ({ pokemon, marketPrice, onClose, onSubmit }) => {
+  const { t, formatTokens } = useI18n();
+  const [askingPrice, setAskingPrice] = useState(marketPrice);
+  const [durationDays, setDurationDays] = useState<number | null>(3);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (pokemon) setAskingPrice(marketPrice);
+  }, [pokemon?.id]);
+
+  const handleConfirm = async () => {
+    setIsSubmitting(true);
+    try {
+      const expiresAt = durationDays === null ? null : new Date(Date.now() + durationDays * 24 * 60 * 60 * 1000).toISOString();
+      await onSubmit(askingPrice, expiresAt);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={pokemon !== null} onClose={() => !isSubmitting && onClose()} title={t('listing.title')} onConfirm={handleConfirm} confirmButtonText={t('listing.publish')} isLoading={isSubmitting}>
+      <div className="space-y-4">
+        <p className="text-gray-600 dark:text-gray-300"><RichMessage id="listing.intro" nodes={{ name: <span className="font-semibold text-orange-400">{pokemon?.name}</span> }} /></p>
+        <div>
+          <label htmlFor="askingPrice" className={labelStyles}>{t('listing.askingPrice')}</label>
+          <input id="askingPrice" type="number" min={1} className={inputStyles} value={askingPrice} onChange={e => setAskingPrice(Math.max(1, Math.round(Number(e.target.value) || 1)))} />
+          <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">{t('listing.priceHint', { price: formatTokens(marketPrice), max: formatTokens(Math.floor(marketPrice * MAX_LISTING_OVERPRICE)) })}</p>
+        </div>
+        <div>
+          <label htmlFor="listingDuration" className={labelStyles}>{t('listing.duration')}</label>
+          <select id="listingDuration" className={inputStyles} value={durationDays ?? ''} onChange={e => setDurationDays(e.target.value === '' ? null : Number(e.target.value))}>
+            {DURATION_OPTIONS.map(days => <option key={days ?? 'none'} value={days ?? ''}>{days === null ? t('listing.noExpiration') : t('listing.days', { count: days })}</option>)}
+          </select>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default ListingModal;
@@ -0,0 +1,54 @@
+// components/MarketFeed.tsx
+
+import React from 'react';
+import { Activity, Gavel, ShoppingBag, Tag } from 'lucide-react';
+import { MarketFeedEntry } from '../types';
+import { MessageKey } from '../locales/fr';
+import { useI18n } from '../hooks/useI18n';
+import RichMessage from './RichMessage';
+
+interface MarketFeedProps {
+  entries: MarketFeedEntry[]; // Most recent first
+}
+
+const ACTION_LABELS: Record<MarketFeedEntry['action'], { message: MessageKey; icon: React.ReactNode }> = {
+  LISTED: { message: 'marketFeed.listed', icon: <Tag className="h-4 w-4 flex-shrink-0 text-blue-400" /> },
+  BOUGHT: { message: 'marketFeed.bought', icon: <ShoppingBag className="h-4 w-4 flex-shrink-0 text-green-400" /> },
+  AUCTIONED: { message: 'marketFeed.auctioned', icon: <Gavel className="h-4 w-4 flex-shrink-0 text-yellow-400" /> },
+  BID: { message: 'marketFeed.bid', icon: <Gavel className="h-4 w-4 flex-shrink-0 text-orange-400" /> },
+  WON: { message: 'marketFeed.won', icon: <Gavel className="h-4 w-4 flex-shrink-0 text-green-400" /> },
+};
+
+/**
+ * The latest listings, purchases and auction bids of the NPC traders, shown above the market grid.
+ */
+const MarketFeed: React.FC<MarketFeedProps> = ({ entries }) => {
+  const { t, formatTokens, formatDateTime, formatRarity } = useI18n();
+  return (
+  <div className="bg-white/50 dark:bg-black/20 rounded-2xl border border-gray-200/50 dark:border-white/10 p-4 mb-8">
+    <h2 className="text-sm font-semibold uppercase text-gray-500 dark:text-gray-400 flex items-center gap-2 mb-3"><Activity className="h-4 w-4" /> {t('marketFeed.title')}</h2>
+    {entries.length === 0 ? (
+      <p className="text-sm text-gray-500 dark:text-gray-400">{t('marketFeed.empty')}</p>
+    ) : (
+      <ul className="space-y-2 max-h-40 overflow-y-auto">
+        {entries.map(entry => (
+          <li key={entry.id ?? `${entry.timestamp}-${entry.pokemonId}`} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+            {ACTION_LABELS[entry.action].icon}
+            <span className="flex-grow truncate">
+              <RichMessage id={ACTION_LABELS[entry.action].message} nodes={{
+                trader: <span className="font-semibold">{entry.traderName}</span>,
+                name: <span className="font-semibold">{entry.pokemonName}</span>,
+                price: <span className="font-mono">{formatTokens(entry.price)}</span>,
+              }} params={{ rarity: formatRarity(entry.rarity) }} />
+              {entry.fromPlayer && <span className="text-yellow-500 dark:text-yellow-300"> — {t('marketFeed.yourListing')}</span>}
+            </span>
+            <span className="text-xs text-gray-500 dark:text-gray-400 flex-shrink-0">{formatDateTime(entry.timestamp)}</span>
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+  );
+};
+
+export default MarketFeed;
@@ -3,6 +3,7 @@
 import React, { useEffect, useRef } from 'react';
 import { X } from 'lucide-react';
 import Button from './Button';
+import { useI18n } from '../hooks/useI18n';
 
 interface ModalProps {
   isOpen: boolean;
@@ -10,23 +11,31 @@ interface ModalProps {
   title: string;
   children: React.ReactNode;
   onConfirm?: () => void; // Optional for confirmation dialogs
-  confirmButtonText?: string;
-  cancelButtonText?: string;
+  confirmButtonText?: string; // Defaults to the translated "Confirm"
+  cancelButtonText?: string; // Defaults to the translated "Cancel"
   confirmButtonVariant?: 'primary' | 'danger' | 'secondary' | 'ghost';
   isLoading?: boolean;
+  size?: 'md' | 'lg'; // 'lg' for content laid out in columns, like the card details
 }
 
+const SIZE_STYLES = {
+  md: 'max-w-lg',
+  lg: 'max-w-4xl',
+};
+
 const Modal: React.FC<ModalProps> = ({
   isOpen,
   onClose,
   title,
   children,
   onConfirm,
-  confirmButtonText = 'Confirm',
-  cancelButtonText = 'Cancel',
+  confirmButtonText,
+  cancelButtonText,
   confirmButtonVariant = 'primary',
   isLoading = false,
+  size = 'md',
 }) => {
+  const { t } = useI18n();
   const modalRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
@@ -67,13 +76,13 @@ const Modal: React.FC<ModalProps> = ({
         role="dialog"
         aria-modal="true"
         aria-labelledby="modal-title"
-        className="relative bg-gray-800 border border-white/10 rounded-2xl shadow-xl max-w-lg w-full p-6 sm:p-8 flex flex-col max-h-[90vh] overflow-hidden text-gray-200"
+        className={`relative bg-gray-800 border border-white/10 rounded-2xl shadow-xl ${SIZE_STYLES[size]} w-full p-6 sm:p-8 flex flex-col max-h-[90vh] overflow-hidden text-gray-200`}
       >
         <div className="flex justify-between items-center pb-4 border-b border-white/10">
           <h3 id="modal-title" className="text-xl sm:text-2xl font-semibold text-white">
             {title}
           </h3>
-          <button onClick={onClose} aria-label="Close modal" className="p-1 rounded-full text-gray-400 hover:text-white hover:bg-white/10 transition-colors">
+          <button onClick={onClose} aria-label={t('common.close')} className="p-1 rounded-full text-gray-400 hover:text-white hover:bg-white/10 transition-colors">
             <X className="h-6 w-6" />
           </button>
         </div>
@@ -85,10 +94,10 @@ const Modal: React.FC<ModalProps> = ({
         {onConfirm && (
           <div className="flex justify-end gap-3 pt-6 border-t border-white/10">
             <Button variant="secondary" onClick={onClose} disabled={isLoading}>
-              {cancelButtonText}
+              {cancelButtonText || t('common.cancel')}
             </Button>
             <Button variant={confirmButtonVariant} onClick={onConfirm} disabled={isLoading}>
-              {isLoading ? 'Processing...' : confirmButtonText}
+              {isLoading ? t('common.processing') : confirmButtonText || t('common.confirm')}
             </Button>
           </div>
         )}
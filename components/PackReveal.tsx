@@ -0,0 +1,118 @@
+// components/PackReveal.tsx
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Sparkles } from 'lucide-react';
+import { Pokemon, PokemonRarity } from '../types';
+import { usePokemonImage } from '../hooks/usePokemonImage';
+import { useI18n } from '../hooks/useI18n';
+import { audioService } from '../services/audioService';
+import { compareByGradeDesc, formatGrade } from '../utils/grades';
+import Button from './Button';
+import Modal from './Modal';
+
+const RARITY_RINGS: Record<PokemonRarity, string> = {
+  [PokemonRarity.COMMON]: 'ring-gray-500/60',
+  [PokemonRarity.RARE]: 'ring-blue-500/70 shadow-[0_0_12px_theme(colors.blue.500/0.5)]',
+  [PokemonRarity.EPIC]: 'ring-purple-500/70 shadow-[0_0_16px_theme(colors.purple.500/0.6)]',
+  [PokemonRarity.LEGENDARY]: 'ring-yellow-500/80 shadow-[0_0_20px_theme(colors.yellow.500/0.7)]',
+  [PokemonRarity.MYTHIC]: 'ring-fuchsia-500/80 shadow-[0_0_28px_theme(colors.fuchsia.500/0.8)]',
+};
+
+/**
+ * A freshly opened booster pack, as shown by the reveal.
+ */
+export interface OpenedPack {
+  name: string;
+  forged: Pokemon[];
+  refundedCount: number;
+  refundedAmount: number;
+}
+
+interface PackRevealProps {
+  pack: OpenedPack | null;
+  onClose: () => void;
+}
+
+interface RevealCardProps {
+  pokemon: Pokemon;
+  isFlipped: boolean;
+  isNext: boolean; // The card the next flip turns over
+  onFlip: () => void;
+}
+
+const RevealCard: React.FC<RevealCardProps> = ({ pokemon, isFlipped, isNext, onFlip }) => {
+  const { t, formatRarity } = useI18n();
+  const thumbnailUrl = usePokemonImage(pokemon.id, 'thumbnail');
+
+  return (
+    <button
+      type="button"
+      onClick={onFlip}
+      disabled={!isNext}
+      aria-label={isFlipped ? `${pokemon.name}, ${formatRarity(pokemon.rarity)}` : t('packs.hiddenCard')}
+      className={`pack-card ${isFlipped ? 'is-flipped' : ''} w-32 sm:w-36 aspect-[3/4] ${isNext ? 'cursor-pointer hover:-translate-y-1' : 'cursor-default'} transition-transform`}
+    >
+      <span className="pack-card-inner block">
+        <span className={`pack-card-face flex items-center justify-center rounded-2xl border-2 border-yellow-400/40 bg-gradient-to-br from-orange-500/40 via-purple-700/40 to-gray-900 ${isNext ? 'animate-pulse' : ''}`}>
+          <Sparkles className="h-10 w-10 text-yellow-300/80" />
+        </span>
+        <span className={`pack-card-face pack-card-front flex flex-col rounded-2xl overflow-hidden bg-gray-900 ring-2 ${RARITY_RINGS[pokemon.rarity]}`}>
+          {thumbnailUrl ? <img src={thumbnailUrl} alt="" className="w-full aspect-square object-cover" /> : <span className="w-full aspect-square bg-black/30" />}
+          <span className="flex-grow flex flex-col justify-center px-2 text-left">
+            <span className="block font-bold text-white text-sm truncate">{pokemon.name}</span>
+            <span className="block text-xs text-gray-400">{formatRarity(pokemon.rarity)} · <span className="font-mono">{formatGrade(pokemon.grade)}</span></span>
+          </span>
+        </span>
+      </span>
+    </button>
+  );
+};
+
+/**
+ * Reveals the cards of an opened pack one at a time, from the least to the most rare, each with the
+ * sting of its rarity.
+ */
+const PackReveal: React.FC<PackRevealProps> = ({ pack, onClose }) => {
+  const { t, formatTokens } = useI18n();
+  const [flippedCount, setFlippedCount] = useState(0);
+  const cards = useMemo(() => pack ? [...pack.forged].sort((a, b) => compareByGradeDesc(b, a)) : [], [pack]);
+  const isComplete = flippedCount >= cards.length;
+
+  useEffect(() => setFlippedCount(0), [pack]);
+
+  const flipNext = () => {
+    if (isComplete) return;
+    audioService.playReveal(cards[flippedCount].rarity);
+    setFlippedCount(count => count + 1);
+  };
+
+  const revealAll = () => {
+    if (isComplete) return;
+    audioService.playReveal(cards[cards.length - 1].rarity);
+    setFlippedCount(cards.length);
+  };
+
+  if (!pack) return null;
+
+  return (
+    <Modal isOpen={true} onClose={onClose} title={t('packs.revealTitle', { name: pack.name })} size="lg">
+      <p className="text-gray-400 mb-6">{t('packs.revealHint')}</p>
+      <div className="flex flex-wrap justify-center gap-4">
+        {cards.map((pokemon, index) => (
+          <RevealCard key={pokemon.id} pokemon={pokemon} isFlipped={index < flippedCount} isNext={index === flippedCount} onFlip={flipNext} />
+        ))}
+      </div>
+      {pack.refundedCount > 0 && <p className="mt-6 text-center text-yellow-400">{t('packs.refunded', { count: pack.refundedCount, amount: formatTokens(pack.refundedAmount) })}</p>}
+      <div className="flex justify-center gap-3 mt-6">
+        {isComplete ? <Button variant="primary" size="sm" onClick={onClose}>{t('packs.done')}</Button> : (
+          <>
+            <Button variant="secondary" size="sm" onClick={flipNext}>{t('packs.revealNext')}</Button>
+            <Button variant="ghost" size="sm" onClick={revealAll}>{t('packs.revealAll')}</Button>
+          </>
+        )}
+      </div>
+    </Modal>
+  );
+};
+
+export default PackReveal;
@@ -0,0 +1,88 @@
+// components/PackShop.tsx
+
+import React from 'react';
+import { Loader2, Package, ShieldCheck } from 'lucide-react';
+import { ApiRarityGrade, PackDefinition, PokemonRarity } from '../types';
+import { PACK_DEFINITIONS, getGuaranteedGradeWeights, getPackName, getRarityOdds } from '../services/packDefinitions';
+import { useI18n } from '../hooks/useI18n';
+import Button from './Button';
+
+interface PackShopProps {
+  singleForgeCost: number; // Price of a single forge, to show what each pack saves
+  tokenBalance: number;
+  gradeWeights: Record<ApiRarityGrade, number> | null; // Odds of the offline generator, or null when the API decides them
+  openingPackId: string | null;
+  disabled: boolean; // Set while a forge is running or the API is throttling
+  onOpen: (definition: PackDefinition) => void;
+}
+
+/**
+ * The booster packs on sale in the Studio, with their guarantees and the published odds of their cards.
+ */
+const PackShop: React.FC<PackShopProps> = ({ singleForgeCost, tokenBalance, gradeWeights, openingPackId, disabled, onOpen }) => {
+  const { t, formatTokens, formatRarity, formatNumber } = useI18n();
+  const rarities = Object.values(PokemonRarity);
+  const guaranteedRarities = [...new Set(PACK_DEFINITIONS.flatMap(definition => definition.guarantees.map(guarantee => guarantee.rarity)))];
+  const formatOdds = (odds: number) => formatNumber(odds, { style: 'percent', maximumFractionDigits: 1 });
+  const regularOdds = gradeWeights ? getRarityOdds(gradeWeights) : null;
+  const guaranteedOdds = gradeWeights ? new Map(guaranteedRarities.map(rarity => [rarity, getRarityOdds(getGuaranteedGradeWeights(gradeWeights, rarity))])) : null;
+
+  return (
+    <section className="container mx-auto px-4 sm:px-6 lg:px-8 pb-16">
+      <h2 className="text-3xl font-extrabold text-gray-900 dark:text-white mb-2 flex items-center gap-3"><Package className="h-7 w-7" /> {t('packs.title')}</h2>
+      <p className="text-gray-600 dark:text-gray-400 mb-8">{t('packs.intro')}</p>
+      <div className="grid gap-6 md:grid-cols-2">
+        {PACK_DEFINITIONS.map(definition => {
+          const saving = definition.size * singleForgeCost - definition.price;
+          const isOpening = openingPackId === definition.id;
+          return (
+            <div key={definition.id} className="bg-white/50 dark:bg-black/20 rounded-3xl p-6 border border-gray-200/50 dark:border-white/10 backdrop-blur-lg flex flex-col gap-4">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <h3 className="text-xl font-bold text-gray-900 dark:text-white">{getPackName(definition)}</h3>
+                  <p className="text-gray-500 dark:text-gray-400">{t('packs.cards', { count: definition.size })}</p>
+                </div>
+                {saving > 0 && <span className="shrink-0 bg-green-400/20 text-green-600 dark:text-green-300 text-sm font-bold px-3 py-1 rounded-full border border-green-400/30">{t('packs.saving', { amount: formatTokens(saving) })}</span>}
+              </div>
+              <ul className="space-y-1 text-sm text-gray-700 dark:text-gray-300 flex-grow">
+                {definition.guarantees.length === 0 ? <li className="text-gray-500 dark:text-gray-400">{t('packs.noGuarantee')}</li> : definition.guarantees.map(({ rarity, count }) => (
+                  <li key={rarity} className="flex items-center gap-2"><ShieldCheck className="h-4 w-4 text-yellow-500" />{t('packs.guarantee', { count, rarity: formatRarity(rarity) })}</li>
+                ))}
+              </ul>
+              <Button variant="primary" size="md" onClick={() => onOpen(definition)} disabled={disabled || openingPackId !== null || tokenBalance < definition.price}>
+                {isOpening ? <span className="flex items-center justify-center"><Loader2 className="animate-spin mr-2 h-5 w-5" />{t('packs.opening')}</span> : t('packs.open', { price: formatTokens(definition.price) })}
+              </Button>
+            </div>
+          );
+        })}
+      </div>
+
+      <details className="mt-6 bg-white/50 dark:bg-black/20 rounded-3xl p-6 border border-gray-200/50 dark:border-white/10">
+        <summary className="cursor-pointer font-semibold text-gray-900 dark:text-white">{t('packs.odds')}</summary>
+        <div className="overflow-x-auto mt-4">
+          <table className="w-full text-sm text-left">
+            <thead className="text-gray-500 dark:text-gray-400">
+              <tr>
+                <th className="py-2 pr-4 font-medium">{t('packs.rarity')}</th>
+                <th className="py-2 pr-4 font-medium">{t('packs.regularSlot')}</th>
+                {guaranteedRarities.map(rarity => <th key={rarity} className="py-2 pr-4 font-medium">{t('packs.guaranteedSlot', { rarity: formatRarity(rarity) })}</th>)}
+              </tr>
+            </thead>
+            <tbody className="text-gray-800 dark:text-gray-200">
+              {rarities.map(rarity => (
+                <tr key={rarity} className="border-t border-gray-200 dark:border-white/10">
+                  <td className="py-2 pr-4 font-semibold">{formatRarity(rarity)}</td>
+                  <td className="py-2 pr-4 font-mono">{regularOdds ? formatOdds(regularOdds[rarity]) : t('packs.oddsUnknown')}</td>
+                  {guaranteedRarities.map(guaranteed => <td key={guaranteed} className="py-2 pr-4 font-mono">{guaranteedOdds ? formatOdds(guaranteedOdds.get(guaranteed)![rarity]) : t('packs.oddsUnknown')}</td>)}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <p className="mt-4 text-sm text-gray-500 dark:text-gray-400">{t('packs.oddsHint')}</p>
+      </details>
+    </section>
+  );
+};
+
+export default PackShop;
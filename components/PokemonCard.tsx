@@ -0,0 +1,131 @@
+// components/PokemonCard.tsx
+
+import React, { memo } from 'react';
+import { Coins, ShoppingBag, Star, Tag, XCircle } from 'lucide-react';
+import { Listing, Pokemon, PokemonRarity, PokemonStatus } from '../types';
+import { usePokemonImage } from '../hooks/usePokemonImage';
+import { useI18n } from '../hooks/useI18n';
+import { formatGrade } from '../utils/grades';
+import Button from './Button';
+import PriceSparkline from './PriceSparkline';
+
+/**
+ * Screens a card can be shown on; each one offers different actions.
+ */
+export type PokemonCardContext = 'studio' | 'collection' | 'market';
+
+/**
+ * Callbacks shared by every card of a grid. Keep the object stable so memoized cards don't re-render.
+ */
+export interface PokemonCardActions {
+  onOpen: (pokemon: Pokemon) => void;
+  onToggleFavorite: (pokemon: Pokemon) => void;
+  onResell: (pokemon: Pokemon) => void; // Quick sale to the house at the market price
+  onList: (pokemon: Pokemon) => void;
+  onCancelListing: (pokemon: Pokemon) => void;
+  onBuy: (pokemon: Pokemon) => void;
+}
+
+interface PokemonCardProps {
+  pokemon: Pokemon;
+  context: PokemonCardContext;
+  resellValue: number;
+  buyPrice: number; // The asking price for listed cards
+  listing?: Listing; // Open listing of a LISTED card
+  canAfford: boolean; // Whether the player has enough tokens to buy this card
+  priceTrend?: number[]; // Recorded resale prices of the card's rarity and grade, shown on the market
+  sellerName?: string; // Who listed the card on the market; absent for the house stock
+  actions: PokemonCardActions;
+}
+
+const RARITY_STYLES: Record<PokemonRarity, { tag: string; border: string; glow: string; shimmer: string }> = {
+  [PokemonRarity.COMMON]: { tag: 'bg-gray-500/50 text-gray-200', border: 'border-gray-500/50', glow: '', shimmer: 'from-transparent via-black/10 dark:via-white/10 to-transparent' },
+  [PokemonRarity.RARE]: { tag: 'bg-blue-500/50 text-blue-200', border: 'border-blue-500/60', glow: 'shadow-[0_0_8px_theme(colors.blue.500/0.5)]', shimmer: 'from-transparent via-cyan-400/20 to-transparent' },
+  [PokemonRarity.EPIC]: { tag: 'bg-purple-500/50 text-purple-200', border: 'border-purple-500/60', glow: 'shadow-[0_0_12px_theme(colors.purple.500/0.6)]', shimmer: 'from-transparent via-purple-400/20 to-transparent' },
+  [PokemonRarity.LEGENDARY]: { tag: 'bg-yellow-500/50 text-yellow-200', border: 'border-yellow-500/60', glow: 'shadow-[0_0_15px_theme(colors.yellow.500/0.7)]', shimmer: 'from-transparent via-yellow-300/20 to-transparent' },
+  [PokemonRarity.MYTHIC]: { tag: 'bg-gradient-to-r from-fuchsia-500/60 to-cyan-500/60 text-white font-bold', border: 'p-0.5 bg-gradient-to-br from-fuchsia-500 to-cyan-500', glow: 'shadow-[0_0_20px_theme(colors.fuchsia.500/0.8)]', shimmer: 'from-transparent via-fuchsia-400/30 to-transparent' },
+};
+
+/**
+ * A Pokémon card with its thumbnail, grade and rarity, and the actions available on the current screen.
+ */
+const PokemonCard: React.FC<PokemonCardProps> = ({ pokemon, context, resellValue, buyPrice, listing, canAfford, priceTrend, sellerName, actions }) => {
+  const { t, formatTokens, formatDateTime, formatRarity } = useI18n();
+  const { tag, border, glow, shimmer } = RARITY_STYLES[pokemon.rarity];
+  const thumbnailUrl = usePokemonImage(pokemon.id, 'thumbnail');
+  const isOwnListing = pokemon.status === PokemonStatus.LISTED && !pokemon.traderId;
+
+  const cardContent = (
+    <div className="w-full h-full bg-gray-200/50 dark:bg-gray-900/80 rounded-2xl flex flex-col aspect-[3/4] relative group transition-all duration-300 overflow-hidden hover:-translate-y-1">
+      <div className={`absolute top-0 left-0 w-full h-full bg-gradient-to-r ${shimmer} transform -translate-x-full group-hover:translate-x-full transition-transform duration-700 ease-in-out`}></div>
+
+      <div className="relative w-full flex-grow mb-2 rounded-lg overflow-hidden bg-black/5 dark:bg-black/20 p-2">
+        <button onClick={() => actions.onOpen(pokemon)} className="w-full h-full" aria-label={t('card.open', { name: pokemon.name })}>
+          {thumbnailUrl ? <img src={thumbnailUrl} alt={pokemon.name} className="object-contain w-full h-full rounded-md" /> : <div className="w-full h-full rounded-md bg-black/10 dark:bg-white/5 animate-pulse"></div>}
+        </button>
+        {isOwnListing && context === 'collection' && listing && (
+          <div className="absolute bottom-2 left-2 right-2 text-center text-xs font-bold text-white bg-green-600/80 backdrop-blur-sm rounded-full py-1 truncate" title={listing.expiresAt ? t('card.expiresAt', { date: formatDateTime(listing.expiresAt) }) : t('listing.noExpiration')}>{t('card.listedFor', { price: formatTokens(listing.askingPrice) })}</div>
+        )}
+        {(pokemon.status === PokemonStatus.RESOLD || pokemon.status === PokemonStatus.TRADED) && context === 'collection' && <div className="absolute inset-0 bg-black/80 flex items-center justify-center text-white text-sm font-bold uppercase tracking-widest">{pokemon.status === PokemonStatus.TRADED ? t('card.traded') : t('card.resold')}</div>}
+        <div className="absolute top-2 right-2 flex items-center gap-1">
+          <span title={t('card.grade')} className="text-xs px-2 py-1 rounded-full font-mono font-bold backdrop-blur-sm bg-black/40 text-white">{formatGrade(pokemon.grade)}</span>
+          <span className={`text-xs px-2 py-1 rounded-full font-bold backdrop-blur-sm ${tag}`}>{formatRarity(pokemon.rarity)}</span>
+        </div>
+        {pokemon.status === PokemonStatus.OWNED && context !== 'studio' && (
+          <button onClick={() => actions.onToggleFavorite(pokemon)} className="absolute top-2 left-2 p-1.5 rounded-full bg-black/30 backdrop-blur-sm text-gray-300 hover:text-yellow-400 transition-colors z-10">
+            <Star className={`h-4 w-4 ${pokemon.isFavorite ? 'text-yellow-400 fill-current' : ''}`} />
+          </button>
+        )}
+      </div>
+      <div className="flex items-center justify-between gap-2 px-2 pb-2">
+        <h3 className="text-sm font-semibold text-gray-800 dark:text-gray-200 truncate">{pokemon.name}</h3>
+        {context === 'market' && priceTrend && <PriceSparkline prices={priceTrend} />}
+      </div>
+      {context === 'market' && sellerName && <p className="px-2 pb-2 -mt-1 text-xs text-gray-500 dark:text-gray-400 truncate">{t('card.soldBy', { seller: sellerName })}</p>}
+      {pokemon.status === PokemonStatus.OWNED && context === 'collection' && (
+        <div onClick={() => actions.onOpen(pokemon)} className="absolute inset-0 bg-black/70 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity rounded-xl backdrop-blur-sm cursor-pointer">
+          <div className="flex flex-col gap-2">
+            <Button variant="primary" size="sm" className="px-3 py-1 text-xs" onClick={(e) => { e.stopPropagation(); actions.onList(pokemon); }}><Tag className="h-4 w-4 mr-1" /> {t('listing.title')}</Button>
+            <Button variant="secondary" size="sm" className="px-3 py-1 text-xs" onClick={(e) => { e.stopPropagation(); actions.onResell(pokemon); }}><Coins className="h-4 w-4 mr-1" /> {t('card.quickSale', { amount: resellValue })}</Button>
+          </div>
+        </div>
+      )}
+      {isOwnListing && context !== 'studio' && (
+        <div onClick={() => actions.onOpen(pokemon)} className="absolute inset-0 bg-black/70 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity rounded-xl backdrop-blur-sm cursor-pointer">
+          <Button variant="secondary" size="sm" className="px-3 py-1 text-xs" onClick={(e) => { e.stopPropagation(); actions.onCancelListing(pokemon); }}><XCircle className="h-4 w-4 mr-1" /> {t('card.cancelListing')}</Button>
+        </div>
+      )}
+      {context === 'market' && !isOwnListing && (
+        <div onClick={() => actions.onOpen(pokemon)} className="absolute inset-0 bg-black/70 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity rounded-xl backdrop-blur-sm cursor-pointer">
+          <Button variant="primary" size="sm" className="px-3 py-1 text-xs" onClick={(e) => { e.stopPropagation(); actions.onBuy(pokemon); }} disabled={!canAfford}><ShoppingBag className="h-4 w-4 mr-1" /> {t('card.buy', { price: buyPrice })}</Button>
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className={`rounded-3xl shadow-lg transition-all duration-300 ${pokemon.rarity === PokemonRarity.MYTHIC ? border : `bg-white/50 dark:bg-white/10 backdrop-blur-md border ${border} ${glow}`} ${pokemon.rarity !== PokemonRarity.MYTHIC ? 'group-hover:' + glow : 'group-hover:shadow-[0_0_30px_theme(colors.fuchsia.500/0.5)]'}`}>
+      {cardContent}
+    </div>
+  );
+};
+
+/**
+ * Compares two Pokémon field by field: pages re-read from IndexedDB hold new objects for unchanged cards.
+ */
+const isSamePokemon = (a: Pokemon, b: Pokemon): boolean => {
+  if (a === b) return true;
+  const keys = Object.keys(a) as (keyof Pokemon)[];
+  return keys.length === Object.keys(b).length && keys.every(key => a[key] === b[key]);
+};
+
+export default memo(PokemonCard, (prev, next) =>
+  isSamePokemon(prev.pokemon, next.pokemon)
+  && prev.context === next.context
+  && prev.resellValue === next.resellValue
+  && prev.buyPrice === next.buyPrice
+  && prev.listing === next.listing
+  && prev.canAfford === next.canAfford
+  && prev.priceTrend === next.priceTrend
+  && prev.sellerName === next.sellerName
+  && prev.actions === next.actions);
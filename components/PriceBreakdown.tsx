@@ -0,0 +1,28 @@
+// components/PriceBreakdown.tsx
+
+import React from 'react';
+import { PriceQuote } from '../types';
+import { describePriceFactor } from '../services/pricingEngine';
+import { useI18n } from '../hooks/useI18n';
+import RichMessage from './RichMessage';
+
+interface PriceBreakdownProps {
+  quote: PriceQuote;
+}
+
+/**
+ * Explains how the pricing engine computed a resale price, factor by factor.
+ */
+const PriceBreakdown: React.FC<PriceBreakdownProps> = ({ quote }) => {
+  const { t, formatTokens } = useI18n();
+  return (
+  <ul className="text-sm text-gray-500 dark:text-gray-400 space-y-1 bg-gray-200/50 dark:bg-black/20 rounded-xl p-3">
+    <li><RichMessage id="price.baseValue" nodes={{ amount: <span className="font-semibold">{formatTokens(quote.baseValue)}</span> }} /></li>
+    {quote.factors.map(factor => <li key={factor.kind}>{describePriceFactor(factor)}</li>)}
+    {quote.limit === 'floor' && <li>{t('price.floor')}</li>}
+    {quote.limit === 'ceiling' && <li>{t('price.ceiling')}</li>}
+  </ul>
+  );
+};
+
+export default PriceBreakdown;
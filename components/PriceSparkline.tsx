@@ -0,0 +1,36 @@
+// components/PriceSparkline.tsx
+
+import React from 'react';
+import { useI18n } from '../hooks/useI18n';
+
+interface PriceSparklineProps {
+  prices: number[]; // Oldest first
+  width?: number;
+  height?: number;
+}
+
+/**
+ * Tiny line chart of recorded prices with the change since the first point.
+ */
+const PriceSparkline: React.FC<PriceSparklineProps> = ({ prices, width = 64, height = 20 }) => {
+  const { t, formatNumber } = useI18n();
+  if (prices.length < 2) return null;
+  const min = Math.min(...prices);
+  const range = Math.max(...prices) - min || 1;
+  const points = prices
+    .map((price, i) => `${((i / (prices.length - 1)) * width).toFixed(1)},${(height - 2 - ((price - min) / range) * (height - 4)).toFixed(1)}`)
+    .join(' ');
+  const change = (prices[prices.length - 1] - prices[0]) / prices[0];
+  const color = change > 0 ? 'text-green-400' : change < 0 ? 'text-red-400' : 'text-gray-400';
+
+  return (
+    <span className={`flex items-center gap-1 text-xs font-semibold ${color}`} title={t('price.trend')}>
+      <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} className="overflow-visible">
+        <polyline points={points} fill="none" stroke="currentColor" strokeWidth={1.5} strokeLinejoin="round" strokeLinecap="round" />
+      </svg>
+      {formatNumber(change, { style: 'percent', maximumFractionDigits: 0, signDisplay: 'exceptZero' })}
+    </span>
+  );
+};
+
+export default PriceSparkline;
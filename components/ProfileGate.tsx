@@ -0,0 +1,117 @@
+// components/ProfileGate.tsx
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { PlayerProfile, PROFILES_DB_NAME } from '../types';
+import { MessageKey } from '../locales/fr';
+import { profileService, PROFILES_STORE } from '../services/profileService';
+import { marketSimulationService } from '../services/marketSimulation';
+import { indexedDbService } from '../services/indexedDbService';
+import { useDataChanges } from '../hooks/useDataChanges';
+import { useI18n } from '../hooks/useI18n';
+import Button from './Button';
+import ProfileSwitcher from './ProfileSwitcher';
+
+interface ProfileGateProps {
+  // Renders the app for the opened profile; it is remounted from scratch on every switch.
+  children: (profile: PlayerProfile, profileSwitcher: React.ReactNode) => React.ReactNode;
+}
+
+interface LoadFailure {
+  message: MessageKey;
+  profileId: string | null; // Profile that failed to open, or null when the list itself failed
+  retry: () => void;
+}
+
+/**
+ * Opens the most recently used profile before anything reads the save, and swaps the save when the player switches.
+ */
+const ProfileGate: React.FC<ProfileGateProps> = ({ children }) => {
+  const { t } = useI18n();
+  const [profiles, setProfiles] = useState<PlayerProfile[]>([]);
+  const [activeProfile, setActiveProfile] = useState<PlayerProfile | null>(null);
+  const [loadFailure, setLoadFailure] = useState<LoadFailure | null>(null);
+  const lastOpenedRef = useRef<PlayerProfile | null>(null); // Offered as a way back when another profile fails to open
+
+  const openProfile = useCallback(async (id: string) => {
+    // Unmount the app first, then let the settlement and the forges already running finish on the previous save.
+    setActiveProfile(null);
+    setLoadFailure(null);
+    try {
+      await Promise.all([marketSimulationService.waitForSettlement(), indexedDbService.waitForPendingOperations()]);
+      const profile = await profileService.openProfile(id);
+      setProfiles(await profileService.getProfiles());
+      lastOpenedRef.current = profile;
+      setActiveProfile(profile);
+    } catch (error) {
+      console.error("Failed to open the player profile:", error);
+      setLoadFailure({ message: 'profile.loadFailed', profileId: id, retry: () => openProfile(id) });
+    }
+  }, []);
+
+  const loadProfiles = useCallback(() => {
+    setLoadFailure(null);
+    profileService.getProfiles()
+      .then(stored => openProfile(stored[0].id))
+      .catch(error => {
+        console.error("Failed to load the player profiles:", error);
+        setLoadFailure({ message: 'profile.listFailed', profileId: null, retry: loadProfiles });
+      });
+  }, [openProfile]);
+
+  useEffect(() => {
+    loadProfiles();
+  }, [loadProfiles]);
+
+  // Profiles created, renamed or deleted in another tab show up in the menu.
+  useDataChanges(PROFILES_DB_NAME, async stores => {
+    if (!stores.has(PROFILES_STORE)) return;
+    try {
+      const stored = await profileService.getProfiles();
+      setProfiles(stored);
+      setActiveProfile(prev => (prev && stored.find(p => p.id === prev.id)) ?? prev);
+    } catch (error) {
+      console.error("Failed to reload the player profiles:", error);
+    }
+  });
+
+  if (!activeProfile) {
+    const previous = lastOpenedRef.current;
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-100 dark:bg-gray-900 text-gray-500 dark:text-gray-400">
+        {loadFailure ? (
+          <div className="flex flex-col items-center gap-4 text-center">
+            <p>{t(loadFailure.message)}</p>
+            <div className="flex flex-wrap justify-center gap-3">
+              <Button variant="primary" size="sm" onClick={loadFailure.retry}>{t('profile.retry')}</Button>
+              {previous && previous.id !== loadFailure.profileId && (
+                <Button variant="secondary" size="sm" onClick={() => openProfile(previous.id)}>{t('profile.backTo', { name: previous.name })}</Button>
+              )}
+            </div>
+          </div>
+        ) : <Loader2 className="h-10 w-10 animate-spin" />}
+      </div>
+    );
+  }
+
+  const handleCreate = async (name: string) => {
+    const profile = await profileService.createProfile(name);
+    await openProfile(profile.id);
+  };
+
+  const handleRename = async (id: string, name: string) => {
+    const renamed = await profileService.renameProfile(id, name);
+    setProfiles(prev => prev.map(p => (p.id === id ? renamed : p)));
+    if (id === activeProfile.id) setActiveProfile(renamed);
+  };
+
+  const handleDelete = async (id: string) => {
+    await profileService.deleteProfile(id, activeProfile.id);
+    setProfiles(prev => prev.filter(p => p.id !== id));
+  };
+
+  const switcher = <ProfileSwitcher profiles={profiles} activeProfile={activeProfile} onSwitch={openProfile} onCreate={handleCreate} onRename={handleRename} onDelete={handleDelete} />;
+  return <>{children(activeProfile, switcher)}</>;
+};
+
+export default ProfileGate;
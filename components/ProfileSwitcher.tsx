@@ -0,0 +1,106 @@
+// components/ProfileSwitcher.tsx
+
+import React, { useState } from 'react';
+import { Check, ChevronDown, Pencil, Plus, Trash2, User, X } from 'lucide-react';
+import { PlayerProfile } from '../types';
+import { useI18n } from '../hooks/useI18n';
+
+interface ProfileSwitcherProps {
+  profiles: PlayerProfile[];
+  activeProfile: PlayerProfile;
+  onSwitch: (id: string) => Promise<void>;
+  onCreate: (name: string) => Promise<void>;
+  onRename: (id: string, name: string) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+}
+
+const inputStyles = 'flex-grow min-w-0 px-2 py-1 rounded-md bg-white dark:bg-black/30 border border-gray-300 dark:border-white/10 text-sm text-gray-900 dark:text-white';
+const iconButtonStyles = 'p-1 rounded-full hover:bg-gray-200 dark:hover:bg-white/10 text-gray-500 dark:text-gray-400 disabled:opacity-50';
+
+/**
+ * Header menu listing the local profiles, to switch to, create, rename or delete one.
+ */
+const ProfileSwitcher: React.FC<ProfileSwitcherProps> = ({ profiles, activeProfile, onSwitch, onCreate, onRename, onDelete }) => {
+  const { t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameDraft, setRenameDraft] = useState('');
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Runs one profile operation at a time and keeps the menu open with the error when it fails.
+  const run = async (operation: () => Promise<void>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await operation();
+    } catch (err) {
+      setError((err as Error).message || t('profile.operationFailed'));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleCreate = (event: React.FormEvent) => {
+    event.preventDefault();
+    run(async () => {
+      await onCreate(newName);
+      setNewName('');
+    });
+  };
+
+  const handleRename = (id: string) => run(async () => {
+    await onRename(id, renameDraft);
+    setRenamingId(null);
+  });
+
+  return (
+    <div className="relative">
+      <button onClick={() => setIsOpen(open => !open)} title={t('profile.switch')} className="flex items-center gap-2 rounded-full px-3 py-2 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-white/10 transition-colors">
+        <User className="h-5 w-5" />
+        <span className="hidden lg:inline max-w-[8rem] truncate font-semibold">{activeProfile.name}</span>
+        <ChevronDown className="h-4 w-4" />
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-72 rounded-2xl border border-gray-200 dark:border-white/10 bg-white dark:bg-gray-900 shadow-xl p-3 space-y-2">
+          <p className="text-xs font-semibold uppercase text-gray-500 dark:text-gray-400">{t('profile.title')}</p>
+          <ul className="space-y-1">
+            {profiles.map(profile => {
+              const isActive = profile.id === activeProfile.id;
+              return (
+                <li key={profile.id} className={`flex items-center gap-1 rounded-xl px-2 py-1 ${isActive ? 'bg-yellow-400/10' : ''}`}>
+                  {renamingId === profile.id ? (
+                    <>
+                      <input autoFocus aria-label={t('profile.newName')} className={inputStyles} value={renameDraft} onChange={e => setRenameDraft(e.target.value)} onKeyDown={e => e.key === 'Enter' && handleRename(profile.id)} />
+                      <button className={iconButtonStyles} title={t('profile.validate')} disabled={isBusy} onClick={() => handleRename(profile.id)}><Check className="h-4 w-4" /></button>
+                      <button className={iconButtonStyles} title={t('common.cancel')} onClick={() => setRenamingId(null)}><X className="h-4 w-4" /></button>
+                    </>
+                  ) : (
+                    <>
+                      <button className="flex-grow min-w-0 text-left truncate text-sm text-gray-900 dark:text-white disabled:cursor-default" disabled={isActive || isBusy} onClick={() => run(() => onSwitch(profile.id))}>
+                        {profile.name}{isActive && <span className="text-xs text-gray-500 dark:text-gray-400"> · {t('profile.active')}</span>}
+                      </button>
+                      <button className={iconButtonStyles} title={t('profile.rename')} onClick={() => { setRenamingId(profile.id); setRenameDraft(profile.name); }}><Pencil className="h-4 w-4" /></button>
+                      {!isActive && (confirmDeleteId === profile.id
+                        ? <button className="px-2 py-0.5 rounded-full text-xs font-semibold bg-red-600 text-white disabled:opacity-50" disabled={isBusy} onClick={() => run(() => onDelete(profile.id))}>{t('profile.confirmDelete')}</button>
+                        : <button className={iconButtonStyles} title={t('profile.delete')} onClick={() => setConfirmDeleteId(profile.id)}><Trash2 className="h-4 w-4" /></button>)}
+                    </>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+          <form onSubmit={handleCreate} className="flex items-center gap-1 pt-2 border-t border-gray-200 dark:border-white/10">
+            <input aria-label={t('profile.createName')} placeholder={t('profile.createPlaceholder')} className={inputStyles} value={newName} onChange={e => setNewName(e.target.value)} />
+            <button type="submit" className={iconButtonStyles} title={t('profile.create')} disabled={isBusy || !newName.trim()}><Plus className="h-4 w-4" /></button>
+          </form>
+          {error && <p className="text-xs text-red-500">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProfileSwitcher;
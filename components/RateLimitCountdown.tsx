@@ -0,0 +1,41 @@
+// components/RateLimitCountdown.tsx
+
+import React, { useEffect, useState } from 'react';
+import { Hourglass } from 'lucide-react';
+import RichMessage from './RichMessage';
+import { useI18n } from '../hooks/useI18n';
+
+interface RateLimitCountdownProps {
+  until: number; // Epoch milliseconds at which generating is allowed again
+  onExpire: () => void;
+}
+
+/**
+ * Banner counting down until the API accepts generation requests again.
+ */
+const RateLimitCountdown: React.FC<RateLimitCountdownProps> = ({ until, onExpire }) => {
+  const { t } = useI18n();
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [until]);
+
+  const remainingSeconds = Math.max(0, Math.ceil((until - now) / 1000));
+
+  useEffect(() => {
+    if (remainingSeconds === 0) onExpire();
+  }, [remainingSeconds, onExpire]);
+
+  return (
+    <div role="status" className="flex items-center gap-3 mb-6 px-4 py-3 rounded-2xl bg-yellow-400/20 border border-yellow-400/30 text-yellow-700 dark:text-yellow-200">
+      <Hourglass className="h-5 w-5 flex-shrink-0 animate-pulse" />
+      <p className="text-sm font-semibold">
+        <RichMessage id="rateLimit.message" nodes={{ time: <span className="font-mono text-base">{t('time.seconds', { seconds: remainingSeconds })}</span> }} />
+      </p>
+    </div>
+  );
+};
+
+export default RateLimitCountdown;
@@ -0,0 +1,24 @@
+// components/RichMessage.tsx
+
+import React from 'react';
+import { MessageParams } from '../types';
+import { MessageKey } from '../locales/fr';
+import { useI18n } from '../hooks/useI18n';
+
+interface RichMessageProps {
+  id: MessageKey;
+  nodes: Record<string, React.ReactNode>; // Elements replacing the placeholders of the same name, e.g. a highlighted name
+  params?: MessageParams; // Plain values, as for `t`
+}
+
+/**
+ * Renders a catalog message whose placeholders are filled with elements, so a translation can move them around.
+ */
+const RichMessage: React.FC<RichMessageProps> = ({ id, nodes, params }) => {
+  const { t } = useI18n();
+  // Placeholders without a plain value are kept by `t`; splitting on them puts their names at the odd indexes.
+  const parts = t(id, params).split(/\{(\w+)\}/);
+  return <>{parts.map((part, index) => <React.Fragment key={index}>{index % 2 === 1 ? nodes[part] ?? `{${part}}` : part}</React.Fragment>)}</>;
+};
+
+export default RichMessage;
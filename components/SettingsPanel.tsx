@@ -0,0 +1,175 @@
+// components/SettingsPanel.tsx
+
+import React, { useEffect, useState } from 'react';
+import { Save, Settings } from 'lucide-react';
+import { PlayerSettings, Locale, API_RARITY_GRADES, ApiRarityGrade, DEFAULT_MOCK_GRADE_WEIGHTS, SUPPORTED_LOCALES } from '../types';
+import { GENERATION_PROVIDER_OPTIONS } from '../services/generationProviderFactory';
+import { DEFAULT_API_BASE_URL } from '../services/pokemonApiService';
+import { LEADERBOARD_PROVIDER_OPTIONS } from '../services/leaderboardServiceFactory';
+import { DEFAULT_LEADERBOARD_URL } from '../services/httpLeaderboardService';
+import Button from './Button';
+import { useI18n } from '../hooks/useI18n';
+import { MessageKey } from '../locales/fr';
+
+interface SettingsPanelProps {
+  settings: PlayerSettings;
+  onSave: (settings: PlayerSettings) => Promise<void>;
+  children?: React.ReactNode; // Extra sections rendered below the preferences form
+}
+
+const inputStyles = 'mt-1 block w-full px-4 py-2 rounded-md bg-white dark:bg-black/30 border border-gray-300 dark:border-white/10 text-gray-900 dark:text-white shadow-sm focus:ring-orange-500 focus:border-orange-500 sm:text-base';
+const labelStyles = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2';
+
+const VOLUME_FIELDS: { field: 'musicVolume' | 'effectsVolume'; label: MessageKey }[] = [
+  { field: 'musicVolume', label: 'settings.musicVolume' },
+  { field: 'effectsVolume', label: 'settings.effectsVolume' },
+];
+
+/**
+ * Player preferences, including the audio, which generation provider the Studio uses and the market price bounds.
+ */
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onSave, children }) => {
+  const { t, formatNumber } = useI18n();
+  const [draft, setDraft] = useState<PlayerSettings>(settings);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => setDraft(settings), [settings]);
+
+  const isPriceRangeValid = draft.priceCeiling >= draft.priceFloor;
+  const totalWeight = API_RARITY_GRADES.reduce((sum, grade) => sum + draft.mockGradeWeights[grade], 0);
+
+  const updateWeight = (grade: ApiRarityGrade, value: string) => {
+    const weight = Math.max(0, Number(value) || 0);
+    setDraft(prev => ({ ...prev, mockGradeWeights: { ...prev.mockGradeWeights, [grade]: weight } }));
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsSaving(true);
+    try {
+      await onSave(draft);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <section className="container mx-auto px-4 sm:px-6 lg:px-8 py-16">
+      <h1 className="text-4xl font-extrabold text-gray-900 dark:text-white mb-8 flex items-center gap-3"><Settings className="h-8 w-8" /> {t('settings.title')}</h1>
+      <form onSubmit={handleSubmit} className="bg-white/50 dark:bg-black/20 rounded-3xl p-8 border border-gray-200/50 dark:border-white/10 backdrop-blur-lg space-y-8 max-w-3xl">
+        <div>
+          <label htmlFor="language" className={labelStyles}>{t('settings.language')}</label>
+          <select id="language" className={inputStyles} value={draft.language} onChange={e => setDraft({ ...draft, language: e.target.value as Locale })}>
+            {SUPPORTED_LOCALES.map(locale => <option key={locale.id} value={locale.id}>{locale.label}</option>)}
+          </select>
+        </div>
+
+        <fieldset>
+          <legend className={labelStyles}>{t('settings.audio')}</legend>
+          <div className="grid gap-4 sm:grid-cols-2">
+            {VOLUME_FIELDS.map(({ field, label }) => (
+              <div key={field}>
+                <label htmlFor={field} className="flex justify-between text-sm text-gray-500 dark:text-gray-400">
+                  {t(label)}
+                  <span>{formatNumber(draft[field], { style: 'percent' })}</span>
+                </label>
+                <input id={field} type="range" min={0} max={1} step={0.05} className="mt-2 w-full accent-orange-500" value={draft[field]} onChange={e => setDraft({ ...draft, [field]: Number(e.target.value) })} />
+              </div>
+            ))}
+          </div>
+          <label className="mt-4 flex items-center gap-3 text-sm text-gray-700 dark:text-gray-300">
+            <input type="checkbox" className="h-4 w-4 accent-orange-500" checked={draft.isAmbientEnabled} onChange={e => setDraft({ ...draft, isAmbientEnabled: e.target.checked })} />
+            {t('settings.ambient')}
+          </label>
+          <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">{t('settings.audioHint')}</p>
+        </fieldset>
+
+        <fieldset>
+          <legend className={labelStyles}>{t('settings.provider')}</legend>
+          <div className="grid gap-3 sm:grid-cols-3">
+            {GENERATION_PROVIDER_OPTIONS.map(option => (
+              <label key={option.id} className={`cursor-pointer rounded-2xl border p-4 transition-colors ${draft.generationProvider === option.id ? 'border-yellow-400/60 bg-yellow-400/10' : 'border-gray-200 dark:border-white/10 hover:border-gray-400 dark:hover:border-white/30'}`}>
+                <input type="radio" name="generationProvider" value={option.id} checked={draft.generationProvider === option.id} onChange={() => setDraft({ ...draft, generationProvider: option.id })} className="sr-only" />
+                <span className="block font-semibold text-gray-900 dark:text-white">{t(option.label)}</span>
+                <span className="block text-sm text-gray-500 dark:text-gray-400 mt-1">{t(option.description)}</span>
+              </label>
+            ))}
+          </div>
+        </fieldset>
+
+        {draft.generationProvider === 'http' && (
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div>
+              <label htmlFor="apiBaseUrl" className={labelStyles}>{t('settings.apiBaseUrl')}</label>
+              <input id="apiBaseUrl" type="url" className={inputStyles} placeholder={process.env.POKEMON_API_BASE_URL || DEFAULT_API_BASE_URL} value={draft.apiBaseUrl} onChange={e => setDraft({ ...draft, apiBaseUrl: e.target.value.trim() })} />
+            </div>
+            <div>
+              <label htmlFor="apiToken" className={labelStyles}>{t('settings.apiToken')}</label>
+              <input id="apiToken" type="password" autoComplete="off" className={inputStyles} placeholder={t('settings.apiTokenPlaceholder')} value={draft.apiToken} onChange={e => setDraft({ ...draft, apiToken: e.target.value.trim() })} />
+            </div>
+            <p className="sm:col-span-2 text-sm text-gray-500 dark:text-gray-400">{t('settings.apiHint')}</p>
+          </div>
+        )}
+
+        {draft.generationProvider === 'mock' && (
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <span className={labelStyles}>{t('settings.gradeWeights')}</span>
+              <Button variant="ghost" size="sm" className="!px-3 !py-1 text-xs" onClick={() => setDraft({ ...draft, mockGradeWeights: DEFAULT_MOCK_GRADE_WEIGHTS })}>{t('collection.reset')}</Button>
+            </div>
+            <div className="grid grid-cols-4 sm:grid-cols-8 gap-3">
+              {API_RARITY_GRADES.map(grade => (
+                <div key={grade} className="text-center">
+                  <label htmlFor={`weight-${grade}`} className="block font-bold text-gray-900 dark:text-white">{grade}</label>
+                  <input id={`weight-${grade}`} type="number" min={0} className={`${inputStyles} !px-2 text-center`} value={draft.mockGradeWeights[grade]} onChange={e => updateWeight(grade, e.target.value)} />
+                  <span className="text-xs text-gray-500 dark:text-gray-400">{formatNumber(totalWeight > 0 ? draft.mockGradeWeights[grade] / totalWeight : 0, { style: 'percent', minimumFractionDigits: 1, maximumFractionDigits: 1 })}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <fieldset>
+          <legend className={labelStyles}>{t('settings.market')}</legend>
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div>
+              <label htmlFor="priceFloor" className="block text-sm text-gray-500 dark:text-gray-400">{t('settings.priceFloor')}</label>
+              <input id="priceFloor" type="number" min={1} className={inputStyles} value={draft.priceFloor} onChange={e => setDraft({ ...draft, priceFloor: Math.max(1, Math.round(Number(e.target.value) || 1)) })} />
+            </div>
+            <div>
+              <label htmlFor="priceCeiling" className="block text-sm text-gray-500 dark:text-gray-400">{t('settings.priceCeiling')}</label>
+              <input id="priceCeiling" type="number" min={draft.priceFloor} className={inputStyles} value={draft.priceCeiling} onChange={e => setDraft({ ...draft, priceCeiling: Math.max(1, Math.round(Number(e.target.value) || 1)) })} />
+            </div>
+          </div>
+          {!isPriceRangeValid && <p className="mt-2 text-sm text-red-500">{t('settings.priceRangeInvalid')}</p>}
+        </fieldset>
+
+        <fieldset>
+          <legend className={labelStyles}>{t('settings.leaderboard')}</legend>
+          <div className="grid gap-3 sm:grid-cols-2">
+            {LEADERBOARD_PROVIDER_OPTIONS.map(option => (
+              <label key={option.id} className={`cursor-pointer rounded-2xl border p-4 transition-colors ${draft.leaderboardProvider === option.id ? 'border-yellow-400/60 bg-yellow-400/10' : 'border-gray-200 dark:border-white/10 hover:border-gray-400 dark:hover:border-white/30'}`}>
+                <input type="radio" name="leaderboardProvider" value={option.id} checked={draft.leaderboardProvider === option.id} onChange={() => setDraft({ ...draft, leaderboardProvider: option.id })} className="sr-only" />
+                <span className="block font-semibold text-gray-900 dark:text-white">{t(option.label)}</span>
+                <span className="block text-sm text-gray-500 dark:text-gray-400 mt-1">{t(option.description)}</span>
+              </label>
+            ))}
+          </div>
+          {draft.leaderboardProvider === 'http' && (
+            <div className="mt-4">
+              <label htmlFor="leaderboardUrl" className="block text-sm text-gray-500 dark:text-gray-400">{t('settings.leaderboardUrl')}</label>
+              <input id="leaderboardUrl" type="url" className={inputStyles} placeholder={process.env.LEADERBOARD_API_URL || DEFAULT_LEADERBOARD_URL} value={draft.leaderboardUrl} onChange={e => setDraft({ ...draft, leaderboardUrl: e.target.value.trim() })} />
+            </div>
+          )}
+        </fieldset>
+
+        <div className="flex justify-end">
+          <Button type="submit" variant="primary" disabled={isSaving || !isPriceRangeValid}><span className="flex items-center"><Save className="h-5 w-5 mr-2" />{isSaving ? t('settings.saving') : t('settings.save')}</span></Button>
+        </div>
+      </form>
+      {children}
+    </section>
+  );
+};
+
+export default SettingsPanel;
@@ -0,0 +1,94 @@
+// components/VirtualCardGrid.tsx
+
+import React, { useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react';
+
+interface VirtualCardGridProps<T> {
+  items: T[];
+  getKey: (item: T) => string;
+  renderItem: (item: T) => React.ReactNode;
+  onEndReached?: () => void; // Called when the last rows come into view, to load the next page
+}
+
+/**
+ * Columns per breakpoint, matching the grid-cols classes used by the static grids.
+ */
+const BREAKPOINT_COLUMNS: [minWidth: number, columns: number][] = [[1280, 6], [1024, 5], [768, 4], [640, 3], [0, 2]];
+const GAP = 16; // Same as gap-4
+const CARD_ASPECT_RATIO = 4 / 3; // Height over width of a card (aspect-[3/4])
+const CARD_CHROME = 4; // Border or gradient frame around the card body
+const OVERSCAN_ROWS = 2;
+
+interface WindowRange {
+  columns: number;
+  rowHeight: number;
+  firstRow: number;
+  lastRow: number; // Exclusive
+}
+
+/**
+ * Card grid that only mounts the rows around the viewport. The page keeps scrolling as a whole:
+ * the grid reserves the full height and positions the visible rows inside it.
+ */
+const VirtualCardGrid = <T,>({ items, getKey, renderItem, onEndReached }: VirtualCardGridProps<T>) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [range, setRange] = useState<WindowRange>({ columns: 2, rowHeight: 0, firstRow: 0, lastRow: 0 });
+  const rowCount = Math.ceil(items.length / range.columns);
+
+  const measure = useCallback(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const columns = BREAKPOINT_COLUMNS.find(([minWidth]) => window.innerWidth >= minWidth)![1];
+    const columnWidth = (container.clientWidth - GAP * (columns - 1)) / columns;
+    const rowHeight = Math.round(columnWidth * CARD_ASPECT_RATIO + CARD_CHROME + GAP);
+    const top = container.getBoundingClientRect().top;
+    const firstRow = Math.max(0, Math.floor(-top / rowHeight) - OVERSCAN_ROWS);
+    const lastRow = Math.ceil((window.innerHeight - top) / rowHeight) + OVERSCAN_ROWS;
+    setRange(prev => prev.columns === columns && prev.rowHeight === rowHeight && prev.firstRow === firstRow && prev.lastRow === lastRow
+      ? prev
+      : { columns, rowHeight, firstRow, lastRow });
+  }, []);
+
+  useLayoutEffect(measure, [measure, items.length]);
+
+  useEffect(() => {
+    let frame = 0;
+    const onViewportChange = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(measure);
+    };
+    window.addEventListener('scroll', onViewportChange, { passive: true });
+    window.addEventListener('resize', onViewportChange);
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener('scroll', onViewportChange);
+      window.removeEventListener('resize', onViewportChange);
+    };
+  }, [measure]);
+
+  const firstRow = Math.min(range.firstRow, rowCount);
+  const lastRow = Math.min(range.lastRow, rowCount);
+
+  useEffect(() => {
+    if (onEndReached && rowCount > 0 && lastRow >= rowCount) onEndReached();
+  }, [onEndReached, lastRow, rowCount]);
+
+  const visibleItems = items.slice(firstRow * range.columns, lastRow * range.columns);
+
+  return (
+    <div ref={containerRef} className="relative" style={{ height: Math.max(0, rowCount * range.rowHeight - GAP) }}>
+      <div
+        className="absolute inset-x-0 grid"
+        style={{
+          top: firstRow * range.rowHeight,
+          gap: GAP,
+          gridTemplateColumns: `repeat(${range.columns}, minmax(0, 1fr))`,
+          gridAutoRows: `${Math.max(0, range.rowHeight - GAP)}px`,
+        }}
+      >
+        {visibleItems.map(item => <React.Fragment key={getKey(item)}>{renderItem(item)}</React.Fragment>)}
+      </div>
+    </div>
+  );
+};
+
+export default VirtualCardGrid;
@@ -0,0 +1,34 @@
+// hooks/useCardEvents.ts
+
+import { useEffect, useState } from 'react';
+import { CardEvent } from '../types';
+import { indexedDbService } from '../services/indexedDbService';
+
+/**
+ * Reads the history of a card.
+ * @param pokemonId The card whose history to show, or null to load nothing.
+ * @param refreshToken Any value that changes when the stored Pokémon change; the history is then read again.
+ * @returns The events, oldest first, or null while loading.
+ */
+export const useCardEvents = (pokemonId: string | null, refreshToken: unknown): CardEvent[] | null => {
+  const [events, setEvents] = useState<CardEvent[] | null>(null);
+
+  useEffect(() => {
+    setEvents(null);
+  }, [pokemonId]);
+
+  useEffect(() => {
+    if (!pokemonId) return;
+    let isActive = true;
+    indexedDbService.getCardEvents(pokemonId)
+      .then(loaded => {
+        if (isActive) setEvents(loaded);
+      })
+      .catch(error => console.error(`Failed to load the history of ${pokemonId}:`, error));
+    return () => {
+      isActive = false;
+    };
+  }, [pokemonId, refreshToken]);
+
+  return events;
+};
@@ -0,0 +1,39 @@
+// hooks/useDataChanges.ts
+
+import { useEffect, useRef } from 'react';
+import { dataChangeChannel } from '../services/dataChangeChannel';
+
+/**
+ * Delay gathering the writes of another tab into one reload; a sale alone writes several stores
+ * in quick succession.
+ */
+const DATA_CHANGE_DEBOUNCE_MS = 250;
+
+/**
+ * Calls the listener when other tabs commit writes to a database, with every store written since the last call.
+ * @param dbName The database to follow; changes to other profiles' saves are ignored.
+ * @param listener Receives the names of the changed stores. The latest one is always called.
+ */
+export const useDataChanges = (dbName: string, listener: (stores: Set<string>) => void): void => {
+  const listenerRef = useRef(listener);
+  listenerRef.current = listener;
+
+  useEffect(() => {
+    let pending = new Set<string>();
+    let timer: number | undefined;
+    const unsubscribe = dataChangeChannel.subscribe(change => {
+      if (change.dbName !== dbName) return;
+      change.stores.forEach(store => pending.add(store));
+      window.clearTimeout(timer);
+      timer = window.setTimeout(() => {
+        const stores = pending;
+        pending = new Set();
+        listenerRef.current(stores);
+      }, DATA_CHANGE_DEBOUNCE_MS);
+    });
+    return () => {
+      unsubscribe();
+      window.clearTimeout(timer);
+    };
+  }, [dbName]);
+};
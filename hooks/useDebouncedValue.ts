@@ -0,0 +1,20 @@
+// hooks/useDebouncedValue.ts
+
+import { useEffect, useState } from 'react';
+
+/**
+ * Follows a value with a delay, so rapid changes (e.g. keystrokes) only propagate once they settle.
+ * @param value The value to follow.
+ * @param delay The quiet period in milliseconds; 0 propagates on the next tick.
+ * @returns The last value that stayed unchanged for the whole delay.
+ */
+export const useDebouncedValue = <T>(value: T, delay: number): T => {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delay);
+    return () => clearTimeout(timer);
+  }, [value, delay]);
+
+  return debounced;
+};
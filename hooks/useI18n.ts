@@ -0,0 +1,16 @@
+// hooks/useI18n.ts
+
+import { useEffect, useState } from 'react';
+import { I18n, i18n } from '../services/i18n';
+
+/**
+ * Gives a component the translator, and re-renders it when the player changes the language.
+ * @returns The shared translator; its methods can be destructured.
+ */
+export const useI18n = (): I18n => {
+  const [, setLocale] = useState(i18n.getLocale());
+
+  useEffect(() => i18n.subscribe(setLocale), []);
+
+  return i18n;
+};
@@ -0,0 +1,100 @@
+// hooks/useLeaderboard.ts
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { LeaderboardCache, LeaderboardMetric, LeaderboardRanking, ScoreSnapshot } from '../types';
+import { indexedDbService } from '../services/indexedDbService';
+import { LeaderboardService } from '../services/leaderboardService';
+import { NetworkError, TimeoutError } from '../services/apiErrors';
+import { i18n } from '../services/i18n';
+
+interface LeaderboardState {
+  ranking: LeaderboardRanking | null; // Latest ranking on the metric, possibly from the offline cache
+  lastSyncedAt: string | null;
+  isSyncing: boolean;
+  isOffline: boolean;
+  error: string | null;
+  sync: () => Promise<void>;
+}
+
+/**
+ * Submits the player's scores and fetches the ranking while the Classement view is shown.
+ * The last rankings received are cached in the save, so they stay visible offline.
+ * @param service The leaderboard to use; nothing happens while it is null.
+ * @param getSnapshot Builds the player's current scores when a sync submits them; a new function does not trigger a sync by itself.
+ * @param metric The metric to rank on.
+ * @param isActive Whether the Classement view is shown.
+ */
+export const useLeaderboard = (service: LeaderboardService | null, getSnapshot: () => Promise<ScoreSnapshot>, metric: LeaderboardMetric, isActive: boolean): LeaderboardState => {
+  const [cache, setCache] = useState<LeaderboardCache | null>(null);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [isOffline, setIsOffline] = useState(() => !navigator.onLine);
+  const [error, setError] = useState<string | null>(null);
+  const getSnapshotRef = useRef(getSnapshot);
+  getSnapshotRef.current = getSnapshot;
+
+  useEffect(() => {
+    if (!service) return;
+    let isCurrent = true;
+    indexedDbService.getLeaderboardCache()
+      .then(stored => { if (isCurrent) setCache(stored?.provider === service.id ? stored : null); })
+      .catch(err => console.error('Failed to read the leaderboard cache:', err));
+    return () => { isCurrent = false; };
+  }, [service]);
+
+  const sync = useCallback(async () => {
+    if (!service) return;
+    setIsSyncing(true);
+    setError(null);
+    try {
+      await service.submitScore(await getSnapshotRef.current());
+      const ranking = await service.getRanking(metric);
+      const previous = await indexedDbService.getLeaderboardCache();
+      const updated: LeaderboardCache = {
+        id: 'leaderboardCache',
+        provider: service.id,
+        rankings: { ...(previous?.provider === service.id ? previous.rankings : {}), [metric]: ranking },
+        lastSyncedAt: ranking.fetchedAt,
+      };
+      await indexedDbService.saveLeaderboardCache(updated);
+      setCache(updated);
+      setIsOffline(false);
+    } catch (err) {
+      if (err instanceof NetworkError || err instanceof TimeoutError) {
+        setIsOffline(true);
+      } else {
+        console.error('Failed to sync the leaderboard:', err);
+        setError((err as Error).message || i18n.t('leaderboard.unavailable'));
+      }
+    } finally {
+      setIsSyncing(false);
+    }
+  }, [service, metric]);
+
+  useEffect(() => {
+    if (isActive) sync();
+  }, [isActive, sync]);
+
+  // Going back online resyncs the shown view; going offline keeps the cached ranking on screen.
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOffline(false);
+      if (isActive) sync();
+    };
+    const handleOffline = () => setIsOffline(true);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [isActive, sync]);
+
+  return {
+    ranking: cache?.rankings[metric] ?? null,
+    lastSyncedAt: cache?.lastSyncedAt ?? null,
+    isSyncing,
+    isOffline: service?.id === 'http' && isOffline, // The local leaderboard works offline
+    error,
+    sync,
+  };
+};
@@ -0,0 +1,16 @@
+// hooks/useLocation.ts
+
+import { useEffect, useState } from 'react';
+import { Location, router } from '../services/router';
+
+/**
+ * Follows the app's location, re-rendering on every navigation, including the browser's Back and Forward buttons.
+ * @returns The current route and the page kept behind an opened card.
+ */
+export const useLocation = (): Location => {
+  const [location, setLocation] = useState(router.getLocation);
+
+  useEffect(() => router.subscribe(setLocation), []);
+
+  return location;
+};
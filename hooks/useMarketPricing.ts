@@ -0,0 +1,97 @@
+// hooks/useMarketPricing.ts
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { MarketSnapshot, Pokemon, PokemonQuery, PokemonStatus, PlayerSettings, PriceQuote, PricePoint } from '../types';
+import { indexedDbService } from '../services/indexedDbService';
+import { PricingEngine, VOLUME_WINDOW_MS, buildMarketSnapshot, getPricingConfig } from '../services/pricingEngine';
+
+const SAMPLE_INTERVAL = 60 * 60 * 1000; // An unchanged price is recorded again after an hour, so trends stay current
+
+interface MarketPricing {
+  getQuote: (pokemon: Pokemon) => PriceQuote;
+  getTrend: (pokemon: Pokemon) => number[] | undefined; // Recorded resale prices of the card's rarity and grade, oldest first
+}
+
+// Cards priced by the market: the ones on sale, at the house or by a seller.
+const ON_SALE_QUERY: PokemonQuery = {
+  search: '',
+  rarities: [],
+  statuses: [PokemonStatus.RESOLD, PokemonStatus.LISTED],
+  grades: [],
+  favoritesOnly: false,
+  playerCardsOnly: false,
+  generatedFrom: null,
+  generatedTo: null,
+};
+
+const getSeriesKey = (point: Pick<PricePoint, 'rarity' | 'grade'>): string => `${point.rarity}|${point.grade}`;
+
+/**
+ * Prices cards from the current market and records the prices of the cards on sale, for trend charts.
+ * Only the cards on sale and the ones traded recently are read to build the market snapshot.
+ * @param refreshToken Any value that changes when the stored Pokémon change; the snapshot is then rebuilt.
+ * @param settings The player settings holding the price floor and ceiling.
+ */
+export const useMarketPricing = (refreshToken: unknown, settings: PlayerSettings | null): MarketPricing => {
+  const [snapshot, setSnapshot] = useState<MarketSnapshot>(() => buildMarketSnapshot([], []));
+  const [onSale, setOnSale] = useState<Pokemon[]>([]);
+  const [history, setHistory] = useState<PricePoint[]>([]);
+  const engine = useMemo(() => new PricingEngine(getPricingConfig(settings)), [settings?.priceFloor, settings?.priceCeiling]);
+
+  useEffect(() => {
+    let isActive = true;
+    const now = new Date();
+    (async () => {
+      const [listed, entries] = await Promise.all([
+        indexedDbService.queryPokemons(ON_SALE_QUERY),
+        indexedDbService.getLedgerEntriesSince(new Date(now.getTime() - VOLUME_WINDOW_MS).toISOString()),
+      ]);
+      // The cards traded recently are no longer on sale, but their rarity weighs on the volume.
+      const listedIds = new Set(listed.map(pokemon => pokemon.id));
+      const tradedIds = [...new Set(entries.map(entry => entry.pokemonId).filter((id): id is string => !!id && !listedIds.has(id)))];
+      const traded = await indexedDbService.getPokemonsByIds(tradedIds);
+      if (!isActive) return;
+      setOnSale(listed);
+      setSnapshot(buildMarketSnapshot([...listed, ...traded], entries, now));
+    })().catch(error => console.error('Failed to build the market snapshot:', error));
+    return () => { isActive = false; };
+  }, [refreshToken]);
+
+  // Record the price of every rarity and grade on sale when it moved, or when its last point is getting old.
+  useEffect(() => {
+    let isActive = true;
+    (async () => {
+      const recorded = await indexedDbService.getPriceHistory();
+      const lastBySeries = new Map(recorded.map(point => [getSeriesKey(point), point]));
+      const now = new Date();
+      const points = new Map<string, PricePoint>();
+      for (const pokemon of onSale) {
+        const key = getSeriesKey(pokemon);
+        if (points.has(key)) continue;
+        const { sell, buy } = engine.quoteSeries(pokemon.rarity, pokemon.grade, snapshot);
+        const last = lastBySeries.get(key);
+        if (last && last.sell === sell && now.getTime() - new Date(last.recordedAt).getTime() < SAMPLE_INTERVAL) continue;
+        points.set(key, { rarity: pokemon.rarity, grade: pokemon.grade, sell, buy, recordedAt: now.toISOString() });
+      }
+      if (points.size > 0) await indexedDbService.recordPricePoints([...points.values()]);
+      const updated = points.size > 0 ? await indexedDbService.getPriceHistory() : recorded;
+      if (isActive) setHistory(updated);
+    })().catch(error => console.error('Failed to record market prices:', error));
+    return () => { isActive = false; };
+    // The cards on sale are read with the snapshot, so waiting for it avoids sampling stale prices.
+  }, [snapshot, engine]);
+
+  const trends = useMemo(() => {
+    const bySeries = new Map<string, number[]>();
+    for (const point of history) {
+      const key = getSeriesKey(point);
+      bySeries.set(key, [...(bySeries.get(key) ?? []), point.sell]);
+    }
+    return bySeries;
+  }, [history]);
+
+  const getQuote = useCallback((pokemon: Pokemon) => engine.quote(pokemon, snapshot), [engine, snapshot]);
+  const getTrend = useCallback((pokemon: Pokemon) => trends.get(getSeriesKey(pokemon)), [trends]);
+
+  return { getQuote, getTrend };
+};
@@ -0,0 +1,25 @@
+// hooks/useOnlineStatus.ts
+
+import { useEffect, useState } from 'react';
+
+/**
+ * Follows the browser's connectivity. `navigator.onLine` only knows whether a network is available,
+ * so a request can still fail while this reports online.
+ * @returns Whether the browser is online.
+ */
+export const useOnlineStatus = (): boolean => {
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+
+  useEffect(() => {
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  return isOnline;
+};
@@ -0,0 +1,95 @@
+// hooks/usePagedPokemons.ts
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Pokemon, PokemonPage, PokemonPageCursor, PokemonQuery } from '../types';
+import { indexedDbService } from '../services/indexedDbService';
+
+/**
+ * Number of Pokémon read per page; a bit more than a tall screen of cards.
+ */
+const DEFAULT_PAGE_SIZE = 48;
+
+interface PagedPokemons {
+  items: Pokemon[];
+  hasMore: boolean;
+  isLoading: boolean;
+  loadMore: () => void;
+}
+
+/**
+ * Reads the Pokémon matching a query page by page, in generatedAt order.
+ * Orders the generatedAt index can't serve need every match at once: pass a null page size and sort the result.
+ * @param query The filters to apply, or null to load nothing (e.g. while the view is hidden).
+ * @param direction 'desc' for the most recent first, 'asc' for the oldest first.
+ * @param refreshToken Any value that changes when the stored Pokémon change; the pages already loaded are then read again.
+ * @param pageSize The number of Pokémon read per page, or null to read every match in one go.
+ */
+export const usePagedPokemons = (
+  query: PokemonQuery | null,
+  direction: 'asc' | 'desc',
+  refreshToken: unknown,
+  pageSize: number | null = DEFAULT_PAGE_SIZE,
+): PagedPokemons => {
+  const [items, setItems] = useState<Pokemon[]>([]);
+  const [nextCursor, setNextCursor] = useState<PokemonPageCursor | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const requestIdRef = useRef(0); // Bumped on every reload so late pages of an older query are dropped
+  const isLoadingRef = useRef(false);
+  const loadedCountRef = useRef(0);
+  const lastQueryRef = useRef<{ query: PokemonQuery | null; direction: 'asc' | 'desc' } | null>(null);
+
+  useEffect(() => {
+    const requestId = ++requestIdRef.current;
+    const isSameQuery = lastQueryRef.current?.query === query && lastQueryRef.current?.direction === direction;
+    lastQueryRef.current = { query, direction };
+    if (!query) {
+      setItems([]);
+      setNextCursor(null);
+      loadedCountRef.current = 0;
+      return;
+    }
+
+    // A new query starts over from the first page; a refresh re-reads as many Pokémon as are already shown.
+    const firstPage: Promise<PokemonPage> = pageSize === null
+      ? indexedDbService.queryPokemons(query).then(matches => ({ items: matches, nextCursor: null }))
+      : indexedDbService.queryPokemonPage(query, isSameQuery ? Math.max(pageSize, loadedCountRef.current) : pageSize, null, direction);
+    if (!isSameQuery) setItems([]);
+    isLoadingRef.current = true;
+    setIsLoading(true);
+    firstPage
+      .then(page => {
+        if (requestId !== requestIdRef.current) return;
+        loadedCountRef.current = page.items.length;
+        setItems(page.items);
+        setNextCursor(page.nextCursor);
+      })
+      .catch(error => console.error('Failed to load Pokémon page:', error))
+      .finally(() => {
+        if (requestId !== requestIdRef.current) return;
+        isLoadingRef.current = false;
+        setIsLoading(false);
+      });
+  }, [query, direction, refreshToken, pageSize]);
+
+  const loadMore = useCallback(() => {
+    if (!query || !nextCursor || pageSize === null || isLoadingRef.current) return;
+    const requestId = requestIdRef.current;
+    isLoadingRef.current = true;
+    setIsLoading(true);
+    indexedDbService.queryPokemonPage(query, pageSize, nextCursor, direction)
+      .then(page => {
+        if (requestId !== requestIdRef.current) return;
+        loadedCountRef.current += page.items.length;
+        setItems(prev => [...prev, ...page.items]);
+        setNextCursor(page.nextCursor);
+      })
+      .catch(error => console.error('Failed to load Pokémon page:', error))
+      .finally(() => {
+        if (requestId !== requestIdRef.current) return;
+        isLoadingRef.current = false;
+        setIsLoading(false);
+      });
+  }, [query, direction, nextCursor, pageSize]);
+
+  return { items, hasMore: nextCursor !== null, isLoading, loadMore };
+};
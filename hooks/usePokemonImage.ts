@@ -0,0 +1,101 @@
+// hooks/usePokemonImage.ts
+
+import { useEffect, useState } from 'react';
+import { ImageVariant } from '../types';
+import { indexedDbService } from '../services/indexedDbService';
+
+/**
+ * Delay before an unused object URL is revoked, so cards that remount right away reuse it.
+ */
+const REVOKE_DELAY = 5000;
+
+interface CachedUrl {
+  url: Promise<string | null>;
+  resolvedUrl?: string | null; // Set once the URL promise settles, for synchronous reads
+  refCount: number;
+  revokeTimer: ReturnType<typeof setTimeout> | null;
+}
+
+/**
+ * Shares one object URL per stored image between every component displaying it,
+ * and revokes it once no component has used it for REVOKE_DELAY.
+ */
+class ObjectUrlCache {
+  private entries = new Map<string, CachedUrl>();
+
+  public acquire(pokemonId: string, variant: ImageVariant): Promise<string | null> {
+    const key = `${pokemonId}:${variant}`;
+    let entry = this.entries.get(key);
+    if (!entry) {
+      const load = variant === 'thumbnail' ? indexedDbService.getThumbnail(pokemonId) : indexedDbService.getPokemonImage(pokemonId, variant);
+      entry = {
+        url: load
+          .then(blob => {
+            const url = blob ? URL.createObjectURL(blob) : null;
+            entry!.resolvedUrl = url;
+            return url;
+          })
+          .catch(error => {
+            console.error(`Failed to load ${variant} image of ${pokemonId}:`, error);
+            this.entries.delete(key);
+            return null;
+          }),
+        refCount: 0,
+        revokeTimer: null,
+      };
+      this.entries.set(key, entry);
+    }
+    if (entry.revokeTimer) {
+      clearTimeout(entry.revokeTimer);
+      entry.revokeTimer = null;
+    }
+    entry.refCount++;
+    return entry.url;
+  }
+
+  /**
+   * Returns the URL if it is already loaded, so remounting components can render it immediately.
+   */
+  public peek(pokemonId: string, variant: ImageVariant): string | null {
+    return this.entries.get(`${pokemonId}:${variant}`)?.resolvedUrl ?? null;
+  }
+
+  public release(pokemonId: string, variant: ImageVariant): void {
+    const key = `${pokemonId}:${variant}`;
+    const entry = this.entries.get(key);
+    if (!entry) return;
+    entry.refCount = Math.max(0, entry.refCount - 1);
+    if (entry.refCount > 0) return;
+    entry.revokeTimer = setTimeout(() => {
+      this.entries.delete(key);
+      entry.url.then(url => url && URL.revokeObjectURL(url));
+    }, REVOKE_DELAY);
+  }
+}
+
+const objectUrlCache = new ObjectUrlCache();
+
+/**
+ * Loads a stored Pokémon image as a managed object URL.
+ * @param pokemonId The Pokémon whose image to show, or null to load nothing.
+ * @param variant 'thumbnail' for grids, 'full' for an opened card.
+ * @returns The object URL once loaded, or null while loading or when no image exists.
+ */
+export const usePokemonImage = (pokemonId: string | null, variant: ImageVariant): string | null => {
+  const [url, setUrl] = useState<string | null>(() => pokemonId ? objectUrlCache.peek(pokemonId, variant) : null);
+
+  useEffect(() => {
+    if (!pokemonId) return;
+    let isActive = true;
+    objectUrlCache.acquire(pokemonId, variant).then(loadedUrl => {
+      if (isActive) setUrl(loadedUrl);
+    });
+    return () => {
+      isActive = false;
+      setUrl(null);
+      objectUrlCache.release(pokemonId, variant);
+    };
+  }, [pokemonId, variant]);
+
+  return url;
+};
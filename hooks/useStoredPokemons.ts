@@ -0,0 +1,34 @@
+// hooks/useStoredPokemons.ts
+
+import { useEffect, useState } from 'react';
+import { Pokemon } from '../types';
+import { indexedDbService } from '../services/indexedDbService';
+
+/**
+ * Reads a few Pokémon by ID, for the views that show cards outside the paged grids.
+ * @param pokemonIds The Pokémon to read.
+ * @param refreshToken Any value that changes when the stored Pokémon change; the Pokémon are then read again.
+ * @returns The Pokémon found, by ID, or null until the first read of these IDs completes.
+ */
+export const useStoredPokemons = (pokemonIds: string[], refreshToken: unknown): Map<string, Pokemon> | null => {
+  const [pokemons, setPokemons] = useState<Map<string, Pokemon> | null>(null);
+  const idsKey = pokemonIds.join('|');
+
+  useEffect(() => {
+    setPokemons(null);
+  }, [idsKey]);
+
+  useEffect(() => {
+    let isActive = true;
+    indexedDbService.getPokemonsByIds(idsKey ? idsKey.split('|') : [])
+      .then(loaded => {
+        if (isActive) setPokemons(new Map(loaded.map(pokemon => [pokemon.id, pokemon])));
+      })
+      .catch(error => console.error('Failed to load Pokémon:', error));
+    return () => {
+      isActive = false;
+    };
+  }, [idsKey, refreshToken]);
+
+  return pokemons;
+};
@@ -3,15 +3,24 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import ProfileGate from './components/ProfileGate';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+if (process.env.REGISTER_SERVICE_WORKER && 'serviceWorker' in navigator) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(error => console.error('Service worker registration failed:', error));
+  });
+}
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    <ProfileGate>
+      {(profile, profileSwitcher) => <App key={profile.id} profile={profile} profileSwitcher={profileSwitcher} />}
+    </ProfileGate>
   </React.StrictMode>,
 );
\ No newline at end of file
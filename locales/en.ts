@@ -0,0 +1,497 @@
+// locales/en.ts
+
+import { Catalog } from './fr';
+
+/**
+ * English messages. Typed as a Catalog, so a key missing from the French reference fails the build.
+ */
+export const en: Catalog = {
+  // Shared
+  'common.cancel': 'Cancel',
+  'common.confirm': 'Confirm',
+  'common.close': 'Close',
+  'common.reload': 'Reload',
+  'common.aCard': 'a card',
+  'common.theCard': 'the card',
+  'common.you': 'you',
+  'common.processing': 'Processing...',
+  'common.notAvailable': 'N/A',
+  'tokens.count': { one: '{count} token', other: '{count} tokens' },
+
+  // Rarities
+  'rarity.COMMON': 'Common',
+  'rarity.RARE': 'Rare',
+  'rarity.EPIC': 'Epic',
+  'rarity.LEGENDARY': 'Legendary',
+  'rarity.MYTHIC': 'Mythic',
+
+  // Header
+  'nav.studio': 'Studio',
+  'nav.collection': 'Collection',
+  'nav.market': 'Market',
+  'nav.achievements': 'Achievements',
+  'nav.leaderboard': 'Leaderboard',
+  'header.offline': 'Offline',
+  'header.offlineHint': 'Offline: generations are queued',
+  'header.pendingForgesHint': 'Generations waiting for the network',
+  'header.ledgerHint': 'Token history',
+  'header.generate': 'Generate',
+  'header.settingsHint': 'Settings',
+  'header.navigation': 'Main navigation',
+
+  // Pages
+  'notFound.title': 'Page not found',
+  'notFound.body': 'No PokéForge page matches {path}.',
+  'notFound.home': 'Back to the Studio',
+  'card.notFoundTitle': 'Card not found',
+  'card.notFound': 'This card does not exist in this profile.',
+
+  // Studio
+  'studio.badge': 'POKÉMON STUDIO',
+  'studio.title': 'Forge your unique Pokémon',
+  'studio.intro': 'Start a generation, watch the card take shape and grow your collection. The best smiths know when to keep a card and when to sell it to refill their tokens.',
+  'studio.generate': 'Generate a Pokémon',
+  'studio.generating': 'Generating...',
+  'studio.explore': 'Browse the collection',
+  'studio.initialTokens': 'Starting tokens',
+  'studio.generationCost': 'Generation cost',
+  'studio.resale': 'Card resale',
+  'studio.resaleValue': 'Market driven',
+
+  // Generation
+  'packs.title': 'Booster packs',
+  'packs.intro': 'Several cards at once, cheaper than one by one. They are revealed from the least to the most rare.',
+  'packs.cards': { one: '{count} card', other: '{count} cards' },
+  'packs.saving': '{amount} saved',
+  'packs.guarantee': { one: 'At least {count} {rarity} card or better', other: 'At least {count} {rarity} cards or better' },
+  'packs.noGuarantee': 'No guarantee',
+  'packs.open': 'Open for {price}',
+  'packs.opening': 'Opening...',
+  'packs.odds': 'Published odds',
+  'packs.rarity': 'Rarity',
+  'packs.regularSlot': 'Regular card',
+  'packs.guaranteedSlot': 'Guaranteed {rarity} card or better',
+  'packs.oddsUnknown': 'Set by the API',
+  'packs.oddsHint': 'Every card is forged by the source chosen in the settings, with one generation each. When the other cards of the pack already meet the guarantee, the guaranteed card follows the regular odds; otherwise it follows the guaranteed column. The API takes no parameters: a card it returns below the guaranteed rarity is raised to the lowest grade of that rarity. The odds are only known with the offline generator.',
+  'packs.notEnoughTokens': 'You need {price} to open this pack.',
+  'packs.offline': 'Offline: packs cannot be opened with the EPSI API.',
+  'packs.openFailed': 'The pack could not be opened.',
+  'packs.allFailed': 'No card of the pack could be forged: {amount} refunded.',
+  'packs.opened': { one: '{name} opened: {count} card added to the collection.', other: '{name} opened: {count} cards added to the collection.' },
+  'packs.refunded': { one: '{count} card could not be forged: {amount} refunded.', other: '{count} cards could not be forged: {amount} refunded.' },
+  'packs.revealTitle': 'Opening: {name}',
+  'packs.revealHint': 'Tap the next card to flip it. The rarest comes last.',
+  'packs.hiddenCard': 'Face-down card',
+  'packs.revealNext': 'Flip the next one',
+  'packs.revealAll': 'Reveal all',
+  'packs.done': 'Done',
+  'pack.TRIO.name': 'Trio pack',
+  'pack.ELITE.name': 'Elite pack',
+  'generation.notEnoughTokens': 'You need {cost} to generate.',
+  'generation.success': 'New Pokémon generated: {name}!',
+  'generation.authError': 'The API refused access: {message} Check the token in the settings.',
+  'generation.failed': 'Generation failed. Tokens refunded.',
+  'generation.queued': 'Offline: {cost} reserved, the generation will start when the network is back.',
+  'generation.queueFailed': 'Could not queue the generation.',
+  'generation.queuedForged': { one: 'Queued generation complete: {name}!', other: '{count} queued generations complete!' },
+  'generation.queuedRefunded': { one: '{count} generation failed: {amount} refunded.', other: '{count} generations failed: {amount} refunded.' },
+
+  // Collection
+  'collection.title': 'My Collection',
+  'collection.noResults': 'No results',
+  'collection.noResultsHint': 'No card matches these filters.',
+  'collection.empty': 'Empty collection',
+  'collection.emptyHint': 'Generate Pokémon to start your collection!',
+  'favorite.failed': 'Could not update the favorite.',
+
+  // Market
+  'market.title': 'Card Market',
+  'market.allRarities': 'All',
+  'market.allGrades': 'All grades',
+  'market.sortRecent': 'Recent',
+  'market.sortGrade': 'Best grade',
+  'market.house': 'Shop',
+  'market.listings': 'Player listings',
+  'market.auctions': 'Auctions',
+  'market.houseEmpty': 'The shop is empty',
+  'market.houseEmptyHint': 'Cards sold to the shop show up here.',
+  'market.listingsEmpty': 'No listings',
+  'market.listingsEmptyHint': 'List Pokémon from your collection to see them here.',
+  'market.sold': { one: '{trader} bought your {name}: +{earned}.', other: 'Traders bought {count} of your cards: +{earned}.' },
+  'market.expired': { one: 'The listing of {name} expired.', other: '{count} listings expired.' },
+  'market.outbid': 'You were outbid on {name}: {amount} released.',
+  'market.won': 'You won {name} for {amount}!',
+  'resell.title': 'Quick sale',
+  'resell.question': 'Are you sure you want to sell {name} to the shop?',
+  'resell.details': 'You will receive {amount} right away and the card will join the shop stock. To set your own price, list it instead.',
+  'resell.confirm': 'Confirm the sale',
+  'resell.success': '{name} sold! +{amount}.',
+  'resell.failed': 'The sale failed.',
+  'purchase.notEnoughTokens': 'Not enough tokens. You need {amount}.',
+  'purchase.success': '{name} bought! -{amount}.',
+  'purchase.failed': 'The purchase failed.',
+  'listing.created': '{name} is on sale for {price}.',
+  'listing.createFailed': 'Listing the card failed.',
+  'listing.cancelled': 'The listing of {name} was withdrawn.',
+  'listing.cancelFailed': 'Withdrawing the listing failed.',
+  'bid.placed': 'Bid of {amount} placed on {name}. The tokens stay locked while you lead.',
+  'bid.failed': 'The bid failed.',
+
+  // Achievements
+  'achievements.unlocked': 'Achievement unlocked: {name}!',
+  'achievements.unlockedWithReward': 'Achievement unlocked: {name}! +{reward}',
+
+  // Daily bonus
+  'dailyBonus.claimed': { one: '{count} day streak: you received {amount}!', other: '{count} day streak: you received {amount}!' },
+  'dailyBonus.claimedWithPokemon': { one: '{count} day streak: you received {amount} and {name} ({rarity})!', other: '{count} day streak: you received {amount} and {name} ({rarity})!' },
+  'dailyBonus.claimFailed': 'Claiming the bonus failed.',
+
+  // Settings
+  'settings.saved': 'Settings saved.',
+  'settings.saveFailed': 'Saving the settings failed.',
+  'settings.conflict': 'The settings were changed in another tab: check them and try again.',
+
+  // Save and tabs
+  'app.loadFailed': 'Could not load the data.',
+  'ledger.loadFailed': 'Could not load the token history.',
+  'database.blocked': 'An update is waiting for the other PokéForge tabs to close.',
+  'database.staleTitle': 'Save updated',
+  'database.staleBody': 'The save was updated or deleted from another tab. Reload the page to continue with the latest data.',
+
+  // Footer
+  'footer.tagline': 'Pokémon generation workshop.',
+  'footer.legal': 'Legal notice',
+  'footer.contact': 'Contact',
+
+  // Time
+  'time.hoursMinutes': '{hours} h {minutes} min',
+  'time.minutes': '{minutes} min',
+  'time.seconds': '{seconds} s',
+
+  // Auctions
+  'auction.soldBy': 'sold by {seller}',
+  'auction.currentBid': 'Current bid: {amount} ({bidder})',
+  'auction.startPrice': 'Starting bid: {amount}',
+  'auction.settling': 'Ended, settlement in progress',
+  'auction.endsIn': 'Ends in {time}',
+  'auction.leading': 'You lead: {amount} locked until the end or a higher bid.',
+  'auction.amountLabel': 'Bid amount on {name}',
+  'auction.bid': 'Bid',
+  'auction.escrowed': 'Tokens locked by your leading bids:',
+  'auction.empty': 'No auctions running',
+  'auction.emptyHint': 'Traders auction their legendary and mythic cards.',
+
+  // Achievements list
+  'achievements.title': 'My Achievements',
+  'achievements.progress': '{count}/{total} unlocked',
+  'achievements.unlockedOn': 'Unlocked on {date}',
+  'achievements.tier.bronze': 'Bronze',
+  'achievements.tier.silver': 'Silver',
+  'achievements.tier.gold': 'Gold',
+
+  // Backups
+  'backup.title': 'Backup',
+  'backup.intro': 'Your collection only exists in this browser. Export it to a file to keep it or move it.',
+  'backup.fileName': 'pokeforge-backup-{date}.json',
+  'backup.export': 'Export',
+  'backup.exporting': 'Exporting...',
+  'backup.exported': 'Backup exported.',
+  'backup.exportFailed': 'Exporting the backup failed.',
+  'backup.import': 'Import',
+  'backup.importing': 'Importing...',
+  'backup.importTitle': 'Import a backup',
+  'backup.unreadable': 'Could not read the backup.',
+  'backup.importFailed': 'The import failed: no data was changed.',
+  'backup.replaced': 'Backup restored.',
+  'backup.merged': 'Backup merged into your collection.',
+  'backup.exportedAt': 'Exported on {date} (schema v{version})',
+  'backup.contents': '{pokemons} Pokémon, {images} images, {entries} token movements',
+  'backup.conflicts': { one: '{count} Pokémon already exists in your collection.', other: '{count} Pokémon already exist in your collection.' },
+  'backup.modes': '{merge} adds the missing Pokémon and the unlocked achievements, keeping your balance, your settings and your version of conflicting cards. {replace} erases all your local data in favor of the backup.',
+  'backup.merge': 'Merge',
+  'backup.replace': 'Replace',
+
+  // Collection filters
+  'collection.searchLabel': 'Search by name',
+  'collection.searchPlaceholder': 'Search a Pokémon...',
+  'collection.sortLabel': 'Sort by',
+  'collection.sort.date': 'Date',
+  'collection.sort.name': 'Name',
+  'collection.sort.rarity': 'Rarity',
+  'collection.sort.value': 'Resale value',
+  'collection.ascending': 'Ascending',
+  'collection.descending': 'Descending',
+  'collection.status.owned': 'Owned',
+  'collection.status.listed': 'On sale',
+  'collection.status.resold': 'Sold',
+  'collection.status.traded': 'Traded',
+  'collection.favorites': 'Favorites',
+  'collection.from': 'From',
+  'collection.to': 'to',
+  'collection.count': { zero: '0 cards', one: '{count} card', other: '{count} cards' },
+  'collection.countMore': '{count}+ cards',
+  'collection.reset': 'Reset',
+
+  // Daily bonus modal
+  'dailyBonus.title': 'Daily Bonus!',
+  'dailyBonus.welcome': 'Welcome! Here is your chest of the day to reward your loyalty.',
+  'dailyBonus.claim': 'Claim',
+  'dailyBonus.claimAmount': 'Claim (+{amount})',
+  'dailyBonus.claimWithCard': 'Claim (+{amount} + 1 card)',
+  'dailyBonus.later': 'Later',
+  'dailyBonus.streak': { one: '{count} day streak · best: {best}', other: '{count} day streak · best: {best}' },
+  'dailyBonus.streakLost': 'Your {count} day streak was broken.',
+  'dailyBonus.day': 'D{day}',
+  'dailyBonus.rareForge': 'Free rare forge',
+  'dailyBonus.forgeWaiting': 'A free grade {grade} forge awaits you!',
+  'dailyBonus.graceHint': { one: 'Come back every day to raise the rewards. Missing one day does not break the streak.', other: 'Come back every day to raise the rewards. Missing {count} days does not break the streak.' },
+
+  // Leaderboard
+  'leaderboard.title': 'Smith Leaderboard',
+  'leaderboard.local': 'Profiles of this browser',
+  'leaderboard.online': 'Online leaderboard',
+  'leaderboard.syncedAt': 'synced on {date}',
+  'leaderboard.neverSynced': 'never synced',
+  'leaderboard.sync': 'Sync',
+  'leaderboard.unreachable': 'The leaderboard server is unreachable.',
+  'leaderboard.unreachableCached': 'Here is the last ranking received; your scores will be published when the connection is back.',
+  'leaderboard.unreachableEmpty': 'The ranking will show up when the connection is back.',
+  'leaderboard.unavailable': 'The leaderboard is unavailable.',
+  'leaderboard.loading': 'Loading the ranking…',
+  'leaderboard.empty': 'No scores published yet.',
+  'leaderboard.metric.avgRarity': 'Average rarity',
+  'leaderboard.metric.pokemonCount': 'Pokémon created',
+  'leaderboard.metric.collectionValue': 'Collection value',
+  'leaderboard.metric.achievementCount': 'Achievements',
+  'leaderboard.column.rank': 'Rank',
+  'leaderboard.column.player': 'Smith',
+  'leaderboard.column.pokemonCount': 'Pokémon Created',
+  'leaderboard.column.avgRarity': 'Average Rarity',
+  'leaderboard.column.collectionValue': 'Value',
+  'leaderboard.column.achievementCount': 'Achievements',
+
+  // Ledger
+  'ledger.title': 'Token history',
+  'ledger.empty': 'No movements',
+  'ledger.emptyHint': 'Your token debits and credits will show up here.',
+  'ledger.column.date': 'Date',
+  'ledger.column.reason': 'Reason',
+  'ledger.column.pokemon': 'Pokémon',
+  'ledger.column.amount': 'Amount',
+  'ledger.column.balance': 'Balance',
+  'ledger.reason.initialGrant': 'Welcome tokens',
+  'ledger.reason.migration': 'Carried-over balance',
+  'ledger.reason.generation': 'Generation',
+  'ledger.reason.refund': 'Refund',
+  'ledger.reason.resale': 'Resale',
+  'ledger.reason.marketPurchase': 'Market purchase',
+  'ledger.reason.dailyBonus': 'Daily bonus',
+  'ledger.reason.achievementReward': 'Achievement reward',
+  'ledger.reason.listingSale': 'Listing sale',
+  'ledger.reason.auctionEscrow': 'Bid (tokens locked)',
+  'ledger.reason.auctionRefund': 'Outbid',
+  'ledger.reason.queuedGeneration': 'Queued generation',
+  'ledger.reason.packPurchase': 'Booster pack',
+
+  // Listing form
+  'listing.title': 'List for sale',
+  'listing.publish': 'Publish the listing',
+  'listing.intro': 'Set the price of {name}. The card leaves your collection until it sells, expires or the listing is withdrawn.',
+  'listing.askingPrice': 'Asking price (tokens)',
+  'listing.priceHint': 'Market price: {price}. Traders do not buy above {max}.',
+  'listing.duration': 'Duration',
+  'listing.days': { one: '{count} day', other: '{count} days' },
+  'listing.noExpiration': 'No expiration',
+
+  // Market feed
+  'marketFeed.title': 'Market activity',
+  'marketFeed.empty': 'The traders have not traded anything yet.',
+  'marketFeed.listed': '{trader} listed {name} ({rarity}) for {price}',
+  'marketFeed.bought': '{trader} bought {name} ({rarity}) for {price}',
+  'marketFeed.auctioned': '{trader} auctioned {name} ({rarity}) from {price}',
+  'marketFeed.bid': '{trader} bid on {name} ({rarity}) at {price}',
+  'marketFeed.won': '{trader} won {name} ({rarity}) for {price}',
+  'marketFeed.yourListing': 'your listing',
+
+  // Cards
+  'card.open': 'Open {name}',
+  'card.expiresAt': 'Expires on {date}',
+  'card.listedFor': 'On sale · {price}',
+  'card.traded': 'TRADED',
+  'card.resold': 'SOLD',
+  'card.grade': 'Original grade',
+  'card.soldBy': 'Sold by {seller}',
+  'card.quickSale': 'Quick sale (+{amount})',
+  'card.cancelListing': 'Withdraw the listing',
+  'card.buy': 'Buy ({price})',
+
+  // Card details
+  'cardDetail.id': 'ID',
+  'cardDetail.grade': 'Grade',
+  'cardDetail.rarity': 'Rarity',
+  'cardDetail.generatedAt': 'Forged on',
+  'cardDetail.resellValue': 'Resale value',
+  'cardDetail.buyPrice': 'Buy price',
+  'cardDetail.favorite': 'Add to favorites',
+  'cardDetail.unfavorite': 'Remove from favorites',
+  'cardDetail.zoomIn': 'Zoom in',
+  'cardDetail.zoomOut': 'Zoom out',
+  'cardDetail.previous': 'Previous card (←)',
+  'cardDetail.next': 'Next card (→)',
+  'cardDetail.history': 'History',
+  'cardDetail.historyLoading': 'Loading the history…',
+  'cardDetail.historyEmpty': 'No event recorded for this card.',
+  'cardEvent.FORGED': 'Forged',
+  'cardEvent.LISTED': 'Listed for sale',
+  'cardEvent.UNLISTED': 'Taken off sale',
+  'cardEvent.SOLD': 'Sold to a trader',
+  'cardEvent.RESOLD': 'Sold back to the house',
+  'cardEvent.BOUGHT': 'Bought',
+
+  // Card export
+  'cardExport.forgedOn': 'Forged on {date}',
+  'cardExport.forgedBy': 'Forged by {name}',
+  'cardExport.resolution': 'Resolution',
+  'cardExport.resolutionOption': '{dpi} dpi',
+  'cardExport.download': 'Download (PNG)',
+  'cardExport.exporting': 'Exporting…',
+  'cardExport.failed': 'The image export failed.',
+  'cardExport.sheetOpen': 'Contact sheet',
+  'cardExport.sheetTitle': 'Export a contact sheet',
+  'cardExport.sheetBody': 'Every card matching the current filters, in their sort order, at their real size (63 × 88 mm) to be printed and cut out.',
+  'cardExport.columns': 'Columns',
+  'cardExport.sheetFileName': 'pokeforge-sheet-{date}.png',
+  'cardExport.sheetExported': { one: 'Sheet of {count} card exported.', other: 'Sheet of {count} cards exported.' },
+
+  // Price explanation
+  'price.baseValue': 'Base value: {amount}',
+  'price.factor.supply': { one: 'Supply ({count} {rarity} card on sale) {multiplier}', other: 'Supply ({count} {rarity} cards on sale) {multiplier}' },
+  'price.factor.demand': { one: 'Demand ({count} {rarity} transaction in 24 h) {multiplier}', other: 'Demand ({count} {rarity} transactions in 24 h) {multiplier}' },
+  'price.factor.age': { one: 'Age (card forged {count} day ago) {multiplier}', other: 'Age (card forged {count} days ago) {multiplier}' },
+  'price.floor': 'Raised to the market floor price.',
+  'price.ceiling': 'Capped at the market ceiling price.',
+
+  // Profiles
+  'profile.title': 'Profiles',
+  'profile.switch': 'Switch profile',
+  'profile.active': 'active',
+  'profile.rename': 'Rename',
+  'profile.newName': 'New name',
+  'profile.validate': 'Confirm',
+  'profile.delete': 'Delete the profile and its save',
+  'profile.confirmDelete': 'Delete?',
+  'profile.create': 'Create the profile',
+  'profile.createName': 'Name of the new profile',
+  'profile.createPlaceholder': 'New profile',
+  'profile.defaultName': 'Player 1',
+  'profile.operationFailed': 'Operation failed.',
+  'profile.loadFailed': 'Could not load the profile.',
+  'profile.listFailed': 'Could not load the profiles.',
+  'profile.retry': 'Try again',
+  'profile.backTo': 'Back to {name}',
+
+  // Settings panel
+  'settings.title': 'Settings',
+  'settings.language': 'Language',
+  'settings.audio': 'Sound',
+  'settings.musicVolume': 'Music volume',
+  'settings.effectsVolume': 'Effects volume',
+  'settings.ambient': 'Play the ambient music',
+  'settings.audioHint': 'The speaker button in the header mutes or restores all sound. The browser only plays it after a first click or key press.',
+  'settings.provider': 'Generation source',
+  'settings.provider.http': 'EPSI API',
+  'settings.provider.httpHint': 'Generates Pokémon through the remote service documented in docs/02-api.md.',
+  'settings.provider.mock': 'Offline generator',
+  'settings.provider.mockHint': 'Draws creatures locally, without a connection or a server.',
+  'settings.provider.replay': 'Replay',
+  'settings.provider.replayHint': 'Replays the last responses recorded from the EPSI API.',
+  'settings.apiBaseUrl': 'API URL',
+  'settings.apiToken': 'Access token',
+  'settings.apiTokenPlaceholder': 'Configured value',
+  'settings.apiHint': 'Leave empty to use the build configuration.',
+  'settings.gradeWeights': 'Grade distribution',
+  'settings.market': 'Market',
+  'settings.priceFloor': 'Resale floor price',
+  'settings.priceCeiling': 'Resale ceiling price',
+  'settings.priceRangeInvalid': 'The ceiling must be greater than or equal to the floor.',
+  'settings.leaderboard': 'Leaderboard',
+  'settings.leaderboard.local': 'Local',
+  'settings.leaderboard.localHint': 'Ranks the profiles of this browser against each other.',
+  'settings.leaderboard.http': 'Online',
+  'settings.leaderboard.httpHint': 'Publishes your scores on a shared leaderboard server.',
+  'settings.leaderboardUrl': 'Leaderboard server URL',
+  'settings.save': 'Save',
+  'settings.saving': 'Saving...',
+
+  // Rate limit
+  'rateLimit.message': 'Too many requests sent to the generation service. Next try possible in {time}.',
+
+  // Price trend
+  'price.trend': 'Resale price trend for this rarity and grade',
+
+  // Errors raised by the services
+  'errors.insufficientTokens': 'Insufficient balance: {required} required, {available} available.',
+  'errors.pokemonMissing': 'Pokémon {id} no longer exists.',
+  'errors.pokemonNotOwned': 'Pokémon {id} is no longer in your collection.',
+  'errors.pokemonNotListed': 'Pokémon {id} is no longer on sale.',
+  'errors.auctionEnded': 'This auction has ended.',
+  'errors.auctionAlreadyLeading': 'You already lead this auction.',
+  'errors.bidTooLow': 'The minimum bid is {minimum}.',
+  'errors.dailyBonusClaimed': "Today's bonus was already claimed.",
+  'errors.settingsConflict': 'The settings were changed in another tab.',
+  'errors.queuedGenerationDone': 'Queued generation {id} was already processed.',
+  'errors.profileInUse': 'The profile in use cannot be deleted.',
+  'errors.profileNotFound': 'Profile not found.',
+  'errors.profileOpenElsewhere': 'Profile {name} is open in another tab.',
+  'errors.profileNameEmpty': 'The profile name cannot be empty.',
+  'errors.replayEmpty': 'No recorded response to replay. Generate a few Pokémon with the EPSI API first.',
+  'errors.backupInvalid': 'This file is not a valid PokéForge backup.',
+  'errors.backupFormat': 'Unsupported backup format (v{version}).',
+  'errors.backupSchema': 'This backup uses schema v{version}, which this version of the app cannot read (v{min} to v{max}).',
+  'errors.backupUnexpectedStore': 'Unexpected content in the backup: "{store}".',
+  'errors.backupMissingIds': 'The backup contains Pokémon without an ID.',
+  'errors.exportEmpty': 'No card to export.',
+  'errors.exportTooLarge': 'The image would be {width} × {height} pixels, too large for this browser: narrow the selection, lower the resolution or add columns.',
+  'errors.canvasUnavailable': 'This browser cannot draw the image.',
+  'errors.apiHttp': 'Failed to generate the Pokémon (HTTP {status}).',
+  'errors.apiTimeout': 'The generation did not answer within {seconds} seconds. The API might be busy, please try again later.',
+  'errors.apiUnreachable': 'Could not connect to the Pokémon API: network issue, server down or self-signed HTTPS certificate. In the latter case, open {url} in a new tab, accept the security warning, then reload this page. Also check that the server CORS configuration allows this app.',
+  'errors.apiInvalidResponse': 'Invalid API response: missing expected fields.',
+  'errors.leaderboardInvalidResponse': 'Invalid leaderboard response: missing or malformed entries.',
+  'errors.leaderboardTimeout': 'The leaderboard did not answer within {seconds} seconds.',
+  'errors.leaderboardUnreachable': 'Could not connect to the leaderboard at {url}.',
+
+  // Achievements
+  'achievement.FIRST_FORGE.name': 'First Forge',
+  'achievement.FIRST_FORGE.description': 'Generate your first Pokémon.',
+  'achievement.FIRST_SALE.name': 'First Profit',
+  'achievement.FIRST_SALE.description': 'Resell a Pokémon on the market.',
+  'achievement.LEGENDARY_FORGE.name': 'Midas Touch',
+  'achievement.LEGENDARY_FORGE.description': 'Generate a Legendary or Mythic Pokémon.',
+  'achievement.FIVE_FAVORITES.name': 'Sweethearts',
+  'achievement.FIVE_FAVORITES.description': 'Add 5 cards to your favorites.',
+  'achievement.TEN_FORGES.name': 'Apprentice Smith',
+  'achievement.TEN_FORGES.description': 'Generate 10 Pokémon.',
+  'achievement.FIFTY_FORGES.name': 'Seasoned Smith',
+  'achievement.FIFTY_FORGES.description': 'Generate 50 Pokémon.',
+  'achievement.TWO_HUNDRED_FORGES.name': 'Master Smith',
+  'achievement.TWO_HUNDRED_FORGES.description': 'Generate 200 Pokémon.',
+  'achievement.SALES_100.name': 'Small Dealer',
+  'achievement.SALES_100.description': 'Earn 100 tokens reselling cards.',
+  'achievement.SALES_500.name': 'Shrewd Dealer',
+  'achievement.SALES_500.description': 'Earn 500 tokens reselling cards.',
+  'achievement.SALES_2000.name': 'Market Tycoon',
+  'achievement.SALES_2000.description': 'Earn 2,000 tokens reselling cards.',
+  'achievement.PURCHASES_1.name': 'First Purchase',
+  'achievement.PURCHASES_1.description': 'Buy a card back from the market.',
+  'achievement.PURCHASES_10.name': 'Collector',
+  'achievement.PURCHASES_10.description': 'Buy 10 cards back from the market.',
+  'achievement.PURCHASES_25.name': 'Great Collector',
+  'achievement.PURCHASES_25.description': 'Buy 25 cards back from the market.',
+  'achievement.DAILY_3.name': 'Regular',
+  'achievement.DAILY_3.description': 'Claim 3 daily bonuses.',
+  'achievement.DAILY_10.name': 'Devoted',
+  'achievement.DAILY_10.description': 'Claim 10 daily bonuses.',
+  'achievement.DAILY_30.name': 'Pillar of the Forge',
+  'achievement.DAILY_30.description': 'Claim 30 daily bonuses.',
+};
@@ -0,0 +1,506 @@
+// locales/fr.ts
+
+import { PluralMessage } from '../types';
+
+/**
+ * French messages, the reference catalog: every other catalog translates the same keys.
+ * Placeholders are written `{name}`; a plural message is picked from its `count` parameter.
+ * Token amounts are passed already formatted with `formatTokens`, so they agree with their number.
+ */
+export const fr = {
+  // Shared
+  'common.cancel': 'Annuler',
+  'common.confirm': 'Confirmer',
+  'common.close': 'Fermer',
+  'common.reload': 'Recharger',
+  'common.aCard': 'une carte',
+  'common.theCard': 'la carte',
+  'common.you': 'vous',
+  'common.processing': 'Traitement...',
+  'common.notAvailable': 'N/A',
+  'tokens.count': { one: '{count} jeton', other: '{count} jetons' },
+
+  // Rarities
+  'rarity.COMMON': 'Commun',
+  'rarity.RARE': 'Rare',
+  'rarity.EPIC': 'Épique',
+  'rarity.LEGENDARY': 'Légendaire',
+  'rarity.MYTHIC': 'Mythique',
+
+  // Header
+  'nav.studio': 'Studio',
+  'nav.collection': 'Collection',
+  'nav.market': 'Marché',
+  'nav.achievements': 'Succès',
+  'nav.leaderboard': 'Classement',
+  'header.offline': 'Hors ligne',
+  'header.offlineHint': "Hors ligne : les générations sont mises en file d'attente",
+  'header.pendingForgesHint': 'Générations en attente du réseau',
+  'header.ledgerHint': 'Historique des jetons',
+  'header.generate': 'Générer',
+  'header.settingsHint': 'Paramètres',
+  'header.navigation': 'Navigation principale',
+
+  // Pages
+  'notFound.title': 'Page introuvable',
+  'notFound.body': "Aucune page de PokéForge ne correspond à {path}.",
+  'notFound.home': 'Retour au Studio',
+  'card.notFoundTitle': 'Carte introuvable',
+  'card.notFound': "Cette carte n'existe pas dans ce profil.",
+
+  // Studio
+  'studio.badge': 'STUDIO POKÉMON',
+  'studio.title': 'Forge tes Pokémon uniques',
+  'studio.intro': 'Lance une génération, observe la carte prendre forme et enrichis ta collection. Les meilleurs forgerons savent quand conserver une carte ou la revendre pour recharger leurs jetons.',
+  'studio.generate': 'Générer un Pokémon',
+  'studio.generating': 'Génération...',
+  'studio.explore': 'Explorer la collection',
+  'studio.initialTokens': 'Jetons offerts',
+  'studio.generationCost': 'Coût génération',
+  'studio.resale': 'Revente carte',
+  'studio.resaleValue': 'Selon le marché',
+
+  // Generation
+  'packs.title': 'Boosters',
+  'packs.intro': "Plusieurs cartes d'un coup, moins cher qu'à l'unité. Elles sont révélées de la moins rare à la plus rare.",
+  'packs.cards': { one: '{count} carte', other: '{count} cartes' },
+  'packs.saving': '{amount} économisés',
+  'packs.guarantee': { one: 'Au moins {count} carte {rarity} ou mieux', other: 'Au moins {count} cartes {rarity} ou mieux' },
+  'packs.noGuarantee': 'Aucune garantie',
+  'packs.open': 'Ouvrir pour {price}',
+  'packs.opening': 'Ouverture...',
+  'packs.odds': 'Probabilités publiées',
+  'packs.rarity': 'Rareté',
+  'packs.regularSlot': 'Carte normale',
+  'packs.guaranteedSlot': 'Carte garantie {rarity} ou mieux',
+  'packs.oddsUnknown': "Selon l'API",
+  'packs.oddsHint': "Toutes les cartes sont forgées par la source choisie dans les paramètres, en une génération chacune. Si les autres cartes du paquet respectent déjà la garantie, la carte garantie suit les probabilités normales ; sinon, elle suit celles de la colonne garantie. L'API ne prend aucun paramètre : une carte qu'elle renvoie sous la rareté garantie est relevée au plus bas grade de cette rareté. Les probabilités ne sont connues qu'avec le générateur hors ligne.",
+  'packs.notEnoughTokens': 'Il faut {price} pour ouvrir ce booster.',
+  'packs.offline': "Hors ligne : les boosters ne peuvent pas être ouverts avec l'API EPSI.",
+  'packs.openFailed': "Le booster n'a pas pu être ouvert.",
+  'packs.allFailed': "Aucune carte du booster n'a pu être forgée : {amount} remboursés.",
+  'packs.opened': { one: '{name} ouvert : {count} carte ajoutée à la collection.', other: '{name} ouvert : {count} cartes ajoutées à la collection.' },
+  'packs.refunded': { one: "{count} carte n'a pas pu être forgée : {amount} remboursés.", other: "{count} cartes n'ont pas pu être forgées : {amount} remboursés." },
+  'packs.revealTitle': 'Ouverture : {name}',
+  'packs.revealHint': 'Touchez la carte suivante pour la retourner. La plus rare arrive en dernier.',
+  'packs.hiddenCard': 'Carte face cachée',
+  'packs.revealNext': 'Retourner la suivante',
+  'packs.revealAll': 'Tout révéler',
+  'packs.done': 'Terminer',
+  'pack.TRIO.name': 'Booster Trio',
+  'pack.ELITE.name': 'Booster Élite',
+  'generation.notEnoughTokens': 'Il faut {cost} pour générer.',
+  'generation.success': 'Nouveau Pokémon généré : {name} !',
+  'generation.authError': "Accès refusé par l'API : {message} Vérifiez le jeton dans les paramètres.",
+  'generation.failed': 'Échec de la génération. Jetons remboursés.',
+  'generation.queued': 'Hors ligne : {cost} réservés, la génération sera lancée au retour du réseau.',
+  'generation.queueFailed': "Impossible de mettre la génération en file d'attente.",
+  'generation.queuedForged': { one: 'Génération en attente terminée : {name} !', other: '{count} générations en attente terminées !' },
+  'generation.queuedRefunded': { one: '{count} génération en échec : {amount} remboursés.', other: '{count} générations en échec : {amount} remboursés.' },
+
+  // Collection
+  'collection.title': 'Ma Collection',
+  'collection.noResults': 'Aucun résultat',
+  'collection.noResultsHint': 'Aucune carte ne correspond à ces critères.',
+  'collection.empty': 'Collection vide',
+  'collection.emptyHint': 'Générez des Pokémon pour commencer votre collection !',
+  'favorite.failed': 'Impossible de modifier le favori.',
+
+  // Market
+  'market.title': 'Marché des Cartes',
+  'market.allRarities': 'Toutes',
+  'market.allGrades': 'Tous grades',
+  'market.sortRecent': 'Récentes',
+  'market.sortGrade': 'Meilleur grade',
+  'market.house': 'Boutique',
+  'market.listings': 'Annonces des joueurs',
+  'market.auctions': 'Enchères',
+  'market.houseEmpty': 'La boutique est vide',
+  'market.houseEmptyHint': 'Les cartes vendues à la boutique apparaissent ici.',
+  'market.listingsEmpty': 'Aucune annonce',
+  'market.listingsEmptyHint': 'Mettez en vente des Pokémon de votre collection pour les voir apparaître ici.',
+  'market.sold': { one: '{trader} a acheté votre {name} : +{earned}.', other: 'Les marchands ont acheté {count} de vos cartes : +{earned}.' },
+  'market.expired': { one: "L'annonce de {name} a expiré.", other: '{count} annonces ont expiré.' },
+  'market.outbid': 'Vous avez été surenchéri sur {name} : {amount} débloqués.',
+  'market.won': 'Vous avez remporté {name} pour {amount} !',
+  'resell.title': 'Vente rapide',
+  'resell.question': 'Êtes-vous sûr de vouloir vendre {name} à la boutique ?',
+  'resell.details': 'Vous recevrez immédiatement {amount} et la carte rejoindra le stock de la boutique. Pour fixer votre prix, mettez-la plutôt en vente.',
+  'resell.confirm': 'Confirmer la revente',
+  'resell.success': '{name} revendu ! +{amount}.',
+  'resell.failed': 'Échec de la revente.',
+  'purchase.notEnoughTokens': 'Pas assez de jetons. Il vous faut {amount}.',
+  'purchase.success': '{name} acheté ! -{amount}.',
+  'purchase.failed': "Échec de l'achat.",
+  'listing.created': '{name} est en vente pour {price}.',
+  'listing.createFailed': 'Échec de la mise en vente.',
+  'listing.cancelled': "L'annonce de {name} est retirée.",
+  'listing.cancelFailed': "Échec du retrait de l'annonce.",
+  'bid.placed': 'Enchère de {amount} placée sur {name}. Les jetons restent bloqués tant que vous menez.',
+  'bid.failed': "Échec de l'enchère.",
+
+  // Achievements
+  'achievements.unlocked': 'Succès débloqué : {name} !',
+  'achievements.unlockedWithReward': 'Succès débloqué : {name} ! +{reward}',
+
+  // Daily bonus
+  'dailyBonus.claimed': { one: 'Série de {count} jour : vous avez reçu {amount} !', other: 'Série de {count} jours : vous avez reçu {amount} !' },
+  'dailyBonus.claimedWithPokemon': { one: 'Série de {count} jour : vous avez reçu {amount} et {name} ({rarity}) !', other: 'Série de {count} jours : vous avez reçu {amount} et {name} ({rarity}) !' },
+  'dailyBonus.claimFailed': 'Échec de la réclamation du bonus.',
+
+  // Settings
+  'settings.saved': 'Paramètres enregistrés.',
+  'settings.saveFailed': "Échec de l'enregistrement des paramètres.",
+  'settings.conflict': 'Les paramètres ont été modifiés dans un autre onglet : vérifiez-les puis réessayez.',
+
+  // Save and tabs
+  'app.loadFailed': 'Impossible de charger les données.',
+  'ledger.loadFailed': "Impossible de charger l'historique des jetons.",
+  'database.blocked': 'Une mise à jour attend la fermeture des autres onglets PokéForge.',
+  'database.staleTitle': 'Sauvegarde mise à jour',
+  'database.staleBody': 'La sauvegarde a été mise à jour ou supprimée depuis un autre onglet. Rechargez la page pour continuer avec les données à jour.',
+
+  // Footer
+  'footer.tagline': 'Atelier de génération Pokémon.',
+  'footer.legal': 'Mentions légales',
+  'footer.contact': 'Contact',
+
+  // Time
+  'time.hoursMinutes': '{hours} h {minutes} min',
+  'time.minutes': '{minutes} min',
+  'time.seconds': '{seconds} s',
+
+  // Auctions
+  'auction.soldBy': 'vendu par {seller}',
+  'auction.currentBid': 'Offre actuelle : {amount} ({bidder})',
+  'auction.startPrice': 'Mise de départ : {amount}',
+  'auction.settling': 'Terminée, règlement en cours',
+  'auction.endsIn': 'Se termine dans {time}',
+  'auction.leading': "Vous menez : {amount} bloqués jusqu'à la fin ou une surenchère.",
+  'auction.amountLabel': "Montant de l'enchère sur {name}",
+  'auction.bid': 'Enchérir',
+  'auction.escrowed': 'Jetons bloqués par vos enchères en tête :',
+  'auction.empty': 'Aucune enchère en cours',
+  'auction.emptyHint': 'Les marchands mettent aux enchères leurs cartes légendaires et mythiques.',
+
+  // Achievements list
+  'achievements.title': 'Mes Succès',
+  'achievements.progress': '{count}/{total} débloqués',
+  'achievements.unlockedOn': 'Débloqué le {date}',
+  'achievements.tier.bronze': 'Bronze',
+  'achievements.tier.silver': 'Argent',
+  'achievements.tier.gold': 'Or',
+
+  // Backups
+  'backup.title': 'Sauvegarde',
+  'backup.intro': "Votre collection n'existe que dans ce navigateur. Exportez-la dans un fichier pour la conserver ou la transférer.",
+  'backup.fileName': 'pokeforge-sauvegarde-{date}.json',
+  'backup.export': 'Exporter',
+  'backup.exporting': 'Export...',
+  'backup.exported': 'Sauvegarde exportée.',
+  'backup.exportFailed': "Échec de l'export de la sauvegarde.",
+  'backup.import': 'Importer',
+  'backup.importing': 'Import...',
+  'backup.importTitle': 'Importer une sauvegarde',
+  'backup.unreadable': 'Impossible de lire la sauvegarde.',
+  'backup.importFailed': "Échec de l'import : aucune donnée n'a été modifiée.",
+  'backup.replaced': 'Sauvegarde restaurée.',
+  'backup.merged': 'Sauvegarde fusionnée avec votre collection.',
+  'backup.exportedAt': 'Exportée le {date} (schéma v{version})',
+  'backup.contents': '{pokemons} Pokémon, {images} images, {entries} mouvements de jetons',
+  'backup.conflicts': { one: '{count} Pokémon existe déjà dans votre collection.', other: '{count} Pokémon existent déjà dans votre collection.' },
+  'backup.modes': '{merge} ajoute les Pokémon absents et les succès débloqués, en gardant votre solde, vos paramètres et vos versions des cartes en conflit. {replace} efface toutes vos données locales au profit de la sauvegarde.',
+  'backup.merge': 'Fusionner',
+  'backup.replace': 'Remplacer',
+
+  // Collection filters
+  'collection.searchLabel': 'Rechercher par nom',
+  'collection.searchPlaceholder': 'Rechercher un Pokémon...',
+  'collection.sortLabel': 'Trier par',
+  'collection.sort.date': 'Date',
+  'collection.sort.name': 'Nom',
+  'collection.sort.rarity': 'Rareté',
+  'collection.sort.value': 'Valeur de revente',
+  'collection.ascending': 'Croissant',
+  'collection.descending': 'Décroissant',
+  'collection.status.owned': 'Possédées',
+  'collection.status.listed': 'En vente',
+  'collection.status.resold': 'Revendues',
+  'collection.status.traded': 'Cédées',
+  'collection.favorites': 'Favorites',
+  'collection.from': 'Du',
+  'collection.to': 'au',
+  'collection.count': { zero: '0 carte', one: '{count} carte', other: '{count} cartes' },
+  'collection.countMore': '{count}+ cartes',
+  'collection.reset': 'Réinitialiser',
+
+  // Daily bonus modal
+  'dailyBonus.title': 'Bonus Quotidien !',
+  'dailyBonus.welcome': 'Bienvenue ! Voici votre coffre du jour pour vous récompenser de votre fidélité.',
+  'dailyBonus.claim': 'Réclamer',
+  'dailyBonus.claimAmount': 'Réclamer (+{amount})',
+  'dailyBonus.claimWithCard': 'Réclamer (+{amount} + 1 carte)',
+  'dailyBonus.later': 'Plus tard',
+  'dailyBonus.streak': { one: 'Série de {count} jour · record : {best}', other: 'Série de {count} jours · record : {best}' },
+  'dailyBonus.streakLost': 'Votre série de {count} jours a été interrompue.',
+  'dailyBonus.day': 'J{day}',
+  'dailyBonus.rareForge': 'Forge rare offerte',
+  'dailyBonus.forgeWaiting': 'Une forge offerte de grade {grade} vous attend !',
+  'dailyBonus.graceHint': { one: 'Revenez chaque jour pour faire grimper les récompenses. Un jour manqué ne coupe pas la série.', other: 'Revenez chaque jour pour faire grimper les récompenses. {count} jours manqués ne coupent pas la série.' },
+
+  // Leaderboard
+  'leaderboard.title': 'Classement des Forgerons',
+  'leaderboard.local': 'Profils de ce navigateur',
+  'leaderboard.online': 'Classement en ligne',
+  'leaderboard.syncedAt': 'synchronisé le {date}',
+  'leaderboard.neverSynced': 'jamais synchronisé',
+  'leaderboard.sync': 'Synchroniser',
+  'leaderboard.unreachable': 'Le serveur de classement est injoignable.',
+  'leaderboard.unreachableCached': 'Voici le dernier classement reçu ; vos scores seront publiés au retour de la connexion.',
+  'leaderboard.unreachableEmpty': 'Le classement apparaîtra au retour de la connexion.',
+  'leaderboard.unavailable': 'Le classement est indisponible.',
+  'leaderboard.loading': 'Chargement du classement…',
+  'leaderboard.empty': 'Aucun score publié pour le moment.',
+  'leaderboard.metric.avgRarity': 'Rareté moyenne',
+  'leaderboard.metric.pokemonCount': 'Pokémon créés',
+  'leaderboard.metric.collectionValue': 'Valeur de la collection',
+  'leaderboard.metric.achievementCount': 'Succès',
+  'leaderboard.column.rank': 'Rang',
+  'leaderboard.column.player': 'Forgeron',
+  'leaderboard.column.pokemonCount': 'Pokémon Créés',
+  'leaderboard.column.avgRarity': 'Rareté Moyenne',
+  'leaderboard.column.collectionValue': 'Valeur',
+  'leaderboard.column.achievementCount': 'Succès',
+
+  // Ledger
+  'ledger.title': 'Historique des jetons',
+  'ledger.empty': 'Aucun mouvement',
+  'ledger.emptyHint': 'Vos débits et crédits de jetons apparaîtront ici.',
+  'ledger.column.date': 'Date',
+  'ledger.column.reason': 'Motif',
+  'ledger.column.pokemon': 'Pokémon',
+  'ledger.column.amount': 'Montant',
+  'ledger.column.balance': 'Solde',
+  'ledger.reason.initialGrant': 'Jetons de bienvenue',
+  'ledger.reason.migration': 'Solde reporté',
+  'ledger.reason.generation': 'Génération',
+  'ledger.reason.refund': 'Remboursement',
+  'ledger.reason.resale': 'Revente',
+  'ledger.reason.marketPurchase': 'Achat au marché',
+  'ledger.reason.dailyBonus': 'Bonus quotidien',
+  'ledger.reason.achievementReward': 'Récompense de succès',
+  'ledger.reason.listingSale': 'Vente sur annonce',
+  'ledger.reason.auctionEscrow': 'Enchère (jetons bloqués)',
+  'ledger.reason.auctionRefund': 'Enchère dépassée',
+  'ledger.reason.queuedGeneration': 'Génération en attente',
+  'ledger.reason.packPurchase': 'Achat de booster',
+
+  // Listing form
+  'listing.title': 'Mettre en vente',
+  'listing.publish': "Publier l'annonce",
+  'listing.intro': "Fixez le prix de {name}. La carte quitte votre collection jusqu'à sa vente, l'expiration ou l'annulation de l'annonce.",
+  'listing.askingPrice': 'Prix demandé (jetons)',
+  'listing.priceHint': "Prix du marché : {price}. Les marchands n'achètent pas au-delà de {max}.",
+  'listing.duration': 'Durée',
+  'listing.days': { one: '{count} jour', other: '{count} jours' },
+  'listing.noExpiration': 'Sans expiration',
+
+  // Market feed
+  'marketFeed.title': 'Activité du marché',
+  'marketFeed.empty': "Les marchands n'ont encore rien échangé.",
+  'marketFeed.listed': '{trader} a mis en vente {name} ({rarity}) pour {price}',
+  'marketFeed.bought': '{trader} a acheté {name} ({rarity}) pour {price}',
+  'marketFeed.auctioned': '{trader} a mis aux enchères {name} ({rarity}) à partir de {price}',
+  'marketFeed.bid': '{trader} a enchéri sur {name} ({rarity}) à {price}',
+  'marketFeed.won': '{trader} a remporté {name} ({rarity}) pour {price}',
+  'marketFeed.yourListing': 'votre annonce',
+
+  // Cards
+  'card.open': 'Ouvrir {name}',
+  'card.expiresAt': 'Expire le {date}',
+  'card.listedFor': 'En vente · {price}',
+  'card.traded': 'CÉDÉ',
+  'card.resold': 'REVENDU',
+  'card.grade': "Grade d'origine",
+  'card.soldBy': 'Vendu par {seller}',
+  'card.quickSale': 'Vente rapide (+{amount})',
+  'card.cancelListing': "Retirer l'annonce",
+  'card.buy': 'Acheter ({price})',
+
+  // Card details
+  'cardDetail.id': 'Identifiant',
+  'cardDetail.grade': 'Grade',
+  'cardDetail.rarity': 'Rareté',
+  'cardDetail.generatedAt': 'Forgée le',
+  'cardDetail.resellValue': 'Valeur de revente',
+  'cardDetail.buyPrice': "Prix d'achat",
+  'cardDetail.favorite': 'Ajouter aux favoris',
+  'cardDetail.unfavorite': 'Retirer des favoris',
+  'cardDetail.zoomIn': 'Zoomer',
+  'cardDetail.zoomOut': 'Dézoomer',
+  'cardDetail.previous': 'Carte précédente (←)',
+  'cardDetail.next': 'Carte suivante (→)',
+  'cardDetail.history': 'Historique',
+  'cardDetail.historyLoading': "Chargement de l'historique…",
+  'cardDetail.historyEmpty': "Aucun événement enregistré pour cette carte.",
+  'cardEvent.FORGED': 'Forgée',
+  'cardEvent.LISTED': 'Mise en vente',
+  'cardEvent.UNLISTED': 'Retirée de la vente',
+  'cardEvent.SOLD': 'Vendue à un marchand',
+  'cardEvent.RESOLD': 'Revendue à la maison',
+  'cardEvent.BOUGHT': 'Rachetée',
+
+  // Card export
+  'cardExport.forgedOn': 'Forgée le {date}',
+  'cardExport.forgedBy': 'Forgée par {name}',
+  'cardExport.resolution': 'Résolution',
+  'cardExport.resolutionOption': '{dpi} ppp',
+  'cardExport.download': 'Télécharger (PNG)',
+  'cardExport.exporting': 'Export…',
+  'cardExport.failed': "L'export de l'image a échoué.",
+  'cardExport.sheetOpen': 'Planche contact',
+  'cardExport.sheetTitle': 'Exporter une planche contact',
+  'cardExport.sheetBody': 'Toutes les cartes correspondant aux filtres actuels, dans leur ordre de tri, à leur taille réelle (63 × 88 mm) pour être imprimées et découpées.',
+  'cardExport.columns': 'Colonnes',
+  'cardExport.sheetFileName': 'pokeforge-planche-{date}.png',
+  'cardExport.sheetExported': { one: 'Planche de {count} carte exportée.', other: 'Planche de {count} cartes exportée.' },
+
+  // Price explanation
+  'price.baseValue': 'Valeur de base : {amount}',
+  'price.factor.supply': { one: 'Offre ({count} carte {rarity} en vente) {multiplier}', other: 'Offre ({count} cartes {rarity} en vente) {multiplier}' },
+  'price.factor.demand': { one: 'Demande ({count} transaction {rarity} sur 24 h) {multiplier}', other: 'Demande ({count} transactions {rarity} sur 24 h) {multiplier}' },
+  'price.factor.age': { one: 'Ancienneté (carte forgée il y a {count} jour) {multiplier}', other: 'Ancienneté (carte forgée il y a {count} jours) {multiplier}' },
+  'price.floor': 'Relevé au prix plancher du marché.',
+  'price.ceiling': 'Limité au prix plafond du marché.',
+
+  // Profiles
+  'profile.title': 'Profils',
+  'profile.switch': 'Changer de profil',
+  'profile.active': 'actif',
+  'profile.rename': 'Renommer',
+  'profile.newName': 'Nouveau nom',
+  'profile.validate': 'Valider',
+  'profile.delete': 'Supprimer le profil et sa sauvegarde',
+  'profile.confirmDelete': 'Supprimer ?',
+  'profile.create': 'Créer le profil',
+  'profile.createName': 'Nom du nouveau profil',
+  'profile.createPlaceholder': 'Nouveau profil',
+  'profile.defaultName': 'Joueur 1',
+  'profile.operationFailed': 'Opération impossible.',
+  'profile.loadFailed': 'Impossible de charger le profil.',
+  'profile.listFailed': 'Impossible de charger les profils.',
+  'profile.retry': 'Réessayer',
+  'profile.backTo': 'Revenir à {name}',
+
+  // Settings panel
+  'settings.title': 'Paramètres',
+  'settings.language': 'Langue',
+  'settings.audio': 'Son',
+  'settings.musicVolume': 'Volume de la musique',
+  'settings.effectsVolume': 'Volume des effets',
+  'settings.ambient': "Jouer la musique d'ambiance",
+  'settings.audioHint': "Le bouton haut-parleur de l'en-tête coupe ou rétablit tout le son. Le navigateur ne le joue qu'après un premier clic ou une touche.",
+  'settings.provider': 'Source de génération',
+  'settings.provider.http': 'API EPSI',
+  'settings.provider.httpHint': 'Génère les Pokémon via le service distant documenté dans docs/02-api.md.',
+  'settings.provider.mock': 'Générateur hors ligne',
+  'settings.provider.mockHint': 'Dessine des créatures localement, sans connexion ni serveur.',
+  'settings.provider.replay': 'Rejeu',
+  'settings.provider.replayHint': "Rejoue les dernières réponses enregistrées depuis l'API EPSI.",
+  'settings.apiBaseUrl': "URL de l'API",
+  'settings.apiToken': "Jeton d'accès",
+  'settings.apiTokenPlaceholder': 'Valeur de la configuration',
+  'settings.apiHint': 'Laissez vide pour utiliser la configuration de build.',
+  'settings.gradeWeights': 'Répartition des grades',
+  'settings.market': 'Marché',
+  'settings.priceFloor': 'Prix de revente plancher',
+  'settings.priceCeiling': 'Prix de revente plafond',
+  'settings.priceRangeInvalid': 'Le plafond doit être supérieur ou égal au plancher.',
+  'settings.leaderboard': 'Classement',
+  'settings.leaderboard.local': 'Local',
+  'settings.leaderboard.localHint': 'Classe les profils de ce navigateur entre eux.',
+  'settings.leaderboard.http': 'En ligne',
+  'settings.leaderboard.httpHint': 'Publie vos scores sur un serveur de classement partagé.',
+  'settings.leaderboardUrl': 'URL du serveur de classement',
+  'settings.save': 'Enregistrer',
+  'settings.saving': 'Enregistrement...',
+
+  // Rate limit
+  'rateLimit.message': 'Trop de requêtes envoyées au service de génération. Nouvel essai possible dans {time}.',
+
+  // Price trend
+  'price.trend': 'Évolution du prix de revente pour cette rareté et ce grade',
+
+  // Errors raised by the services
+  'errors.insufficientTokens': 'Solde insuffisant : {required} requis, {available} disponibles.',
+  'errors.pokemonMissing': "Le Pokémon {id} n'existe plus.",
+  'errors.pokemonNotOwned': "Le Pokémon {id} n'est plus dans votre collection.",
+  'errors.pokemonNotListed': "Le Pokémon {id} n'est plus en vente.",
+  'errors.auctionEnded': 'Cette enchère est terminée.',
+  'errors.auctionAlreadyLeading': 'Vous menez déjà cette enchère.',
+  'errors.bidTooLow': "L'enchère minimale est de {minimum}.",
+  'errors.dailyBonusClaimed': 'Le bonus du jour a déjà été réclamé.',
+  'errors.settingsConflict': 'Les paramètres ont été modifiés dans un autre onglet.',
+  'errors.queuedGenerationDone': 'La génération en attente {id} a déjà été traitée.',
+  'errors.profileInUse': "Impossible de supprimer le profil en cours d'utilisation.",
+  'errors.profileNotFound': 'Profil introuvable.',
+  'errors.profileOpenElsewhere': 'Le profil {name} est ouvert dans un autre onglet.',
+  'errors.profileNameEmpty': 'Le nom du profil ne peut pas être vide.',
+  'errors.replayEmpty': "Aucune réponse enregistrée à rejouer. Générez d'abord quelques Pokémon avec l'API EPSI.",
+  'errors.backupInvalid': "Ce fichier n'est pas une sauvegarde PokéForge valide.",
+  'errors.backupFormat': 'Format de sauvegarde non pris en charge (v{version}).',
+  'errors.backupSchema': "Cette sauvegarde utilise le schéma v{version}, incompatible avec cette version de l'application (v{min} à v{max}).",
+  'errors.backupUnexpectedStore': 'Contenu inattendu dans la sauvegarde : « {store} ».',
+  'errors.backupMissingIds': 'La sauvegarde contient des Pokémon sans identifiant.',
+  'errors.exportEmpty': "Aucune carte à exporter.",
+  'errors.exportTooLarge': "L'image ferait {width} × {height} pixels, trop pour ce navigateur : réduisez la sélection, la résolution ou ajoutez des colonnes.",
+  'errors.canvasUnavailable': "Ce navigateur ne permet pas de dessiner l'image.",
+  'errors.apiHttp': 'Échec de la génération du Pokémon (HTTP {status}).',
+  'errors.apiTimeout': "La génération n'a pas répondu en {seconds} secondes. L'API est peut-être surchargée, réessayez plus tard.",
+  'errors.apiUnreachable': "Impossible de joindre l'API Pokémon : réseau coupé, serveur arrêté ou certificat HTTPS auto-signé. Dans ce dernier cas, ouvrez {url} dans un nouvel onglet, acceptez l'avertissement de sécurité puis rechargez cette page. Vérifiez aussi que la configuration CORS du serveur autorise cette application.",
+  'errors.apiInvalidResponse': "Réponse de l'API invalide : champs attendus manquants.",
+  'errors.leaderboardInvalidResponse': 'Réponse du classement invalide : entrées absentes ou malformées.',
+  'errors.leaderboardTimeout': "Le classement n'a pas répondu en {seconds} secondes.",
+  'errors.leaderboardUnreachable': 'Impossible de joindre le classement à {url}.',
+
+  // Achievements
+  'achievement.FIRST_FORGE.name': 'Première Forge',
+  'achievement.FIRST_FORGE.description': 'Générer votre premier Pokémon.',
+  'achievement.FIRST_SALE.name': 'Premier Profit',
+  'achievement.FIRST_SALE.description': 'Revendre un Pokémon sur le marché.',
+  'achievement.LEGENDARY_FORGE.name': 'Main de Midas',
+  'achievement.LEGENDARY_FORGE.description': 'Générer un Pokémon Légendaire ou Mythique.',
+  'achievement.FIVE_FAVORITES.name': 'Coups de Cœur',
+  'achievement.FIVE_FAVORITES.description': 'Ajouter 5 cartes à vos favoris.',
+  'achievement.TEN_FORGES.name': 'Forgeron Amateur',
+  'achievement.TEN_FORGES.description': 'Générer 10 Pokémon.',
+  'achievement.FIFTY_FORGES.name': 'Forgeron Confirmé',
+  'achievement.FIFTY_FORGES.description': 'Générer 50 Pokémon.',
+  'achievement.TWO_HUNDRED_FORGES.name': 'Maître Forgeron',
+  'achievement.TWO_HUNDRED_FORGES.description': 'Générer 200 Pokémon.',
+  'achievement.SALES_100.name': 'Petit Négociant',
+  'achievement.SALES_100.description': 'Gagner 100 jetons en revendant des cartes.',
+  'achievement.SALES_500.name': 'Négociant Avisé',
+  'achievement.SALES_500.description': 'Gagner 500 jetons en revendant des cartes.',
+  'achievement.SALES_2000.name': 'Magnat du Marché',
+  'achievement.SALES_2000.description': 'Gagner 2 000 jetons en revendant des cartes.',
+  'achievement.PURCHASES_1.name': 'Premier Achat',
+  'achievement.PURCHASES_1.description': 'Racheter une carte au marché.',
+  'achievement.PURCHASES_10.name': 'Collectionneur',
+  'achievement.PURCHASES_10.description': 'Racheter 10 cartes au marché.',
+  'achievement.PURCHASES_25.name': 'Grand Collectionneur',
+  'achievement.PURCHASES_25.description': 'Racheter 25 cartes au marché.',
+  'achievement.DAILY_3.name': 'Habitué',
+  'achievement.DAILY_3.description': 'Réclamer 3 bonus quotidiens.',
+  'achievement.DAILY_10.name': 'Assidu',
+  'achievement.DAILY_10.description': 'Réclamer 10 bonus quotidiens.',
+  'achievement.DAILY_30.name': 'Pilier de la Forge',
+  'achievement.DAILY_30.description': 'Réclamer 30 bonus quotidiens.',
+} satisfies Record<string, string | PluralMessage>;
+
+export type MessageKey = keyof typeof fr;
+
+/**
+ * A translation of every message of the French catalog.
+ */
+export type Catalog = Record<MessageKey, string | PluralMessage>;
@@ -0,0 +1,85 @@
+// public/sw.js
+
+/**
+ * Service worker keeping the app shell available offline.
+ * Pages are served network first, so a new deployment is picked up as soon as it is reachable;
+ * scripts, styles and images are served from the cache and refreshed in the background.
+ * API calls are never cached: the generation queue handles them while offline.
+ */
+
+const CACHE_NAME = 'pokeforge-shell-v1';
+const SHELL_URL = '/index.html';
+
+// Hosts the page loads its styles and modules from.
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'aistudiocdn.com'];
+
+// Caches the page and every asset it references, so the first offline launch works without another visit.
+self.addEventListener('install', event => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(CACHE_NAME);
+    const response = await fetch(SHELL_URL, { cache: 'no-store' });
+    const html = await response.clone().text();
+    await cache.put(SHELL_URL, response);
+    const assetUrls = [...html.matchAll(/(?:src|href)="([^"#]+)"/g)]
+      .map(match => new URL(match[1], self.location.origin))
+      .filter(url => url.origin === self.location.origin || CDN_HOSTS.includes(url.hostname));
+    await Promise.all(assetUrls.map(url => cacheAsset(cache, url).catch(error => console.warn('Failed to precache', url.href, error))));
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names.filter(name => name !== CACHE_NAME).map(name => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request));
+    return;
+  }
+  if (url.origin === self.location.origin || CDN_HOSTS.includes(url.hostname)) {
+    event.respondWith(staleWhileRevalidate(request, event));
+  }
+});
+
+const cacheAsset = async (cache, url) => {
+  // Cross-origin scripts are loaded without CORS, so their cached copy is an opaque response.
+  const request = url.origin === self.location.origin ? new Request(url) : new Request(url, { mode: 'no-cors' });
+  const response = await fetch(request);
+  if (response.ok || response.type === 'opaque') await cache.put(request, response);
+};
+
+const networkFirst = async request => {
+  const cache = await caches.open(CACHE_NAME);
+  try {
+    const response = await fetch(request);
+    if (response.ok) await cache.put(SHELL_URL, response.clone());
+    return response;
+  } catch (error) {
+    const cached = await cache.match(SHELL_URL);
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+const staleWhileRevalidate = async (request, event) => {
+  const cache = await caches.open(CACHE_NAME);
+  const cached = await cache.match(request);
+  const refresh = fetch(request).then(async response => {
+    if (response.ok || response.type === 'opaque') await cache.put(request, response.clone());
+    return response;
+  });
+  if (cached) {
+    event.waitUntil(refresh.catch(() => undefined));
+    return cached;
+  }
+  return refresh;
+};
@@ -0,0 +1,83 @@
+// server/leaderboard-mock.mjs
+//
+// In-memory leaderboard server implementing docs/04-leaderboard.md, for local testing.
+// Usage: npm run leaderboard:mock  (PORT defaults to 4100; scores are lost on exit)
+
+import http from 'node:http';
+
+const PORT = Number(process.env.PORT) || 4100;
+const METRICS = ['pokemonCount', 'avgRarity', 'collectionValue', 'achievementCount'];
+const MAX_LIMIT = 100;
+
+/** Latest snapshot of each player, keyed by playerId. */
+const scores = new Map();
+
+const sendJson = (res, status, body) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const sendError = (res, status, code, message) =>
+  sendJson(res, status, { error: { code, message, timestamp: new Date().toISOString() } });
+
+const isSnapshot = (value) =>
+  typeof value === 'object' && value !== null
+  && typeof value.playerId === 'string' && value.playerId.length > 0
+  && typeof value.playerName === 'string'
+  && METRICS.every(metric => typeof value[metric] === 'number' && Number.isFinite(value[metric]));
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  let data = '';
+  req.on('data', chunk => {
+    data += chunk;
+    if (data.length > 64 * 1024) reject(new Error('Body too large'));
+  });
+  req.on('end', () => resolve(data));
+  req.on('error', reject);
+});
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url ?? '/', `http://${req.headers.host}`);
+
+  if (req.method === 'OPTIONS') return sendJson(res, 204);
+
+  if (req.method === 'POST' && url.pathname === '/v1/scores') {
+    let snapshot;
+    try {
+      snapshot = JSON.parse(await readBody(req));
+    } catch {
+      return sendError(res, 400, 'INVALID_REQUEST', 'The body must be a JSON score snapshot.');
+    }
+    if (!isSnapshot(snapshot)) return sendError(res, 400, 'INVALID_REQUEST', 'Missing or malformed score fields.');
+    const stored = {
+      playerId: snapshot.playerId,
+      playerName: snapshot.playerName.slice(0, 40),
+      pokemonCount: snapshot.pokemonCount,
+      avgRarity: snapshot.avgRarity,
+      collectionValue: snapshot.collectionValue,
+      achievementCount: snapshot.achievementCount,
+      submittedAt: new Date().toISOString(),
+    };
+    scores.set(stored.playerId, stored);
+    return sendJson(res, 200, stored);
+  }
+
+  if (req.method === 'GET' && url.pathname === '/v1/rankings') {
+    const metric = url.searchParams.get('metric') ?? 'avgRarity';
+    if (!METRICS.includes(metric)) return sendError(res, 400, 'INVALID_REQUEST', `Unknown metric "${metric}".`);
+    const limit = Math.min(MAX_LIMIT, Math.max(1, Number(url.searchParams.get('limit')) || 50));
+    const entries = [...scores.values()]
+      .sort((a, b) => b[metric] - a[metric] || a.submittedAt.localeCompare(b.submittedAt))
+      .slice(0, limit);
+    return sendJson(res, 200, { metric, entries, generatedAt: new Date().toISOString() });
+  }
+
+  return sendError(res, 404, 'NOT_FOUND', `No route for ${req.method} ${url.pathname}.`);
+});
+
+server.listen(PORT, () => console.log(`Leaderboard mock listening on http://localhost:${PORT}/v1`));
@@ -0,0 +1,45 @@
+// services/achievementDefinitions.ts
+
+import { AchievementDefinition, GameEventType, PokemonRarity } from '../types';
+import { MessageKey } from '../locales/fr';
+import { i18n } from './i18n';
+
+/**
+ * Every achievement of the game, in display order. IDs are persisted: never rename one,
+ * add a new definition instead (its progress is rebuilt from the history on the next launch).
+ * Names and descriptions live in the catalogs, under `achievement.<id>.name` and `achievement.<id>.description`.
+ */
+export const ACHIEVEMENT_DEFINITIONS: AchievementDefinition[] = [
+  { id: 'FIRST_FORGE', condition: { event: GameEventType.FORGE, metric: 'count' }, target: 1, reward: 5 },
+  { id: 'FIRST_SALE', condition: { event: GameEventType.SALE, metric: 'count' }, target: 1, reward: 5 },
+  { id: 'LEGENDARY_FORGE', condition: { event: GameEventType.FORGE, metric: 'count', rarities: [PokemonRarity.LEGENDARY, PokemonRarity.MYTHIC] }, target: 1, reward: 20 },
+  { id: 'FIVE_FAVORITES', condition: { event: GameEventType.FAVORITE, metric: 'total' }, target: 5, reward: 5 },
+
+  { id: 'TEN_FORGES', condition: { event: GameEventType.FORGE, metric: 'count' }, target: 10, reward: 10, series: 'FORGES', tier: 'bronze' },
+  { id: 'FIFTY_FORGES', condition: { event: GameEventType.FORGE, metric: 'count' }, target: 50, reward: 25, series: 'FORGES', tier: 'silver' },
+  { id: 'TWO_HUNDRED_FORGES', condition: { event: GameEventType.FORGE, metric: 'count' }, target: 200, reward: 60, series: 'FORGES', tier: 'gold' },
+
+  { id: 'SALES_100', condition: { event: GameEventType.SALE, metric: 'sum' }, target: 100, reward: 10, series: 'SALES', tier: 'bronze' },
+  { id: 'SALES_500', condition: { event: GameEventType.SALE, metric: 'sum' }, target: 500, reward: 25, series: 'SALES', tier: 'silver' },
+  { id: 'SALES_2000', condition: { event: GameEventType.SALE, metric: 'sum' }, target: 2000, reward: 60, series: 'SALES', tier: 'gold' },
+
+  { id: 'PURCHASES_1', condition: { event: GameEventType.PURCHASE, metric: 'count' }, target: 1, reward: 5, series: 'PURCHASES', tier: 'bronze' },
+  { id: 'PURCHASES_10', condition: { event: GameEventType.PURCHASE, metric: 'count' }, target: 10, reward: 20, series: 'PURCHASES', tier: 'silver' },
+  { id: 'PURCHASES_25', condition: { event: GameEventType.PURCHASE, metric: 'count' }, target: 25, reward: 50, series: 'PURCHASES', tier: 'gold' },
+
+  { id: 'DAILY_3', condition: { event: GameEventType.DAILY_BONUS, metric: 'count' }, target: 3, reward: 5, series: 'DAILY', tier: 'bronze' },
+  { id: 'DAILY_10', condition: { event: GameEventType.DAILY_BONUS, metric: 'count' }, target: 10, reward: 15, series: 'DAILY', tier: 'silver' },
+  { id: 'DAILY_30', condition: { event: GameEventType.DAILY_BONUS, metric: 'count' }, target: 30, reward: 40, series: 'DAILY', tier: 'gold' },
+];
+
+/**
+ * @returns The achievement's name in the active language.
+ */
+export const getAchievementName = (definition: AchievementDefinition): string =>
+  i18n.t(`achievement.${definition.id}.name` as MessageKey);
+
+/**
+ * @returns What the player must do to unlock the achievement, in the active language.
+ */
+export const getAchievementDescription = (definition: AchievementDefinition): string =>
+  i18n.t(`achievement.${definition.id}.description` as MessageKey);
@@ -0,0 +1,157 @@
+// services/achievementService.ts
+
+import { Achievement, AchievementDefinition, AchievementEventResult, GameEvent, GameEventType, LedgerReason, Pokemon } from '../types';
+import { indexedDbService } from './indexedDbService';
+import { ACHIEVEMENT_DEFINITIONS } from './achievementDefinitions';
+
+/**
+ * Builds a game event stamped with the current time.
+ * @param type The player action.
+ * @param pokemon The card involved, if any.
+ * @param amount The tokens moved by the action, 0 when none.
+ */
+export const createGameEvent = (type: GameEventType, pokemon: Pokemon | null = null, amount = 0): GameEvent => ({
+  type,
+  pokemon,
+  amount,
+  timestamp: new Date().toISOString(),
+});
+
+/**
+ * Progress of an achievement after an event: one more or its token amount added when it matches the condition,
+ * the running total it carries for 'total' conditions, unchanged otherwise.
+ */
+const getProgressAfter = (definition: AchievementDefinition, progress: number, event: GameEvent): number => {
+  const { condition } = definition;
+  if (event.type !== condition.event) return progress;
+  if (condition.rarities && (!event.pokemon || !condition.rarities.includes(event.pokemon.rarity))) return progress;
+  switch (condition.metric) {
+    case 'count':
+      return progress + 1;
+    case 'sum':
+      return progress + event.amount;
+    case 'total':
+      return Math.max(progress, event.amount);
+  }
+};
+
+/**
+ * Applies events to an achievement, in order.
+ * @returns The new state, or the same object when nothing changed.
+ */
+const applyEvents = (definition: AchievementDefinition, achievement: Achievement, events: GameEvent[]): Achievement => {
+  let state = achievement;
+  for (const event of events) {
+    if (state.unlocked) break;
+    const progress = Math.min(definition.target, getProgressAfter(definition, state.progress, event));
+    if (progress === state.progress) continue;
+    const unlocked = progress >= definition.target;
+    state = { ...state, progress, unlocked, unlockedAt: unlocked ? event.timestamp : null };
+  }
+  return state;
+};
+
+/**
+ * Whether a stored record carries engine progress; records written before the engine only had an unlocked flag.
+ */
+const isTracked = (achievement: Achievement | undefined): achievement is Achievement => typeof achievement?.progress === 'number';
+
+/**
+ * Evaluates the declarative achievement definitions against the stream of player actions,
+ * persisting each achievement's progress and crediting the rewards of the ones unlocked.
+ */
+export class AchievementService {
+  constructor(private readonly definitions: AchievementDefinition[] = ACHIEVEMENT_DEFINITIONS) {}
+
+  public getDefinitions(): AchievementDefinition[] {
+    return this.definitions;
+  }
+
+  /**
+   * Loads the progress of every achievement. Achievements never tracked before (new definitions, or
+   * saves predating progress tracking) are rebuilt from the stored Pokémon and the token ledger, without rewards.
+   * @returns A promise that resolves with one record per definition, in definition order.
+   */
+  public async loadAchievements(): Promise<Achievement[]> {
+    let stored = await indexedDbService.getAchievements();
+    const storedById = new Map(stored.map(a => [a.id, a]));
+    if (this.definitions.some(definition => !isTracked(storedById.get(definition.id)))) {
+      const history = await this.readHistory();
+      await indexedDbService.updateAchievements(current => {
+        const currentById = new Map(current.map(a => [a.id, a]));
+        const updated = this.definitions
+          .filter(definition => !isTracked(currentById.get(definition.id)))
+          .map(definition => {
+            const legacy = currentById.get(definition.id);
+            const rebuilt = applyEvents(definition, { id: definition.id, progress: 0, unlocked: false, unlockedAt: null }, history);
+            // An achievement unlocked by the old rules stays unlocked even if the history can't prove it.
+            return legacy?.unlocked
+              ? { id: definition.id, progress: definition.target, unlocked: true, unlockedAt: legacy.unlockedAt }
+              : rebuilt;
+          });
+        return { updated, reward: 0 };
+      }, false);
+      stored = await indexedDbService.getAchievements();
+    }
+
+    const byId = new Map(stored.map(a => [a.id, a]));
+    return this.definitions.map(definition => byId.get(definition.id) ?? { id: definition.id, progress: 0, unlocked: false, unlockedAt: null });
+  }
+
+  /**
+   * Records a player action: advances the matching achievements, unlocks those reaching their target
+   * and credits their rewards, all in one transaction.
+   * @param event The player action.
+   * @returns A promise that resolves with the changed achievements, the ones unlocked and the reward ledger entry.
+   */
+  public async recordEvent(event: GameEvent): Promise<AchievementEventResult> {
+    let unlocked: AchievementDefinition[] = [];
+    const { updated, rewardEntry } = await indexedDbService.updateAchievements(stored => {
+      const byId = new Map(stored.map(a => [a.id, a]));
+      const changes: Achievement[] = [];
+      unlocked = [];
+      let reward = 0;
+      for (const definition of this.definitions) {
+        const current = byId.get(definition.id);
+        const before: Achievement = isTracked(current) ? current : { id: definition.id, progress: 0, unlocked: false, unlockedAt: null };
+        const after = applyEvents(definition, before, [event]);
+        if (after === before) continue;
+        changes.push(after);
+        if (after.unlocked) {
+          unlocked.push(definition);
+          reward += definition.reward;
+        }
+      }
+      return { updated: changes, reward };
+    });
+    return { updated, unlocked, rewardEntry };
+  }
+
+  /**
+   * Rebuilds the past player actions: every stored Pokémon not forged by an NPC trader was forged once, and the ledger keeps
+   * the sales, purchases and daily bonuses. Favorites are only known for the cards currently marked.
+   */
+  private async readHistory(): Promise<GameEvent[]> {
+    const [pokemons, entries] = await Promise.all([indexedDbService.getPokemons(), indexedDbService.getLedgerEntries()]);
+    const pokemonsById = new Map(pokemons.map(p => [p.id, p]));
+    const ledgerEventTypes: Partial<Record<LedgerReason, GameEventType>> = {
+      [LedgerReason.RESALE]: GameEventType.SALE,
+      [LedgerReason.LISTING_SALE]: GameEventType.SALE,
+      [LedgerReason.MARKET_PURCHASE]: GameEventType.PURCHASE,
+      [LedgerReason.DAILY_BONUS]: GameEventType.DAILY_BONUS,
+    };
+
+    const events: GameEvent[] = [
+      ...pokemons.filter(p => !p.forgedBy).map(pokemon => ({ type: GameEventType.FORGE, pokemon, amount: 0, timestamp: pokemon.generatedAt })),
+      ...pokemons.filter(p => p.isFavorite).map((pokemon, index) => ({ type: GameEventType.FAVORITE, pokemon, amount: index + 1, timestamp: pokemon.generatedAt })),
+    ];
+    for (const entry of entries) {
+      const type = ledgerEventTypes[entry.reason];
+      if (!type) continue;
+      events.push({ type, pokemon: entry.pokemonId ? pokemonsById.get(entry.pokemonId) ?? null : null, amount: Math.abs(entry.amount), timestamp: entry.timestamp });
+    }
+    return events.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  }
+}
+
+export const achievementService = new AchievementService();
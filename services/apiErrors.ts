@@ -0,0 +1,118 @@
+// services/apiErrors.ts
+
+import { ApiErrorResponse } from '../types';
+import { i18n } from './i18n';
+
+/**
+ * Base class for every failure of the generation API.
+ * `isTransient` tells whether the same request may succeed if retried later.
+ */
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string,
+    public readonly status: number | null = null,
+    public readonly isTransient: boolean = false,
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+/**
+ * The bearer token is missing or invalid (HTTP 401, `UNAUTHORIZED`).
+ */
+export class AuthError extends ApiError {
+  constructor(message: string) {
+    super(message, 'UNAUTHORIZED', 401, false);
+    this.name = 'AuthError';
+  }
+}
+
+/**
+ * Too many requests (HTTP 429, `RATE_LIMITED`).
+ * `retryAfterMs` comes from the `Retry-After` header when the server sends one.
+ */
+export class RateLimitError extends ApiError {
+  constructor(message: string, public readonly retryAfterMs: number | null) {
+    super(message, 'RATE_LIMITED', 429, true);
+    this.name = 'RateLimitError';
+  }
+}
+
+/**
+ * The service failed internally (HTTP 5xx, `GENERATION_FAILED`).
+ */
+export class GenerationFailedError extends ApiError {
+  constructor(message: string, status: number) {
+    super(message, 'GENERATION_FAILED', status, true);
+    this.name = 'GenerationFailedError';
+  }
+}
+
+/**
+ * The request did not complete within the allotted time.
+ */
+export class TimeoutError extends ApiError {
+  constructor(message: string) {
+    super(message, 'TIMEOUT', null, true);
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * The server could not be reached (offline, DNS, CORS or certificate issue).
+ */
+export class NetworkError extends ApiError {
+  constructor(message: string) {
+    super(message, 'NETWORK_ERROR', null, true);
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * The server answered with a payload that does not match docs/02-api.md.
+ */
+export class InvalidResponseError extends ApiError {
+  constructor(message: string, status: number | null = null) {
+    super(message, 'INVALID_RESPONSE', status, false);
+    this.name = 'InvalidResponseError';
+  }
+}
+
+/**
+ * Parses a `Retry-After` header, given either in seconds or as an HTTP date.
+ * @param header The raw header value.
+ * @param now The current time in milliseconds.
+ * @returns The delay in milliseconds, or null if the header is absent or malformed.
+ */
+export const parseRetryAfter = (header: string | null, now: number = Date.now()): number | null => {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+};
+
+/**
+ * Builds the typed error matching an HTTP error response.
+ * @param status The HTTP status code.
+ * @param body The decoded error body, if it followed the documented format.
+ * @param retryAfterHeader The `Retry-After` header, if any.
+ * @returns The ApiError subclass for this failure.
+ */
+export const createApiError = (status: number, body: ApiErrorResponse | null, retryAfterHeader: string | null): ApiError => {
+  const code = body?.error?.code;
+  const message = body?.error?.message || i18n.t('errors.apiHttp', { status: String(status) });
+
+  if (status === 401 || code === 'UNAUTHORIZED') {
+    return new AuthError(message);
+  }
+  if (status === 429 || code === 'RATE_LIMITED') {
+    return new RateLimitError(message, parseRetryAfter(retryAfterHeader));
+  }
+  if (status >= 500 || code === 'GENERATION_FAILED') {
+    return new GenerationFailedError(message, status);
+  }
+  return new ApiError(message, code || 'UNKNOWN_ERROR', status, false);
+};
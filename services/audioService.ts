@@ -0,0 +1,314 @@
+// services/audioService.ts
+
+import { PlayerSettings, PokemonRarity } from '../types';
+
+/**
+ * Sound effects played on the player's actions. Reveals have their own sting per rarity, see `playReveal`.
+ */
+export type SoundEffect = 'forgeStart' | 'resale' | 'purchase' | 'achievement' | 'bonus';
+
+/**
+ * The settings the audio depends on.
+ */
+export type AudioSettings = Pick<PlayerSettings, 'isMuted' | 'musicVolume' | 'effectsVolume' | 'isAmbientEnabled'>;
+
+interface Tone {
+  frequency: number; // Hz
+  start: number; // Seconds after the sound is triggered
+  duration: number; // Seconds, release included
+  wave?: OscillatorType;
+  volume?: number; // Peak gain, before the effects volume
+  glideTo?: number; // Frequency reached at the end of the tone, in Hz
+}
+
+interface NoiseSweep {
+  start: number;
+  duration: number;
+  volume: number;
+  from: number; // Center frequency of the band-pass filter at the start, in Hz
+  to: number;
+}
+
+interface Sound {
+  tones: Tone[];
+  noises?: NoiseSweep[];
+}
+
+interface RevealSting {
+  notes: number[]; // MIDI notes, arpeggiated then held together
+  wave: OscillatorType;
+  step: number; // Seconds between two notes of the arpeggio
+  sustain: number; // Seconds the chord rings once complete
+  shimmer: boolean; // Adds high sparkles over the chord
+}
+
+const UNLOCK_EVENTS = ['pointerdown', 'keydown', 'touchend'];
+const ATTACK_SECONDS = 0.01;
+const SILENCE = 0.0001; // Exponential ramps cannot reach 0
+const VOLUME_SMOOTHING = 0.05; // Time constant of volume changes, in seconds
+const AMBIENT_FADE_SECONDS = 1.5;
+const AMBIENT_LEVEL = 0.12; // The pad is dense: full music volume should sit well under the effects
+const CHORD_SECONDS = 8;
+const CHORD_GLIDE = 1.2; // Time constant of the pad moving to the next chord, in seconds
+
+/**
+ * Frequency of a MIDI note, A4 (69) being 440 Hz.
+ */
+const pitch = (note: number): number => 440 * 2 ** ((note - 69) / 12);
+
+const SOUND_EFFECTS: Record<SoundEffect, Sound> = {
+  // A rising whoosh over a low rumble, while the forge heats up
+  forgeStart: {
+    tones: [{ frequency: 70, start: 0, duration: 0.8, volume: 0.3, glideTo: 140 }],
+    noises: [{ start: 0, duration: 0.8, volume: 0.25, from: 300, to: 2500 }],
+  },
+  // Two bright coin blips
+  resale: {
+    tones: [
+      { frequency: pitch(83), start: 0, duration: 0.08, wave: 'square', volume: 0.1 },
+      { frequency: pitch(88), start: 0.07, duration: 0.4, wave: 'square', volume: 0.1 },
+    ],
+  },
+  // A soft descending pair after the click of the till
+  purchase: {
+    tones: [
+      { frequency: pitch(76), start: 0.03, duration: 0.12, wave: 'triangle', volume: 0.25 },
+      { frequency: pitch(72), start: 0.13, duration: 0.3, wave: 'triangle', volume: 0.25 },
+    ],
+    noises: [{ start: 0, duration: 0.03, volume: 0.2, from: 2000, to: 2000 }],
+  },
+  // A short fanfare resolving on a major chord
+  achievement: {
+    tones: [
+      ...[67, 72, 76].map((note, index) => ({ frequency: pitch(note), start: index * 0.1, duration: 0.15, wave: 'triangle' as const, volume: 0.2 })),
+      ...[72, 76, 79].map(note => ({ frequency: pitch(note), start: 0.3, duration: 1, wave: 'triangle' as const, volume: 0.15 })),
+    ],
+  },
+  // A quick pentatonic sparkle
+  bonus: {
+    tones: [84, 86, 88, 91, 93, 96].map((note, index) => ({ frequency: pitch(note), start: index * 0.05, duration: 0.25, volume: 0.12 })),
+  },
+};
+
+const REVEAL_STINGS: Record<PokemonRarity, RevealSting> = {
+  [PokemonRarity.COMMON]: { notes: [72], wave: 'triangle', step: 0, sustain: 0.25, shimmer: false },
+  [PokemonRarity.RARE]: { notes: [72, 79], wave: 'triangle', step: 0.09, sustain: 0.35, shimmer: false },
+  [PokemonRarity.EPIC]: { notes: [72, 76, 79], wave: 'triangle', step: 0.08, sustain: 0.5, shimmer: true },
+  [PokemonRarity.LEGENDARY]: { notes: [72, 76, 79, 84], wave: 'square', step: 0.08, sustain: 0.8, shimmer: true },
+  [PokemonRarity.MYTHIC]: { notes: [69, 72, 76, 79, 84, 88], wave: 'sawtooth', step: 0.07, sustain: 1.4, shimmer: true },
+};
+
+// Am, F, C, G, voiced low and close
+const AMBIENT_CHORDS = [[57, 60, 64], [53, 57, 60], [48, 55, 64], [55, 59, 62]];
+
+/**
+ * Builds the sound of a reveal: an arpeggio held into a chord, longer and richer as the rarity rises.
+ */
+const buildRevealSound = ({ notes, wave, step, sustain, shimmer }: RevealSting): Sound => {
+  const end = notes.length * step + sustain;
+  const volume = 0.25 / Math.sqrt(notes.length); // Keeps the chords as loud as a single note
+  const tones: Tone[] = notes.map((note, index) => ({ frequency: pitch(note), start: index * step, duration: end - index * step, wave, volume }));
+  if (shimmer) {
+    for (let index = 0; index < notes.length * 2; index++) {
+      const note = notes[(index * 3) % notes.length] + 24;
+      tones.push({ frequency: pitch(note), start: notes.length * step + index * (sustain / (notes.length * 2)), duration: 0.2, volume: 0.05 });
+    }
+  }
+  return { tones };
+};
+
+/**
+ * Synthesizes the game's sounds with the Web Audio API, so it ships no audio files.
+ * Browsers only let a page start audio after a user gesture: the audio context is created on the first
+ * pointer or key press, and sounds requested before that are dropped. Nothing plays while the sound is
+ * muted or the page is hidden.
+ */
+export class AudioService {
+  private context: AudioContext | null = null;
+  private musicGain: GainNode | null = null;
+  private effectsGain: GainNode | null = null;
+  private noiseBuffer: AudioBuffer | null = null;
+  private settings: AudioSettings | null = null;
+  private stopAmbient: (() => void) | null = null;
+  private suspendTimer: number | undefined;
+
+  constructor() {
+    if (typeof window !== 'undefined') {
+      UNLOCK_EVENTS.forEach(type => window.addEventListener(type, this.unlock, { capture: true }));
+      document.addEventListener('visibilitychange', this.refresh);
+    }
+  }
+
+  /**
+   * Applies the player's audio settings: the volumes, the mute and the ambient loop.
+   */
+  public configure = (settings: AudioSettings): void => {
+    this.settings = settings;
+    this.refresh();
+  };
+
+  public play = (effect: SoundEffect): void => {
+    this.playSound(SOUND_EFFECTS[effect]);
+  };
+
+  /**
+   * Plays the sting of a card reveal.
+   * @param rarity The rarity of the revealed card, which picks the sting.
+   */
+  public playReveal = (rarity: PokemonRarity): void => {
+    this.playSound(buildRevealSound(REVEAL_STINGS[rarity]));
+  };
+
+  private unlock = (): void => {
+    if (this.context || typeof AudioContext === 'undefined') return;
+    UNLOCK_EVENTS.forEach(type => window.removeEventListener(type, this.unlock, { capture: true }));
+
+    const context = new AudioContext();
+    this.musicGain = context.createGain();
+    this.musicGain.connect(context.destination);
+    this.effectsGain = context.createGain();
+    this.effectsGain.connect(context.destination);
+    this.context = context;
+    this.refresh();
+  };
+
+  private refresh = (): void => {
+    const { context, settings, musicGain, effectsGain } = this;
+    if (!context || !settings || !musicGain || !effectsGain) return;
+
+    musicGain.gain.setTargetAtTime(settings.musicVolume * AMBIENT_LEVEL, context.currentTime, VOLUME_SMOOTHING);
+    effectsGain.gain.setTargetAtTime(settings.effectsVolume, context.currentTime, VOLUME_SMOOTHING);
+
+    const isAudible = !settings.isMuted && document.visibilityState === 'visible';
+    const isAmbientPlaying = isAudible && settings.isAmbientEnabled && settings.musicVolume > 0;
+    if (isAmbientPlaying && !this.stopAmbient) {
+      this.stopAmbient = this.startAmbient(context, musicGain);
+    } else if (!isAmbientPlaying && this.stopAmbient) {
+      this.stopAmbient();
+      this.stopAmbient = null;
+    }
+
+    window.clearTimeout(this.suspendTimer);
+    if (isAudible) {
+      // Resuming can only fail when the browser still blocks audio; the next gesture retries.
+      context.resume().catch(() => undefined);
+    } else {
+      // Suspending releases the audio device, once the ambient loop has faded out.
+      this.suspendTimer = window.setTimeout(() => context.suspend().catch(() => undefined), AMBIENT_FADE_SECONDS * 1000);
+    }
+  };
+
+  private playSound = ({ tones, noises = [] }: Sound): void => {
+    const { context, settings, effectsGain } = this;
+    if (!context || !effectsGain || !settings || settings.isMuted || context.state !== 'running') return;
+    tones.forEach(tone => this.playTone(context, effectsGain, tone));
+    noises.forEach(noise => this.playNoise(context, effectsGain, noise));
+  };
+
+  private playTone = (context: AudioContext, output: AudioNode, { frequency, start, duration, wave = 'sine', volume = 0.2, glideTo }: Tone): void => {
+    const time = context.currentTime + start;
+    const oscillator = context.createOscillator();
+    oscillator.type = wave;
+    oscillator.frequency.setValueAtTime(frequency, time);
+    if (glideTo) oscillator.frequency.exponentialRampToValueAtTime(glideTo, time + duration);
+
+    const envelope = this.createEnvelope(context, time, duration, volume);
+    oscillator.connect(envelope).connect(output);
+    oscillator.start(time);
+    oscillator.stop(time + duration);
+  };
+
+  private playNoise = (context: AudioContext, output: AudioNode, { start, duration, volume, from, to }: NoiseSweep): void => {
+    const time = context.currentTime + start;
+    const source = context.createBufferSource();
+    source.buffer = this.getNoiseBuffer(context);
+    source.loop = true;
+
+    const filter = context.createBiquadFilter();
+    filter.type = 'bandpass';
+    filter.Q.value = 1.5;
+    filter.frequency.setValueAtTime(from, time);
+    filter.frequency.exponentialRampToValueAtTime(to, time + duration);
+
+    const envelope = this.createEnvelope(context, time, duration, volume);
+    source.connect(filter).connect(envelope).connect(output);
+    source.start(time);
+    source.stop(time + duration);
+  };
+
+  /**
+   * A gain rising quickly to `volume` then decaying exponentially until `time + duration`.
+   */
+  private createEnvelope = (context: AudioContext, time: number, duration: number, volume: number): GainNode => {
+    const envelope = context.createGain();
+    envelope.gain.setValueAtTime(SILENCE, time);
+    envelope.gain.exponentialRampToValueAtTime(volume, time + ATTACK_SECONDS);
+    envelope.gain.exponentialRampToValueAtTime(SILENCE, time + duration);
+    return envelope;
+  };
+
+  private getNoiseBuffer = (context: AudioContext): AudioBuffer => {
+    if (!this.noiseBuffer) {
+      this.noiseBuffer = context.createBuffer(1, context.sampleRate, context.sampleRate);
+      const samples = this.noiseBuffer.getChannelData(0);
+      for (let index = 0; index < samples.length; index++) samples[index] = Math.random() * 2 - 1;
+    }
+    return this.noiseBuffer;
+  };
+
+  /**
+   * Starts the ambient loop: a slowly breathing pad moving through a four-chord progression.
+   * @returns A function fading the loop out and releasing its nodes.
+   */
+  private startAmbient = (context: AudioContext, output: AudioNode): (() => void) => {
+    const bus = context.createGain();
+    bus.gain.setValueAtTime(SILENCE, context.currentTime);
+    bus.gain.exponentialRampToValueAtTime(1, context.currentTime + AMBIENT_FADE_SECONDS);
+    bus.connect(output);
+
+    const filter = context.createBiquadFilter();
+    filter.type = 'lowpass';
+    filter.frequency.value = 900;
+    filter.connect(bus);
+
+    // A very slow LFO on the cutoff makes the pad breathe.
+    const lfo = context.createOscillator();
+    lfo.frequency.value = 0.07;
+    const lfoDepth = context.createGain();
+    lfoDepth.gain.value = 400;
+    lfo.connect(lfoDepth).connect(filter.frequency);
+
+    // Each chord note is played by a triangle and a slightly detuned sawtooth.
+    const voices = AMBIENT_CHORDS[0].flatMap(note => (['triangle', 'sawtooth'] as const).map(wave => {
+      const oscillator = context.createOscillator();
+      oscillator.type = wave;
+      oscillator.frequency.value = pitch(note);
+      if (wave === 'sawtooth') oscillator.detune.value = 7;
+      const gain = context.createGain();
+      gain.gain.value = wave === 'sawtooth' ? 0.3 : 1;
+      oscillator.connect(gain).connect(filter);
+      return oscillator;
+    }));
+    [lfo, ...voices].forEach(oscillator => oscillator.start());
+
+    let chordIndex = 0;
+    const timer = window.setInterval(() => {
+      chordIndex = (chordIndex + 1) % AMBIENT_CHORDS.length;
+      voices.forEach((oscillator, index) => {
+        oscillator.frequency.setTargetAtTime(pitch(AMBIENT_CHORDS[chordIndex][Math.floor(index / 2)]), context.currentTime, CHORD_GLIDE);
+      });
+    }, CHORD_SECONDS * 1000);
+
+    return () => {
+      window.clearInterval(timer);
+      const end = context.currentTime + AMBIENT_FADE_SECONDS;
+      bus.gain.cancelScheduledValues(context.currentTime);
+      bus.gain.setValueAtTime(bus.gain.value, context.currentTime);
+      bus.gain.exponentialRampToValueAtTime(SILENCE, end);
+      [lfo, ...voices].forEach(oscillator => oscillator.stop(end));
+      window.setTimeout(() => bus.disconnect(), AMBIENT_FADE_SECONDS * 1000);
+    };
+  };
+}
+
+export const audioService = new AudioService();
@@ -0,0 +1,210 @@
+// services/backupService.ts
+
+import { BackupArchive, BackupImportMode, BackupReport, DB_VERSION, StoreNames, Pokemon, PokemonStatus, PokemonImage, SerializedImage, Achievement, GenerationFixture, PokemonRarity, CardEvent, LedgerEntry, LEGACY_RARITY_NAMES } from '../types';
+import { indexedDbService, StoreSnapshot } from './indexedDbService';
+import { base64ToBlob, blobToBase64 } from '../utils/images';
+import { rebuildCardEvents } from '../utils/cardHistory';
+import { i18n } from './i18n';
+
+const ARCHIVE_FORMAT = 'pokeforge-backup';
+const ARCHIVE_FORMAT_VERSION = 1;
+const MIN_SUPPORTED_SCHEMA_VERSION = 7; // First schema storing images as Blobs
+
+const ALL_STORES = Object.values(StoreNames) as StoreNames[];
+const LISTINGS_SCHEMA_VERSION = 11; // First schema selling the NPC cards as listings with an asking price
+const RARITY_CODES_SCHEMA_VERSION = 14; // First schema storing rarities as codes rather than French names
+const CARD_EVENTS_SCHEMA_VERSION = 15; // First schema recording the history of each card
+
+/**
+ * Drops the NPC cards an archive from an older schema had on sale without an asking price, with their images,
+ * as the database upgrade does for the local records.
+ */
+const dropUnpricedNpcStock = (archive: BackupArchive): BackupArchive => {
+  const pokemons = (archive.stores[StoreNames.Pokemons] ?? []) as Pokemon[];
+  const droppedIds = new Set(pokemons.filter(pokemon => pokemon.status === PokemonStatus.RESOLD && pokemon.traderId).map(pokemon => pokemon.id));
+  if (droppedIds.size === 0) return archive;
+  const images = archive.stores[StoreNames.Images] as SerializedImage[] | undefined;
+  return {
+    ...archive,
+    stores: {
+      ...archive.stores,
+      [StoreNames.Pokemons]: pokemons.filter(pokemon => !droppedIds.has(pokemon.id)),
+      ...(images && { [StoreNames.Images]: images.filter(image => !droppedIds.has(image.pokemonId)) }),
+    },
+  };
+};
+
+/**
+ * Rewrites the French rarity names of an archive from an older schema into rarity codes,
+ * as the database upgrade does for the local records.
+ */
+const migrateLegacyRarities = (archive: BackupArchive): BackupArchive => {
+  const toCode = (rarity: string): PokemonRarity => LEGACY_RARITY_NAMES[rarity] ?? (rarity as PokemonRarity);
+  const withRarityCode = (records: unknown[] | undefined) =>
+    (records as { rarity: string }[] | undefined)?.map(record => ({ ...record, rarity: toCode(record.rarity) }));
+  const traders = archive.stores[StoreNames.NpcTraders] as { rarityPreferences: Record<string, number> }[] | undefined;
+  const stores = {
+    ...archive.stores,
+    [StoreNames.Pokemons]: withRarityCode(archive.stores[StoreNames.Pokemons]),
+    [StoreNames.PriceHistory]: withRarityCode(archive.stores[StoreNames.PriceHistory]),
+    [StoreNames.MarketFeed]: withRarityCode(archive.stores[StoreNames.MarketFeed]),
+    [StoreNames.NpcTraders]: traders?.map(trader => ({
+      ...trader,
+      rarityPreferences: Object.fromEntries(Object.entries(trader.rarityPreferences).map(([rarity, weight]) => [toCode(rarity), weight])),
+    })),
+  };
+  // Leave out the stores the archive did not have.
+  return { ...archive, stores: Object.fromEntries(Object.entries(stores).filter(([, records]) => records !== undefined)) };
+};
+
+/**
+ * Gives an archive from an older schema the card histories its ledger can tell, as the database upgrade does.
+ */
+const addCardEvents = (archive: BackupArchive): BackupArchive => ({
+  ...archive,
+  stores: { ...archive.stores, [StoreNames.CardEvents]: rebuildCardEvents((archive.stores[StoreNames.Ledger] ?? []) as LedgerEntry[]) },
+});
+
+/**
+ * Error raised when a file is not a backup this version of the app can restore.
+ */
+export class BackupValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupValidationError';
+  }
+}
+
+/**
+ * Exports and restores the whole local database as a single versioned archive file.
+ */
+export class BackupService {
+
+  /**
+   * Builds an archive of every store, images included.
+   * @returns A promise that resolves with the archive as a JSON Blob.
+   */
+  public async exportBackup(): Promise<Blob> {
+    const snapshot = await indexedDbService.readAllStores(ALL_STORES);
+    const images = (snapshot[StoreNames.Images] ?? []) as PokemonImage[];
+    const serializedImages: SerializedImage[] = await Promise.all(images.map(async image => ({
+      pokemonId: image.pokemonId,
+      variant: image.variant,
+      type: image.blob.type || 'image/png',
+      data: await blobToBase64(image.blob),
+    })));
+
+    const archive: BackupArchive = {
+      format: ARCHIVE_FORMAT,
+      formatVersion: ARCHIVE_FORMAT_VERSION,
+      schemaVersion: DB_VERSION,
+      exportedAt: new Date().toISOString(),
+      stores: { ...snapshot, [StoreNames.Images]: serializedImages },
+    };
+    return new Blob([JSON.stringify(archive)], { type: 'application/json' });
+  }
+
+  /**
+   * Reads and validates an archive file.
+   * @param file The file picked by the user.
+   * @returns A promise that resolves with the parsed archive.
+   * @throws {BackupValidationError} if the file is not a supported archive.
+   */
+  public async parseBackup(file: Blob): Promise<BackupArchive> {
+    let archive: BackupArchive;
+    try {
+      archive = JSON.parse(await file.text());
+    } catch {
+      throw new BackupValidationError(i18n.t('errors.backupInvalid'));
+    }
+
+    if (!archive || archive.format !== ARCHIVE_FORMAT || typeof archive.stores !== 'object' || archive.stores === null) {
+      throw new BackupValidationError(i18n.t('errors.backupInvalid'));
+    }
+    if (archive.formatVersion !== ARCHIVE_FORMAT_VERSION) {
+      throw new BackupValidationError(i18n.t('errors.backupFormat', { version: String(archive.formatVersion) }));
+    }
+    if (typeof archive.schemaVersion !== 'number' || archive.schemaVersion < MIN_SUPPORTED_SCHEMA_VERSION || archive.schemaVersion > DB_VERSION) {
+      throw new BackupValidationError(i18n.t('errors.backupSchema', { version: String(archive.schemaVersion), min: String(MIN_SUPPORTED_SCHEMA_VERSION), max: String(DB_VERSION) }));
+    }
+    for (const [storeName, records] of Object.entries(archive.stores)) {
+      if (!ALL_STORES.includes(storeName as StoreNames) || !Array.isArray(records)) {
+        throw new BackupValidationError(i18n.t('errors.backupUnexpectedStore', { store: storeName }));
+      }
+    }
+    const pokemons = (archive.stores[StoreNames.Pokemons] ?? []) as Pokemon[];
+    if (pokemons.some(pokemon => typeof pokemon?.id !== 'string')) {
+      throw new BackupValidationError(i18n.t('errors.backupMissingIds'));
+    }
+    const priced = archive.schemaVersion < LISTINGS_SCHEMA_VERSION ? dropUnpricedNpcStock(archive) : archive;
+    const migrated = archive.schemaVersion < RARITY_CODES_SCHEMA_VERSION ? migrateLegacyRarities(priced) : priced;
+    return archive.schemaVersion < CARD_EVENTS_SCHEMA_VERSION ? addCardEvents(migrated) : migrated;
+  }
+
+  /**
+   * Summarizes an archive and lists the Pokémon that already exist locally.
+   * @param archive A validated archive.
+   */
+  public async analyzeBackup(archive: BackupArchive): Promise<BackupReport> {
+    const existingIds = new Set(await indexedDbService.getPokemonIds());
+    const pokemons = (archive.stores[StoreNames.Pokemons] ?? []) as Pokemon[];
+    return {
+      exportedAt: archive.exportedAt,
+      schemaVersion: archive.schemaVersion,
+      pokemonCount: pokemons.length,
+      imageCount: archive.stores[StoreNames.Images]?.length ?? 0,
+      ledgerEntryCount: archive.stores[StoreNames.Ledger]?.length ?? 0,
+      conflictingPokemonIds: pokemons.map(pokemon => pokemon.id).filter(id => existingIds.has(id)),
+    };
+  }
+
+  /**
+   * Restores an archive.
+   * In 'replace' mode every store is emptied and refilled from the archive.
+   * In 'merge' mode only the Pokémon missing locally (with their images and histories), newly unlocked achievements and
+   * recorded fixtures are added; the current balance, ledger and settings are kept, and conflicting
+   * Pokémon keep their local version.
+   * Listings, auctions and traders are not merged: cards held by a trader (listed, auctioned or traded) are
+   * skipped, since they belong to the other save's market, and the player's own listed cards come back as owned.
+   * @param archive A validated archive.
+   * @param mode The import mode.
+   */
+  public async importBackup(archive: BackupArchive, mode: BackupImportMode): Promise<void> {
+    const images = ((archive.stores[StoreNames.Images] ?? []) as SerializedImage[]).map(image => ({
+      pokemonId: image.pokemonId,
+      variant: image.variant,
+      blob: base64ToBlob(image.data, image.type),
+    }) as PokemonImage);
+
+    if (mode === 'replace') {
+      const snapshot: StoreSnapshot = {};
+      for (const storeName of ALL_STORES) {
+        snapshot[storeName] = storeName === StoreNames.Images ? images : archive.stores[storeName] ?? [];
+      }
+      await indexedDbService.writeStores(snapshot, true);
+      return;
+    }
+
+    const [existingIds, existingAchievements] = await Promise.all([
+      indexedDbService.getPokemonIds(),
+      indexedDbService.getAchievements(),
+    ]);
+    const existingIdSet = new Set(existingIds);
+    const unlockedIds = new Set(existingAchievements.filter(a => a.unlocked).map(a => a.id));
+    const newPokemons = ((archive.stores[StoreNames.Pokemons] ?? []) as Pokemon[])
+      .filter(pokemon => !existingIdSet.has(pokemon.id) && !pokemon.traderId)
+      .map(pokemon => (pokemon.status === PokemonStatus.LISTED || pokemon.status === PokemonStatus.AUCTION ? { ...pokemon, status: PokemonStatus.OWNED } : pokemon));
+    const newPokemonIds = new Set(newPokemons.map(pokemon => pokemon.id));
+
+    await indexedDbService.writeStores({
+      [StoreNames.Pokemons]: newPokemons,
+      [StoreNames.Images]: images.filter(image => newPokemonIds.has(image.pokemonId)),
+      [StoreNames.CardEvents]: ((archive.stores[StoreNames.CardEvents] ?? []) as CardEvent[]).filter(event => newPokemonIds.has(event.pokemonId)).map(({ id, ...event }) => event),
+      [StoreNames.Achievements]: ((archive.stores[StoreNames.Achievements] ?? []) as Achievement[]).filter(a => a.unlocked && !unlockedIds.has(a.id)),
+      // Drop the archived keys so the fixtures get fresh auto-incremented ones.
+      [StoreNames.GenerationFixtures]: ((archive.stores[StoreNames.GenerationFixtures] ?? []) as GenerationFixture[]).map(({ id, ...fixture }) => fixture),
+    }, false);
+  }
+}
+
+export const backupService = new BackupService();
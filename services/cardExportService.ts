@@ -0,0 +1,326 @@
+// services/cardExportService.ts
+
+import { Pokemon, PokemonRarity } from '../types';
+import { indexedDbService } from './indexedDbService';
+import { i18n } from './i18n';
+import { formatGrade } from '../utils/grades';
+
+const MM_PER_INCH = 25.4;
+const CARD_WIDTH_MM = 63; // Standard trading card format
+const CARD_HEIGHT_MM = 88;
+const CARD_MARGIN_MM = 3; // Room around an exported card for its glow
+const SHEET_MARGIN_MM = 8;
+const SHEET_GUTTER_MM = 4; // Cutting space between the cards of a contact sheet
+const MAX_CANVAS_SIDE = 16384; // Largest canvas edge browsers accept
+const MAX_CANVAS_AREA = 16384 * 8192; // Keeps the pixel buffer of a sheet around half a gigabyte
+
+/**
+ * Print resolutions offered for exports, in dots per inch.
+ */
+export const CARD_EXPORT_RESOLUTIONS = [150, 300, 600];
+export const DEFAULT_CARD_EXPORT_RESOLUTION = 300;
+
+export interface CardExportOptions {
+  dpi: number;
+  playerName: string; // Printed as the forger of the player's own cards
+  traderNames: ReadonlyMap<string, string>; // Names of the NPC traders, printed as the forger of their cards
+}
+
+export interface ContactSheetOptions extends CardExportOptions {
+  columns: number;
+}
+
+interface CardFrameStyle {
+  frame: string[]; // Gradient stops of the frame, from the top left to the bottom right corner
+  accent: string; // Rarity label, grade and artwork border
+  glow: string;
+}
+
+/**
+ * Printed counterparts of the rarity styles of the on-screen cards.
+ */
+const CARD_FRAME_STYLES: Record<PokemonRarity, CardFrameStyle> = {
+  [PokemonRarity.COMMON]: { frame: ['#9ca3af', '#4b5563'], accent: '#d1d5db', glow: 'rgba(107, 114, 128, 0)' },
+  [PokemonRarity.RARE]: { frame: ['#60a5fa', '#1e3a8a'], accent: '#93c5fd', glow: 'rgba(59, 130, 246, 0.5)' },
+  [PokemonRarity.EPIC]: { frame: ['#c084fc', '#581c87'], accent: '#d8b4fe', glow: 'rgba(168, 85, 247, 0.6)' },
+  [PokemonRarity.LEGENDARY]: { frame: ['#fde047', '#b45309'], accent: '#fde68a', glow: 'rgba(234, 179, 8, 0.7)' },
+  [PokemonRarity.MYTHIC]: { frame: ['#d946ef', '#8b5cf6', '#06b6d4'], accent: '#f0abfc', glow: 'rgba(217, 70, 239, 0.8)' },
+};
+
+/**
+ * Error raised when an export cannot be drawn, e.g. a contact sheet too large for a canvas.
+ */
+export class CardExportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CardExportError';
+  }
+}
+
+const mmToPx = (mm: number, dpi: number): number => Math.round((mm / MM_PER_INCH) * dpi);
+
+/**
+ * The first characters of a card's ID, enough to tell the cards of a collection apart.
+ */
+export const getShortId = (id: string): string => id.replace(/-/g, '').slice(0, 8).toUpperCase();
+
+/**
+ * Suggested file name of an exported card, e.g. `pokeforge-pikachu-1A2B3C4D.png`.
+ */
+export const getCardFileName = (pokemon: Pokemon): string => {
+  const slug = pokemon.name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '').toLowerCase();
+  return `pokeforge-${slug || 'pokemon'}-${getShortId(pokemon.id)}.png`;
+};
+
+/**
+ * Shortens a text with an ellipsis until it fits the width, in the context's current font.
+ */
+const fitText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string => {
+  if (ctx.measureText(text).width <= maxWidth) return text;
+  let fitted = text;
+  while (fitted.length > 0 && ctx.measureText(`${fitted}…`).width > maxWidth) fitted = fitted.slice(0, -1);
+  return `${fitted}…`;
+};
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (bytes: Uint8Array): number => {
+  let c = 0xffffffff;
+  for (const byte of bytes) c = CRC_TABLE[(c ^ byte) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * Records the print resolution in a PNG, so viewers and printers size it in millimetres rather than pixels.
+ * The pHYs chunk is inserted right after IHDR, which always ends at byte 33; a PNG already holding one is kept as is.
+ */
+const setPngResolution = async (png: Blob, dpi: number): Promise<Blob> => {
+  const bytes = new Uint8Array(await png.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  for (let offset = 8; offset + 8 <= bytes.length;) {
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    if (type === 'pHYs') return png;
+    if (type === 'IDAT') break;
+    offset += 12 + view.getUint32(offset);
+  }
+
+  const chunk = new Uint8Array(21);
+  const chunkView = new DataView(chunk.buffer);
+  const pixelsPerMetre = Math.round((dpi / MM_PER_INCH) * 1000);
+  chunkView.setUint32(0, 9); // Data length
+  chunk.set([0x70, 0x48, 0x59, 0x73], 4); // "pHYs"
+  chunkView.setUint32(8, pixelsPerMetre);
+  chunkView.setUint32(12, pixelsPerMetre);
+  chunk[16] = 1; // Unit: metre
+  chunkView.setUint32(17, crc32(chunk.subarray(4, 17)));
+  return new Blob([bytes.subarray(0, 33), chunk, bytes.subarray(33)], { type: 'image/png' });
+};
+
+/**
+ * Draws cards as printable trading-card images: a rarity frame around the artwork, with the name, grade,
+ * rarity, forge date, forger and a short ID. Cards are laid out at their real size for the chosen resolution.
+ */
+export class CardExportService {
+
+  /**
+   * Renders one card.
+   * @param pokemon The card to draw.
+   * @param options The resolution and the names printed as the card's forger.
+   * @returns A promise that resolves with the PNG, transparent around the card.
+   * @throws {CardExportError} if the browser cannot draw on a canvas.
+   */
+  public async exportCard(pokemon: Pokemon, options: CardExportOptions): Promise<Blob> {
+    const cardWidth = mmToPx(CARD_WIDTH_MM, options.dpi);
+    const margin = mmToPx(CARD_MARGIN_MM, options.dpi);
+    const canvas = this.createCanvas(cardWidth + 2 * margin, mmToPx(CARD_HEIGHT_MM, options.dpi) + 2 * margin);
+    const image = await this.loadImage(pokemon.id);
+    this.drawCard(this.getContext(canvas), margin, margin, cardWidth, pokemon, image, this.getForgerName(pokemon, options));
+    image?.close();
+    return this.encode(canvas, options.dpi);
+  }
+
+  /**
+   * Renders a selection of cards as a grid on a white sheet, ready to print and cut.
+   * @param pokemons The cards, in reading order.
+   * @param options The resolution, the number of columns and the names printed as the cards' forgers.
+   * @returns A promise that resolves with the PNG.
+   * @throws {CardExportError} if the selection is empty, or the sheet too large for a canvas at this resolution.
+   */
+  public async exportContactSheet(pokemons: Pokemon[], options: ContactSheetOptions): Promise<Blob> {
+    if (pokemons.length === 0) throw new CardExportError(i18n.t('errors.exportEmpty'));
+    const columns = Math.max(1, Math.min(options.columns, pokemons.length));
+    const rows = Math.ceil(pokemons.length / columns);
+    const cardWidth = mmToPx(CARD_WIDTH_MM, options.dpi);
+    const cardHeight = mmToPx(CARD_HEIGHT_MM, options.dpi);
+    const margin = mmToPx(SHEET_MARGIN_MM, options.dpi);
+    const gutter = mmToPx(SHEET_GUTTER_MM, options.dpi);
+    const canvas = this.createCanvas(
+      2 * margin + columns * cardWidth + (columns - 1) * gutter,
+      2 * margin + rows * cardHeight + (rows - 1) * gutter,
+    );
+    const ctx = this.getContext(canvas);
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    // One image decoded at a time, so large selections don't hold every bitmap in memory.
+    for (const [index, pokemon] of pokemons.entries()) {
+      const x = margin + (index % columns) * (cardWidth + gutter);
+      const y = margin + Math.floor(index / columns) * (cardHeight + gutter);
+      const image = await this.loadImage(pokemon.id);
+      this.drawCard(ctx, x, y, cardWidth, pokemon, image, this.getForgerName(pokemon, options));
+      image?.close();
+    }
+    return this.encode(canvas, options.dpi);
+  }
+
+  private createCanvas(width: number, height: number): HTMLCanvasElement {
+    if (width > MAX_CANVAS_SIDE || height > MAX_CANVAS_SIDE || width * height > MAX_CANVAS_AREA) {
+      throw new CardExportError(i18n.t('errors.exportTooLarge', { width, height }));
+    }
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    return canvas;
+  }
+
+  private getContext(canvas: HTMLCanvasElement): CanvasRenderingContext2D {
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new CardExportError(i18n.t('errors.canvasUnavailable'));
+    ctx.imageSmoothingQuality = 'high';
+    return ctx;
+  }
+
+  private async loadImage(pokemonId: string): Promise<ImageBitmap | null> {
+    const blob = await indexedDbService.getPokemonImage(pokemonId, 'full');
+    return blob ? createImageBitmap(blob) : null;
+  }
+
+  private encode(canvas: HTMLCanvasElement, dpi: number): Promise<Blob> {
+    return new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(blob => blob ? resolve(blob) : reject(new CardExportError(i18n.t('errors.canvasUnavailable'))), 'image/png');
+    }).then(png => setPngResolution(png, dpi));
+  }
+
+  /**
+   * The player for their own forges, or the trader who forged the card; unknown traders are named by their ID.
+   */
+  private getForgerName(pokemon: Pokemon, options: CardExportOptions): string {
+    return pokemon.forgedBy ? options.traderNames.get(pokemon.forgedBy) ?? pokemon.forgedBy : options.playerName;
+  }
+
+  /**
+   * Draws a card in millimetre units scaled to its width, so every resolution gets the same layout.
+   * @param image The artwork, or null to leave its window empty.
+   */
+  private drawCard(ctx: CanvasRenderingContext2D, x: number, y: number, width: number, pokemon: Pokemon, image: ImageBitmap | null, forgerName: string): void {
+    const mm = width / CARD_WIDTH_MM;
+    const height = CARD_HEIGHT_MM * mm;
+    const style = CARD_FRAME_STYLES[pokemon.rarity];
+    const inset = 2.2 * mm;
+    const padding = inset + 2 * mm;
+    const contentWidth = width - 2 * padding;
+
+    ctx.save();
+    const frame = ctx.createLinearGradient(x, y, x + width, y + height);
+    style.frame.forEach((color, index) => frame.addColorStop(index / (style.frame.length - 1), color));
+    ctx.shadowColor = style.glow;
+    ctx.shadowBlur = 3 * mm;
+    ctx.fillStyle = frame;
+    ctx.beginPath();
+    ctx.roundRect(x, y, width, height, 3.5 * mm);
+    ctx.fill();
+    ctx.restore();
+
+    ctx.fillStyle = '#111827';
+    ctx.beginPath();
+    ctx.roundRect(x + inset, y + inset, width - 2 * inset, height - 2 * inset, 2 * mm);
+    ctx.fill();
+
+    // Header: the name, and the grade in a pill on the right.
+    ctx.textBaseline = 'alphabetic';
+    ctx.font = `bold ${3.4 * mm}px ui-monospace, monospace`;
+    const grade = formatGrade(pokemon.grade);
+    const pillWidth = ctx.measureText(grade).width + 3 * mm;
+    const pillHeight = 5.5 * mm;
+    const pillX = x + width - padding - pillWidth;
+    const pillY = y + inset + 2.5 * mm;
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
+    ctx.strokeStyle = style.accent;
+    ctx.lineWidth = 0.3 * mm;
+    ctx.beginPath();
+    ctx.roundRect(pillX, pillY, pillWidth, pillHeight, pillHeight / 2);
+    ctx.fill();
+    ctx.stroke();
+    ctx.fillStyle = '#ffffff';
+    ctx.textAlign = 'center';
+    ctx.fillText(grade, pillX + pillWidth / 2, pillY + 4 * mm);
+
+    ctx.textAlign = 'left';
+    ctx.font = `bold ${4.2 * mm}px system-ui, sans-serif`;
+    ctx.fillText(fitText(ctx, pokemon.name, contentWidth - pillWidth - 2 * mm), x + padding, y + inset + 6.8 * mm);
+
+    // Artwork, fitted into its window, under a diagonal sheen.
+    const artX = x + padding;
+    const artY = y + 11.5 * mm;
+    const artHeight = 50.5 * mm;
+    ctx.save();
+    ctx.beginPath();
+    ctx.roundRect(artX, artY, contentWidth, artHeight, 1.5 * mm);
+    ctx.fillStyle = '#000000';
+    ctx.fill();
+    ctx.clip();
+    if (image) {
+      const scale = Math.min(contentWidth / image.width, artHeight / image.height);
+      const drawnWidth = image.width * scale;
+      const drawnHeight = image.height * scale;
+      ctx.drawImage(image, artX + (contentWidth - drawnWidth) / 2, artY + (artHeight - drawnHeight) / 2, drawnWidth, drawnHeight);
+    }
+    const sheen = ctx.createLinearGradient(artX, artY, artX + contentWidth, artY + artHeight);
+    sheen.addColorStop(0.35, 'rgba(255, 255, 255, 0)');
+    sheen.addColorStop(0.5, 'rgba(255, 255, 255, 0.15)');
+    sheen.addColorStop(0.65, 'rgba(255, 255, 255, 0)');
+    ctx.fillStyle = sheen;
+    ctx.fillRect(artX, artY, contentWidth, artHeight);
+    ctx.restore();
+    ctx.strokeStyle = style.accent;
+    ctx.lineWidth = 0.5 * mm;
+    ctx.beginPath();
+    ctx.roundRect(artX, artY, contentWidth, artHeight, 1.5 * mm);
+    ctx.stroke();
+
+    ctx.fillStyle = style.accent;
+    ctx.font = `bold ${3.6 * mm}px system-ui, sans-serif`;
+    ctx.fillText(fitText(ctx, i18n.formatRarity(pokemon.rarity).toUpperCase(), contentWidth), x + padding, y + 67 * mm);
+    ctx.fillStyle = '#9ca3af';
+    ctx.font = `${3 * mm}px system-ui, sans-serif`;
+    ctx.fillText(fitText(ctx, i18n.t('cardExport.forgedOn', { date: i18n.formatDate(pokemon.generatedAt) }), contentWidth), x + padding, y + 72 * mm);
+
+    // Footer: the forger on the left, the short ID on the right.
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.15)';
+    ctx.lineWidth = 0.2 * mm;
+    ctx.beginPath();
+    ctx.moveTo(x + padding, y + 76 * mm);
+    ctx.lineTo(x + width - padding, y + 76 * mm);
+    ctx.stroke();
+    ctx.font = `bold ${2.8 * mm}px ui-monospace, monospace`;
+    const shortId = `#${getShortId(pokemon.id)}`;
+    const shortIdWidth = ctx.measureText(shortId).width;
+    ctx.fillStyle = style.accent;
+    ctx.textAlign = 'right';
+    ctx.fillText(shortId, x + width - padding, y + 81.5 * mm);
+    ctx.textAlign = 'left';
+    ctx.fillStyle = '#d1d5db';
+    ctx.font = `${2.8 * mm}px system-ui, sans-serif`;
+    ctx.fillText(fitText(ctx, i18n.t('cardExport.forgedBy', { name: forgerName }), contentWidth - shortIdWidth - 2 * mm), x + padding, y + 81.5 * mm);
+  }
+}
+
+export const cardExportService = new CardExportService();
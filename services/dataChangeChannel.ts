@@ -0,0 +1,58 @@
+// services/dataChangeChannel.ts
+
+const CHANNEL_NAME = 'pokeforge-data-changes';
+
+/**
+ * A committed write, as announced to the other tabs.
+ */
+export interface DataChange {
+  dbName: string; // Database written to; tabs on another profile ignore the change
+  stores: string[]; // Object stores the transaction wrote to
+  committedAt: string; // ISO 8601 string
+}
+
+export type DataChangeListener = (change: DataChange) => void;
+
+/**
+ * Announces every committed write to the other tabs through a BroadcastChannel, so each tab can
+ * reload what changed instead of working on stale state. A tab never receives its own announcements.
+ * Browsers without BroadcastChannel simply get no live updates.
+ */
+export class DataChangeChannel {
+  private channel: BroadcastChannel | null = null;
+  private readonly listeners = new Set<DataChangeListener>();
+
+  constructor(private readonly name: string = CHANNEL_NAME) {}
+
+  public publish(dbName: string, stores: string[]): void {
+    const change: DataChange = { dbName, stores, committedAt: new Date().toISOString() };
+    try {
+      this.getChannel()?.postMessage(change);
+    } catch (error) {
+      console.warn('Failed to announce a data change:', error);
+    }
+  }
+
+  /**
+   * @returns A function removing the listener.
+   */
+  public subscribe(listener: DataChangeListener): () => void {
+    this.listeners.add(listener);
+    this.getChannel();
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private getChannel(): BroadcastChannel | null {
+    if (!this.channel && typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(this.name);
+      this.channel.onmessage = (event: MessageEvent<DataChange>) => {
+        for (const listener of this.listeners) listener(event.data);
+      };
+    }
+    return this.channel;
+  }
+}
+
+export const dataChangeChannel = new DataChangeChannel();
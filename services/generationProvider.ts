@@ -0,0 +1,83 @@
+// services/generationProvider.ts
+
+import { GeneratedPokemon, PokemonStatus, PokemonRarity, PokemonGrade, GenerateApiResponse, GenerationProviderId, API_RARITY_GRADES, UNKNOWN_GRADE } from '../types';
+
+/**
+ * Constraints on a single generation. A provider that can't honor one ignores it.
+ */
+export interface GenerationOptions {
+  minRarity?: PokemonRarity; // Lowest rarity wanted, for a guaranteed pack card
+}
+
+/**
+ * A source of freshly generated Pokémon. The Studio only depends on this interface,
+ * so the remote API can be swapped for an offline implementation.
+ */
+export interface GenerationProvider {
+  readonly id: GenerationProviderId;
+  /**
+   * Generates a new Pokémon.
+   * @param options Constraints on the generation, if any.
+   * @returns A promise that resolves with the generated Pokemon object.
+   */
+  generatePokemon(options?: GenerationOptions): Promise<GeneratedPokemon>;
+}
+
+/**
+ * Maps the old rarity strings from the API to the new PokemonRarity enum.
+ * @param apiRarity The rarity string from the API (e.g., 'F', 'A', 'S+').
+ * @returns The corresponding PokemonRarity enum value.
+ */
+export const mapApiRarityToEnum = (apiRarity: string): PokemonRarity => {
+  switch (apiRarity) {
+    case 'F':
+    case 'E':
+      return PokemonRarity.COMMON;
+    case 'D':
+    case 'C':
+      return PokemonRarity.RARE;
+    case 'B':
+      return PokemonRarity.EPIC;
+    case 'A':
+    case 'S':
+      return PokemonRarity.LEGENDARY;
+    case 'S+':
+      return PokemonRarity.MYTHIC;
+    default:
+      console.warn(`Unknown rarity received from API: "${apiRarity}". Defaulting to Common.`);
+      return PokemonRarity.COMMON;
+  }
+};
+
+/**
+ * Keeps the API grade as-is when it is one of the documented values.
+ * @param apiRarity The rarity string from the API.
+ * @returns The grade to store on the Pokémon.
+ */
+export const mapApiRarityToGrade = (apiRarity: string): PokemonGrade =>
+  (API_RARITY_GRADES as readonly string[]).includes(apiRarity) ? apiRarity as PokemonGrade : UNKNOWN_GRADE;
+
+/**
+ * Checks that a payload has the shape documented in docs/02-api.md.
+ * @param data The decoded JSON payload.
+ */
+export const isGenerateApiResponse = (data: unknown): data is GenerateApiResponse => {
+  const response = data as Partial<GenerateApiResponse> | null;
+  return !!(response && response.imageBase64 && response.metadata && response.metadata.id && response.metadata.name && response.metadata.rarity && response.generatedAt);
+};
+
+/**
+ * Converts a generation API payload into a new owned Pokémon.
+ * @param data The payload returned (or reproduced) by a provider.
+ * @returns The corresponding Pokemon object, still carrying its base64 image.
+ */
+export const toPokemon = (data: GenerateApiResponse): GeneratedPokemon => ({
+  id: data.metadata.id,
+  name: data.metadata.name,
+  rarity: mapApiRarityToEnum(data.metadata.rarity), // Map old rarity to new enum
+  grade: mapApiRarityToGrade(data.metadata.rarity),
+  imageBase64: data.imageBase64,
+  generatedAt: data.generatedAt,
+  status: PokemonStatus.OWNED,
+  isFavorite: false, // Initialize as not favorite
+});
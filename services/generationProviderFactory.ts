@@ -0,0 +1,43 @@
+// services/generationProviderFactory.ts
+
+import { GenerationProviderId, PlayerSettings } from '../types';
+import { GenerationProvider } from './generationProvider';
+import { PokemonApiService, DEFAULT_API_BASE_URL, DEFAULT_AUTH_TOKEN } from './pokemonApiService';
+import { MockGenerationProvider } from './mockGenerationProvider';
+import { ReplayGenerationProvider } from './replayGenerationProvider';
+import { indexedDbService } from './indexedDbService';
+import { MessageKey } from '../locales/fr';
+
+/**
+ * Catalog keys of the display information for each provider, used by the settings screen.
+ */
+export const GENERATION_PROVIDER_OPTIONS: { id: GenerationProviderId; label: MessageKey; description: MessageKey }[] = [
+  { id: 'http', label: 'settings.provider.http', description: 'settings.provider.httpHint' },
+  { id: 'mock', label: 'settings.provider.mock', description: 'settings.provider.mockHint' },
+  { id: 'replay', label: 'settings.provider.replay', description: 'settings.provider.replayHint' },
+];
+
+/**
+ * Creates the provider selected in the player settings.
+ * The HTTP provider reads its base URL and token from the settings first, then from the
+ * build environment (POKEMON_API_BASE_URL / POKEMON_API_TOKEN), then from the documented defaults.
+ * @param settings The current player settings.
+ * @returns The generation provider to use.
+ */
+export const createGenerationProvider = (settings: PlayerSettings): GenerationProvider => {
+  switch (settings.generationProvider) {
+    case 'mock':
+      return new MockGenerationProvider({ gradeWeights: settings.mockGradeWeights });
+    case 'replay':
+      return new ReplayGenerationProvider(() => indexedDbService.getGenerationFixtures());
+    case 'http':
+    default:
+      return new PokemonApiService({
+        baseUrl: settings.apiBaseUrl || process.env.POKEMON_API_BASE_URL || DEFAULT_API_BASE_URL,
+        authToken: settings.apiToken || process.env.POKEMON_API_TOKEN || DEFAULT_AUTH_TOKEN,
+        onResponse: response => {
+          indexedDbService.saveGenerationFixture(response).catch(error => console.warn('Failed to record generation fixture:', error));
+        },
+      });
+  }
+};
@@ -0,0 +1,146 @@
+// services/generationQueue.ts
+
+import { GeneratedPokemon, GenerationQueueResult, PackDefinition, PackOpeningResult, Pokemon, PokemonRarity, QueuedGeneration } from '../types';
+import { indexedDbService } from './indexedDbService';
+import { GenerationProvider } from './generationProvider';
+import { NetworkError, RateLimitError, TimeoutError } from './apiErrors';
+import { getPackSlots, meetsGuarantee, raiseToRarity } from './packDefinitions';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { RARITY_SCORES } from '../utils/grades';
+
+const QUEUE_LOCK_NAME = 'pokeforge-generation-queue';
+const PACK_CONCURRENCY = 2; // Forges of a pack running at once, to stay clear of the API rate limit
+
+/**
+ * Errors that leave a queued forge in the queue: the API is still out of reach or asks to slow down.
+ * Any other failure refunds the forge.
+ */
+const isRetryableLater = (error: unknown): boolean =>
+  error instanceof NetworkError || error instanceof TimeoutError || error instanceof RateLimitError;
+
+/**
+ * Replays the forges queued while offline, oldest first, once the generation API is reachable again,
+ * and opens booster packs, whose cards go through the same queue until they are forged.
+ */
+export class GenerationQueueService {
+  private replaying: Promise<GenerationQueueResult> | null = null;
+
+  /**
+   * Forges every queued request with the provider. The first forge failing for lack of network stops
+   * the replay and keeps the rest queued; a forge failing for any other reason is refunded.
+   * Only one tab replays at a time; the others return without touching the queue.
+   * @param provider The provider to forge with.
+   */
+  public async replay(provider: GenerationProvider): Promise<GenerationQueueResult> {
+    if (!this.replaying) {
+      this.replaying = this.withQueueLock(() => this.replayQueue(provider)).finally(() => {
+        this.replaying = null;
+      });
+    }
+    return this.replaying;
+  }
+
+  private async replayQueue(provider: GenerationProvider): Promise<GenerationQueueResult> {
+    const queue = await indexedDbService.getGenerationQueue();
+    const forged: Pokemon[] = [];
+    const refunded: GenerationQueueResult['refunded'] = [];
+    for (const [index, queued] of queue.entries()) {
+      try {
+        // A guaranteed card replayed alone can't count on the rest of its pack, which is already stored.
+        const generated = await this.generate(provider, queued.minRarity);
+        forged.push(await indexedDbService.completeQueuedGeneration(queued.id!, generated));
+      } catch (error) {
+        if (isRetryableLater(error)) {
+          return { forged, refunded, remaining: queue.length - index };
+        }
+        console.error("Queued generation failed:", error);
+        refunded.push({ entry: await indexedDbService.refundQueuedGeneration(queued.id!), error: error as Error });
+      }
+    }
+    return { forged, refunded, remaining: 0 };
+  }
+
+  /**
+   * Buys a booster pack and forges its cards, one generation each: the regular cards first, a few at a
+   * time, then the guaranteed ones. A guarantee the pack already meets leaves its card at the regular
+   * odds; otherwise the card is forged at or above the guaranteed rarity.
+   * A card that fails to forge is refunded alone; once the API is out of reach or throttling, the cards
+   * not started yet are refunded too. The queue is locked meanwhile, so no replay forges the pack's cards
+   * at the same time.
+   * @param definition The pack to open.
+   * @param provider The provider forging the cards.
+   * @throws {InsufficientTokensError} if the balance cannot cover the pack.
+   */
+  public async openPack(definition: PackDefinition, provider: GenerationProvider): Promise<PackOpeningResult> {
+    return this.waitForQueueLock(async () => {
+      const { entry, queued } = await indexedDbService.enqueuePack(definition.id, getPackSlots(definition));
+      let blockingError: Error | null = null;
+      const forgeSlot = async (slot: QueuedGeneration, minRarity?: PokemonRarity): Promise<Pokemon | Error> => {
+        try {
+          if (blockingError) throw blockingError;
+          const generated = await this.generate(provider, minRarity);
+          return await indexedDbService.completeQueuedGeneration(slot.id!, generated);
+        } catch (error) {
+          if (isRetryableLater(error)) blockingError ??= error as Error;
+          return error as Error;
+        }
+      };
+
+      const outcomesBySlot = new Map<QueuedGeneration, Pokemon | Error>();
+      const regularSlots = queued.filter(slot => !slot.minRarity);
+      const regularOutcomes = await mapWithConcurrency(regularSlots, PACK_CONCURRENCY, slot => forgeSlot(slot));
+      regularSlots.forEach((slot, index) => outcomesBySlot.set(slot, regularOutcomes[index]));
+
+      // The highest guarantees are checked first, each against the least rare card of the pack that meets it.
+      const spare = regularOutcomes.filter((outcome): outcome is Pokemon => !(outcome instanceof Error));
+      const guaranteedSlots = queued.filter(slot => slot.minRarity).sort((a, b) => RARITY_SCORES[b.minRarity!] - RARITY_SCORES[a.minRarity!]);
+      for (const slot of guaranteedSlots) {
+        const candidates = spare.filter(pokemon => meetsGuarantee(pokemon.rarity, slot.minRarity!));
+        const metBy = candidates.reduce<Pokemon | null>((least, pokemon) => (!least || RARITY_SCORES[pokemon.rarity] < RARITY_SCORES[least.rarity] ? pokemon : least), null);
+        if (metBy) spare.splice(spare.indexOf(metBy), 1);
+        const outcome = await forgeSlot(slot, metBy ? undefined : slot.minRarity);
+        outcomesBySlot.set(slot, outcome);
+        if (metBy && !(outcome instanceof Error)) spare.push(outcome);
+      }
+
+      const outcomes = queued.map(slot => outcomesBySlot.get(slot)!);
+      const forged = outcomes.filter((outcome): outcome is Pokemon => !(outcome instanceof Error));
+      const refunded: PackOpeningResult['refunded'] = [];
+      for (const [index, outcome] of outcomes.entries()) {
+        if (!(outcome instanceof Error)) continue;
+        if (outcome !== blockingError) console.error("Pack generation failed:", outcome);
+        refunded.push({ entry: await indexedDbService.refundQueuedGeneration(queued[index].id!), error: outcome });
+      }
+      return { entry, forged, refunded };
+    });
+  }
+
+  /**
+   * Generates one card, at or above the rarity when one is given. The offline generator draws among the
+   * grades reaching it; a card from a provider that can't be asked for a rarity is raised to it.
+   */
+  private async generate(provider: GenerationProvider, minRarity?: PokemonRarity): Promise<GeneratedPokemon> {
+    const generated = await provider.generatePokemon({ minRarity });
+    return minRarity ? raiseToRarity(generated, minRarity) : generated;
+  }
+
+  /**
+   * Runs the callback under a lock shared by the tabs, or not at all if another tab holds it.
+   * Browsers without the Web Locks API run it directly.
+   */
+  private async withQueueLock(callback: () => Promise<GenerationQueueResult>): Promise<GenerationQueueResult> {
+    if (typeof navigator === 'undefined' || !navigator.locks) return callback();
+    const result = await navigator.locks.request(QUEUE_LOCK_NAME, { ifAvailable: true }, lock => (lock ? callback() : null));
+    return result ?? { forged: [], refunded: [], remaining: (await indexedDbService.getGenerationQueue()).length };
+  }
+
+  /**
+   * Runs the callback under the queue lock, waiting for another tab to release it if needed.
+   */
+  private async waitForQueueLock<T>(callback: () => Promise<T>): Promise<T> {
+    if (typeof navigator === 'undefined' || !navigator.locks) return callback();
+    return navigator.locks.request(QUEUE_LOCK_NAME, callback);
+  }
+}
+
+export const generationQueueService = new GenerationQueueService();
@@ -0,0 +1,65 @@
+// services/httpLeaderboardService.ts
+
+import { ApiErrorResponse, LeaderboardMetric, LeaderboardRanking, ScoreSnapshot } from '../types';
+import { LeaderboardService, isScoreSnapshot } from './leaderboardService';
+import { InvalidResponseError, NetworkError, TimeoutError, createApiError } from './apiErrors';
+import { i18n } from './i18n';
+
+export const DEFAULT_LEADERBOARD_URL = 'http://localhost:4100/v1'; // The bundled mock server, see docs/04-leaderboard.md
+const REQUEST_TIMEOUT = 10000;
+const RANKING_LIMIT = 50;
+
+/**
+ * Leaderboard served over HTTP, as documented in docs/04-leaderboard.md.
+ */
+export class HttpLeaderboardService implements LeaderboardService {
+  public readonly id = 'http' as const;
+
+  constructor(private readonly baseUrl: string) {}
+
+  /**
+   * @throws {ApiError} a typed error when the server can't be reached or refuses the scores.
+   */
+  public async submitScore(snapshot: ScoreSnapshot): Promise<void> {
+    await this.request('/scores', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(snapshot) });
+  }
+
+  /**
+   * @throws {ApiError} a typed error when the server can't be reached or answers with an unexpected payload.
+   */
+  public async getRanking(metric: LeaderboardMetric): Promise<LeaderboardRanking> {
+    const data = await this.request(`/rankings?metric=${metric}&limit=${RANKING_LIMIT}`, { method: 'GET' });
+    const entries = (data as { entries?: unknown } | null)?.entries;
+    if (!Array.isArray(entries) || !entries.every(isScoreSnapshot)) {
+      throw new InvalidResponseError(i18n.t('errors.leaderboardInvalidResponse'));
+    }
+    return { metric, entries, fetchedAt: new Date().toISOString() };
+  }
+
+  /**
+   * Performs one call to the leaderboard server.
+   * @returns The decoded JSON body, or null when the response has none.
+   */
+  private async request(path: string, init: RequestInit): Promise<unknown> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT);
+
+    let res: Response;
+    try {
+      res = await fetch(`${this.baseUrl}${path}`, { ...init, mode: 'cors', signal: controller.signal });
+    } catch (error) {
+      if ((error as Error).name === 'AbortError') {
+        throw new TimeoutError(i18n.t('errors.leaderboardTimeout', { seconds: REQUEST_TIMEOUT / 1000 }));
+      }
+      throw new NetworkError(i18n.t('errors.leaderboardUnreachable', { url: this.baseUrl }));
+    } finally {
+      clearTimeout(timeoutId);
+    }
+
+    if (!res.ok) {
+      const errorData: ApiErrorResponse | null = await res.json().catch(() => null);
+      throw createApiError(res.status, errorData, res.headers.get('Retry-After'));
+    }
+    return res.json().catch(() => null);
+  }
+}
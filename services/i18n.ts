@@ -0,0 +1,101 @@
+// services/i18n.ts
+
+import { Locale, MessageParams, PluralMessage, PokemonRarity, SUPPORTED_LOCALES } from '../types';
+import { Catalog, MessageKey, fr } from '../locales/fr';
+import { en } from '../locales/en';
+
+const CATALOGS: Record<Locale, Catalog> = { fr, en };
+
+/**
+ * Picks the browser's language when it is translated, and French, the app's original language, otherwise.
+ */
+export const detectLocale = (): Locale => {
+  const languages = typeof navigator === 'undefined' ? [] : navigator.languages ?? [navigator.language];
+  for (const language of languages) {
+    const match = SUPPORTED_LOCALES.find(locale => language.toLowerCase().startsWith(locale.id));
+    if (match) return match.id;
+  }
+  return 'fr';
+};
+
+/**
+ * Translates catalog messages and formats numbers and dates for the active locale.
+ * Services use the shared instance for the messages of the errors they raise; components go through
+ * `useI18n`, which re-renders them when the locale changes. The methods are bound, so they can be destructured.
+ */
+export class I18n {
+  private locale: Locale;
+  private pluralRules: Intl.PluralRules;
+  private numberFormat: Intl.NumberFormat;
+  private readonly listeners = new Set<(locale: Locale) => void>();
+
+  constructor(locale: Locale = detectLocale()) {
+    this.locale = locale;
+    this.pluralRules = new Intl.PluralRules(locale);
+    this.numberFormat = new Intl.NumberFormat(locale);
+    if (typeof document !== 'undefined') document.documentElement.lang = locale;
+  }
+
+  public getLocale = (): Locale => this.locale;
+
+  public setLocale = (locale: Locale): void => {
+    if (locale === this.locale) return;
+    this.locale = locale;
+    this.pluralRules = new Intl.PluralRules(locale);
+    this.numberFormat = new Intl.NumberFormat(locale);
+    if (typeof document !== 'undefined') document.documentElement.lang = locale;
+    for (const listener of this.listeners) listener(locale);
+  };
+
+  /**
+   * @returns A function removing the listener.
+   */
+  public subscribe = (listener: (locale: Locale) => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Translates a message, falling back to the French catalog.
+   * @param key The message key.
+   * @param params Values for the `{name}` placeholders. A plural message picks its form from `params.count`.
+   */
+  public t = (key: MessageKey, params: MessageParams = {}): string => {
+    const message = CATALOGS[this.locale][key] ?? fr[key] ?? key;
+    const template = typeof message === 'string' ? message : this.selectPlural(message, Number(params.count ?? 0));
+    return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+      const value = params[name];
+      if (value === undefined) return placeholder;
+      return typeof value === 'number' ? this.numberFormat.format(value) : value;
+    });
+  };
+
+  /**
+   * Formats an amount of tokens with its unit, e.g. "1 jeton", "2 000 jetons".
+   */
+  public formatTokens = (count: number): string => this.t('tokens.count', { count });
+
+  public formatRarity = (rarity: PokemonRarity): string => this.t(`rarity.${rarity}`);
+
+  public formatNumber = (value: number, options?: Intl.NumberFormatOptions): string =>
+    options ? value.toLocaleString(this.locale, options) : this.numberFormat.format(value);
+
+  /**
+   * @param value A Date or an ISO 8601 string.
+   */
+  public formatDate = (value: string | Date): string => new Date(value).toLocaleDateString(this.locale);
+
+  /**
+   * @param value A Date or an ISO 8601 string.
+   */
+  public formatDateTime = (value: string | Date): string => new Date(value).toLocaleString(this.locale);
+
+  private selectPlural(message: PluralMessage, count: number): string {
+    if (count === 0 && message.zero !== undefined) return message.zero;
+    return this.pluralRules.select(count) === 'one' ? message.one : message.other;
+  }
+}
+
+export const i18n = new I18n();
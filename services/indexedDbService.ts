@@ -1,12 +1,168 @@
 // services/indexedDbService.ts
 
-import { Pokemon, TokenBalance, DB_NAME, DB_VERSION, StoreNames, DailyBonusStatus, Achievement, PlayerSettings } from '../types';
+import { Pokemon, PokemonStatus, TokenBalance, DB_NAME, DB_VERSION, StoreNames, LeaderboardCache, DailyBonusStatus, DailyBonusRoll, DailyBonusClaimResult, Achievement, PlayerSettings, LedgerEntry, LedgerReason, INITIAL_TOKENS, PokemonTransactionResult, GenerateApiResponse, GenerationFixture, DEFAULT_MOCK_GRADE_WEIGHTS, UNKNOWN_GRADE, GeneratedPokemon, ImageVariant, PokemonImage, PokemonQuery, PokemonPage, PokemonPageCursor, PricePoint, MarketSimulationState, NpcTrader, MarketFeedEntry, MarketSettlement, MarketSettlementResult, Listing, ListingTransactionResult, Auction, BidTransactionResult, QueuedGeneration, PackSlot, PokemonRarity, CardEvent, CardEventType, LEGACY_RARITY_NAMES, PLAYER_BIDDER_ID } from '../types';
+import { getLeadingBid, getMinimumBid, isAuctionOpen } from '../utils/auctions';
+import { rebuildCardEvents } from '../utils/cardHistory';
+import { base64ToBlob, createThumbnail } from '../utils/images';
+import { dataChangeChannel } from './dataChangeChannel';
+import { i18n, detectLocale } from './i18n';
+import { MAX_DAILY_BONUS_HISTORY, normalizeDailyBonusStatus, rollDailyBonus } from '../utils/dailyBonus';
+
+/**
+ * Maximum number of recorded generation responses kept for the replay provider.
+ */
+const MAX_GENERATION_FIXTURES = 20;
+
+/**
+ * Maximum number of market activity entries kept for the feed.
+ */
+const MAX_MARKET_FEED_ENTRIES = 100;
+
+/**
+ * Maximum number of price points kept per rarity and grade, enough for a trend sparkline.
+ */
+const MAX_PRICE_POINTS_PER_SERIES = 30;
+
+/**
+ * Settings applied on first launch and used to fill fields missing from older records.
+ */
+const DEFAULT_PLAYER_SETTINGS: PlayerSettings = {
+  id: 'playerSettings',
+  theme: 'dark',
+  isMuted: true,
+  playerName: 'Ash',
+  generationProvider: 'http',
+  apiBaseUrl: '',
+  apiToken: '',
+  mockGradeWeights: DEFAULT_MOCK_GRADE_WEIGHTS,
+  priceFloor: 2,
+  priceCeiling: 400,
+  revision: 0,
+  leaderboardProvider: 'local',
+  leaderboardUrl: '',
+  leaderboardPlayerId: '',
+  language: detectLocale(),
+  musicVolume: 0.4,
+  effectsVolume: 0.8,
+  isAmbientEnabled: true,
+};
+
+/**
+ * Error raised when a ledger debit would make the token balance negative.
+ */
+export class InsufficientTokensError extends Error {
+  constructor(public readonly required: number, public readonly available: number) {
+    super(i18n.t('errors.insufficientTokens', { required: i18n.formatTokens(required), available }));
+    this.name = 'InsufficientTokensError';
+  }
+}
+
+/**
+ * Error raised when a stored Pokémon is missing or not in the state an operation expects.
+ */
+export class InvalidPokemonStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidPokemonStateError';
+  }
+}
+
+/**
+ * Error raised when a bid is refused: auction closed, amount too low, or the player already leads.
+ */
+export class InvalidBidError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidBidError';
+  }
+}
+
+/**
+ * Error raised when a record was saved by another tab since it was read.
+ */
+export class ConcurrentModificationError<T = unknown> extends Error {
+  constructor(message: string, public readonly current: T) {
+    super(message);
+    this.name = 'ConcurrentModificationError';
+  }
+}
+
+/**
+ * Error raised when the daily bonus is claimed twice, or without a roll for the current day.
+ */
+export class DailyBonusUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DailyBonusUnavailableError';
+  }
+}
+
+/**
+ * What another tab did to the open database: it waits for this tab to close its connection
+ * before upgrading ('blocked'), or upgraded or deleted it, which closed this tab's connection.
+ */
+export type DatabaseConnectionEvent = 'blocked' | 'versionchange' | 'deleted';
 
 /**
  * A service for interacting with IndexedDB.
  */
 export class IndexedDbService {
   private db: IDBDatabase | null = null;
+  private dbName = DB_NAME;
+  private readonly connectionListeners = new Set<(event: DatabaseConnectionEvent) => void>();
+  private readonly pendingOperations = new Set<Promise<unknown>>();
+
+  /**
+   * Listens for upgrades and deletions of the database made by other tabs.
+   * @returns A function removing the listener.
+   */
+  public subscribeToConnectionEvents(listener: (event: DatabaseConnectionEvent) => void): () => void {
+    this.connectionListeners.add(listener);
+    return () => {
+      this.connectionListeners.delete(listener);
+    };
+  }
+
+  private notifyConnectionEvent(event: DatabaseConnectionEvent): void {
+    for (const listener of this.connectionListeners) listener(event);
+  }
+
+  /**
+   * Runs an operation spanning several transactions, such as a forge waiting on the API before storing
+   * its card. Switching profiles waits for it, so its later writes can't land in the next save.
+   * @param operation The operation to run.
+   * @returns A promise that resolves or rejects with the operation's outcome.
+   */
+  public trackOperation<T>(operation: () => Promise<T>): Promise<T> {
+    const pending = operation();
+    this.pendingOperations.add(pending);
+    const forget = () => {
+      this.pendingOperations.delete(pending);
+    };
+    pending.then(forget, forget);
+    return pending;
+  }
+
+  /**
+   * Resolves once every tracked operation has finished, including the ones started meanwhile.
+   */
+  public async waitForPendingOperations(): Promise<void> {
+    while (this.pendingOperations.size > 0) {
+      await Promise.allSettled([...this.pendingOperations]);
+    }
+  }
+
+  /**
+   * Points the service at another database, closing the current connection. Used to switch profiles;
+   * wait for the pending operations first.
+   * @param dbName The database holding the profile's save.
+   */
+  public useDatabase(dbName: string): void {
+    if (dbName === this.dbName) return;
+    this.db?.close();
+    this.db = null;
+    this.dbName = dbName;
+  }
 
   /**
    * Opens the IndexedDB database and initializes object stores if necessary.
@@ -19,7 +175,7 @@ export class IndexedDbService {
         return;
       }
 
-      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      const request = indexedDB.open(this.dbName, DB_VERSION);
 
       request.onupgradeneeded = (event: IDBVersionChangeEvent) => {
         const db = (event.target as IDBOpenDBRequest).result;
@@ -38,10 +194,100 @@ export class IndexedDbService {
              db.createObjectStore(StoreNames.Achievements, { keyPath: 'id' });
           }
         }
+
+        if (event.oldVersion < 4) {
+          const ledgerStore = db.createObjectStore(StoreNames.Ledger, { keyPath: 'id', autoIncrement: true });
+          ledgerStore.createIndex('timestamp', 'timestamp');
+
+          // Carry the legacy single balance record over as the ledger's opening entry.
+          const upgradeTransaction = (event.target as IDBOpenDBRequest).transaction!;
+          const settingsStore = upgradeTransaction.objectStore(StoreNames.Settings);
+          const legacyRequest = settingsStore.get('tokenBalance');
+          legacyRequest.onsuccess = () => {
+            const legacyBalance = legacyRequest.result as TokenBalance | undefined;
+            if (!legacyBalance) return;
+            const openingEntry: LedgerEntry = {
+              amount: Math.max(0, legacyBalance.amount),
+              reason: LedgerReason.MIGRATION,
+              pokemonId: null,
+              timestamp: new Date().toISOString(),
+              balanceAfter: Math.max(0, legacyBalance.amount),
+            };
+            ledgerStore.add(openingEntry);
+            settingsStore.delete('tokenBalance');
+          };
+        }
+
+        if (event.oldVersion < 5) {
+          db.createObjectStore(StoreNames.GenerationFixtures, { keyPath: 'id', autoIncrement: true });
+        }
+
+        if (event.oldVersion < 7) {
+          db.createObjectStore(StoreNames.Images, { keyPath: ['pokemonId', 'variant'] });
+        }
+
+        if (event.oldVersion < 8) {
+          const pokemonStore = (event.target as IDBOpenDBRequest).transaction!.objectStore(StoreNames.Pokemons);
+          pokemonStore.createIndex('rarity', 'rarity');
+          pokemonStore.createIndex('status', 'status');
+          pokemonStore.createIndex('generatedAt', 'generatedAt');
+        }
+
+        if (event.oldVersion < 9) {
+          const priceHistoryStore = db.createObjectStore(StoreNames.PriceHistory, { keyPath: 'id', autoIncrement: true });
+          priceHistoryStore.createIndex('series', ['rarity', 'grade']);
+        }
+
+        if (event.oldVersion < 10) {
+          db.createObjectStore(StoreNames.NpcTraders, { keyPath: 'id' });
+          db.createObjectStore(StoreNames.MarketFeed, { keyPath: 'id', autoIncrement: true });
+        }
+
+        if (event.oldVersion < 11) {
+          db.createObjectStore(StoreNames.Listings, { keyPath: 'pokemonId' });
+        }
+
+        if (event.oldVersion < 12) {
+          const auctionsStore = db.createObjectStore(StoreNames.Auctions, { keyPath: 'id' });
+          auctionsStore.createIndex('status', 'status');
+        }
+
+        if (event.oldVersion < 13) {
+          db.createObjectStore(StoreNames.GenerationQueue, { keyPath: 'id', autoIncrement: true });
+        }
+
+        if (event.oldVersion > 0 && event.oldVersion < 14) {
+          this.migratePokemonRecords((event.target as IDBOpenDBRequest).transaction!, event.oldVersion);
+          this.migrateMarketRarities((event.target as IDBOpenDBRequest).transaction!);
+        }
+
+        if (event.oldVersion < 15) {
+          const cardEventsStore = db.createObjectStore(StoreNames.CardEvents, { keyPath: 'id', autoIncrement: true });
+          cardEventsStore.createIndex('pokemonId', 'pokemonId');
+          if (event.oldVersion > 0) {
+            // Recover what the ledger tells of the cards' past.
+            const ledgerRequest = (event.target as IDBOpenDBRequest).transaction!.objectStore(StoreNames.Ledger).getAll();
+            ledgerRequest.onsuccess = () => {
+              for (const cardEvent of rebuildCardEvents(ledgerRequest.result as LedgerEntry[])) cardEventsStore.add(cardEvent);
+            };
+          }
+        }
+      };
+
+      request.onblocked = () => {
+        // An older version is still open in another tab; the upgrade resumes once it closes.
+        this.notifyConnectionEvent('blocked');
       };
 
       request.onsuccess = (event: Event) => {
-        this.db = (event.target as IDBOpenDBRequest).result;
+        const db = (event.target as IDBOpenDBRequest).result;
+        // Step aside when another tab upgrades or deletes the database, instead of blocking it.
+        db.onversionchange = (versionEvent: IDBVersionChangeEvent) => {
+          db.close();
+          if (this.db === db) this.db = null;
+          this.notifyConnectionEvent(versionEvent.newVersion === null ? 'deleted' : 'versionchange');
+        };
+        this.db = db;
         console.log('IndexedDB opened successfully');
         resolve(this.db);
       };
@@ -54,17 +300,97 @@ export class IndexedDbService {
     });
   }
 
+  /**
+   * Rewrites the existing Pokémon records during an upgrade. Every record-level migration runs in
+   * this single cursor pass, so the updates of two migrations cannot overwrite each other.
+   * @param upgradeTransaction The version change transaction.
+   * @param oldVersion The version the database is upgraded from.
+   */
+  private migratePokemonRecords(upgradeTransaction: IDBTransaction, oldVersion: number): void {
+    const imagesStore = upgradeTransaction.objectStore(StoreNames.Images);
+    const cursorRequest = upgradeTransaction.objectStore(StoreNames.Pokemons).openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      const { imageBase64, ...pokemon } = cursor.value as Pokemon & { imageBase64?: string };
+      let isChanged = false;
+
+      // Version 6: cards forged before this version lost their original grade.
+      if (oldVersion < 6 && !pokemon.grade) {
+        pokemon.grade = UNKNOWN_GRADE;
+        isChanged = true;
+      }
+
+      // Version 7: move the base64 images into Blobs. Thumbnails need an async canvas, so they are
+      // generated lazily on first display (see getThumbnail).
+      if (oldVersion < 7 && imageBase64 !== undefined) {
+        const image: PokemonImage = { pokemonId: pokemon.id, variant: 'full', blob: base64ToBlob(imageBase64) };
+        imagesStore.put(image);
+        isChanged = true;
+      }
+
+      // Version 14: rarities were stored as their French names.
+      if (oldVersion < 14 && LEGACY_RARITY_NAMES[pokemon.rarity]) {
+        pokemon.rarity = LEGACY_RARITY_NAMES[pokemon.rarity];
+        isChanged = true;
+      }
+
+      // Version 11: NPC cards on sale had no asking price. They were only simulated stock, so they are
+      // dropped and the traders list fresh cards as listings.
+      if (oldVersion === 10 && pokemon.status === PokemonStatus.RESOLD && pokemon.traderId) {
+        imagesStore.delete([pokemon.id, 'full']);
+        imagesStore.delete([pokemon.id, 'thumbnail']);
+        cursor.delete();
+        cursor.continue();
+        return;
+      }
+
+      if (isChanged) {
+        cursor.update(pokemon);
+      }
+      cursor.continue();
+    };
+  }
+
+  /**
+   * Version 14: rewrites the French rarity names kept by the market records into rarity codes.
+   * The price history's series index follows the updated records.
+   * @param upgradeTransaction The version change transaction.
+   */
+  private migrateMarketRarities(upgradeTransaction: IDBTransaction): void {
+    const toCode = (rarity: string): PokemonRarity => LEGACY_RARITY_NAMES[rarity] ?? (rarity as PokemonRarity);
+    const rewrite = <T>(storeName: StoreNames, migrate: (record: T) => T) => {
+      const cursorRequest = upgradeTransaction.objectStore(storeName).openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor) return;
+        cursor.update(migrate(cursor.value as T));
+        cursor.continue();
+      };
+    };
+    rewrite<PricePoint>(StoreNames.PriceHistory, point => ({ ...point, rarity: toCode(point.rarity) }));
+    rewrite<MarketFeedEntry>(StoreNames.MarketFeed, entry => ({ ...entry, rarity: toCode(entry.rarity) }));
+    rewrite<NpcTrader>(StoreNames.NpcTraders, trader => ({
+      ...trader,
+      rarityPreferences: Object.fromEntries(Object.entries(trader.rarityPreferences).map(([rarity, weight]) => [toCode(rarity), weight])) as Record<PokemonRarity, number>,
+    }));
+  }
+
   /**
    * Helper to perform a transaction on the database.
    * @param storeNames The name(s) of the object store(s) to transact on.
    * @param mode The transaction mode ('readonly' or 'readwrite').
    * @param callback A function that performs operations within the transaction.
-   * @returns A promise that resolves with the result of the callback.
+   * @param announce Whether to tell the other tabs once the transaction has committed. Off for
+   *        read-mostly operations that only seed missing records, so reloading never echoes back.
+   * @returns A promise that resolves with the result of the callback once the transaction has committed.
+   *          If the callback rejects, the transaction is aborted so none of its writes are kept.
    */
   private async withTransaction<T>(
     storeNames: StoreNames | StoreNames[],
     mode: IDBTransactionMode,
     callback: (stores: IDBObjectStore[]) => Promise<T>,
+    announce: boolean = mode === 'readwrite',
   ): Promise<T> {
     const db = await this.openDatabase();
     return new Promise((resolve, reject) => {
@@ -73,8 +399,12 @@ export class IndexedDbService {
         ? storeNames.map(name => transaction.objectStore(name))
         : [transaction.objectStore(storeNames)];
 
+      let result: T;
+
       transaction.oncomplete = () => {
         // Transaction committed successfully.
+        if (announce) dataChangeChannel.publish(this.dbName, Array.isArray(storeNames) ? storeNames : [storeNames]);
+        resolve(result);
       };
 
       transaction.onerror = (event: Event) => {
@@ -91,8 +421,17 @@ export class IndexedDbService {
 
       // Execute the callback within the transaction and handle its resolution/rejection
       callback(stores)
-        .then(resolve)
-        .catch(reject);
+        .then(value => {
+          result = value;
+        })
+        .catch(error => {
+          try {
+            transaction.abort();
+          } catch {
+            // The transaction already finished on its own.
+          }
+          reject(error);
+        });
     });
   }
 
@@ -118,70 +457,529 @@ export class IndexedDbService {
     });
   }
 
-  public async updatePokemon(pokemon: Pokemon): Promise<Pokemon> {
-    return this.withTransaction<Pokemon>(StoreNames.Pokemons, 'readwrite', ([store]) => {
-      return new Promise((resolve, reject) => {
-        const request = store.put(pokemon);
-        request.onsuccess = () => resolve(pokemon);
-        request.onerror = (e) => reject((e.target as IDBRequest).error);
-      });
+  /**
+   * Reads the given Pokémon, skipping the IDs that are not stored.
+   * @returns A promise that resolves with the Pokémon found, in the order of the IDs.
+   */
+  public async getPokemonsByIds(pokemonIds: string[]): Promise<Pokemon[]> {
+    return this.withTransaction<Pokemon[]>(StoreNames.Pokemons, 'readonly', async ([store]) => {
+      const pokemons = await Promise.all(pokemonIds.map(id => promisifyRequest<Pokemon | undefined>(store.get(id))));
+      return pokemons.filter((pokemon): pokemon is Pokemon => pokemon !== undefined);
     });
   }
 
-  // --- Token Balance Operations ---
+  /**
+   * Counts the stored Pokémon, whatever their status, without loading the records.
+   */
+  public async countPokemons(): Promise<number> {
+    return this.withTransaction<number>(StoreNames.Pokemons, 'readonly', ([store]) => promisifyRequest<number>(store.count()));
+  }
 
-  public async getTokenBalance(): Promise<TokenBalance> {
-    return this.withTransaction<TokenBalance>(StoreNames.Settings, 'readwrite', ([store]) => {
-      return new Promise((resolve, reject) => {
-        const request = store.get('tokenBalance');
-        request.onsuccess = (event: Event) => {
-          let balance = (event.target as IDBRequest).result as TokenBalance | undefined;
-          if (!balance) {
-            const initialBalance: TokenBalance = { id: 'tokenBalance', amount: 100 };
-            const putRequest = store.add(initialBalance);
-            putRequest.onsuccess = () => resolve(initialBalance);
-            putRequest.onerror = (e) => reject((e.target as IDBRequest).error);
-          } else {
-            resolve(balance);
+  /**
+   * Finds the Pokémon matching a query. The most selective index is used to narrow the scan
+   * (generatedAt range, then status, then rarity); the remaining criteria are checked on that subset.
+   * @param query The filters to apply.
+   * @returns A promise that resolves with the matching Pokémon, most recent first.
+   */
+  public async queryPokemons(query: PokemonQuery): Promise<Pokemon[]> {
+    const dateRange = toGeneratedAtRange(query.generatedFrom, query.generatedTo);
+    return this.withTransaction<Pokemon[]>(StoreNames.Pokemons, 'readonly', async ([store]) => {
+      let candidates: Pokemon[];
+      if (dateRange) {
+        candidates = await promisifyRequest<Pokemon[]>(store.index('generatedAt').getAll(dateRange));
+      } else if (query.statuses.length > 0) {
+        candidates = (await Promise.all(query.statuses.map(status => promisifyRequest<Pokemon[]>(store.index('status').getAll(status))))).flat();
+      } else if (query.rarities.length > 0) {
+        candidates = (await Promise.all(query.rarities.map(rarity => promisifyRequest<Pokemon[]>(store.index('rarity').getAll(rarity))))).flat();
+      } else {
+        candidates = await promisifyRequest<Pokemon[]>(store.index('generatedAt').getAll());
+      }
+
+      const search = query.search.trim().toLocaleLowerCase();
+      return candidates
+        .filter(pokemon => matchesQuery(pokemon, query, search))
+        .sort((a, b) => b.generatedAt.localeCompare(a.generatedAt));
+    });
+  }
+
+  /**
+   * Reads one page of the Pokémon matching a query by walking the generatedAt index with a cursor,
+   * so only the records up to the end of the page are visited.
+   * @param query The filters to apply.
+   * @param limit The maximum number of Pokémon in the page.
+   * @param after The cursor returned with the previous page, or null for the first page.
+   * @param direction 'desc' for the most recent first, 'asc' for the oldest first.
+   * @returns A promise that resolves with the page and the cursor of the next one (null once the end is reached).
+   */
+  public async queryPokemonPage(query: PokemonQuery, limit: number, after: PokemonPageCursor | null = null, direction: 'asc' | 'desc' = 'desc'): Promise<PokemonPage> {
+    const dateRange = toGeneratedAtRange(query.generatedFrom, query.generatedTo);
+    const range = after ? resumeGeneratedAtRange(dateRange, after.generatedAt, direction) : dateRange;
+    const search = query.search.trim().toLocaleLowerCase();
+
+    return this.withTransaction<PokemonPage>(StoreNames.Pokemons, 'readonly', ([store]) => new Promise((resolve, reject) => {
+      const items: Pokemon[] = [];
+      const request = store.index('generatedAt').openCursor(range, direction === 'desc' ? 'prev' : 'next');
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          resolve({ items, nextCursor: null });
+          return;
+        }
+        const pokemon = cursor.value as Pokemon;
+        // Records sharing the resume timestamp are visited in primary key order; skip the ones already served.
+        const alreadyServed = after !== null && pokemon.generatedAt === after.generatedAt
+          && (direction === 'desc' ? pokemon.id >= after.id : pokemon.id <= after.id);
+        if (!alreadyServed && matchesQuery(pokemon, query, search)) {
+          items.push(pokemon);
+          if (items.length === limit) {
+            resolve({ items, nextCursor: { generatedAt: pokemon.generatedAt, id: pokemon.id } });
+            return;
           }
-        };
-        request.onerror = (e) => reject((e.target as IDBRequest).error);
-      });
+        }
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+    }));
+  }
+
+  /**
+   * Marks or unmarks a Pokémon as favorite on the stored record, so a status changed meanwhile
+   * by another tab is kept.
+   * @returns A promise that resolves with the updated Pokémon.
+   * @throws {InvalidPokemonStateError} if the Pokémon no longer exists.
+   */
+  public async setFavorite(pokemonId: string, isFavorite: boolean): Promise<Pokemon> {
+    return this.withTransaction<Pokemon>(StoreNames.Pokemons, 'readwrite', async ([store]) => {
+      const stored = await promisifyRequest<Pokemon | undefined>(store.get(pokemonId));
+      if (!stored) {
+        throw new InvalidPokemonStateError(i18n.t('errors.pokemonMissing', { id: pokemonId }));
+      }
+      const pokemon: Pokemon = { ...stored, isFavorite };
+      await promisifyRequest(store.put(pokemon));
+      return pokemon;
     });
   }
 
-  public async updateTokenBalance(newAmount: number): Promise<TokenBalance> {
-    const newBalance: TokenBalance = { id: 'tokenBalance', amount: newAmount };
-    return this.withTransaction<TokenBalance>(StoreNames.Settings, 'readwrite', ([store]) => {
-      return new Promise((resolve, reject) => {
-        const request = store.put(newBalance);
-        request.onsuccess = () => resolve(newBalance);
-        request.onerror = (e) => reject((e.target as IDBRequest).error);
-      });
+  /**
+   * Counts the Pokémon currently marked as favorite, walking the store without keeping the records.
+   */
+  public async countFavorites(): Promise<number> {
+    return this.withTransaction<number>(StoreNames.Pokemons, 'readonly', ([store]) => new Promise((resolve, reject) => {
+      let count = 0;
+      const request = store.openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          resolve(count);
+          return;
+        }
+        if ((cursor.value as Pokemon).isFavorite) count++;
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+    }));
+  }
+
+  // --- Atomic Economy Operations ---
+
+  /**
+   * Stores a freshly generated Pokémon with its images and debits its generation cost in a single transaction.
+   * @param generated The Pokémon returned by the generation provider, with its base64 image.
+   * @param cost The number of tokens to debit.
+   * @returns A promise that resolves with the stored Pokémon and the ledger entry.
+   * @throws {InsufficientTokensError} if the stored balance cannot cover the cost.
+   */
+  public async commitGeneration(generated: GeneratedPokemon, cost: number): Promise<PokemonTransactionResult> {
+    const { imageBase64, ...pokemon } = generated;
+    // Encoding is asynchronous, so it must happen before the transaction opens.
+    const fullImage = base64ToBlob(imageBase64);
+    const thumbnail = await createThumbnail(fullImage);
+    return this.withTransaction<PokemonTransactionResult>([StoreNames.Pokemons, StoreNames.Ledger, StoreNames.Images, StoreNames.CardEvents], 'readwrite', async ([pokemonStore, ledgerStore, imagesStore, eventsStore]) => {
+      const entry = await this.appendLedgerEntry(ledgerStore, -cost, LedgerReason.GENERATION, pokemon.id);
+      await promisifyRequest(pokemonStore.add(pokemon));
+      await this.appendCardEvent(eventsStore, pokemon.id, CardEventType.FORGED, -cost);
+      await promisifyRequest(imagesStore.put({ pokemonId: pokemon.id, variant: 'full', blob: fullImage } as PokemonImage));
+      await promisifyRequest(imagesStore.put({ pokemonId: pokemon.id, variant: 'thumbnail', blob: thumbnail } as PokemonImage));
+      return { pokemon, entry };
     });
   }
 
-  // --- Daily Bonus Operations ---
+  /**
+   * Marks an owned Pokémon as resold and credits its resale value in a single transaction.
+   * @param pokemonId The ID of the Pokémon to resell.
+   * @param resellValue The number of tokens to credit.
+   * @returns A promise that resolves with the updated Pokémon and the ledger entry.
+   * @throws {InvalidPokemonStateError} if the stored Pokémon is missing or not owned.
+   */
+  public async resellPokemon(pokemonId: string, resellValue: number): Promise<PokemonTransactionResult> {
+    return this.withTransaction<PokemonTransactionResult>([StoreNames.Pokemons, StoreNames.Ledger, StoreNames.CardEvents], 'readwrite', async ([pokemonStore, ledgerStore, eventsStore]) => {
+      const stored = await promisifyRequest<Pokemon | undefined>(pokemonStore.get(pokemonId));
+      if (!stored || stored.status !== PokemonStatus.OWNED) {
+        throw new InvalidPokemonStateError(i18n.t('errors.pokemonNotOwned', { id: pokemonId }));
+      }
+      const pokemon: Pokemon = { ...stored, status: PokemonStatus.RESOLD };
+      await promisifyRequest(pokemonStore.put(pokemon));
+      const entry = await this.appendLedgerEntry(ledgerStore, resellValue, LedgerReason.RESALE, pokemonId);
+      await this.appendCardEvent(eventsStore, pokemonId, CardEventType.RESOLD, resellValue);
+      return { pokemon, entry };
+    });
+  }
 
-  public async getDailyBonusStatus(): Promise<DailyBonusStatus | undefined> {
-    return this.withTransaction<DailyBonusStatus | undefined>(StoreNames.Settings, 'readonly', ([store]) => {
-      return new Promise((resolve, reject) => {
-        const request = store.get('dailyBonus');
-        request.onsuccess = (e) => resolve((e.target as IDBRequest).result);
-        request.onerror = (e) => reject((e.target as IDBRequest).error);
-      });
+  /**
+   * Buys a Pokémon listed on the market and debits its price in a single transaction.
+   * @param pokemonId The ID of the Pokémon to buy.
+   * @param buyPrice The number of tokens to debit.
+   * @returns A promise that resolves with the updated Pokémon and the ledger entry.
+   * @throws {InvalidPokemonStateError} if the stored Pokémon is missing or no longer on sale.
+   * @throws {InsufficientTokensError} if the stored balance cannot cover the price.
+   */
+  public async buyPokemon(pokemonId: string, buyPrice: number): Promise<PokemonTransactionResult> {
+    return this.withTransaction<PokemonTransactionResult>([StoreNames.Pokemons, StoreNames.Ledger, StoreNames.CardEvents], 'readwrite', async ([pokemonStore, ledgerStore, eventsStore]) => {
+      const stored = await promisifyRequest<Pokemon | undefined>(pokemonStore.get(pokemonId));
+      if (!stored || stored.status !== PokemonStatus.RESOLD) {
+        throw new InvalidPokemonStateError(i18n.t('errors.pokemonNotListed', { id: pokemonId }));
+      }
+      const entry = await this.appendLedgerEntry(ledgerStore, -buyPrice, LedgerReason.MARKET_PURCHASE, pokemonId);
+      await this.appendCardEvent(eventsStore, pokemonId, CardEventType.BOUGHT, -buyPrice);
+      const pokemon: Pokemon = { ...stored, status: PokemonStatus.OWNED };
+      await promisifyRequest(pokemonStore.put(pokemon));
+      return { pokemon, entry };
     });
   }
 
-  public async updateDailyBonusStatus(status: DailyBonusStatus): Promise<DailyBonusStatus> {
-    return this.withTransaction<DailyBonusStatus>(StoreNames.Settings, 'readwrite', ([store]) => {
-      return new Promise((resolve, reject) => {
-        const request = store.put(status);
-        request.onsuccess = () => resolve(status);
-        request.onerror = (e) => reject((e.target as IDBRequest).error);
-      });
+  // --- Listing Operations ---
+
+  public async getListings(): Promise<Listing[]> {
+    return this.withTransaction<Listing[]>(StoreNames.Listings, 'readonly', ([store]) => {
+      return promisifyRequest<Listing[]>(store.getAll());
+    });
+  }
+
+  /**
+   * Puts an owned Pokémon on sale at the player's asking price.
+   * @param pokemonId The ID of the Pokémon to list.
+   * @param askingPrice The price buyers will pay, in tokens.
+   * @param expiresAt When the listing closes if nobody bought the card, or null to keep it open.
+   * @returns A promise that resolves with the listed Pokémon and its listing.
+   * @throws {InvalidPokemonStateError} if the stored Pokémon is missing or not owned.
+   */
+  public async createListing(pokemonId: string, askingPrice: number, expiresAt: string | null): Promise<ListingTransactionResult> {
+    return this.withTransaction<ListingTransactionResult>([StoreNames.Pokemons, StoreNames.Listings, StoreNames.CardEvents], 'readwrite', async ([pokemonStore, listingsStore, eventsStore]) => {
+      const stored = await promisifyRequest<Pokemon | undefined>(pokemonStore.get(pokemonId));
+      if (!stored || stored.status !== PokemonStatus.OWNED) {
+        throw new InvalidPokemonStateError(i18n.t('errors.pokemonNotOwned', { id: pokemonId }));
+      }
+      const pokemon: Pokemon = { ...stored, status: PokemonStatus.LISTED };
+      const listing: Listing = { pokemonId, askingPrice, createdAt: new Date().toISOString(), expiresAt };
+      await promisifyRequest(pokemonStore.put(pokemon));
+      await promisifyRequest(listingsStore.put(listing));
+      await this.appendCardEvent(eventsStore, pokemonId, CardEventType.LISTED, null);
+      return { pokemon, listing };
+    });
+  }
+
+  /**
+   * Closes one of the player's listings and takes the card back into the collection.
+   * @param pokemonId The ID of the listed Pokémon.
+   * @returns A promise that resolves with the Pokémon, owned again.
+   * @throws {InvalidPokemonStateError} if the card was sold meanwhile or is not listed by the player.
+   */
+  public async cancelListing(pokemonId: string): Promise<Pokemon> {
+    return this.withTransaction<Pokemon>([StoreNames.Pokemons, StoreNames.Listings, StoreNames.CardEvents], 'readwrite', async ([pokemonStore, listingsStore, eventsStore]) => {
+      const stored = await promisifyRequest<Pokemon | undefined>(pokemonStore.get(pokemonId));
+      if (!stored || stored.status !== PokemonStatus.LISTED || stored.traderId) {
+        throw new InvalidPokemonStateError(i18n.t('errors.pokemonNotListed', { id: pokemonId }));
+      }
+      const pokemon: Pokemon = { ...stored, status: PokemonStatus.OWNED };
+      await promisifyRequest(pokemonStore.put(pokemon));
+      await promisifyRequest(listingsStore.delete(pokemonId));
+      await this.appendCardEvent(eventsStore, pokemonId, CardEventType.UNLISTED, null);
+      return pokemon;
+    });
+  }
+
+  /**
+   * Buys a card an NPC trader listed: debits its asking price, credits the trader and closes the listing in a single transaction.
+   * @param pokemonId The ID of the listed Pokémon.
+   * @returns A promise that resolves with the Pokémon, now owned, and the ledger entry.
+   * @throws {InvalidPokemonStateError} if the card is no longer listed by a trader.
+   * @throws {InsufficientTokensError} if the stored balance cannot cover the asking price.
+   */
+  public async buyListing(pokemonId: string): Promise<PokemonTransactionResult> {
+    return this.withTransaction<PokemonTransactionResult>(
+      [StoreNames.Pokemons, StoreNames.Listings, StoreNames.Ledger, StoreNames.NpcTraders, StoreNames.CardEvents],
+      'readwrite',
+      async ([pokemonStore, listingsStore, ledgerStore, tradersStore, eventsStore]) => {
+        const stored = await promisifyRequest<Pokemon | undefined>(pokemonStore.get(pokemonId));
+        const listing = await promisifyRequest<Listing | undefined>(listingsStore.get(pokemonId));
+        if (!stored || stored.status !== PokemonStatus.LISTED || !stored.traderId || !listing) {
+          throw new InvalidPokemonStateError(i18n.t('errors.pokemonNotListed', { id: pokemonId }));
+        }
+        const entry = await this.appendLedgerEntry(ledgerStore, -listing.askingPrice, LedgerReason.MARKET_PURCHASE, pokemonId);
+        const trader = await promisifyRequest<NpcTrader | undefined>(tradersStore.get(stored.traderId));
+        if (trader) {
+          await promisifyRequest(tradersStore.put({ ...trader, budget: Math.min(trader.maxBudget, trader.budget + listing.askingPrice) }));
+        }
+        const { traderId, ...pokemon }: Pokemon = { ...stored, status: PokemonStatus.OWNED };
+        await promisifyRequest(pokemonStore.put(pokemon));
+        await promisifyRequest(listingsStore.delete(pokemonId));
+        await this.appendCardEvent(eventsStore, pokemonId, CardEventType.BOUGHT, -listing.askingPrice);
+        return { pokemon, entry };
+      },
+    );
+  }
+
+  // --- Auction Operations ---
+
+  public async getAuctions(): Promise<Auction[]> {
+    return this.withTransaction<Auction[]>(StoreNames.Auctions, 'readonly', ([store]) => {
+      return promisifyRequest<Auction[]>(store.getAll());
+    });
+  }
+
+  /**
+   * Places a bid for the player: escrows its amount and releases the tokens of the bidder it overtakes, in a single transaction.
+   * @param auctionId The ID of the auction.
+   * @param amount The amount offered, at least the auction's minimum bid.
+   * @returns A promise that resolves with the updated auction and the escrow entry.
+   * @throws {InvalidBidError} if the auction is closed, the amount too low, or the player already leads.
+   * @throws {InsufficientTokensError} if the stored balance cannot cover the amount.
+   */
+  public async placeBid(auctionId: string, amount: number): Promise<BidTransactionResult> {
+    return this.withTransaction<BidTransactionResult>(
+      [StoreNames.Auctions, StoreNames.Ledger, StoreNames.NpcTraders],
+      'readwrite',
+      async ([auctionsStore, ledgerStore, tradersStore]) => {
+        const stored = await promisifyRequest<Auction | undefined>(auctionsStore.get(auctionId));
+        const placedAt = new Date().toISOString();
+        if (!stored || !isAuctionOpen(stored, placedAt)) {
+          throw new InvalidBidError(i18n.t('errors.auctionEnded'));
+        }
+        const leading = getLeadingBid(stored);
+        if (leading?.bidderId === PLAYER_BIDDER_ID) {
+          throw new InvalidBidError(i18n.t('errors.auctionAlreadyLeading'));
+        }
+        if (amount < getMinimumBid(stored)) {
+          throw new InvalidBidError(i18n.t('errors.bidTooLow', { minimum: i18n.formatTokens(getMinimumBid(stored)) }));
+        }
+
+        const entry = await this.appendLedgerEntry(ledgerStore, -amount, LedgerReason.AUCTION_ESCROW, stored.pokemonId);
+        if (leading) {
+          const trader = await promisifyRequest<NpcTrader | undefined>(tradersStore.get(leading.bidderId));
+          if (trader) await promisifyRequest(tradersStore.put({ ...trader, budget: trader.budget + leading.amount }));
+        }
+        const auction: Auction = { ...stored, bids: [...stored.bids, { bidderId: PLAYER_BIDDER_ID, amount, placedAt }] };
+        await promisifyRequest(auctionsStore.put(auction));
+        return { auction, entry };
+      },
+    );
+  }
+
+  // --- Image Operations ---
+
+  /**
+   * Retrieves one stored variant of a Pokémon image.
+   * @param pokemonId The ID of the Pokémon.
+   * @param variant The image variant to load.
+   * @returns A promise that resolves with the image Blob, or undefined if none is stored.
+   */
+  public async getPokemonImage(pokemonId: string, variant: ImageVariant): Promise<Blob | undefined> {
+    return this.withTransaction<Blob | undefined>(StoreNames.Images, 'readonly', async ([store]) => {
+      const image = await promisifyRequest<PokemonImage | undefined>(store.get([pokemonId, variant]));
+      return image?.blob;
+    });
+  }
+
+  /**
+   * Retrieves the thumbnail of a Pokémon, generating and storing it from the full image if missing.
+   * @param pokemonId The ID of the Pokémon.
+   * @returns A promise that resolves with the thumbnail Blob, or undefined if the Pokémon has no image.
+   */
+  public async getThumbnail(pokemonId: string): Promise<Blob | undefined> {
+    const thumbnail = await this.getPokemonImage(pokemonId, 'thumbnail');
+    if (thumbnail) return thumbnail;
+
+    const fullImage = await this.getPokemonImage(pokemonId, 'full');
+    if (!fullImage) return undefined;
+    const generated = await createThumbnail(fullImage);
+    await this.withTransaction<void>(StoreNames.Images, 'readwrite', async ([store]) => {
+      await promisifyRequest(store.put({ pokemonId, variant: 'thumbnail', blob: generated } as PokemonImage));
+    });
+    return generated;
+  }
+
+  // --- Token Ledger Operations ---
+
+  /**
+   * Derives the balance from the ledger, seeding the initial grant for a new player.
+   * @returns A promise that resolves with the current token balance.
+   */
+  public async getTokenBalance(): Promise<TokenBalance> {
+    return this.withTransaction<TokenBalance>(StoreNames.Ledger, 'readwrite', async ([store]) => {
+      const balance = await readLedgerBalance(store);
+      if (balance === null) {
+        const grant = await this.appendLedgerEntry(store, INITIAL_TOKENS, LedgerReason.INITIAL_GRANT, null);
+        return { id: 'tokenBalance', amount: grant.balanceAfter };
+      }
+      return { id: 'tokenBalance', amount: balance };
+    }, false);
+  }
+
+  /**
+   * Retrieves every ledger entry, oldest first.
+   * @returns A promise that resolves with the ledger entries.
+   */
+  public async getLedgerEntries(): Promise<LedgerEntry[]> {
+    return this.withTransaction<LedgerEntry[]>(StoreNames.Ledger, 'readonly', ([store]) => {
+      return promisifyRequest<LedgerEntry[]>(store.getAll());
+    });
+  }
+
+  /**
+   * Retrieves the ledger entries recorded at or after a given time, through the timestamp index.
+   * @param since ISO 8601 lower bound, inclusive.
+   */
+  public async getLedgerEntriesSince(since: string): Promise<LedgerEntry[]> {
+    return this.withTransaction<LedgerEntry[]>(StoreNames.Ledger, 'readonly', ([store]) => {
+      return promisifyRequest<LedgerEntry[]>(store.index('timestamp').getAll(IDBKeyRange.lowerBound(since)));
+    });
+  }
+
+  /**
+   * Appends a debit (negative amount) or credit (positive amount) to the ledger.
+   * @param amount The signed number of tokens to move.
+   * @param reason Why the tokens moved.
+   * @param pokemonId The related Pokémon, if any.
+   * @returns A promise that resolves with the stored entry, including the resulting balance.
+   * @throws {InsufficientTokensError} if the debit would make the balance negative.
+   */
+  public async recordLedgerEntry(amount: number, reason: LedgerReason, pokemonId: string | null = null): Promise<LedgerEntry> {
+    return this.withTransaction<LedgerEntry>(StoreNames.Ledger, 'readwrite', ([store]) => {
+      return this.appendLedgerEntry(store, amount, reason, pokemonId);
+    });
+  }
+
+  /**
+   * Appends an entry within an existing transaction on the ledger store.
+   * The balance is read from the latest entry inside that transaction, so the "never negative" rule
+   * cannot be bypassed by concurrent writers and the cost does not grow with the history.
+   */
+  private async appendLedgerEntry(store: IDBObjectStore, amount: number, reason: LedgerReason, pokemonId: string | null): Promise<LedgerEntry> {
+    const currentBalance = (await readLedgerBalance(store)) ?? 0;
+    const balanceAfter = currentBalance + amount;
+    if (balanceAfter < 0) {
+      throw new InsufficientTokensError(-amount, currentBalance);
+    }
+    const entry: LedgerEntry = {
+      amount,
+      reason,
+      pokemonId,
+      timestamp: new Date().toISOString(),
+      balanceAfter,
+    };
+    const id = await promisifyRequest<IDBValidKey>(store.add(entry));
+    return { ...entry, id: id as number };
+  }
+
+  // --- Card History Operations ---
+
+  /**
+   * Retrieves the history of a card, oldest first.
+   * @param pokemonId The ID of the Pokémon.
+   */
+  public async getCardEvents(pokemonId: string): Promise<CardEvent[]> {
+    return this.withTransaction<CardEvent[]>(StoreNames.CardEvents, 'readonly', ([store]) => {
+      return promisifyRequest<CardEvent[]>(store.index('pokemonId').getAll(pokemonId));
     });
   }
+
+  /**
+   * Appends an event to a card's history within an existing transaction on the card events store.
+   * @param amount Tokens the player received (positive) or paid (negative), or null when none moved.
+   * @param timestamp When it happened, if not now, e.g. the end of an auction.
+   */
+  private async appendCardEvent(store: IDBObjectStore, pokemonId: string, type: CardEventType, amount: number | null, timestamp: string = new Date().toISOString()): Promise<void> {
+    const event: CardEvent = { pokemonId, type, amount, timestamp };
+    await promisifyRequest(store.add(event));
+  }
+
+  // --- Daily Bonus Operations ---
+
+  /**
+   * Reads the daily bonus status, upgraded from the older timestamp-only record when needed.
+   */
+  public async getDailyBonusStatus(): Promise<DailyBonusStatus> {
+    return this.withTransaction<DailyBonusStatus>(StoreNames.Settings, 'readonly', async ([store]) => {
+      return normalizeDailyBonusStatus(await promisifyRequest<Partial<DailyBonusStatus> | undefined>(store.get('dailyBonus')));
+    });
+  }
+
+  /**
+   * Returns the reward of the day, rolling and persisting it on the first call of the day
+   * so that reloading the app always offers the same amount.
+   * @param today The local date key (YYYY-MM-DD).
+   * @returns A promise that resolves with the roll, or null if today's bonus was already claimed.
+   */
+  public async getDailyBonusOffer(today: string): Promise<DailyBonusRoll | null> {
+    return this.withTransaction<DailyBonusRoll | null>(StoreNames.Settings, 'readwrite', async ([store]) => {
+      const status = normalizeDailyBonusStatus(await promisifyRequest<Partial<DailyBonusStatus> | undefined>(store.get('dailyBonus')));
+      if (status.lastClaimed === today) return null;
+      if (status.pendingRoll?.date === today) return status.pendingRoll;
+      const pendingRoll = rollDailyBonus(status, today, Math.random);
+      await promisifyRequest(store.put({ ...status, pendingRoll }));
+      return pendingRoll;
+    }, false);
+  }
+
+  /**
+   * Claims the reward rolled for today: credits the tokens, stores the forged card if the day offers one,
+   * and advances the streak, in a single transaction.
+   * @param today The local date key (YYYY-MM-DD) of the pending roll.
+   * @param forged The card forged by the reward, on the days offering a forge.
+   * @returns A promise that resolves with the updated status, the ledger entry and the stored card.
+   * @throws {DailyBonusUnavailableError} if there is no unclaimed roll for today.
+   */
+  public async claimDailyBonus(today: string, forged: GeneratedPokemon | null): Promise<DailyBonusClaimResult> {
+    let images: { full: Blob; thumbnail: Blob } | null = null;
+    if (forged) {
+      // Encoding is asynchronous, so it must happen before the transaction opens.
+      const full = base64ToBlob(forged.imageBase64);
+      images = { full, thumbnail: await createThumbnail(full) };
+    }
+    return this.withTransaction<DailyBonusClaimResult>(
+      [StoreNames.Settings, StoreNames.Ledger, StoreNames.Pokemons, StoreNames.Images, StoreNames.CardEvents],
+      'readwrite',
+      async ([settingsStore, ledgerStore, pokemonStore, imagesStore, eventsStore]) => {
+        const stored = normalizeDailyBonusStatus(await promisifyRequest<Partial<DailyBonusStatus> | undefined>(settingsStore.get('dailyBonus')));
+        const roll = stored.pendingRoll;
+        if (stored.lastClaimed === today || roll?.date !== today) {
+          throw new DailyBonusUnavailableError(i18n.t('errors.dailyBonusClaimed'));
+        }
+
+        let pokemon: Pokemon | null = null;
+        if (roll.forgeGrade && forged && images) {
+          const { imageBase64, ...generated } = forged;
+          pokemon = generated;
+          await promisifyRequest(pokemonStore.add(pokemon));
+          await promisifyRequest(imagesStore.put({ pokemonId: pokemon.id, variant: 'full', blob: images.full } as PokemonImage));
+          await promisifyRequest(imagesStore.put({ pokemonId: pokemon.id, variant: 'thumbnail', blob: images.thumbnail } as PokemonImage));
+          await this.appendCardEvent(eventsStore, pokemon.id, CardEventType.FORGED, null);
+        }
+        const entry = await this.appendLedgerEntry(ledgerStore, roll.amount, LedgerReason.DAILY_BONUS, pokemon?.id ?? null);
+
+        const status: DailyBonusStatus = {
+          id: 'dailyBonus',
+          lastClaimed: today,
+          currentStreak: roll.streak,
+          bestStreak: Math.max(stored.bestStreak, roll.streak),
+          history: [...stored.history, { date: today, streak: roll.streak, amount: roll.amount, pokemonId: pokemon?.id ?? null }].slice(-MAX_DAILY_BONUS_HISTORY),
+          pendingRoll: null,
+        };
+        await promisifyRequest(settingsStore.put(status));
+        return { status, entry, pokemon };
+      },
+    );
+  }
   
   // --- Player Settings Operations ---
 
@@ -192,35 +990,432 @@ export class IndexedDbService {
         request.onsuccess = (event: Event) => {
           let settings = (event.target as IDBRequest).result as PlayerSettings | undefined;
           if (!settings) {
-            const defaultSettings: PlayerSettings = {
-              id: 'playerSettings',
-              theme: 'dark',
-              isMuted: true,
-              playerName: 'Ash',
-            };
+            const defaultSettings: PlayerSettings = { ...DEFAULT_PLAYER_SETTINGS, leaderboardPlayerId: createLeaderboardPlayerId() };
             const putRequest = store.add(defaultSettings);
             putRequest.onsuccess = () => resolve(defaultSettings);
             putRequest.onerror = (e) => reject((e.target as IDBRequest).error);
+          } else if (!settings.leaderboardPlayerId) {
+            // Records written by older versions lack the newer fields.
+            const upgradedSettings: PlayerSettings = { ...DEFAULT_PLAYER_SETTINGS, ...settings, leaderboardPlayerId: createLeaderboardPlayerId() };
+            const putRequest = store.put(upgradedSettings);
+            putRequest.onsuccess = () => resolve(upgradedSettings);
+            putRequest.onerror = (e) => reject((e.target as IDBRequest).error);
           } else {
-            resolve(settings);
+            resolve({ ...DEFAULT_PLAYER_SETTINGS, ...settings });
           }
         };
         request.onerror = (e) => reject((e.target as IDBRequest).error);
       });
-    });
+    }, false);
   }
 
+  /**
+   * Saves the settings if nobody saved them since they were read (optimistic concurrency).
+   * @param settings The new settings, carrying the revision they were read at.
+   * @returns A promise that resolves with the stored settings and their new revision.
+   * @throws {ConcurrentModificationError} if another tab saved the settings in between; it carries the stored ones.
+   */
   public async updatePlayerSettings(settings: PlayerSettings): Promise<PlayerSettings> {
-    return this.withTransaction<PlayerSettings>(StoreNames.Settings, 'readwrite', ([store]) => {
-      return new Promise((resolve, reject) => {
-        const request = store.put(settings);
-        request.onsuccess = () => resolve(settings);
-        request.onerror = e => reject((e.target as IDBRequest).error);
-      });
+    return this.withTransaction<PlayerSettings>(StoreNames.Settings, 'readwrite', async ([store]) => {
+      const stored = await promisifyRequest<PlayerSettings | undefined>(store.get('playerSettings'));
+      const current = { ...DEFAULT_PLAYER_SETTINGS, ...stored };
+      if (stored && current.revision !== settings.revision) {
+        throw new ConcurrentModificationError(i18n.t('errors.settingsConflict'), current);
+      }
+      const saved: PlayerSettings = { ...settings, revision: current.revision + 1 };
+      await promisifyRequest(store.put(saved));
+      return saved;
     });
   }
 
 
+  // --- Leaderboard Cache Operations ---
+
+  public async getLeaderboardCache(): Promise<LeaderboardCache | undefined> {
+    return this.withTransaction<LeaderboardCache | undefined>(StoreNames.Settings, 'readonly', ([store]) => {
+      return promisifyRequest<LeaderboardCache | undefined>(store.get('leaderboardCache'));
+    });
+  }
+
+  public async saveLeaderboardCache(cache: LeaderboardCache): Promise<void> {
+    return this.withTransaction<void>(StoreNames.Settings, 'readwrite', async ([store]) => {
+      await promisifyRequest(store.put(cache));
+    }, false);
+  }
+
+  // --- Generation Fixture Operations ---
+
+  /**
+   * Records a raw generation response so the replay provider can serve it offline.
+   * Only the most recent MAX_GENERATION_FIXTURES responses are kept.
+   * @param response The raw response returned by the generation API.
+   */
+  public async saveGenerationFixture(response: GenerateApiResponse): Promise<GenerationFixture> {
+    const fixture: GenerationFixture = { recordedAt: new Date().toISOString(), response };
+    return this.withTransaction<GenerationFixture>(StoreNames.GenerationFixtures, 'readwrite', async ([store]) => {
+      const id = await promisifyRequest<IDBValidKey>(store.add(fixture));
+      const keys = await promisifyRequest<IDBValidKey[]>(store.getAllKeys());
+      const excessKeys = keys.slice(0, Math.max(0, keys.length - MAX_GENERATION_FIXTURES));
+      for (const key of excessKeys) {
+        await promisifyRequest(store.delete(key));
+      }
+      return { ...fixture, id: id as number };
+    });
+  }
+
+  /**
+   * Retrieves the recorded generation responses, oldest first.
+   */
+  public async getGenerationFixtures(): Promise<GenerationFixture[]> {
+    return this.withTransaction<GenerationFixture[]>(StoreNames.GenerationFixtures, 'readonly', ([store]) => {
+      return promisifyRequest<GenerationFixture[]>(store.getAll());
+    });
+  }
+
+  // --- Generation Queue Operations ---
+
+  /**
+   * Queues a forge requested offline and reserves its cost in the same transaction.
+   * @param cost The number of tokens to reserve.
+   * @returns A promise that resolves with the ledger debit.
+   * @throws {InsufficientTokensError} if the stored balance cannot cover the cost.
+   */
+  public async enqueueGeneration(cost: number): Promise<LedgerEntry> {
+    return this.withTransaction<LedgerEntry>([StoreNames.GenerationQueue, StoreNames.Ledger], 'readwrite', async ([queueStore, ledgerStore]) => {
+      const entry = await this.appendLedgerEntry(ledgerStore, -cost, LedgerReason.QUEUED_GENERATION, null);
+      const queued: QueuedGeneration = { queuedAt: entry.timestamp, cost };
+      await promisifyRequest(queueStore.add(queued));
+      return entry;
+    });
+  }
+
+  /**
+   * Pays for a booster pack and queues one forge per card in the same transaction, so the cards that
+   * are not forged before the app closes are replayed like the forges queued offline.
+   * @param packId The ID of the pack definition.
+   * @param slots The cards of the pack, with their share of the price.
+   * @returns A promise that resolves with the ledger debit and the queued forges, in slot order.
+   * @throws {InsufficientTokensError} if the stored balance cannot cover the pack.
+   */
+  public async enqueuePack(packId: string, slots: PackSlot[]): Promise<{ entry: LedgerEntry; queued: QueuedGeneration[] }> {
+    const price = slots.reduce((sum, slot) => sum + slot.cost, 0);
+    return this.withTransaction<{ entry: LedgerEntry; queued: QueuedGeneration[] }>([StoreNames.GenerationQueue, StoreNames.Ledger], 'readwrite', async ([queueStore, ledgerStore]) => {
+      const entry = await this.appendLedgerEntry(ledgerStore, -price, LedgerReason.PACK_PURCHASE, null);
+      const queued: QueuedGeneration[] = [];
+      for (const { cost, minRarity } of slots) {
+        const slot: QueuedGeneration = { queuedAt: entry.timestamp, cost, packId };
+        if (minRarity) slot.minRarity = minRarity;
+        slot.id = await promisifyRequest<IDBValidKey>(queueStore.add(slot)) as number;
+        queued.push(slot);
+      }
+      return { entry, queued };
+    });
+  }
+
+  /**
+   * Retrieves the queued forges, oldest first.
+   */
+  public async getGenerationQueue(): Promise<QueuedGeneration[]> {
+    return this.withTransaction<QueuedGeneration[]>(StoreNames.GenerationQueue, 'readonly', ([store]) => {
+      return promisifyRequest<QueuedGeneration[]>(store.getAll());
+    });
+  }
+
+  /**
+   * Stores the Pokémon forged for a queued request and removes the request. Its cost was debited when it was queued.
+   * @param queueId The ID of the queued forge.
+   * @param generated The generated Pokémon, with its base64 image.
+   * @returns A promise that resolves with the stored Pokémon.
+   * @throws {InvalidPokemonStateError} if the forge is no longer queued.
+   */
+  public async completeQueuedGeneration(queueId: number, generated: GeneratedPokemon): Promise<Pokemon> {
+    const { imageBase64, ...pokemon } = generated;
+    const fullImage = base64ToBlob(imageBase64);
+    const thumbnail = await createThumbnail(fullImage);
+    return this.withTransaction<Pokemon>([StoreNames.GenerationQueue, StoreNames.Pokemons, StoreNames.Images, StoreNames.CardEvents], 'readwrite', async ([queueStore, pokemonStore, imagesStore, eventsStore]) => {
+      const queued = await promisifyRequest<QueuedGeneration | undefined>(queueStore.get(queueId));
+      if (!queued) throw new InvalidPokemonStateError(i18n.t('errors.queuedGenerationDone', { id: queueId }));
+      await promisifyRequest(queueStore.delete(queueId));
+      await promisifyRequest(pokemonStore.add(pokemon));
+      await promisifyRequest(imagesStore.put({ pokemonId: pokemon.id, variant: 'full', blob: fullImage } as PokemonImage));
+      await promisifyRequest(imagesStore.put({ pokemonId: pokemon.id, variant: 'thumbnail', blob: thumbnail } as PokemonImage));
+      await this.appendCardEvent(eventsStore, pokemon.id, CardEventType.FORGED, -queued.cost);
+      return pokemon;
+    });
+  }
+
+  /**
+   * Removes a queued forge that failed and refunds its reserved cost.
+   * @param queueId The ID of the queued forge.
+   * @returns A promise that resolves with the ledger credit.
+   * @throws {InvalidPokemonStateError} if the forge is no longer queued.
+   */
+  public async refundQueuedGeneration(queueId: number): Promise<LedgerEntry> {
+    return this.withTransaction<LedgerEntry>([StoreNames.GenerationQueue, StoreNames.Ledger], 'readwrite', async ([queueStore, ledgerStore]) => {
+      const queued = await promisifyRequest<QueuedGeneration | undefined>(queueStore.get(queueId));
+      if (!queued) throw new InvalidPokemonStateError(i18n.t('errors.queuedGenerationDone', { id: queueId }));
+      await promisifyRequest(queueStore.delete(queueId));
+      return this.appendLedgerEntry(ledgerStore, queued.cost, LedgerReason.REFUND, null);
+    });
+  }
+
+  // --- Market Simulation Operations ---
+
+  /**
+   * Retrieves the clock of the NPC market simulation, or undefined before its first run.
+   */
+  public async getMarketSimulationState(): Promise<MarketSimulationState | undefined> {
+    return this.withTransaction<MarketSimulationState | undefined>(StoreNames.Settings, 'readonly', ([store]) => {
+      return promisifyRequest<MarketSimulationState | undefined>(store.get('marketSimulation'));
+    });
+  }
+
+  public async getNpcTraders(): Promise<NpcTrader[]> {
+    return this.withTransaction<NpcTrader[]>(StoreNames.NpcTraders, 'readonly', ([store]) => {
+      return promisifyRequest<NpcTrader[]>(store.getAll());
+    });
+  }
+
+  /**
+   * Retrieves the most recent market activity.
+   * @param limit The maximum number of entries.
+   * @returns A promise that resolves with the entries, most recent first.
+   */
+  public async getMarketFeed(limit: number): Promise<MarketFeedEntry[]> {
+    return this.withTransaction<MarketFeedEntry[]>(StoreNames.MarketFeed, 'readonly', async ([store]) => {
+      const entries = await promisifyRequest<MarketFeedEntry[]>(store.getAll());
+      return entries.slice(-limit).reverse();
+    });
+  }
+
+  /**
+   * Saves the outcome of simulated market ticks in a single transaction: new NPC listings and auctions with their images,
+   * NPC purchases and bids with the resulting payments and escrow releases, trader budgets, feed entries and the
+   * simulation clock. Then closes the listings expired and the auctions ended by the settlement time.
+   * A purchase whose card left the market or changed price in the meantime is dropped, and its price returned
+   * to the buyer; so are the bids on an auction that received other bids meanwhile. Trader budgets are saved as
+   * the simulated changes applied to the stored traders.
+   * @param settlement The outcome computed by the simulation.
+   * @returns A promise that resolves with what changed, or null if another tab already settled these ticks.
+   */
+  public async applyMarketSettlement(settlement: MarketSettlement): Promise<MarketSettlementResult | null> {
+    return this.withTransaction<MarketSettlementResult | null>(
+      [StoreNames.Settings, StoreNames.Pokemons, StoreNames.Images, StoreNames.Listings, StoreNames.Auctions, StoreNames.Ledger, StoreNames.NpcTraders, StoreNames.MarketFeed, StoreNames.CardEvents],
+      'readwrite',
+      async ([settingsStore, pokemonStore, imagesStore, listingsStore, auctionsStore, ledgerStore, tradersStore, feedStore, eventsStore]) => {
+        const current = await promisifyRequest<MarketSimulationState | undefined>(settingsStore.get('marketSimulation'));
+        if (current && current.lastTick !== settlement.previousTick) return null;
+
+        for (const { pokemon, listing, auction, fullImage, thumbnail } of settlement.listings) {
+          await promisifyRequest(pokemonStore.put(pokemon));
+          if (listing) await promisifyRequest(listingsStore.put(listing));
+          if (auction) await promisifyRequest(auctionsStore.put(auction));
+          await promisifyRequest(imagesStore.put({ pokemonId: pokemon.id, variant: 'full', blob: fullImage } as PokemonImage));
+          await promisifyRequest(imagesStore.put({ pokemonId: pokemon.id, variant: 'thumbnail', blob: thumbnail } as PokemonImage));
+        }
+
+        // Budgets are applied as changes to the stored traders, so a purchase or refund made since the simulation read them is kept.
+        const tradersById = new Map<string, NpcTrader>();
+        for (const simulated of settlement.traders) {
+          const stored = await promisifyRequest<NpcTrader | undefined>(tradersStore.get(simulated.id));
+          tradersById.set(simulated.id, stored
+            ? { ...stored, budget: Math.max(0, stored.budget + (settlement.budgetChanges[simulated.id] ?? 0)) }
+            : { ...simulated });
+        }
+        const droppedPokemonIds = new Set<string>();
+        for (const { pokemonId, traderId, sellerId, price } of settlement.purchases) {
+          const stored = await promisifyRequest<Pokemon | undefined>(pokemonStore.get(pokemonId));
+          const listing = await promisifyRequest<Listing | undefined>(listingsStore.get(pokemonId));
+          const isOnSale = stored?.status === PokemonStatus.RESOLD
+            || (stored?.status === PokemonStatus.LISTED && listing?.askingPrice === price && (stored.traderId ?? null) === sellerId);
+          if (!stored || !isOnSale) {
+            droppedPokemonIds.add(pokemonId);
+            const buyer = tradersById.get(traderId);
+            if (buyer) buyer.budget += price;
+            const seller = sellerId ? tradersById.get(sellerId) : undefined;
+            if (seller) seller.budget = Math.max(0, seller.budget - price);
+            continue;
+          }
+          if (stored.status === PokemonStatus.LISTED) {
+            await promisifyRequest(listingsStore.delete(pokemonId));
+            if (!stored.traderId) {
+              await this.appendLedgerEntry(ledgerStore, price, LedgerReason.LISTING_SALE, pokemonId);
+              await this.appendCardEvent(eventsStore, pokemonId, CardEventType.SOLD, price);
+            }
+          }
+          await promisifyRequest(pokemonStore.put({ ...stored, status: PokemonStatus.TRADED, traderId } as Pokemon));
+        }
+
+        const outbid: Auction[] = [];
+        for (const { auctionId, expectedBidCount, bids } of settlement.auctionUpdates) {
+          const stored = await promisifyRequest<Auction | undefined>(auctionsStore.get(auctionId));
+          if (!stored || stored.status !== 'OPEN' || stored.bids.length !== expectedBidCount) {
+            // Only the last simulated bid still holds its bidder's tokens: the earlier ones were released when overtaken.
+            const last = bids[bids.length - 1];
+            const bidder = tradersById.get(last.bidderId);
+            if (bidder) bidder.budget += last.amount;
+            droppedPokemonIds.add(stored?.pokemonId ?? auctionId);
+            continue;
+          }
+          const leading = getLeadingBid(stored);
+          const auction: Auction = { ...stored, bids: [...stored.bids, ...bids] };
+          if (leading?.bidderId === PLAYER_BIDDER_ID) {
+            await this.appendLedgerEntry(ledgerStore, leading.amount, LedgerReason.AUCTION_REFUND, stored.pokemonId);
+            outbid.push(auction);
+          } else if (leading) {
+            const trader = tradersById.get(leading.bidderId);
+            if (trader) trader.budget += leading.amount;
+          }
+          await promisifyRequest(auctionsStore.put(auction));
+        }
+
+        const resolved: Auction[] = [];
+        const resolutionFeed: MarketFeedEntry[] = [];
+        const openAuctions = await promisifyRequest<Auction[]>(auctionsStore.index('status').getAll('OPEN'));
+        for (const stored of openAuctions) {
+          if (stored.endsAt > settlement.settledAt) continue;
+          const leading = getLeadingBid(stored);
+          const auction: Auction = { ...stored, status: leading ? 'SOLD' : 'UNSOLD' };
+          const pokemon = await promisifyRequest<Pokemon | undefined>(pokemonStore.get(stored.pokemonId));
+          if (pokemon) {
+            // The escrowed bid is the payment: the seller gets it, and an unsold card stays with its seller.
+            if (leading?.bidderId === PLAYER_BIDDER_ID) {
+              const { traderId, ...owned }: Pokemon = { ...pokemon, status: PokemonStatus.OWNED };
+              await promisifyRequest(pokemonStore.put(owned));
+              await this.appendCardEvent(eventsStore, pokemon.id, CardEventType.BOUGHT, -leading.amount, stored.endsAt);
+            } else {
+              await promisifyRequest(pokemonStore.put({ ...pokemon, status: PokemonStatus.TRADED, traderId: leading?.bidderId ?? stored.sellerId } as Pokemon));
+            }
+          }
+          const seller = tradersById.get(stored.sellerId);
+          if (seller && leading) seller.budget = Math.min(seller.maxBudget, seller.budget + leading.amount);
+          const winner = leading ? tradersById.get(leading.bidderId) : undefined;
+          if (winner && leading && pokemon) {
+            resolutionFeed.push({
+              timestamp: stored.endsAt,
+              traderId: winner.id,
+              traderName: winner.name,
+              action: 'WON',
+              pokemonId: pokemon.id,
+              pokemonName: pokemon.name,
+              rarity: pokemon.rarity,
+              price: leading.amount,
+              fromPlayer: false,
+            });
+          }
+          await promisifyRequest(auctionsStore.put(auction));
+          resolved.push(auction);
+        }
+
+        for (const trader of tradersById.values()) {
+          await promisifyRequest(tradersStore.put(trader));
+        }
+        const feed = [
+          ...settlement.feed.filter(entry => !((entry.action === 'BOUGHT' || entry.action === 'BID') && droppedPokemonIds.has(entry.pokemonId))),
+          ...resolutionFeed,
+        ];
+        for (const entry of feed) {
+          await promisifyRequest(feedStore.add(entry));
+        }
+        const feedKeys = await promisifyRequest<IDBValidKey[]>(feedStore.getAllKeys());
+        for (const key of feedKeys.slice(0, Math.max(0, feedKeys.length - MAX_MARKET_FEED_ENTRIES))) {
+          await promisifyRequest(feedStore.delete(key));
+        }
+
+        const expired: Pokemon[] = [];
+        const listings = await promisifyRequest<Listing[]>(listingsStore.getAll());
+        for (const listing of listings) {
+          if (listing.expiresAt === null || listing.expiresAt > settlement.settledAt) continue;
+          const stored = await promisifyRequest<Pokemon | undefined>(pokemonStore.get(listing.pokemonId));
+          await promisifyRequest(listingsStore.delete(listing.pokemonId));
+          if (!stored || stored.status !== PokemonStatus.LISTED || stored.traderId) continue;
+          const pokemon: Pokemon = { ...stored, status: PokemonStatus.OWNED };
+          await promisifyRequest(pokemonStore.put(pokemon));
+          await this.appendCardEvent(eventsStore, pokemon.id, CardEventType.UNLISTED, null, listing.expiresAt);
+          expired.push(pokemon);
+        }
+
+        await promisifyRequest(settingsStore.put(settlement.state));
+        return { feed, expired, outbid, resolved };
+      },
+    );
+  }
+
+  // --- Price History Operations ---
+
+  /**
+   * Appends market price points, keeping only the most recent ones of each rarity and grade.
+   * @param points The points to append.
+   */
+  public async recordPricePoints(points: PricePoint[]): Promise<void> {
+    if (points.length === 0) return;
+    return this.withTransaction<void>(StoreNames.PriceHistory, 'readwrite', async ([store]) => {
+      for (const point of points) {
+        await promisifyRequest(store.add(point));
+        const seriesKeys = await promisifyRequest<IDBValidKey[]>(store.index('series').getAllKeys([point.rarity, point.grade]));
+        const excessKeys = seriesKeys.slice(0, Math.max(0, seriesKeys.length - MAX_PRICE_POINTS_PER_SERIES));
+        for (const key of excessKeys) {
+          await promisifyRequest(store.delete(key));
+        }
+      }
+    });
+  }
+
+  /**
+   * Retrieves every recorded price point, oldest first.
+   */
+  public async getPriceHistory(): Promise<PricePoint[]> {
+    return this.withTransaction<PricePoint[]>(StoreNames.PriceHistory, 'readonly', ([store]) => {
+      return promisifyRequest<PricePoint[]>(store.getAll());
+    });
+  }
+
+  // --- Bulk Operations ---
+
+  /**
+   * Reads every record of the given stores in a single readonly transaction, so the snapshot is consistent.
+   * @param storeNames The stores to read.
+   * @returns A promise that resolves with the records of each store.
+   */
+  public async readAllStores(storeNames: StoreNames[]): Promise<StoreSnapshot> {
+    return this.withTransaction<StoreSnapshot>(storeNames, 'readonly', async (stores) => {
+      const snapshot: StoreSnapshot = {};
+      for (const [index, store] of stores.entries()) {
+        snapshot[storeNames[index]] = await promisifyRequest<unknown[]>(store.getAll());
+      }
+      return snapshot;
+    });
+  }
+
+  /**
+   * Writes records to several stores in a single readwrite transaction: either every record is stored or none is.
+   * @param snapshot The records to put, keyed by store name.
+   * @param clearFirst Whether to empty each written store before putting the records.
+   */
+  public async writeStores(snapshot: StoreSnapshot, clearFirst: boolean): Promise<void> {
+    const storeNames = Object.keys(snapshot) as StoreNames[];
+    if (storeNames.length === 0) return;
+    return this.withTransaction<void>(storeNames, 'readwrite', async (stores) => {
+      for (const [index, store] of stores.entries()) {
+        if (clearFirst) {
+          await promisifyRequest(store.clear());
+        }
+        for (const record of snapshot[storeNames[index]] ?? []) {
+          await promisifyRequest(store.put(record));
+        }
+      }
+    });
+  }
+
+  /**
+   * Retrieves the IDs of every stored Pokémon without loading the records.
+   */
+  public async getPokemonIds(): Promise<string[]> {
+    return this.withTransaction<string[]>(StoreNames.Pokemons, 'readonly', ([store]) => {
+      return promisifyRequest<string[]>(store.getAllKeys());
+    });
+  }
+
   // --- Achievements Operations ---
 
   public async getAchievements(): Promise<Achievement[]> {
@@ -242,6 +1437,95 @@ export class IndexedDbService {
       });
     });
   }
+
+  /**
+   * Reads every achievement record, lets the caller compute the changes, then saves them along with the
+   * token reward they grant. Everything happens in one transaction, so concurrent events can't lose progress.
+   * @param computeChanges Synchronous function receiving the stored records and returning the records to save and the tokens to credit.
+   * @param announce Whether to tell the other tabs. Off when the changes only seed records every tab derives alike.
+   * @returns A promise that resolves with the saved records and the reward ledger entry, if any.
+   */
+  public async updateAchievements(
+    computeChanges: (stored: Achievement[]) => { updated: Achievement[]; reward: number },
+    announce: boolean = true,
+  ): Promise<{ updated: Achievement[]; rewardEntry: LedgerEntry | null }> {
+    return this.withTransaction(
+      [StoreNames.Achievements, StoreNames.Ledger],
+      'readwrite',
+      async ([achievementStore, ledgerStore]) => {
+        const stored = await promisifyRequest<Achievement[]>(achievementStore.getAll());
+        const { updated, reward } = computeChanges(stored);
+        await Promise.all(updated.map(achievement => promisifyRequest(achievementStore.put(achievement))));
+        const rewardEntry = reward > 0 ? await this.appendLedgerEntry(ledgerStore, reward, LedgerReason.ACHIEVEMENT_REWARD, null) : null;
+        return { updated, rewardEntry };
+      },
+      announce,
+    );
+  }
 }
 
+/**
+ * Records of several object stores, keyed by store name, as read or written by the bulk operations.
+ */
+export type StoreSnapshot = Partial<Record<StoreNames, unknown[]>>;
+
+/**
+ * Creates the random ID a save is known by on the online leaderboard.
+ */
+const createLeaderboardPlayerId = (): string => `player_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * Wraps an IDBRequest in a promise so several requests can be chained within one transaction.
+ */
+export const promisifyRequest = <T>(request: IDBRequest): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result as T);
+  request.onerror = () => reject(request.error);
+});
+
+/**
+ * Checks a Pokémon against every criterion of a query.
+ * @param search The query's search text, already trimmed and lower-cased.
+ */
+const matchesQuery = (pokemon: Pokemon, query: PokemonQuery, search: string): boolean =>
+  (query.statuses.length === 0 || query.statuses.includes(pokemon.status))
+  && (query.rarities.length === 0 || query.rarities.includes(pokemon.rarity))
+  && (query.grades.length === 0 || query.grades.includes(pokemon.grade))
+  && (!query.favoritesOnly || pokemon.isFavorite)
+  && (!query.playerCardsOnly || !pokemon.forgedBy || !pokemon.traderId)
+  && (search === '' || pokemon.name.toLocaleLowerCase().includes(search));
+
+/**
+ * Converts an inclusive range of local days (YYYY-MM-DD) into a key range on the generatedAt index.
+ * @returns The key range, or null when neither bound is set.
+ */
+const toGeneratedAtRange = (from: string | null, to: string | null): IDBKeyRange | null => {
+  const lower = from ? new Date(`${from}T00:00:00`).toISOString() : null;
+  const upper = to ? new Date(`${to}T23:59:59.999`).toISOString() : null;
+  if (lower && upper) return IDBKeyRange.bound(lower, upper);
+  if (lower) return IDBKeyRange.lowerBound(lower);
+  if (upper) return IDBKeyRange.upperBound(upper);
+  return null;
+};
+
+/**
+ * Narrows a generatedAt key range so a cursor walking it in the given direction starts at a resume timestamp.
+ * The timestamp itself stays included, since several records can share it.
+ */
+const resumeGeneratedAtRange = (range: IDBKeyRange | null, from: string, direction: 'asc' | 'desc'): IDBKeyRange => {
+  if (direction === 'desc') {
+    return range?.lower !== undefined ? IDBKeyRange.bound(range.lower, from) : IDBKeyRange.upperBound(from);
+  }
+  return range?.upper !== undefined ? IDBKeyRange.bound(from, range.upper) : IDBKeyRange.lowerBound(from);
+};
+
+/**
+ * Reads the balance after the latest ledger entry through a cursor, without loading the history.
+ * @returns A promise that resolves with the balance, or null if the ledger is empty.
+ */
+const readLedgerBalance = (store: IDBObjectStore): Promise<number | null> => new Promise((resolve, reject) => {
+  const request = store.openCursor(null, 'prev');
+  request.onsuccess = () => resolve(request.result ? (request.result.value as LedgerEntry).balanceAfter : null);
+  request.onerror = () => reject(request.error);
+});
+
 export const indexedDbService = new IndexedDbService();
\ No newline at end of file
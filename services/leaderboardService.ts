@@ -0,0 +1,40 @@
+// services/leaderboardService.ts
+
+import { LeaderboardMetric, LeaderboardProviderId, LeaderboardRanking, ScoreSnapshot } from '../types';
+
+/**
+ * A leaderboard the player submits scores to and reads rankings from. The Classement view only
+ * depends on this interface, so the online service can be swapped for the local one.
+ */
+export interface LeaderboardService {
+  readonly id: LeaderboardProviderId;
+  /**
+   * Publishes the player's current scores, replacing the ones submitted before.
+   */
+  submitScore(snapshot: ScoreSnapshot): Promise<void>;
+  /**
+   * Fetches the players ranked on one metric, best first.
+   */
+  getRanking(metric: LeaderboardMetric): Promise<LeaderboardRanking>;
+}
+
+/**
+ * Checks that a value has the shape of a ScoreSnapshot, as returned by the leaderboard server.
+ */
+export const isScoreSnapshot = (value: unknown): value is ScoreSnapshot => {
+  const snapshot = value as ScoreSnapshot | null;
+  return typeof snapshot === 'object' && snapshot !== null
+    && typeof snapshot.playerId === 'string'
+    && typeof snapshot.playerName === 'string'
+    && typeof snapshot.pokemonCount === 'number'
+    && typeof snapshot.avgRarity === 'number'
+    && typeof snapshot.collectionValue === 'number'
+    && typeof snapshot.achievementCount === 'number'
+    && typeof snapshot.submittedAt === 'string';
+};
+
+/**
+ * Orders snapshots on a metric, best first; ties go to the earliest submission.
+ */
+export const rankSnapshots = (snapshots: ScoreSnapshot[], metric: LeaderboardMetric): ScoreSnapshot[] =>
+  [...snapshots].sort((a, b) => b[metric] - a[metric] || a.submittedAt.localeCompare(b.submittedAt));
@@ -0,0 +1,33 @@
+// services/leaderboardServiceFactory.ts
+
+import { LeaderboardProviderId, PlayerProfile, PlayerSettings } from '../types';
+import { LeaderboardService } from './leaderboardService';
+import { HttpLeaderboardService, DEFAULT_LEADERBOARD_URL } from './httpLeaderboardService';
+import { LocalLeaderboardService } from './localLeaderboardService';
+import { MessageKey } from '../locales/fr';
+
+/**
+ * Catalog keys of the display information for each leaderboard, used by the settings screen.
+ */
+export const LEADERBOARD_PROVIDER_OPTIONS: { id: LeaderboardProviderId; label: MessageKey; description: MessageKey }[] = [
+  { id: 'local', label: 'settings.leaderboard.local', description: 'settings.leaderboard.localHint' },
+  { id: 'http', label: 'settings.leaderboard.http', description: 'settings.leaderboard.httpHint' },
+];
+
+/**
+ * Creates the leaderboard selected in the player settings.
+ * The online leaderboard reads its URL from the settings first, then from the build environment
+ * (LEADERBOARD_API_URL), then falls back to the bundled mock server.
+ * @param settings The current player settings.
+ * @param profile The profile the local leaderboard files the scores under.
+ * @returns The leaderboard service to use.
+ */
+export const createLeaderboardService = (settings: PlayerSettings, profile: PlayerProfile): LeaderboardService => {
+  switch (settings.leaderboardProvider) {
+    case 'http':
+      return new HttpLeaderboardService(settings.leaderboardUrl || process.env.LEADERBOARD_API_URL || DEFAULT_LEADERBOARD_URL);
+    case 'local':
+    default:
+      return new LocalLeaderboardService(profile.id);
+  }
+};
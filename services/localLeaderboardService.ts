@@ -0,0 +1,28 @@
+// services/localLeaderboardService.ts
+
+import { LeaderboardMetric, LeaderboardRanking, ScoreSnapshot } from '../types';
+import { LeaderboardService, rankSnapshots } from './leaderboardService';
+import { profileService } from './profileService';
+
+/**
+ * Ranks the profiles of this browser against each other, without any server.
+ * Each profile appears once it has submitted scores, under its current name.
+ */
+export class LocalLeaderboardService implements LeaderboardService {
+  public readonly id = 'local' as const;
+
+  constructor(private readonly profileId: string) {}
+
+  public async submitScore(snapshot: ScoreSnapshot): Promise<void> {
+    await profileService.saveScore(this.profileId, snapshot);
+  }
+
+  public async getRanking(metric: LeaderboardMetric): Promise<LeaderboardRanking> {
+    const [scores, profiles] = await Promise.all([profileService.getScores(), profileService.getProfiles()]);
+    const namesById = new Map(profiles.map(profile => [profile.id, profile.name]));
+    const entries = scores
+      .filter(score => namesById.has(score.profileId))
+      .map(({ profileId, ...snapshot }) => ({ ...snapshot, playerName: namesById.get(profileId)! }));
+    return { metric, entries: rankSnapshots(entries, metric), fetchedAt: new Date().toISOString() };
+  }
+}
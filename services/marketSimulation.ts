@@ -0,0 +1,331 @@
+// services/marketSimulation.ts
+
+import { AUCTION_RARITIES, Auction, AuctionBid, AuctionUpdate, Listing, MarketFeedEntry, MarketSettlement, MarketSettlementResult, MarketSimulationState, NpcPurchase, NpcTrader, Pokemon, PokemonRarity, PokemonStatus, ApiRarityGrade } from '../types';
+import { indexedDbService } from './indexedDbService';
+import { MockGenerationProvider } from './mockGenerationProvider';
+import { toPokemon } from './generationProvider';
+import { PricingConfig, PricingEngine, buildMarketSnapshot } from './pricingEngine';
+import { RandomSource, createSeededRandom, pickWeightedItem } from '../utils/random';
+import { base64ToBlob, createThumbnail } from '../utils/images';
+import { getLeadingBid, getMinimumBid, isAuctionOpen } from '../utils/auctions';
+
+/**
+ * Duration of one simulation tick.
+ */
+export const SIMULATION_TICK_MS = 10 * 60 * 1000;
+
+/**
+ * Outcome of a settlement that had nothing to simulate.
+ */
+export const EMPTY_SETTLEMENT_RESULT: MarketSettlementResult = { feed: [], expired: [], outbid: [], resolved: [] };
+
+/**
+ * Traders skip listings asking more than this times the market price.
+ */
+export const MAX_LISTING_OVERPRICE = 1.25;
+
+const TICKS_PER_DAY = (24 * 60 * 60 * 1000) / SIMULATION_TICK_MS;
+const MAX_CATCH_UP_TICKS = 7 * TICKS_PER_DAY; // Longer absences only simulate their last week
+const WARM_UP_TICKS = TICKS_PER_DAY; // A first launch starts with one simulated day, so the market isn't empty
+const MAX_ACTIVE_NPC_LISTINGS = 24; // Traders stop listing once the market holds this many of their cards
+const NPC_MIN_MARKUP = 0.9; // Traders ask between 90 % and 120 % of the market price
+const NPC_MAX_MARKUP = 1.2;
+const MAX_OPEN_AUCTIONS = 6; // Beyond this, high-rarity forges are listed at a fixed price
+const AUCTION_DURATION_MS = 12 * 60 * 60 * 1000;
+const AUCTION_START_RATIO = 0.6; // Start price, relative to the market price
+const AUCTION_INCREMENT_RATIO = 0.05; // Minimum raise, relative to the market price
+const AUCTION_BID_FACTOR = 3; // Odds of bidding on each open auction, relative to a trader's buyChance
+const AUCTION_MIN_VALUATION = 0.9; // Traders stop bidding between 90 % and 140 % of the market price
+const AUCTION_MAX_VALUATION = 1.4;
+
+const rarityPreferences = (common: number, rare: number, epic: number, legendary: number, mythic: number): Record<PokemonRarity, number> => ({
+  [PokemonRarity.COMMON]: common,
+  [PokemonRarity.RARE]: rare,
+  [PokemonRarity.EPIC]: epic,
+  [PokemonRarity.LEGENDARY]: legendary,
+  [PokemonRarity.MYTHIC]: mythic,
+});
+
+const gradeWeights = (weights: number[]): Record<ApiRarityGrade, number> => ({
+  F: weights[0], E: weights[1], D: weights[2], C: weights[3], B: weights[4], A: weights[5], S: weights[6], 'S+': weights[7],
+});
+
+/**
+ * The traders populating the market on a first launch. Their budgets then evolve and are persisted.
+ */
+export const DEFAULT_NPC_TRADERS: NpcTrader[] = [
+  { id: 'ondine', name: 'Ondine', budget: 150, maxBudget: 300, income: 2, listingChance: 0.03, buyChance: 0.02, rarityPreferences: rarityPreferences(1, 3, 4, 2, 1), gradeWeights: gradeWeights([10, 14, 18, 20, 16, 12, 7, 3]) },
+  { id: 'pierre', name: 'Pierre', budget: 80, maxBudget: 150, income: 1, listingChance: 0.05, buyChance: 0.04, rarityPreferences: rarityPreferences(5, 3, 1, 0, 0), gradeWeights: gradeWeights([22, 22, 20, 16, 10, 6, 3, 1]) },
+  { id: 'regis', name: 'Régis', budget: 600, maxBudget: 1200, income: 6, listingChance: 0.01, buyChance: 0.015, rarityPreferences: rarityPreferences(0, 0, 1, 4, 6), gradeWeights: gradeWeights([4, 6, 10, 16, 20, 20, 15, 9]) },
+  { id: 'flora', name: 'Flora', budget: 200, maxBudget: 400, income: 3, listingChance: 0.025, buyChance: 0.03, rarityPreferences: rarityPreferences(2, 2, 2, 2, 2), gradeWeights: gradeWeights([12, 15, 18, 20, 15, 11, 6, 3]) },
+];
+
+/**
+ * Random source of one tick. It only depends on the seed and the tick number, so a tick simulated
+ * on the next launch draws exactly what it would have drawn live.
+ */
+export const getTickRandom = (seed: number, tick: number): RandomSource =>
+  createSeededRandom((seed ^ Math.imul(tick, 0x9e3779b1)) >>> 0);
+
+/**
+ * Inputs of a simulation run.
+ */
+export interface SimulationInput {
+  seed: number;
+  fromTick: number; // Exclusive
+  toTick: number; // Inclusive
+  tickMs: number;
+  traders: NpcTrader[];
+  market: Pokemon[]; // Cards currently on sale: the house stock and the listed cards
+  listings: Listing[]; // Open listings of the listed cards
+  auctions: { auction: Auction; pokemon: Pokemon }[]; // Open auctions with their cards
+  forgeCard: (trader: NpcTrader, random: RandomSource, tick: number, timestamp: string) => Pokemon;
+  getPrice: (pokemon: Pokemon, market: Pokemon[], timestamp: string) => number; // Market buy price of a card
+}
+
+/**
+ * Outcome of a simulation run.
+ */
+export interface SimulationOutput {
+  traders: NpcTrader[];
+  listed: { pokemon: Pokemon; listing?: Listing; auction?: Auction }[];
+  purchases: NpcPurchase[];
+  auctionUpdates: AuctionUpdate[];
+  feed: MarketFeedEntry[];
+}
+
+/**
+ * Plays the NPC traders over a range of ticks. On each tick, in ID order, every trader regains some budget,
+ * may put a freshly forged card on sale (by auction for the high rarities), may bid on the open auctions,
+ * and may buy a card from someone else, picked according to its rarity preferences. Listings are only
+ * bought once created, while open and not overpriced. A leading bid holds its amount out of the trader's budget.
+ * Pure apart from the injected callbacks: the same input always gives the same output.
+ */
+export const simulateTicks = (input: SimulationInput): SimulationOutput => {
+  const traders = [...input.traders].map(trader => ({ ...trader })).sort((a, b) => a.id.localeCompare(b.id));
+  const tradersById = new Map(traders.map(trader => [trader.id, trader]));
+  const market = [...input.market];
+  const listingsById = new Map(input.listings.map(listing => [listing.pokemonId, listing]));
+  const auctions = input.auctions.map(({ auction, pokemon }) => ({ auction: { ...auction, bids: [...auction.bids] }, pokemon, newBids: [] as AuctionBid[] }));
+  const createdAuctionIds = new Set<string>();
+  const output: SimulationOutput = { traders, listed: [], purchases: [], auctionUpdates: [], feed: [] };
+
+  for (let tick = input.fromTick + 1; tick <= input.toTick; tick++) {
+    const random = getTickRandom(input.seed, tick);
+    const timestamp = new Date(tick * input.tickMs).toISOString();
+
+    for (const trader of traders) {
+      trader.budget = Math.min(trader.maxBudget, trader.budget + trader.income);
+
+      const npcListings = market.filter(p => p.traderId !== undefined).length;
+      if (random() < trader.listingChance && npcListings < MAX_ACTIVE_NPC_LISTINGS) {
+        const forged = input.forgeCard(trader, random, tick, timestamp);
+        const marketPrice = input.getPrice(forged, market, timestamp);
+        const openAuctions = auctions.filter(({ auction }) => isAuctionOpen(auction, timestamp)).length;
+        if (AUCTION_RARITIES.includes(forged.rarity) && openAuctions < MAX_OPEN_AUCTIONS) {
+          const pokemon: Pokemon = { ...forged, status: PokemonStatus.AUCTION };
+          const auction: Auction = {
+            id: `auction_${pokemon.id}`,
+            pokemonId: pokemon.id,
+            sellerId: trader.id,
+            startPrice: Math.max(1, Math.round(marketPrice * AUCTION_START_RATIO)),
+            minIncrement: Math.max(1, Math.round(marketPrice * AUCTION_INCREMENT_RATIO)),
+            startsAt: timestamp,
+            endsAt: new Date(tick * input.tickMs + AUCTION_DURATION_MS).toISOString(),
+            bids: [],
+            status: 'OPEN',
+          };
+          auctions.push({ auction, pokemon, newBids: [] });
+          createdAuctionIds.add(auction.id);
+          output.listed.push({ pokemon, auction });
+          output.feed.push(createFeedEntry(trader, 'AUCTIONED', pokemon, auction.startPrice, timestamp));
+        } else {
+          const pokemon: Pokemon = { ...forged, status: PokemonStatus.LISTED };
+          const askingPrice = Math.max(1, Math.round(marketPrice * (NPC_MIN_MARKUP + random() * (NPC_MAX_MARKUP - NPC_MIN_MARKUP))));
+          const listing: Listing = { pokemonId: pokemon.id, askingPrice, createdAt: timestamp, expiresAt: null };
+          market.push(pokemon);
+          listingsById.set(pokemon.id, listing);
+          output.listed.push({ pokemon, listing });
+          output.feed.push(createFeedEntry(trader, 'LISTED', pokemon, askingPrice, timestamp));
+        }
+      }
+
+      for (const entry of auctions) {
+        const { auction, pokemon } = entry;
+        const leading = getLeadingBid(auction);
+        if (!isAuctionOpen(auction, timestamp) || auction.sellerId === trader.id || leading?.bidderId === trader.id) continue;
+        if (trader.rarityPreferences[pokemon.rarity] === 0 || random() >= trader.buyChance * AUCTION_BID_FACTOR) continue;
+        const valuation = input.getPrice(pokemon, market, timestamp) * (AUCTION_MIN_VALUATION + random() * (AUCTION_MAX_VALUATION - AUCTION_MIN_VALUATION));
+        const amount = getMinimumBid(auction);
+        if (amount > valuation || amount > trader.budget) continue;
+
+        // The previous leader's tokens are released here if it bid during this run; otherwise the settlement releases them.
+        const previousBidder = leading && entry.newBids.includes(leading) ? tradersById.get(leading.bidderId) : undefined;
+        if (previousBidder && leading) previousBidder.budget += leading.amount;
+        trader.budget -= amount;
+        const bid: AuctionBid = { bidderId: trader.id, amount, placedAt: timestamp };
+        auction.bids.push(bid);
+        entry.newBids.push(bid);
+        output.feed.push(createFeedEntry(trader, 'BID', pokemon, amount, timestamp));
+      }
+
+      if (random() < trader.buyChance) {
+        // A listing created after this tick (by the player, during catch-up) is not on the market yet.
+        const candidates = market.filter(p => p.traderId !== trader.id && (listingsById.get(p.id)?.createdAt ?? timestamp) <= timestamp);
+        const pokemon = pickWeightedItem(random, candidates, p => trader.rarityPreferences[p.rarity]);
+        if (!pokemon) continue;
+        const marketPrice = input.getPrice(pokemon, market, timestamp);
+        const listing = listingsById.get(pokemon.id);
+        const price = listing ? listing.askingPrice : marketPrice;
+        const isAcceptable = !listing || (listing.createdAt <= timestamp && (listing.expiresAt === null || listing.expiresAt > timestamp) && price <= marketPrice * MAX_LISTING_OVERPRICE);
+        if (isAcceptable && price <= trader.budget) {
+          trader.budget -= price;
+          const seller = pokemon.traderId ? tradersById.get(pokemon.traderId) : undefined;
+          if (seller) seller.budget = Math.min(seller.maxBudget, seller.budget + price);
+          market.splice(market.indexOf(pokemon), 1);
+          listingsById.delete(pokemon.id);
+          output.purchases.push({ pokemonId: pokemon.id, traderId: trader.id, sellerId: seller?.id ?? null, price });
+          output.feed.push(createFeedEntry(trader, 'BOUGHT', pokemon, price, timestamp));
+        }
+      }
+    }
+  }
+
+  // Auctions opened during this run are saved whole, bids included; the others only get their new bids.
+  for (const { auction, newBids } of auctions) {
+    if (!createdAuctionIds.has(auction.id) && newBids.length > 0) {
+      output.auctionUpdates.push({ auctionId: auction.id, expectedBidCount: auction.bids.length - newBids.length, bids: newBids });
+    }
+  }
+  return output;
+};
+
+const createFeedEntry = (trader: NpcTrader, action: MarketFeedEntry['action'], pokemon: Pokemon, price: number, timestamp: string): MarketFeedEntry => ({
+  timestamp,
+  traderId: trader.id,
+  traderName: trader.name,
+  action,
+  pokemonId: pokemon.id,
+  pokemonName: pokemon.name,
+  rarity: pokemon.rarity,
+  price,
+  fromPlayer: action === 'BOUGHT' && pokemon.status === PokemonStatus.LISTED && !pokemon.traderId,
+});
+
+/**
+ * Configuration of the market simulation service; inject a clock and a seed for reproducible runs.
+ */
+export interface MarketSimulationConfig {
+  now?: () => number;
+  seed?: number; // Used when the simulation runs for the first time
+  tickMs?: number;
+}
+
+/**
+ * Runs the NPC trader simulation on a tick clock and persists its outcome. Ticks missed while the
+ * app was closed are simulated on the next settlement, so the player's listings can find buyers and the
+ * auctions receive their bids meanwhile. Expired listings and ended auctions are closed at the first
+ * settlement after their end.
+ */
+export class MarketSimulationService {
+  private readonly now: () => number;
+  private readonly seed: number | undefined;
+  private readonly tickMs: number;
+  private pendingSettlement: Promise<MarketSettlementResult> | null = null;
+
+  constructor(config: MarketSimulationConfig = {}) {
+    this.now = config.now ?? Date.now;
+    this.seed = config.seed;
+    this.tickMs = config.tickMs ?? SIMULATION_TICK_MS;
+  }
+
+  /**
+   * Simulates every tick elapsed since the last settlement. Calls made while one is running share its result.
+   * @param pricing The bounds the market prices are computed with.
+   * @returns A promise that resolves with the new market activity and what it changed for the player.
+   */
+  public settle(pricing: PricingConfig): Promise<MarketSettlementResult> {
+    if (!this.pendingSettlement) {
+      this.pendingSettlement = this.runSettlement(pricing).finally(() => {
+        this.pendingSettlement = null;
+      });
+    }
+    return this.pendingSettlement;
+  }
+
+  /**
+   * Resolves once the running settlement, if any, has finished, so the database can be switched safely.
+   */
+  public async waitForSettlement(): Promise<void> {
+    await this.pendingSettlement?.catch(() => undefined);
+  }
+
+  private async runSettlement(pricing: PricingConfig): Promise<MarketSettlementResult> {
+    const now = this.now();
+    const currentTick = Math.floor(now / this.tickMs);
+    const [storedState, storedTraders, pokemons, listings, auctions] = await Promise.all([
+      indexedDbService.getMarketSimulationState(),
+      indexedDbService.getNpcTraders(),
+      indexedDbService.getPokemons(),
+      indexedDbService.getListings(),
+      indexedDbService.getAuctions(),
+    ]);
+    const state: MarketSimulationState = storedState ?? {
+      id: 'marketSimulation',
+      seed: this.seed ?? Math.floor(Math.random() * 0x100000000),
+      lastTick: currentTick - WARM_UP_TICKS,
+    };
+    if (currentTick <= state.lastTick) return EMPTY_SETTLEMENT_RESULT;
+
+    const storedById = new Map(storedTraders.map(trader => [trader.id, trader]));
+    const traders = DEFAULT_NPC_TRADERS.map(trader => storedById.get(trader.id) ?? trader);
+    const startingBudgets = new Map(traders.map(trader => [trader.id, trader.budget]));
+    const engine = new PricingEngine(pricing);
+    const images = new Map<string, string>();
+    const pokemonsById = new Map(pokemons.map(pokemon => [pokemon.id, pokemon]));
+
+    const output = simulateTicks({
+      seed: state.seed,
+      fromTick: Math.max(state.lastTick, currentTick - MAX_CATCH_UP_TICKS),
+      toTick: currentTick,
+      tickMs: this.tickMs,
+      traders,
+      market: pokemons.filter(p => p.status === PokemonStatus.RESOLD || p.status === PokemonStatus.LISTED),
+      listings,
+      auctions: auctions
+        .filter(auction => auction.status === 'OPEN' && pokemonsById.has(auction.pokemonId))
+        .map(auction => ({ auction, pokemon: pokemonsById.get(auction.pokemonId)! })),
+      forgeCard: (trader, random, tick, timestamp) => {
+        const response = new MockGenerationProvider({ gradeWeights: trader.gradeWeights, latencyMs: 0, random }).generateResponse();
+        const { imageBase64, ...pokemon } = toPokemon({
+          ...response,
+          metadata: { ...response.metadata, id: `npc_${trader.id}_${tick.toString(36)}` },
+          generatedAt: timestamp,
+        });
+        images.set(pokemon.id, imageBase64);
+        return { ...pokemon, forgedBy: trader.id, traderId: trader.id };
+      },
+      getPrice: (pokemon, market, timestamp) => engine.quote(pokemon, buildMarketSnapshot(market, [], new Date(timestamp)), new Date(timestamp)).buy,
+    });
+
+    // Encoding is asynchronous, so it must happen before the settlement transaction opens.
+    const npcListings = await Promise.all(output.listed.map(async ({ pokemon, listing, auction }) => {
+      const fullImage = base64ToBlob(images.get(pokemon.id)!);
+      return { pokemon, listing, auction, fullImage, thumbnail: await createThumbnail(fullImage) };
+    }));
+    const settlement: MarketSettlement = {
+      previousTick: state.lastTick,
+      state: { ...state, lastTick: currentTick },
+      traders: output.traders,
+      budgetChanges: Object.fromEntries(output.traders.map(trader => [trader.id, trader.budget - startingBudgets.get(trader.id)!])),
+      listings: npcListings,
+      purchases: output.purchases,
+      auctionUpdates: output.auctionUpdates,
+      feed: output.feed,
+      settledAt: new Date(now).toISOString(),
+    };
+    return (await indexedDbService.applyMarketSettlement(settlement)) ?? EMPTY_SETTLEMENT_RESULT;
+  }
+}
+
+export const marketSimulationService = new MarketSimulationService();
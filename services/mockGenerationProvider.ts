@@ -0,0 +1,158 @@
+// services/mockGenerationProvider.ts
+
+import { GeneratedPokemon, ApiRarityGrade, GenerateApiResponse, PokemonRarity, DEFAULT_MOCK_GRADE_WEIGHTS } from '../types';
+import { GenerationOptions, GenerationProvider, toPokemon } from './generationProvider';
+import { getGuaranteedGradeWeights } from './packDefinitions';
+import { RandomSource, pickOne, pickWeighted, randomInt } from '../utils/random';
+
+const IMAGE_SIZE = 256;
+const SIMULATED_LATENCY = 800; // Keeps the forge animation visible, like a real call
+
+const NAME_PREFIXES = ['Pyro', 'Aqua', 'Volt', 'Terra', 'Flora', 'Givra', 'Ombra', 'Lumi', 'Draco', 'Zéphy', 'Ferro', 'Psy'];
+const NAME_SUFFIXES = ['chu', 'mon', 'saur', 'dor', 'lith', 'zar', 'rex', 'nix', 'pod', 'fleur', 'gon', 'tik'];
+
+/**
+ * Background hue and sparkle count for each grade, so higher grades look flashier.
+ */
+const GRADE_AURA: Record<ApiRarityGrade, { hue: number; sparkles: number }> = {
+  F: { hue: 210, sparkles: 0 },
+  E: { hue: 190, sparkles: 0 },
+  D: { hue: 160, sparkles: 1 },
+  C: { hue: 130, sparkles: 2 },
+  B: { hue: 275, sparkles: 4 },
+  A: { hue: 45, sparkles: 6 },
+  S: { hue: 30, sparkles: 9 },
+  'S+': { hue: 320, sparkles: 14 },
+};
+
+/**
+ * Configuration of the offline mock provider.
+ */
+export interface MockGenerationConfig {
+  gradeWeights?: Record<ApiRarityGrade, number>; // Relative odds of each grade
+  latencyMs?: number;
+  random?: RandomSource; // Inject a seeded source for reproducible output
+}
+
+/**
+ * Generates Pokémon locally with canvas-drawn creatures, so the app works without the EPSI server.
+ */
+export class MockGenerationProvider implements GenerationProvider {
+  public readonly id = 'mock' as const;
+  private readonly gradeWeights: Record<ApiRarityGrade, number>;
+  private readonly latencyMs: number;
+  private readonly random: RandomSource;
+
+  constructor(config: MockGenerationConfig = {}) {
+    this.gradeWeights = config.gradeWeights ?? DEFAULT_MOCK_GRADE_WEIGHTS;
+    this.latencyMs = config.latencyMs ?? SIMULATED_LATENCY;
+    this.random = config.random ?? Math.random;
+  }
+
+  public async generatePokemon(options: GenerationOptions = {}): Promise<GeneratedPokemon> {
+    await new Promise(resolve => setTimeout(resolve, this.latencyMs));
+    return toPokemon(this.generateResponse(options.minRarity));
+  }
+
+  /**
+   * Builds a payload shaped like the real API response.
+   * @param minRarity The lowest rarity to draw, if any: the grade is picked among the ones reaching it.
+   */
+  public generateResponse(minRarity?: PokemonRarity): GenerateApiResponse {
+    const grade = pickWeighted(this.random, minRarity ? getGuaranteedGradeWeights(this.gradeWeights, minRarity) : this.gradeWeights);
+    const idSuffix = Array.from({ length: 10 }, () => randomInt(this.random, 0, 35).toString(36)).join('').toUpperCase();
+    return {
+      imageBase64: this.drawCreature(grade),
+      metadata: {
+        id: `mock_${Date.now().toString(36).toUpperCase()}${idSuffix}`,
+        name: `${pickOne(this.random, NAME_PREFIXES)}${pickOne(this.random, NAME_SUFFIXES)}`,
+        rarity: grade,
+      },
+      generatedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Draws a procedural creature on a canvas.
+   * @returns The PNG image encoded in base64, without the data URL prefix.
+   */
+  private drawCreature(grade: ApiRarityGrade): string {
+    const canvas = document.createElement('canvas');
+    canvas.width = IMAGE_SIZE;
+    canvas.height = IMAGE_SIZE;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D context is not available in this browser.');
+
+    const center = IMAGE_SIZE / 2;
+    const { hue: auraHue, sparkles } = GRADE_AURA[grade];
+    const background = ctx.createRadialGradient(center, center, 10, center, center, IMAGE_SIZE * 0.7);
+    background.addColorStop(0, `hsl(${auraHue}, 70%, 85%)`);
+    background.addColorStop(1, `hsl(${auraHue}, 60%, 35%)`);
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, IMAGE_SIZE, IMAGE_SIZE);
+
+    const bodyHue = randomInt(this.random, 0, 359);
+    const bodyWidth = randomInt(this.random, 55, 80);
+    const bodyHeight = randomInt(this.random, 60, 85);
+    const bodyY = center + 20;
+
+    // Ears or horns
+    const earCount = randomInt(this.random, 0, 3);
+    ctx.fillStyle = `hsl(${bodyHue}, 55%, 40%)`;
+    for (let i = 0; i < earCount; i++) {
+      const offset = (i - (earCount - 1) / 2) * 40;
+      ctx.beginPath();
+      ctx.moveTo(center + offset - 15, bodyY - bodyHeight + 15);
+      ctx.lineTo(center + offset, bodyY - bodyHeight - randomInt(this.random, 25, 50));
+      ctx.lineTo(center + offset + 15, bodyY - bodyHeight + 15);
+      ctx.closePath();
+      ctx.fill();
+    }
+
+    // Body and belly
+    ctx.fillStyle = `hsl(${bodyHue}, 65%, 55%)`;
+    ctx.beginPath();
+    ctx.ellipse(center, bodyY, bodyWidth, bodyHeight, 0, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.fillStyle = `hsl(${bodyHue}, 70%, 80%)`;
+    ctx.beginPath();
+    ctx.ellipse(center, bodyY + bodyHeight * 0.3, bodyWidth * 0.55, bodyHeight * 0.5, 0, 0, Math.PI * 2);
+    ctx.fill();
+
+    // Eyes
+    const eyeSpacing = bodyWidth * 0.4;
+    const eyeY = bodyY - bodyHeight * 0.35;
+    const eyeRadius = randomInt(this.random, 8, 14);
+    for (const side of [-1, 1]) {
+      ctx.fillStyle = '#ffffff';
+      ctx.beginPath();
+      ctx.arc(center + side * eyeSpacing, eyeY, eyeRadius, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.fillStyle = '#111827';
+      ctx.beginPath();
+      ctx.arc(center + side * eyeSpacing + 2, eyeY + 2, eyeRadius * 0.5, 0, Math.PI * 2);
+      ctx.fill();
+    }
+
+    // Sparkles for the higher grades
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
+    for (let i = 0; i < sparkles; i++) {
+      const x = randomInt(this.random, 10, IMAGE_SIZE - 10);
+      const y = randomInt(this.random, 10, IMAGE_SIZE - 10);
+      const radius = randomInt(this.random, 2, 5);
+      ctx.beginPath();
+      ctx.moveTo(x, y - radius * 2);
+      ctx.lineTo(x + radius / 2, y - radius / 2);
+      ctx.lineTo(x + radius * 2, y);
+      ctx.lineTo(x + radius / 2, y + radius / 2);
+      ctx.lineTo(x, y + radius * 2);
+      ctx.lineTo(x - radius / 2, y + radius / 2);
+      ctx.lineTo(x - radius * 2, y);
+      ctx.lineTo(x - radius / 2, y - radius / 2);
+      ctx.closePath();
+      ctx.fill();
+    }
+
+    return canvas.toDataURL('image/png').split(',')[1];
+  }
+}
@@ -0,0 +1,74 @@
+// services/packDefinitions.ts
+
+import { ApiRarityGrade, API_RARITY_GRADES, GeneratedPokemon, PackDefinition, PackSlot, PokemonRarity } from '../types';
+import { MessageKey } from '../locales/fr';
+import { mapApiRarityToEnum } from './generationProvider';
+import { i18n } from './i18n';
+import { RARITY_SCORES } from '../utils/grades';
+
+/**
+ * Every booster pack sold in the Studio, in display order. IDs are persisted on the queued forges:
+ * never rename one. Names live in the catalogs, under `pack.<id>.name`.
+ */
+export const PACK_DEFINITIONS: PackDefinition[] = [
+  { id: 'TRIO', size: 3, price: 27, guarantees: [] },
+  { id: 'ELITE', size: 5, price: 42, guarantees: [{ rarity: PokemonRarity.RARE, count: 1 }] },
+];
+
+/**
+ * @returns The pack's name in the active language.
+ */
+export const getPackName = (definition: PackDefinition): string =>
+  i18n.t(`pack.${definition.id}.name` as MessageKey);
+
+/**
+ * Whether a card meets a guaranteed rarity.
+ */
+export const meetsGuarantee = (rarity: PokemonRarity, minRarity: PokemonRarity): boolean =>
+  RARITY_SCORES[rarity] >= RARITY_SCORES[minRarity];
+
+/**
+ * Odds of a guaranteed slot drawn with the given grade weights: the weights restricted to the grades
+ * of the rarity or better.
+ */
+export const getGuaranteedGradeWeights = (gradeWeights: Record<ApiRarityGrade, number>, rarity: PokemonRarity): Record<ApiRarityGrade, number> =>
+  Object.fromEntries(API_RARITY_GRADES.map(grade => [
+    grade,
+    meetsGuarantee(mapApiRarityToEnum(grade), rarity) ? gradeWeights[grade] : 0,
+  ])) as Record<ApiRarityGrade, number>;
+
+/**
+ * Raises a card below a guaranteed rarity to the lowest grade of that rarity. Only needed for the
+ * providers that can't be asked for a rarity, like the API, which takes no parameters.
+ */
+export const raiseToRarity = (pokemon: GeneratedPokemon, minRarity: PokemonRarity): GeneratedPokemon => {
+  if (meetsGuarantee(pokemon.rarity, minRarity)) return pokemon;
+  const grade = API_RARITY_GRADES.find(candidate => mapApiRarityToEnum(candidate) === minRarity)!;
+  return { ...pokemon, rarity: minRarity, grade };
+};
+
+/**
+ * Splits a pack into its slots: the regular ones first, then one per guaranteed card. The price is shared
+ * so that the slot costs add up to it exactly, whatever the size.
+ */
+export const getPackSlots = (definition: PackDefinition): PackSlot[] => {
+  const guaranteedRarities = definition.guarantees.flatMap(({ rarity, count }) => Array<PokemonRarity>(count).fill(rarity));
+  const firstGuaranteedSlot = definition.size - guaranteedRarities.length;
+  return Array.from({ length: definition.size }, (_, index) => {
+    const cost = Math.floor((definition.price * (index + 1)) / definition.size) - Math.floor((definition.price * index) / definition.size);
+    return index >= firstGuaranteedSlot ? { cost, minRarity: guaranteedRarities[index - firstGuaranteedSlot] } : { cost };
+  });
+};
+
+/**
+ * Chance of each rarity for a slot forged with the given grade weights.
+ */
+export const getRarityOdds = (gradeWeights: Record<ApiRarityGrade, number>): Record<PokemonRarity, number> => {
+  const odds = Object.fromEntries(Object.values(PokemonRarity).map(rarity => [rarity, 0])) as Record<PokemonRarity, number>;
+  const total = API_RARITY_GRADES.reduce((sum, grade) => sum + gradeWeights[grade], 0);
+  if (total <= 0) return odds;
+  for (const grade of API_RARITY_GRADES) {
+    odds[mapApiRarityToEnum(grade)] += gradeWeights[grade] / total;
+  }
+  return odds;
+};
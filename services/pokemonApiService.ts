@@ -1,113 +1,102 @@
 // services/pokemonApiService.ts
 
-import { Pokemon, PokemonStatus, PokemonRarity, ApiErrorResponse } from '../types';
+import { GeneratedPokemon, ApiErrorResponse, GenerateApiResponse } from '../types';
+import { GenerationProvider, isGenerateApiResponse, toPokemon } from './generationProvider';
+import { ApiError, RateLimitError, TimeoutError, NetworkError, InvalidResponseError, createApiError } from './apiErrors';
+import { retryWithBackoff } from '../utils/retry';
+import { i18n } from './i18n';
 
-const API_BASE_URL = 'https://epsi.journeesdecouverte.fr:22222/v1'; // Changed to HTTPS
-const AUTH_TOKEN = 'EPSI'; // Statically defined Bearer token as per docs/03-authentication.md
+export const DEFAULT_API_BASE_URL = 'https://epsi.journeesdecouverte.fr:22222/v1'; // Changed to HTTPS
+export const DEFAULT_AUTH_TOKEN = 'EPSI'; // Statically defined Bearer token as per docs/03-authentication.md
 const REQUEST_TIMEOUT = 30000; // 30 seconds timeout for the API request
+const MAX_ATTEMPTS = 3; // First call plus two retries for transient failures
+const RETRY_BASE_DELAY = 1000;
+const RETRY_MAX_DELAY = 8000;
+const MAX_AUTOMATIC_RETRY_AFTER = 5000; // Longer Retry-After delays are left to the user
 
 /**
- * Maps the old rarity strings from the API to the new PokemonRarity enum.
- * @param apiRarity The rarity string from the API (e.g., 'F', 'A', 'S+').
- * @returns The corresponding PokemonRarity enum value.
+ * Configuration of the HTTP generation provider.
  */
-const mapApiRarityToEnum = (apiRarity: string): PokemonRarity => {
-  switch (apiRarity) {
-    case 'F':
-    case 'E':
-      return PokemonRarity.COMMON;
-    case 'D':
-    case 'C':
-      return PokemonRarity.RARE;
-    case 'B':
-      return PokemonRarity.EPIC;
-    case 'A':
-    case 'S':
-      return PokemonRarity.LEGENDARY;
-    case 'S+':
-      return PokemonRarity.MYTHIC;
-    default:
-      console.warn(`Unknown rarity received from API: "${apiRarity}". Defaulting to Common.`);
-      return PokemonRarity.COMMON;
-  }
-};
+export interface PokemonApiConfig {
+  baseUrl: string;
+  authToken: string;
+  onResponse?: (response: GenerateApiResponse) => void; // Called with every valid raw response, e.g. to record fixtures
+}
 
 /**
  * Service for interacting with the external Pokémon generation API.
  */
-export class PokemonApiService {
+export class PokemonApiService implements GenerationProvider {
+  public readonly id = 'http' as const;
+
+  constructor(private readonly config: PokemonApiConfig) {}
 
   /**
    * Generates a new Pokémon by calling the external API.
-   * Handles authentication, timeouts, and error responses.
+   * Transient failures (network, timeout, 5xx, short rate limits) are retried with
+   * exponential backoff and jitter; 429 responses honor `Retry-After`.
    * @returns A promise that resolves with the generated Pokemon object.
-   * @throws {Error} if the API call fails or returns an error.
+   * @throws {ApiError} a typed error once the retry policy gives up.
+   */
+  public async generatePokemon(): Promise<GeneratedPokemon> {
+    return retryWithBackoff(() => this.requestPokemon(), {
+      maxAttempts: MAX_ATTEMPTS,
+      baseDelayMs: RETRY_BASE_DELAY,
+      maxDelayMs: RETRY_MAX_DELAY,
+      shouldRetry: error => {
+        if (error instanceof RateLimitError) {
+          // Long waits are surfaced to the Studio countdown instead of blocking the forge.
+          return error.retryAfterMs === null || error.retryAfterMs <= MAX_AUTOMATIC_RETRY_AFTER;
+        }
+        return error instanceof ApiError && error.isTransient;
+      },
+      getRetryDelay: error => error instanceof RateLimitError ? error.retryAfterMs : null,
+    });
+  }
+
+  /**
+   * Performs a single call to the generate endpoint.
    */
-  public async generatePokemon(): Promise<Pokemon> {
-    const url = `${API_BASE_URL}/generate`;
+  private async requestPokemon(): Promise<GeneratedPokemon> {
+    const url = `${this.config.baseUrl}/generate`;
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT);
 
+    let res: Response;
     try {
-      const res = await fetch(url, {
+      res = await fetch(url, {
         method: 'GET',
         headers: {
-          'Authorization': `Bearer ${AUTH_TOKEN}`,
+          'Authorization': `Bearer ${this.config.authToken}`,
         },
         mode: 'cors',
         signal: controller.signal,
       });
+    } catch (error) {
+      console.error('Network error while calling the Pokémon API:', error);
 
-      clearTimeout(timeoutId);
-
-      if (!res.ok) {
-        const errorData: ApiErrorResponse = await res.json().catch(() => ({
-          error: {
-            code: 'UNKNOWN_ERROR',
-            message: `HTTP error! Status: ${res.status}`,
-            timestamp: new Date().toISOString()
-          }
-        }));
-        console.error('API Error Response:', errorData);
-        throw new Error(errorData?.error?.message || `Failed to generate Pokémon (HTTP ${res.status})`);
-      }
-
-      const data = await res.json();
-
-      if (!data || !data.imageBase64 || !data.metadata || !data.metadata.id || !data.metadata.name || !data.metadata.rarity || !data.generatedAt) {
-        throw new Error('Invalid API response format received: missing expected fields.');
+      if ((error as Error).name === 'AbortError') {
+        throw new TimeoutError(i18n.t('errors.apiTimeout', { seconds: REQUEST_TIMEOUT / 1000 }));
       }
 
-      const pokemon: Pokemon = {
-        id: data.metadata.id,
-        name: data.metadata.name,
-        rarity: mapApiRarityToEnum(data.metadata.rarity), // Map old rarity to new enum
-        imageBase64: data.imageBase64,
-        generatedAt: data.generatedAt,
-        status: PokemonStatus.OWNED,
-        isFavorite: false, // Initialize as not favorite
-      };
+      throw new NetworkError(i18n.t('errors.apiUnreachable', { url }));
+    } finally {
+      clearTimeout(timeoutId);
+    }
 
-      return pokemon;
+    if (!res.ok) {
+      const errorData: ApiErrorResponse | null = await res.json().catch(() => null);
+      console.error('API Error Response:', res.status, errorData);
+      throw createApiError(res.status, errorData, res.headers.get('Retry-After'));
+    }
 
-    } catch (error) {
-      clearTimeout(timeoutId);
-      console.error('Network or API processing error:', error);
-      
-      if ((error as Error).name === 'AbortError') {
-        throw new Error(`The Pokémon generation request timed out after ${REQUEST_TIMEOUT / 1000} seconds. The API might be busy, please try again later.`);
-      }
+    const data = await res.json().catch(() => null);
 
-      if (error instanceof TypeError && error.message === 'Failed to fetch') {
-        throw new Error(
-          'Could not connect to the Pokémon API. This might be a network issue, the API server being down, or a self-signed HTTPS certificate. If the API uses a self-signed certificate, please try opening ' +
-          API_BASE_URL + '/generate' + 
-          ' in a new browser tab and accepting the security warning, then refresh this page. Also, verify the API server has correct CORS configuration for your client application\'s origin.'
-        );
-      }
-      throw error;
+    if (!isGenerateApiResponse(data)) {
+      throw new InvalidResponseError(i18n.t('errors.apiInvalidResponse'), res.status);
     }
+
+    this.config.onResponse?.(data);
+    return toPokemon(data);
   }
 }
-
-export const pokemonApiService = new PokemonApiService();
\ No newline at end of file
@@ -0,0 +1,165 @@
+// services/pricingEngine.ts
+
+import { LedgerEntry, LedgerReason, MarketSnapshot, PlayerSettings, Pokemon, PokemonGrade, PokemonRarity, PokemonStatus, PriceFactor, PriceQuote, UNKNOWN_GRADE } from '../types';
+import { i18n } from './i18n';
+
+/**
+ * Bounds and spread of the prices quoted by the engine.
+ */
+export interface PricingConfig {
+  floor: number; // Lowest resale price
+  ceiling: number; // Highest resale price
+  buyMarkup: number; // Buy price as a multiple of the resale price
+}
+
+/**
+ * The market sells cards at twice their resale price.
+ */
+const BUY_MARKUP = 2;
+
+/**
+ * Reads the pricing bounds from the player settings.
+ */
+export const getPricingConfig = (settings: PlayerSettings | null): PricingConfig => ({
+  floor: settings?.priceFloor ?? 1,
+  ceiling: settings?.priceCeiling ?? Infinity,
+  buyMarkup: BUY_MARKUP,
+});
+
+/**
+ * How far back sales and purchases count as recent transaction volume.
+ */
+export const VOLUME_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SUPPLY_REFERENCE = 3; // Listed cards of a rarity at which supply leaves the price unchanged
+const SUPPLY_STEP = 0.05; // Price change per listed card above or below the reference
+const SUPPLY_RANGE: [min: number, max: number] = [0.6, 1.2];
+const VOLUME_REASONS = [LedgerReason.RESALE, LedgerReason.LISTING_SALE, LedgerReason.MARKET_PURCHASE]; // Ledger entries counted as volume
+const VOLUME_STEP = 0.03; // Price increase per recent transaction
+const VOLUME_MAX_BONUS = 0.3;
+const AGE_WEEKLY_BONUS = 0.01; // Older cards slowly become collectibles
+const AGE_MAX_BONUS = 0.25;
+
+/**
+ * Resale value of each grade before market adjustments.
+ */
+const GRADE_BASE_VALUES: Record<Exclude<PokemonGrade, typeof UNKNOWN_GRADE>, number> = {
+  F: 4,
+  E: 6,
+  D: 8,
+  C: 12,
+  B: 20,
+  A: 32,
+  S: 48,
+  'S+': 80,
+};
+
+/**
+ * Resale value of legacy cards without a known grade, by rarity tier.
+ */
+const RARITY_BASE_VALUES: Record<PokemonRarity, number> = {
+  [PokemonRarity.COMMON]: 5,
+  [PokemonRarity.RARE]: 10,
+  [PokemonRarity.EPIC]: 20,
+  [PokemonRarity.LEGENDARY]: 40,
+  [PokemonRarity.MYTHIC]: 80,
+};
+
+const clamp = (value: number, min: number, max: number): number => Math.min(max, Math.max(min, value));
+
+const formatMultiplier = (multiplier: number): string =>
+  `×${i18n.formatNumber(multiplier, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const emptyRarityCounts = (): Record<PokemonRarity, number> =>
+  Object.fromEntries(Object.values(PokemonRarity).map(rarity => [rarity, 0])) as Record<PokemonRarity, number>;
+
+/**
+ * Aggregates the market conditions the engine prices from.
+ * @param pokemons Every stored Pokémon; the RESOLD and LISTED ones are the market supply.
+ * @param recentEntries Ledger entries within the volume window; sales and purchases count as volume.
+ * @param now The reference time of the snapshot.
+ */
+export const buildMarketSnapshot = (pokemons: Pokemon[], recentEntries: LedgerEntry[], now: Date = new Date()): MarketSnapshot => {
+  const listedByRarity = emptyRarityCounts();
+  const recentVolumeByRarity = emptyRarityCounts();
+  const rarityById = new Map(pokemons.map(p => [p.id, p.rarity]));
+
+  for (const pokemon of pokemons) {
+    if (pokemon.status === PokemonStatus.RESOLD || pokemon.status === PokemonStatus.LISTED) listedByRarity[pokemon.rarity]++;
+  }
+  const windowStart = now.getTime() - VOLUME_WINDOW_MS;
+  for (const entry of recentEntries) {
+    if (!VOLUME_REASONS.includes(entry.reason)) continue;
+    const rarity = entry.pokemonId ? rarityById.get(entry.pokemonId) : undefined;
+    if (rarity && new Date(entry.timestamp).getTime() >= windowStart) recentVolumeByRarity[rarity]++;
+  }
+  return { listedByRarity, recentVolumeByRarity, takenAt: now.toISOString() };
+};
+
+/**
+ * Quotes market prices from a card's grade (or rarity for legacy cards), the supply of its rarity,
+ * the recent transaction volume and the card's age, within a configurable floor and ceiling.
+ */
+export class PricingEngine {
+  constructor(private readonly config: PricingConfig) {}
+
+  /**
+   * Quotes the price of a rarity and grade, regardless of the card's age. This is the price recorded in the history.
+   */
+  public quoteSeries(rarity: PokemonRarity, grade: PokemonGrade, snapshot: MarketSnapshot): PriceQuote {
+    return this.computeQuote(rarity, grade, snapshot, []);
+  }
+
+  /**
+   * Quotes the resale and buy prices of a card.
+   * @param pokemon The card to price.
+   * @param snapshot The current market conditions.
+   * @param now The reference time for the card's age.
+   */
+  public quote(pokemon: Pokemon, snapshot: MarketSnapshot, now: Date = new Date()): PriceQuote {
+    const ageDays = Math.max(0, Math.floor((now.getTime() - new Date(pokemon.generatedAt).getTime()) / DAY_MS));
+    const ageFactor: PriceFactor = {
+      kind: 'age',
+      count: ageDays,
+      rarity: pokemon.rarity,
+      multiplier: 1 + Math.min(AGE_MAX_BONUS, (ageDays / 7) * AGE_WEEKLY_BONUS),
+    };
+    return this.computeQuote(pokemon.rarity, pokemon.grade, snapshot, [ageFactor]);
+  }
+
+  private computeQuote(rarity: PokemonRarity, grade: PokemonGrade, snapshot: MarketSnapshot, extraFactors: PriceFactor[]): PriceQuote {
+    const baseValue = grade === UNKNOWN_GRADE ? RARITY_BASE_VALUES[rarity] : GRADE_BASE_VALUES[grade];
+    const listed = snapshot.listedByRarity[rarity];
+    const volume = snapshot.recentVolumeByRarity[rarity];
+    const factors: PriceFactor[] = [
+      {
+        kind: 'supply',
+        count: listed,
+        rarity,
+        multiplier: clamp(1 - SUPPLY_STEP * (listed - SUPPLY_REFERENCE), ...SUPPLY_RANGE),
+      },
+      {
+        kind: 'demand',
+        count: volume,
+        rarity,
+        multiplier: 1 + Math.min(VOLUME_MAX_BONUS, VOLUME_STEP * volume),
+      },
+      ...extraFactors,
+    ];
+
+    const rawPrice = Math.round(factors.reduce((price, factor) => price * factor.multiplier, baseValue));
+    const sell = clamp(rawPrice, this.config.floor, this.config.ceiling);
+    const limit = sell > rawPrice ? 'floor' : sell < rawPrice ? 'ceiling' : null;
+    return { sell, buy: Math.round(sell * this.config.buyMarkup), baseValue, factors, limit };
+  }
+}
+
+/**
+ * Formats a price factor for the price explanation in the active language, e.g. "Offre (5 cartes Épique en vente) ×0,90".
+ */
+export const describePriceFactor = (factor: PriceFactor): string => i18n.t(`price.factor.${factor.kind}`, {
+  count: factor.count,
+  rarity: i18n.formatRarity(factor.rarity),
+  multiplier: formatMultiplier(factor.multiplier),
+});
@@ -0,0 +1,178 @@
+// services/profileService.ts
+
+import { PlayerProfile, ScoreSnapshot, DB_NAME, PROFILES_DB_NAME, PROFILES_DB_VERSION, DEFAULT_PROFILE_ID } from '../types';
+import { indexedDbService, promisifyRequest } from './indexedDbService';
+import { dataChangeChannel } from './dataChangeChannel';
+import { i18n } from './i18n';
+
+export const PROFILES_STORE = 'profiles';
+const SCORES_STORE = 'scores'; // Latest score snapshot of each profile, keyed by profile ID
+
+/**
+ * Error raised when a profile operation is refused: unknown profile, empty name, or deleting the profile in use.
+ */
+export class ProfileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProfileError';
+  }
+}
+
+/**
+ * Keeps the list of local player profiles, and the scores they rank on in the local leaderboard, in a small database of its own.
+ * Each profile's save lives in a separate database, which `indexedDbService` is pointed at when the profile is opened.
+ */
+export class ProfileService {
+  private db: IDBDatabase | null = null;
+
+  /**
+   * Lists the profiles, most recently used first. On the first launch with profiles, the existing save
+   * is adopted as the default profile, named after the player name from its settings.
+   */
+  public async getProfiles(): Promise<PlayerProfile[]> {
+    let profiles = await this.withStore<PlayerProfile[]>(PROFILES_STORE, 'readonly', store => promisifyRequest(store.getAll()));
+    if (profiles.length === 0) {
+      indexedDbService.useDatabase(DB_NAME);
+      const { playerName } = await indexedDbService.getPlayerSettings();
+      const now = new Date().toISOString();
+      const defaultProfile: PlayerProfile = { id: DEFAULT_PROFILE_ID, name: playerName || i18n.t('profile.defaultName'), dbName: DB_NAME, createdAt: now, lastUsedAt: now };
+      await this.withStore(PROFILES_STORE, 'readwrite', store => promisifyRequest(store.put(defaultProfile)));
+      profiles = [defaultProfile];
+    }
+    return profiles.sort((a, b) => b.lastUsedAt.localeCompare(a.lastUsedAt));
+  }
+
+  /**
+   * Creates an empty profile. Its database is created the first time the profile is opened.
+   * @param name The player name shown for the profile.
+   * @throws {ProfileError} if the name is empty.
+   */
+  public async createProfile(name: string): Promise<PlayerProfile> {
+    const id = `profile_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+    const now = new Date().toISOString();
+    const profile: PlayerProfile = { id, name: validateName(name), dbName: `${DB_NAME}_${id}`, createdAt: now, lastUsedAt: now };
+    await this.withStore(PROFILES_STORE, 'readwrite', store => promisifyRequest(store.add(profile)));
+    return profile;
+  }
+
+  /**
+   * @throws {ProfileError} if the profile is unknown or the name is empty.
+   */
+  public async renameProfile(id: string, name: string): Promise<PlayerProfile> {
+    return this.updateProfile(id, profile => ({ ...profile, name: validateName(name) }));
+  }
+
+  /**
+   * Marks a profile as the one to open on the next launch and points the save service at its database.
+   * @throws {ProfileError} if the profile is unknown.
+   */
+  public async openProfile(id: string): Promise<PlayerProfile> {
+    const profile = await this.updateProfile(id, stored => ({ ...stored, lastUsedAt: new Date().toISOString() }));
+    indexedDbService.useDatabase(profile.dbName);
+    return profile;
+  }
+
+  /**
+   * Deletes a profile along with its whole save.
+   * @param id The profile to delete.
+   * @param activeId The profile in use, which can't be deleted.
+   * @throws {ProfileError} if the profile is the one in use, or its database is still open in another tab.
+   */
+  public async deleteProfile(id: string, activeId: string): Promise<void> {
+    if (id === activeId) throw new ProfileError(i18n.t('errors.profileInUse'));
+    const profile = await this.withStore<PlayerProfile | undefined>(PROFILES_STORE, 'readonly', store => promisifyRequest(store.get(id)));
+    if (!profile) throw new ProfileError(i18n.t('errors.profileNotFound'));
+    await new Promise<void>((resolve, reject) => {
+      const request = indexedDB.deleteDatabase(profile.dbName);
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(new ProfileError(i18n.t('errors.profileOpenElsewhere', { name: profile.name })));
+    });
+    await this.withStore([PROFILES_STORE, SCORES_STORE], 'readwrite', async (profileStore, scoreStore) => {
+      await promisifyRequest(profileStore.delete(id));
+      await promisifyRequest(scoreStore.delete(id));
+    });
+  }
+
+  /**
+   * Stores the latest scores of a profile for the local leaderboard, replacing the previous ones.
+   * @param profileId The profile the scores belong to.
+   */
+  public async saveScore(profileId: string, snapshot: ScoreSnapshot): Promise<void> {
+    await this.withStore(SCORES_STORE, 'readwrite', store => promisifyRequest(store.put({ ...snapshot, profileId })));
+  }
+
+  /**
+   * Lists the latest scores of every profile that submitted some.
+   */
+  public async getScores(): Promise<(ScoreSnapshot & { profileId: string })[]> {
+    return this.withStore(SCORES_STORE, 'readonly', store => promisifyRequest(store.getAll()));
+  }
+
+  private async updateProfile(id: string, update: (profile: PlayerProfile) => PlayerProfile): Promise<PlayerProfile> {
+    return this.withStore<PlayerProfile>(PROFILES_STORE, 'readwrite', async store => {
+      const stored = await promisifyRequest<PlayerProfile | undefined>(store.get(id));
+      if (!stored) throw new ProfileError(i18n.t('errors.profileNotFound'));
+      const profile = update(stored);
+      await promisifyRequest(store.put(profile));
+      return profile;
+    });
+  }
+
+  private async openDatabase(): Promise<IDBDatabase> {
+    if (this.db) return this.db;
+    this.db = await new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(PROFILES_DB_NAME, PROFILES_DB_VERSION);
+      request.onupgradeneeded = (event: IDBVersionChangeEvent) => {
+        if (event.oldVersion < 1) {
+          request.result.createObjectStore(PROFILES_STORE, { keyPath: 'id' });
+        }
+        if (event.oldVersion < 2) {
+          request.result.createObjectStore(SCORES_STORE, { keyPath: 'profileId' });
+        }
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // Let another tab upgrade the registry; the next operation reopens it.
+        db.onversionchange = () => {
+          db.close();
+          if (this.db === db) this.db = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+    });
+    return this.db;
+  }
+
+  private async withStore<T>(storeNames: string | string[], mode: IDBTransactionMode, callback: (...stores: IDBObjectStore[]) => Promise<T>): Promise<T> {
+    const db = await this.openDatabase();
+    return new Promise((resolve, reject) => {
+      const names = Array.isArray(storeNames) ? storeNames : [storeNames];
+      const transaction = db.transaction(names, mode);
+      let result: T;
+      transaction.oncomplete = () => {
+        if (mode === 'readwrite') dataChangeChannel.publish(PROFILES_DB_NAME, names);
+        resolve(result);
+      };
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+      callback(...names.map(name => transaction.objectStore(name)))
+        .then(value => {
+          result = value;
+        })
+        .catch(error => {
+          reject(error);
+          transaction.abort();
+        });
+    });
+  }
+}
+
+const validateName = (name: string): string => {
+  const trimmed = name.trim();
+  if (!trimmed) throw new ProfileError(i18n.t('errors.profileNameEmpty'));
+  return trimmed.slice(0, 40);
+};
+
+export const profileService = new ProfileService();
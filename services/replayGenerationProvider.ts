@@ -0,0 +1,30 @@
+// services/replayGenerationProvider.ts
+
+import { GeneratedPokemon, GenerationFixture } from '../types';
+import { GenerationProvider, toPokemon } from './generationProvider';
+import { i18n } from './i18n';
+
+/**
+ * Serves generation responses previously recorded from the real API, in order and looping.
+ * Each replay gets a fresh ID and timestamp so it can be stored next to the original card.
+ */
+export class ReplayGenerationProvider implements GenerationProvider {
+  public readonly id = 'replay' as const;
+  private cursor = 0;
+
+  constructor(private readonly loadFixtures: () => Promise<GenerationFixture[]>) {}
+
+  public async generatePokemon(): Promise<GeneratedPokemon> {
+    const fixtures = await this.loadFixtures();
+    if (fixtures.length === 0) {
+      throw new Error(i18n.t('errors.replayEmpty'));
+    }
+    const { response } = fixtures[this.cursor % fixtures.length];
+    this.cursor++;
+    return toPokemon({
+      ...response,
+      metadata: { ...response.metadata, id: `${response.metadata.id}_replay_${Date.now().toString(36)}` },
+      generatedAt: new Date().toISOString(),
+    });
+  }
+}
@@ -0,0 +1,93 @@
+// services/router.ts
+
+import { Route } from '../types';
+import { formatRoute, parseRoute } from '../utils/routes';
+
+/**
+ * The current location of the app. `background` is the page a card was opened from, so that it stays
+ * rendered behind the card; it is null when the card was reached directly, e.g. from a shared link.
+ */
+export interface Location {
+  route: Route;
+  background: Route | null;
+}
+
+export interface NavigateOptions {
+  replace?: boolean; // Replace the current history entry instead of adding one, e.g. while editing filters
+  background?: Route; // Page kept behind a card
+}
+
+interface HistoryState {
+  background?: string; // Path of the background page
+}
+
+type LocationListener = (location: Location) => void;
+
+/**
+ * Keeps the app's location in the browser history, so views, filters and cards have URLs that can be
+ * bookmarked, shared and navigated with the Back and Forward buttons.
+ */
+export class Router {
+  private location: Location;
+  private readonly listeners = new Set<LocationListener>();
+
+  constructor() {
+    this.location = this.readLocation();
+    if (typeof window !== 'undefined') {
+      window.addEventListener('popstate', () => this.update());
+    }
+  }
+
+  public getLocation = (): Location => this.location;
+
+  public navigate = (route: Route, options: NavigateOptions = {}): void => {
+    const path = formatRoute(route);
+    const state: HistoryState = options.background ? { background: formatRoute(options.background) } : {};
+    if (`${window.location.pathname}${window.location.search}` === path && !options.background) return;
+    if (options.replace) {
+      window.history.replaceState(state, '', path);
+    } else {
+      window.history.pushState(state, '', path);
+    }
+    this.update();
+  };
+
+  public back = (): void => window.history.back();
+
+  /**
+   * @returns A function removing the listener.
+   */
+  public subscribe = (listener: LocationListener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  private update(): void {
+    this.location = this.readLocation();
+    for (const listener of this.listeners) listener(this.location);
+  }
+
+  private readLocation(): Location {
+    if (typeof window === 'undefined') return { route: { view: 'studio' }, background: null };
+    const state = window.history.state as HistoryState | null;
+    let background: Route | null = null;
+    if (state?.background) {
+      const url = new URL(state.background, window.location.origin);
+      background = parseRoute(url.pathname, url.search);
+    }
+    return { route: this.reuse(parseRoute(window.location.pathname, window.location.search)), background: this.reuse(background) };
+  }
+
+  /**
+   * Keeps the previous object of a route that did not change, so the filters it holds stay stable dependencies.
+   */
+  private reuse<T extends Route | null>(route: T): T {
+    if (!route || !this.location) return route;
+    const path = formatRoute(route);
+    return ([this.location.route, this.location.background].find(previous => previous && formatRoute(previous) === path) ?? route) as T;
+  }
+}
+
+export const router = new Router();
@@ -1,24 +1,100 @@
 // types.ts
 
 /**
- * Enum for Pokémon rarity levels.
+ * Enum for Pokémon rarity levels. The values are stored, so they stay language-neutral;
+ * the displayed names come from the message catalogs.
  */
 export enum PokemonRarity {
-  COMMON = 'Commun',
-  RARE = 'Rare',
-  EPIC = 'Épique',
-  LEGENDARY = 'Légendaire',
-  MYTHIC = 'Mythique',
+  COMMON = 'COMMON',
+  RARE = 'RARE',
+  EPIC = 'EPIC',
+  LEGENDARY = 'LEGENDARY',
+  MYTHIC = 'MYTHIC',
 }
 
 /**
- * Enum for Pokémon status (owned or resold).
+ * The French display names that were stored as rarities before version 14, mapped to their codes.
+ */
+export const LEGACY_RARITY_NAMES: Record<string, PokemonRarity> = {
+  'Commun': PokemonRarity.COMMON,
+  'Rare': PokemonRarity.RARE,
+  'Épique': PokemonRarity.EPIC,
+  'Légendaire': PokemonRarity.LEGENDARY,
+  'Mythique': PokemonRarity.MYTHIC,
+};
+
+/**
+ * Enum for Pokémon status (owned, on sale or sold).
  */
 export enum PokemonStatus {
   OWNED = 'OWNED',
-  RESOLD = 'RESOLD',
+  RESOLD = 'RESOLD', // Sold to the house, which keeps it on sale on the market
+  LISTED = 'LISTED', // On sale at its seller's asking price, see Listing
+  AUCTION = 'AUCTION', // Up for auction, see Auction
+  TRADED = 'TRADED', // Bought off the market by an NPC trader
 }
 
+/**
+ * The eight grades returned by the generation API, from lowest to highest.
+ */
+export const API_RARITY_GRADES = ['F', 'E', 'D', 'C', 'B', 'A', 'S', 'S+'] as const;
+
+/**
+ * Type for a grade returned by the generation API.
+ */
+export type ApiRarityGrade = typeof API_RARITY_GRADES[number];
+
+/**
+ * Grade given to cards forged before the original grade was stored.
+ */
+export const UNKNOWN_GRADE = 'UNKNOWN';
+
+/**
+ * Type for the grade stored on a Pokémon: an API grade, or UNKNOWN for legacy cards.
+ */
+export type PokemonGrade = ApiRarityGrade | typeof UNKNOWN_GRADE;
+
+/**
+ * Default relative odds of each grade for the offline mock generator.
+ */
+export const DEFAULT_MOCK_GRADE_WEIGHTS: Record<ApiRarityGrade, number> = {
+  F: 30,
+  E: 22,
+  D: 18,
+  C: 12,
+  B: 9,
+  A: 5,
+  S: 3,
+  'S+': 1,
+};
+
+/**
+ * Interface for a successful response of the generation API (see docs/02-api.md).
+ */
+export interface GenerateApiResponse {
+  imageBase64: string; // Base64 encoded PNG (without prefix)
+  metadata: {
+    id: string;
+    name: string;
+    rarity: string; // One of API_RARITY_GRADES
+  };
+  generatedAt: string; // ISO 8601 string
+}
+
+/**
+ * Interface for a generation response recorded for the replay provider.
+ */
+export interface GenerationFixture {
+  id?: number; // Auto-incremented key assigned by IndexedDB
+  recordedAt: string; // ISO 8601 string
+  response: GenerateApiResponse;
+}
+
+/**
+ * Type for the available generation providers.
+ */
+export type GenerationProviderId = 'http' | 'mock' | 'replay';
+
 /**
  * Interface for a generated Pokémon item.
  */
@@ -26,26 +102,245 @@ export interface Pokemon {
   id: string; // Unique ID from the API
   name: string;
   rarity: PokemonRarity;
-  imageBase64: string; // Base64 encoded image data (without prefix)
+  grade: PokemonGrade; // Original F–S+ grade from the API, kept alongside the five-tier rarity
   generatedAt: string; // ISO 8601 string from API
-  status: PokemonStatus; // OWNED or RESOLD
+  status: PokemonStatus;
   isFavorite: boolean; // True if the user marked it as a favorite
+  forgedBy?: string; // NPC trader who forged the card; absent for the player's own forges
+  traderId?: string; // NPC trader currently listing or holding the card
+}
+
+/**
+ * Interface for the filters of a Pokémon query, resolved through the store's indexes.
+ */
+export interface PokemonQuery {
+  search: string; // Case-insensitive substring of the name
+  rarities: PokemonRarity[]; // Empty means every rarity
+  statuses: PokemonStatus[]; // Empty means every status
+  grades: PokemonGrade[]; // Empty means every grade
+  favoritesOnly: boolean;
+  playerCardsOnly: boolean; // Excludes the cards NPC traders forged, unless the player bought them
+  generatedFrom: string | null; // YYYY-MM-DD, first local day included
+  generatedTo: string | null; // YYYY-MM-DD, last local day included
+}
+
+/**
+ * Interface for the position after the last Pokémon of a page, in generatedAt order.
+ */
+export interface PokemonPageCursor {
+  generatedAt: string;
+  id: string; // Breaks ties between Pokémon generated at the same instant
+}
+
+/**
+ * Interface for one page of a paged Pokémon query.
+ */
+export interface PokemonPage {
+  items: Pokemon[];
+  nextCursor: PokemonPageCursor | null; // Null once the last page has been read
+}
+
+/**
+ * Type for the sort orders offered in the Collection view.
+ */
+export type CollectionSortKey = 'date' | 'name' | 'rarity' | 'value';
+
+/**
+ * Interface for the Collection view's query bar state.
+ */
+export interface CollectionQuery extends PokemonQuery {
+  sortBy: CollectionSortKey;
+  sortDirection: 'asc' | 'desc';
+}
+
+/**
+ * Query the Collection view opens with: owned cards and the player's listings, most recent first.
+ */
+export const DEFAULT_COLLECTION_QUERY: CollectionQuery = {
+  search: '',
+  rarities: [],
+  statuses: [PokemonStatus.OWNED, PokemonStatus.LISTED],
+  grades: [],
+  favoritesOnly: false,
+  playerCardsOnly: true,
+  generatedFrom: null,
+  generatedTo: null,
+  sortBy: 'date',
+  sortDirection: 'desc',
+};
+
+/**
+ * The screens of the app, each reachable at its own path.
+ */
+export type View = 'studio' | 'collection' | 'market' | 'achievements' | 'leaderboard' | 'ledger' | 'settings';
+
+/**
+ * Interface for the Market view's filters.
+ */
+export interface MarketFilters {
+  section: 'house' | 'listings' | 'auctions';
+  rarity: PokemonRarity | 'ALL';
+  grade: PokemonGrade | 'ALL';
+  sort: 'RECENT' | 'GRADE';
+}
+
+/**
+ * Filters the Market view opens with: the house stock, most recent first.
+ */
+export const DEFAULT_MARKET_FILTERS: MarketFilters = {
+  section: 'house',
+  rarity: 'ALL',
+  grade: 'ALL',
+  sort: 'RECENT',
+};
+
+/**
+ * A location of the app, decoded from the URL. The filters of the Collection and Market views are part of it,
+ * so a filtered view can be bookmarked and restored by the back button.
+ */
+export type Route =
+  | { view: 'collection'; query: CollectionQuery }
+  | { view: 'market'; filters: MarketFilters }
+  | { view: Exclude<View, 'collection' | 'market'> }
+  | { view: 'card'; pokemonId: string }
+  | { view: 'notFound'; path: string };
+
+/**
+ * Interface for a Pokémon fresh out of a generation provider, before its image is moved to the images store.
+ */
+export interface GeneratedPokemon extends Pokemon {
+  imageBase64: string; // Base64 encoded image data (without prefix)
+}
+
+/**
+ * Type for the stored variants of a Pokémon image.
+ */
+export type ImageVariant = 'full' | 'thumbnail';
+
+/**
+ * Interface for an image stored in the images object store.
+ */
+export interface PokemonImage {
+  pokemonId: string;
+  variant: ImageVariant;
+  blob: Blob;
 }
 
 /**
- * Interface for the user's token balance.
+ * Interface for the user's token balance, derived from the ledger.
  */
 export interface TokenBalance {
   id: 'tokenBalance'; // Fixed ID for single token balance entry
   amount: number;
 }
 
+/**
+ * Enum for the reasons a token movement is recorded in the ledger.
+ */
+export enum LedgerReason {
+  INITIAL_GRANT = 'INITIAL_GRANT', // Tokens offered on first launch
+  MIGRATION = 'MIGRATION', // Balance carried over from the legacy single record
+  GENERATION = 'GENERATION',
+  REFUND = 'REFUND',
+  RESALE = 'RESALE',
+  MARKET_PURCHASE = 'MARKET_PURCHASE',
+  DAILY_BONUS = 'DAILY_BONUS',
+  ACHIEVEMENT_REWARD = 'ACHIEVEMENT_REWARD',
+  LISTING_SALE = 'LISTING_SALE', // A listed card bought at its asking price
+  AUCTION_ESCROW = 'AUCTION_ESCROW', // Tokens held by the player's leading bid; kept as payment if it wins
+  AUCTION_REFUND = 'AUCTION_REFUND', // Escrow released after the player was outbid
+  QUEUED_GENERATION = 'QUEUED_GENERATION', // Tokens reserved by a forge queued offline; refunded if it fails
+  PACK_PURCHASE = 'PACK_PURCHASE', // Price of a booster pack; the slots that fail to forge are refunded
+}
+
+/**
+ * Interface for an entry of the append-only token ledger.
+ */
+export interface LedgerEntry {
+  id?: number; // Auto-incremented key assigned by IndexedDB
+  amount: number; // Signed delta: positive for credits, negative for debits
+  reason: LedgerReason;
+  pokemonId: string | null; // Related Pokémon, if any
+  timestamp: string; // ISO 8601 string
+  balanceAfter: number; // Balance once this entry is applied
+}
+
+/**
+ * Enum for the steps of a card's life recorded in its history.
+ */
+export enum CardEventType {
+  FORGED = 'FORGED', // Generated, by a forge or the daily bonus
+  LISTED = 'LISTED', // Put on sale by the player
+  UNLISTED = 'UNLISTED', // Listing cancelled by the player or expired
+  SOLD = 'SOLD', // Listing bought by a trader
+  RESOLD = 'RESOLD', // Sold back to the house
+  BOUGHT = 'BOUGHT', // Bought back from the house, a trader's listing or an auction
+}
+
+/**
+ * Interface for an entry of a card's history.
+ */
+export interface CardEvent {
+  id?: number; // Auto-incremented key assigned by IndexedDB; orders the events of a card
+  pokemonId: string;
+  type: CardEventType;
+  amount: number | null; // Tokens credited (positive) or debited (negative) to the player, or null when none moved
+  timestamp: string; // ISO 8601 string
+}
+
+/**
+ * Number of days in the daily bonus reward calendar; the streak cycles through it.
+ */
+export const DAILY_BONUS_CYCLE_DAYS = 7;
+
+/**
+ * Reward of one day of the daily bonus calendar.
+ */
+export interface DailyBonusReward {
+  minTokens: number;
+  maxTokens: number;
+  rareForge: boolean; // Also forges a free card of rare grade or better
+}
+
+/**
+ * Reward rolled for a day, persisted so reloading the app can't re-roll it.
+ */
+export interface DailyBonusRoll {
+  date: string; // Local calendar date (YYYY-MM-DD) the roll is valid for
+  streak: number; // Streak reached once this day is claimed
+  amount: number;
+  forgeGrade: ApiRarityGrade | null; // Grade of the free forge, on the calendar days offering one
+}
+
+/**
+ * One claimed daily bonus.
+ */
+export interface DailyBonusClaim {
+  date: string; // Local calendar date (YYYY-MM-DD)
+  streak: number;
+  amount: number;
+  pokemonId: string | null; // Card forged by the reward, if any
+}
+
 /**
  * Interface for the daily bonus status.
  */
 export interface DailyBonusStatus {
   id: 'dailyBonus';
-  lastClaimed: string; // ISO date string (YYYY-MM-DD)
+  lastClaimed: string | null; // Local calendar date (YYYY-MM-DD) of the last claim
+  currentStreak: number;
+  bestStreak: number;
+  history: DailyBonusClaim[]; // Most recent last
+  pendingRoll: DailyBonusRoll | null; // Today's reward, until it is claimed
+}
+
+/**
+ * Result of claiming the daily bonus.
+ */
+export interface DailyBonusClaimResult {
+  status: DailyBonusStatus;
+  entry: LedgerEntry;
+  pokemon: Pokemon | null; // Card forged by the reward, if any
 }
 
 /**
@@ -55,38 +350,514 @@ export interface PlayerSettings {
   id: 'playerSettings'; // Fixed ID for single settings entry
   theme: 'light' | 'dark';
   isMuted: boolean;
+  playerName: string; // Name from before profiles; only used to name the default profile
+  generationProvider: GenerationProviderId; // Source used by the Studio to forge Pokémon
+  apiBaseUrl: string; // Overrides the build-time API base URL when not empty
+  apiToken: string; // Overrides the build-time bearer token when not empty
+  mockGradeWeights: Record<ApiRarityGrade, number>; // Relative odds used by the mock provider
+  priceFloor: number; // Lowest resale price the market engine may quote
+  priceCeiling: number; // Highest resale price the market engine may quote
+  revision: number; // Incremented on every save, to detect saves made by another tab meanwhile
+  leaderboardProvider: LeaderboardProviderId; // Where the Classement view ranks the player
+  leaderboardUrl: string; // Overrides the build-time leaderboard URL when not empty
+  leaderboardPlayerId: string; // Random ID identifying this save on the online leaderboard
+  language: Locale; // Language of the interface
+  musicVolume: number; // Volume of the ambient loop, from 0 to 1
+  effectsVolume: number; // Volume of the sound effects, from 0 to 1
+  isAmbientEnabled: boolean; // Whether the ambient loop plays while the sound is on
+}
+
+/**
+ * Languages the interface is translated into.
+ */
+export type Locale = 'fr' | 'en';
+
+/**
+ * The languages offered in the settings, each named in its own language.
+ */
+export const SUPPORTED_LOCALES: { id: Locale; label: string }[] = [
+  { id: 'fr', label: 'Français' },
+  { id: 'en', label: 'English' },
+];
+
+/**
+ * A catalog message whose wording depends on a count, keyed by Intl.PluralRules category.
+ */
+export interface PluralMessage {
+  one: string;
+  other: string;
+  zero?: string; // Overrides `one`/`other` for a count of 0 when the wording differs
+}
+
+/**
+ * Values substituted into the `{name}` placeholders of a message. Numbers are formatted for the locale.
+ */
+export type MessageParams = Record<string, string | number>;
+
+/**
+ * Identifies a leaderboard implementation.
+ */
+export type LeaderboardProviderId = 'local' | 'http';
+
+/**
+ * Metrics the leaderboard can rank players on.
+ */
+export type LeaderboardMetric = 'pokemonCount' | 'avgRarity' | 'collectionValue' | 'achievementCount';
+
+/**
+ * Interface for the scores a player submits to the leaderboard.
+ */
+export interface ScoreSnapshot {
+  playerId: string;
   playerName: string;
+  pokemonCount: number; // Cards forged by the player
+  avgRarity: number; // Average rarity score of those cards, on the 1–5 scale
+  collectionValue: number; // Resale value of the cards currently owned or listed
+  achievementCount: number; // Achievements unlocked
+  submittedAt: string; // ISO 8601 string
 }
 
 /**
- * Interface for an achievement.
+ * Interface for the players ranked on one metric, best first.
  */
-export interface Achievement {
-  id: string; // e.g., 'FIRST_FORGE'
+export interface LeaderboardRanking {
+  metric: LeaderboardMetric;
+  entries: ScoreSnapshot[];
+  fetchedAt: string; // ISO 8601 string
+}
+
+/**
+ * Interface for the last rankings received, kept to be shown while offline.
+ */
+export interface LeaderboardCache {
+  id: 'leaderboardCache';
+  provider: LeaderboardProviderId;
+  rankings: Partial<Record<LeaderboardMetric, LeaderboardRanking>>;
+  lastSyncedAt: string | null; // Last time the player's scores were submitted successfully
+}
+
+/**
+ * Interface for the market conditions the pricing engine reads, aggregated per rarity tier.
+ */
+export interface MarketSnapshot {
+  listedByRarity: Record<PokemonRarity, number>; // Cards of each rarity currently on the market
+  recentVolumeByRarity: Record<PokemonRarity, number>; // Sales and purchases within the volume window
+  takenAt: string; // ISO 8601 string
+}
+
+/**
+ * Interface for one adjustment applied by the pricing engine, for the price explanation.
+ * It is described in the player's language when displayed, so a cached quote follows a language change.
+ */
+export interface PriceFactor {
+  kind: 'supply' | 'demand' | 'age';
+  count: number; // Cards on sale, recent transactions or days since the card was forged
+  rarity: PokemonRarity;
+  multiplier: number;
+}
+
+/**
+ * Interface for the prices the pricing engine quotes for a card, with how they were computed.
+ */
+export interface PriceQuote {
+  sell: number; // Tokens the player receives when reselling the card
+  buy: number; // Tokens the player pays to buy the card on the market
+  baseValue: number;
+  factors: PriceFactor[];
+  limit: 'floor' | 'ceiling' | null; // Set when the price was clamped
+}
+
+/**
+ * Interface for a simulated NPC trader and its current budget.
+ */
+export interface NpcTrader {
+  id: string;
   name: string;
-  description: string;
+  budget: number; // Tokens available for purchases
+  maxBudget: number;
+  income: number; // Tokens regained per simulation tick, up to maxBudget
+  listingChance: number; // Odds of listing a freshly forged card on each tick
+  buyChance: number; // Odds of trying to buy a card on each tick
+  rarityPreferences: Record<PokemonRarity, number>; // Relative appetite for each rarity when buying
+  gradeWeights: Record<ApiRarityGrade, number>; // Relative odds of each grade in the cards it forges
+}
+
+/**
+ * Interface for the persisted clock of the NPC market simulation.
+ */
+export interface MarketSimulationState {
+  id: 'marketSimulation'; // Fixed ID in the settings store
+  seed: number; // Every tick's random draws derive from this seed and the tick number
+  lastTick: number; // Last simulated tick, counted from the Unix epoch
+}
+
+/**
+ * Interface for an entry of the market activity feed.
+ */
+export interface MarketFeedEntry {
+  id?: number; // Auto-incremented by IndexedDB
+  timestamp: string; // ISO 8601 string of the simulated tick
+  traderId: string;
+  traderName: string;
+  action: 'LISTED' | 'BOUGHT' | 'AUCTIONED' | 'BID' | 'WON';
+  pokemonId: string;
+  pokemonName: string;
+  rarity: PokemonRarity;
+  price: number;
+  fromPlayer: boolean; // True when the card bought was listed by the player
+}
+
+/**
+ * Interface for an open listing: a LISTED card on sale at its seller's asking price.
+ */
+export interface Listing {
+  pokemonId: string; // Key: a card has at most one open listing
+  askingPrice: number;
+  createdAt: string; // ISO 8601 string
+  expiresAt: string | null; // ISO 8601 string; the card goes back to its seller once passed. Null never expires
+}
+
+/**
+ * Rarities sold by auction rather than at a fixed price.
+ */
+export const AUCTION_RARITIES: PokemonRarity[] = [PokemonRarity.LEGENDARY, PokemonRarity.MYTHIC];
+
+/**
+ * Bidder ID of the player in auction bids; the other bidders are NPC traders.
+ */
+export const PLAYER_BIDDER_ID = 'player';
+
+/**
+ * Interface for a bid placed on an auction.
+ */
+export interface AuctionBid {
+  bidderId: string; // PLAYER_BIDDER_ID or an NPC trader ID
+  amount: number;
+  placedAt: string; // ISO 8601 string
+}
+
+/**
+ * Interface for a timed auction of an AUCTION card. The leading bidder's tokens are held until they are outbid.
+ */
+export interface Auction {
+  id: string;
+  pokemonId: string;
+  sellerId: string; // NPC trader selling the card
+  startPrice: number; // Minimum first bid
+  minIncrement: number; // Minimum raise over the leading bid
+  startsAt: string; // ISO 8601 string
+  endsAt: string; // ISO 8601 string; bids are refused from then on
+  bids: AuctionBid[]; // Chronological: the last one leads
+  status: 'OPEN' | 'SOLD' | 'UNSOLD';
+}
+
+/**
+ * Interface for a card an NPC trader forged and puts on the market, with its encoded images.
+ * Exactly one of listing and auction is set.
+ */
+export interface NpcListing {
+  pokemon: Pokemon;
+  listing?: Listing;
+  auction?: Auction;
+  fullImage: Blob;
+  thumbnail: Blob;
+}
+
+/**
+ * Interface for the bids NPC traders placed on an auction during simulated ticks.
+ */
+export interface AuctionUpdate {
+  auctionId: string;
+  expectedBidCount: number; // Bids the auction had when the simulation read it; a mismatch drops the update
+  bids: AuctionBid[];
+}
+
+/**
+ * Interface for a card bought by an NPC trader during simulated ticks.
+ */
+export interface NpcPurchase {
+  pokemonId: string;
+  traderId: string;
+  sellerId: string | null; // NPC trader credited for the sale; null for the house stock and the player's listings
+  price: number;
+}
+
+/**
+ * Interface for the outcome of simulated ticks, saved in one transaction.
+ */
+export interface MarketSettlement {
+  previousTick: number; // lastTick the simulation started from, to detect a concurrent settlement
+  state: MarketSimulationState;
+  traders: NpcTrader[]; // As simulated; only saved whole for the traders not stored yet
+  budgetChanges: Record<string, number>; // Net budget change of each trader over the simulated ticks
+  listings: NpcListing[];
+  purchases: NpcPurchase[];
+  auctionUpdates: AuctionUpdate[];
+  feed: MarketFeedEntry[];
+  settledAt: string; // ISO 8601 string; listings expired and auctions ended by then are closed
+}
+
+/**
+ * Interface for what a settlement changed for the player.
+ */
+export interface MarketSettlementResult {
+  feed: MarketFeedEntry[]; // Saved activity, oldest first
+  expired: Pokemon[]; // The player's cards back in the collection after their listing expired
+  outbid: Auction[]; // Auctions where NPC bids overtook the player, whose escrow was released
+  resolved: Auction[]; // Auctions closed by this settlement
+}
+
+/**
+ * Interface for the outcome of a bid placed by the player.
+ */
+export interface BidTransactionResult {
+  auction: Auction;
+  entry: LedgerEntry; // Escrow of the bid
+}
+
+/**
+ * Interface for a recorded market price of one rarity and grade, for trend charts.
+ */
+export interface PricePoint {
+  id?: number; // Auto-incremented by IndexedDB
+  rarity: PokemonRarity;
+  grade: PokemonGrade;
+  sell: number;
+  buy: number;
+  recordedAt: string; // ISO 8601 string
+}
+
+/**
+ * Enum for the player actions achievements are evaluated from.
+ */
+export enum GameEventType {
+  FORGE = 'FORGE',
+  SALE = 'SALE',
+  PURCHASE = 'PURCHASE',
+  DAILY_BONUS = 'DAILY_BONUS',
+  FAVORITE = 'FAVORITE', // A card was marked as favorite; the amount is the number of favorites after it
+}
+
+/**
+ * Interface for one player action, as fed to the achievement engine.
+ */
+export interface GameEvent {
+  type: GameEventType;
+  pokemon: Pokemon | null; // The card involved, if any
+  amount: number; // Tokens moved by the action, 0 when none
+  timestamp: string; // ISO 8601 string
+}
+
+/**
+ * Interface for what an achievement measures: matching events are counted, or their token amounts summed.
+ * With 'total', the events carry a running total in their amount and the progress is the highest one seen.
+ */
+export interface AchievementCondition {
+  event: GameEventType;
+  metric: 'count' | 'sum' | 'total';
+  rarities?: PokemonRarity[]; // Only events on cards of these rarities count
+}
+
+/**
+ * Type for the levels of a tiered achievement series.
+ */
+export type AchievementTier = 'bronze' | 'silver' | 'gold';
+
+/**
+ * Interface for the declarative definition of an achievement.
+ */
+export interface AchievementDefinition {
+  id: string; // e.g., 'FIRST_FORGE', also the key of its name and description in the catalogs
+  condition: AchievementCondition;
+  target: number; // Progress needed to unlock
+  reward: number; // Tokens granted on unlock, 0 for none
+  series?: string; // Groups the tiers of a tiered achievement
+  tier?: AchievementTier;
+}
+
+/**
+ * Interface for the persisted progress of an achievement.
+ */
+export interface Achievement {
+  id: string; // Matches an AchievementDefinition id
+  progress: number; // Capped at the definition's target
   unlocked: boolean;
   unlockedAt: string | null; // ISO 8601 string when unlocked
 }
 
+/**
+ * Interface for the outcome of recording a game event against the achievements.
+ */
+export interface AchievementEventResult {
+  updated: Achievement[]; // Only the achievements whose progress changed
+  unlocked: AchievementDefinition[];
+  rewardEntry: LedgerEntry | null; // Ledger credit for the rewards of the unlocked achievements
+}
+
+/**
+ * Interface for the outcome of an atomic operation touching a Pokémon and the ledger.
+ */
+export interface PokemonTransactionResult {
+  pokemon: Pokemon;
+  entry: LedgerEntry;
+}
+
+/**
+ * Interface for a forge requested while offline. Its cost is already debited from the ledger.
+ */
+export interface QueuedGeneration {
+  id?: number; // Auto-incremented key assigned by IndexedDB; replayed in this order
+  queuedAt: string; // ISO 8601 string
+  cost: number; // Tokens reserved, refunded if the forge fails
+  packId?: string; // Booster pack the forge was bought in
+  minRarity?: PokemonRarity; // Guaranteed pack slot: the forge is drawn again until it reaches this rarity
+}
+
+/**
+ * Interface for the outcome of replaying the queued forges.
+ */
+export interface GenerationQueueResult {
+  forged: Pokemon[]; // Paid for when they were queued
+  refunded: { entry: LedgerEntry; error: Error }[];
+  remaining: number; // Forges still queued, because the network dropped again or the API is throttling
+}
+
+/**
+ * A rarity a booster pack guarantees: `count` of its cards are of this rarity or better.
+ */
+export interface PackGuarantee {
+  rarity: PokemonRarity;
+  count: number;
+}
+
+/**
+ * A kind of booster pack sold in the Studio.
+ */
+export interface PackDefinition {
+  id: string; // Persisted on the queued forges; never rename one
+  size: number; // Number of cards
+  price: number; // Tokens for the whole pack, below the price of as many single forges
+  guarantees: PackGuarantee[];
+}
+
+/**
+ * One card of a booster pack, as it is queued for forging.
+ */
+export interface PackSlot {
+  cost: number; // Share of the pack price, refunded if the slot fails
+  minRarity?: PokemonRarity; // Set on guaranteed slots
+}
+
+/**
+ * Interface for the outcome of opening a booster pack.
+ */
+export interface PackOpeningResult {
+  entry: LedgerEntry; // Payment of the pack
+  forged: Pokemon[]; // In slot order
+  refunded: { entry: LedgerEntry; error: Error }[]; // One per slot that failed to forge
+}
+
+/**
+ * Interface for the outcome of putting a card on sale.
+ */
+export interface ListingTransactionResult {
+  pokemon: Pokemon;
+  listing: Listing;
+}
+
 /**
  * Enum for IndexedDB object store names.
  */
 export enum StoreNames {
   Pokemons = 'pokemons',
-  Settings = 'settings', // For storing global settings like token balance
+  Settings = 'settings', // For storing global settings like the daily bonus
   Achievements = 'achievements', // For storing user achievements
+  Ledger = 'ledger', // For storing every token debit and credit
+  GenerationFixtures = 'generationFixtures', // For storing API responses replayed offline
+  Images = 'images', // For storing full-size images and thumbnails as Blobs
+  PriceHistory = 'priceHistory', // For storing market price points per rarity and grade
+  NpcTraders = 'npcTraders', // For storing the simulated traders and their budgets
+  MarketFeed = 'marketFeed', // For storing the recent market activity
+  Listings = 'listings', // For storing the open listings and their asking prices
+  Auctions = 'auctions', // For storing the auctions and their bids
+  GenerationQueue = 'generationQueue', // For storing the forges requested offline, replayed once back online
+  CardEvents = 'cardEvents', // For storing the history of each card, from its forge to its last trade
+}
+
+/**
+ * Interface for an image serialized into a backup archive.
+ */
+export interface SerializedImage {
+  pokemonId: string;
+  variant: ImageVariant;
+  type: string; // MIME type of the Blob
+  data: string; // Base64 encoded image data (without prefix)
+}
+
+/**
+ * Interface for a full backup of the local database, written as a single JSON file.
+ */
+export interface BackupArchive {
+  format: 'pokeforge-backup';
+  formatVersion: number; // Version of this archive layout
+  schemaVersion: number; // DB_VERSION of the database that produced the archive
+  exportedAt: string; // ISO 8601 string
+  stores: Partial<Record<StoreNames, unknown[]>>; // Images are stored as SerializedImage records
+}
+
+/**
+ * Type for how a backup is restored: wipe everything first, or add to the current data.
+ */
+export type BackupImportMode = 'replace' | 'merge';
+
+/**
+ * Interface for the summary shown before a backup is restored.
+ */
+export interface BackupReport {
+  exportedAt: string;
+  schemaVersion: number;
+  pokemonCount: number;
+  imageCount: number;
+  ledgerEntryCount: number;
+  conflictingPokemonIds: string[]; // Pokémon present both in the archive and in the current collection
 }
 
 /**
- * Database name for IndexedDB.
+ * Database name for IndexedDB. It holds the save of the default profile; other profiles get their own database.
  */
 export const DB_NAME = 'PokemonGeneratorDB';
 
+/**
+ * Database listing the local player profiles.
+ */
+export const PROFILES_DB_NAME = 'PokemonGeneratorProfiles';
+export const PROFILES_DB_VERSION = 2; // Version 2: Added the local leaderboard scores
+
+/**
+ * ID of the profile adopting the save made before profiles existed.
+ */
+export const DEFAULT_PROFILE_ID = 'default';
+
+/**
+ * Interface for a local player profile. Each profile keeps its whole save in a database of its own.
+ */
+export interface PlayerProfile {
+  id: string;
+  name: string;
+  dbName: string;
+  createdAt: string;
+  lastUsedAt: string; // The most recently used profile is opened on launch
+}
+
 /**
  * Database version for IndexedDB. Increment this number when making schema changes.
  */
-export const DB_VERSION = 3; // Version 3: Added achievements store
+export const DB_VERSION = 15; // Version 15: Added the history of each card
+
+/**
+ * Number of tokens granted to a new player.
+ */
+export const INITIAL_TOKENS = 100;
 
 /**
  * Interface for a general application message (e.g., success, error).
@@ -0,0 +1,24 @@
+// utils/auctions.ts
+
+import { Auction, AuctionBid } from '../types';
+
+/**
+ * Returns the bid currently winning an auction, or null before the first bid.
+ */
+export const getLeadingBid = (auction: Auction): AuctionBid | null =>
+  auction.bids.length > 0 ? auction.bids[auction.bids.length - 1] : null;
+
+/**
+ * Returns the lowest amount the next bid may offer: the start price, then the leading bid plus the increment.
+ */
+export const getMinimumBid = (auction: Auction): number => {
+  const leading = getLeadingBid(auction);
+  return leading ? leading.amount + auction.minIncrement : auction.startPrice;
+};
+
+/**
+ * Tells whether an auction still accepts bids at a given time.
+ * @param at An ISO 8601 string.
+ */
+export const isAuctionOpen = (auction: Auction, at: string): boolean =>
+  auction.status === 'OPEN' && auction.startsAt <= at && at < auction.endsAt;
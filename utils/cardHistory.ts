@@ -0,0 +1,30 @@
+// utils/cardHistory.ts
+
+import { CardEvent, CardEventType, LedgerEntry, LedgerReason } from '../types';
+
+/**
+ * Card events implied by each ledger reason tied to a card. Escrows and refunds are left out:
+ * an auction only changes the card's owner when it ends.
+ */
+const EVENT_TYPES_BY_REASON: Partial<Record<LedgerReason, CardEventType>> = {
+  [LedgerReason.GENERATION]: CardEventType.FORGED,
+  [LedgerReason.DAILY_BONUS]: CardEventType.FORGED,
+  [LedgerReason.RESALE]: CardEventType.RESOLD,
+  [LedgerReason.MARKET_PURCHASE]: CardEventType.BOUGHT,
+  [LedgerReason.LISTING_SALE]: CardEventType.SOLD,
+};
+
+/**
+ * Rebuilds the card histories a save made before they were recorded can still tell, from its ledger.
+ * Listings moved no tokens, so they cannot be recovered.
+ * @param entries The ledger, oldest first.
+ * @returns The events, oldest first, without IDs.
+ */
+export const rebuildCardEvents = (entries: LedgerEntry[]): CardEvent[] =>
+  entries.flatMap(entry => {
+    const type = EVENT_TYPES_BY_REASON[entry.reason];
+    if (!type || !entry.pokemonId) return [];
+    // The daily bonus credits its tokens for the day, not for the card it forged.
+    const amount = entry.reason === LedgerReason.DAILY_BONUS ? null : entry.amount;
+    return [{ pokemonId: entry.pokemonId, type, amount, timestamp: entry.timestamp }];
+  });
@@ -0,0 +1,28 @@
+// utils/concurrency.ts
+
+/**
+ * Maps a list through an asynchronous function, running at most `limit` calls at a time.
+ * @param items The items to map.
+ * @param limit The maximum number of pending calls.
+ * @param mapper The function to apply; receives the item and its index.
+ * @returns A promise that resolves with the results in the order of the items.
+ * @throws The first error thrown by the mapper; no call is started after it.
+ */
+export const mapWithConcurrency = async <T, R>(items: T[], limit: number, mapper: (item: T, index: number) => Promise<R>): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+  let hasFailed = false;
+  const worker = async () => {
+    while (nextIndex < items.length && !hasFailed) {
+      const index = nextIndex++;
+      try {
+        results[index] = await mapper(items[index], index);
+      } catch (error) {
+        hasFailed = true;
+        throw error;
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker));
+  return results;
+};
@@ -0,0 +1,100 @@
+// utils/dailyBonus.ts
+
+import { API_RARITY_GRADES, ApiRarityGrade, DailyBonusReward, DailyBonusRoll, DailyBonusStatus, DAILY_BONUS_CYCLE_DAYS } from '../types';
+import { daysBetween, toLocalDateKey } from './dates';
+import { RandomSource, pickWeighted, randomInt } from './random';
+
+/**
+ * Rewards of each day of the streak, escalating towards a guaranteed rare forge on the last day.
+ */
+export const DAILY_BONUS_CALENDAR: DailyBonusReward[] = [
+  { minTokens: 5, maxTokens: 7, rareForge: false },
+  { minTokens: 6, maxTokens: 8, rareForge: false },
+  { minTokens: 7, maxTokens: 10, rareForge: false },
+  { minTokens: 8, maxTokens: 11, rareForge: false },
+  { minTokens: 10, maxTokens: 13, rareForge: false },
+  { minTokens: 12, maxTokens: 15, rareForge: false },
+  { minTokens: 15, maxTokens: 20, rareForge: true },
+];
+
+/**
+ * Days that may be missed between two claims without losing the streak.
+ */
+export const DAILY_BONUS_GRACE_DAYS = 1;
+
+/**
+ * Number of claims kept in the daily bonus history.
+ */
+export const MAX_DAILY_BONUS_HISTORY = 60;
+
+/**
+ * Relative odds of each grade for the free forge; only grades of rare tier or better.
+ */
+const RARE_FORGE_GRADE_WEIGHTS: Record<ApiRarityGrade, number> = {
+  F: 0,
+  E: 0,
+  D: 35,
+  C: 25,
+  B: 25,
+  A: 8,
+  S: 5,
+  'S+': 2,
+};
+
+/**
+ * Returns the calendar reward for a streak, cycling after the last day.
+ * @param streak The streak reached by the claim, starting at 1.
+ */
+export const getDailyBonusReward = (streak: number): DailyBonusReward =>
+  DAILY_BONUS_CALENDAR[(Math.max(1, streak) - 1) % DAILY_BONUS_CYCLE_DAYS];
+
+/**
+ * Brings a stored status to the current shape. Older saves only kept a `lastClaimed` timestamp.
+ * @param stored The record read from the settings store, if any.
+ */
+export const normalizeDailyBonusStatus = (stored: Partial<DailyBonusStatus> | undefined): DailyBonusStatus => {
+  const lastClaimed = stored?.lastClaimed
+    ? /^\d{4}-\d{2}-\d{2}$/.test(stored.lastClaimed) ? stored.lastClaimed : toLocalDateKey(new Date(stored.lastClaimed))
+    : null;
+  const legacyStreak = lastClaimed ? 1 : 0;
+  return {
+    id: 'dailyBonus',
+    lastClaimed,
+    currentStreak: stored?.currentStreak ?? legacyStreak,
+    bestStreak: stored?.bestStreak ?? legacyStreak,
+    history: stored?.history ?? [],
+    pendingRoll: stored?.pendingRoll ?? null,
+  };
+};
+
+/**
+ * Computes the streak a claim made on a given day would reach.
+ * The streak goes on when the last claim is at most one grace day older than yesterday.
+ * @param today The local date key of the claim.
+ */
+export const getNextStreak = (status: DailyBonusStatus, today: string): number => {
+  if (!status.lastClaimed) return 1;
+  const gap = daysBetween(status.lastClaimed, today);
+  return gap >= 1 && gap <= 1 + DAILY_BONUS_GRACE_DAYS ? status.currentStreak + 1 : 1;
+};
+
+/**
+ * Rolls the reward of a day from the calendar.
+ * @param today The local date key the roll is valid for.
+ */
+export const rollDailyBonus = (status: DailyBonusStatus, today: string, random: RandomSource): DailyBonusRoll => {
+  const streak = getNextStreak(status, today);
+  const reward = getDailyBonusReward(streak);
+  return {
+    date: today,
+    streak,
+    amount: randomInt(random, reward.minTokens, reward.maxTokens),
+    forgeGrade: reward.rareForge ? pickWeighted(random, RARE_FORGE_GRADE_WEIGHTS) : null,
+  };
+};
+
+/**
+ * Builds mock generator weights that always produce the given grade.
+ */
+export const getSingleGradeWeights = (grade: ApiRarityGrade): Record<ApiRarityGrade, number> =>
+  Object.fromEntries(API_RARITY_GRADES.map(g => [g, g === grade ? 1 : 0])) as Record<ApiRarityGrade, number>;
@@ -0,0 +1,27 @@
+// utils/dates.ts
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Returns the calendar date of an instant in the local timezone, so days start at the player's midnight.
+ * @returns A YYYY-MM-DD string.
+ */
+export const toLocalDateKey = (date: Date = new Date()): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+/**
+ * Counts the calendar days from one date key to another, regardless of daylight saving changes.
+ * @param from A YYYY-MM-DD string.
+ * @param to A YYYY-MM-DD string.
+ * @returns A positive number when `to` is later than `from`.
+ */
+export const daysBetween = (from: string, to: string): number => {
+  const toUtc = (key: string) => {
+    const [year, month, day] = key.split('-').map(Number);
+    return Date.UTC(year, month - 1, day);
+  };
+  return Math.round((toUtc(to) - toUtc(from)) / MS_PER_DAY);
+};
@@ -0,0 +1,23 @@
+// utils/download.ts
+
+/**
+ * Delay before the object URL is revoked; revoking it while the download starts can cancel it.
+ */
+const REVOKE_DELAY = 1000;
+
+/**
+ * Saves a Blob through the browser's download prompt.
+ * @param blob The file content.
+ * @param fileName The suggested file name.
+ */
+export const downloadBlob = (blob: Blob, fileName: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  // Older Firefox versions ignore clicks on links that are not in the document.
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY);
+};
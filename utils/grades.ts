@@ -0,0 +1,55 @@
+// utils/grades.ts
+
+import { Pokemon, PokemonGrade, PokemonRarity, API_RARITY_GRADES, UNKNOWN_GRADE } from '../types';
+
+/**
+ * Every grade a stored Pokémon can carry, from lowest to highest, with UNKNOWN first.
+ */
+export const POKEMON_GRADES: PokemonGrade[] = [UNKNOWN_GRADE, ...API_RARITY_GRADES];
+
+/**
+ * Score of each rarity tier on the leaderboard's 1–5 scale.
+ */
+export const RARITY_SCORES: Record<PokemonRarity, number> = {
+  [PokemonRarity.COMMON]: 1,
+  [PokemonRarity.RARE]: 2,
+  [PokemonRarity.EPIC]: 3,
+  [PokemonRarity.LEGENDARY]: 4,
+  [PokemonRarity.MYTHIC]: 5,
+};
+
+/**
+ * Finer score of each grade on the same 1–5 scale, so an S outranks an A of the same tier.
+ */
+const GRADE_SCORES: Record<Exclude<PokemonGrade, typeof UNKNOWN_GRADE>, number> = {
+  F: 1,
+  E: 1.5,
+  D: 2,
+  C: 2.5,
+  B: 3,
+  A: 4,
+  S: 4.5,
+  'S+': 5,
+};
+
+/**
+ * Display label of a grade; legacy cards show a question mark.
+ */
+export const formatGrade = (grade: PokemonGrade): string => grade === UNKNOWN_GRADE ? '?' : grade;
+
+/**
+ * Position of a grade in POKEMON_GRADES, for sorting (UNKNOWN ranks lowest).
+ */
+export const getGradeRank = (grade: PokemonGrade): number => POKEMON_GRADES.indexOf(grade);
+
+/**
+ * Scores a Pokémon on the 1–5 scale, using its grade when known and its rarity tier otherwise.
+ */
+export const getRarityScore = (pokemon: Pokemon): number =>
+  pokemon.grade === UNKNOWN_GRADE ? RARITY_SCORES[pokemon.rarity] : GRADE_SCORES[pokemon.grade];
+
+/**
+ * Orders Pokémon from the highest to the lowest grade, falling back to the rarity tier for legacy cards.
+ */
+export const compareByGradeDesc = (a: Pokemon, b: Pokemon): number =>
+  getRarityScore(b) - getRarityScore(a) || getGradeRank(b.grade) - getGradeRank(a.grade);
@@ -0,0 +1,54 @@
+// utils/images.ts
+
+/**
+ * Edge length, in pixels, of the thumbnails shown in card grids.
+ */
+export const THUMBNAIL_SIZE = 192;
+
+/**
+ * Decodes a base64 string (without data URL prefix) into a Blob.
+ * Synchronous, so it can run inside an IndexedDB transaction.
+ * @param base64 The encoded image data.
+ * @param type The MIME type of the image.
+ */
+export const base64ToBlob = (base64: string, type = 'image/png'): Blob => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type });
+};
+
+/**
+ * Encodes a Blob as a base64 string without the data URL prefix.
+ */
+export const blobToBase64 = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve((reader.result as string).split(',')[1] ?? '');
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+/**
+ * Renders a downscaled copy of an image, keeping its aspect ratio.
+ * @param image The full-size image.
+ * @param size The maximum width and height of the thumbnail.
+ * @returns A promise that resolves with the thumbnail as a WebP (or PNG where WebP is unsupported) Blob.
+ */
+export const createThumbnail = async (image: Blob, size: number = THUMBNAIL_SIZE): Promise<Blob> => {
+  const bitmap = await createImageBitmap(image);
+  const scale = Math.min(1, size / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context is not available in this browser.');
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Thumbnail encoding failed.')), 'image/webp', 0.85);
+  });
+};
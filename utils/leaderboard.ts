@@ -0,0 +1,48 @@
+// utils/leaderboard.ts
+
+import { Achievement, LeaderboardMetric, Pokemon, PokemonRarity, PokemonStatus, ScoreSnapshot } from '../types';
+import { RARITY_SCORES, getRarityScore } from './grades';
+import { MessageKey } from '../locales/fr';
+
+/**
+ * Metrics offered by the Classement view, in display order.
+ */
+export const LEADERBOARD_METRICS: { id: LeaderboardMetric; label: MessageKey }[] = [
+  { id: 'avgRarity', label: 'leaderboard.metric.avgRarity' },
+  { id: 'pokemonCount', label: 'leaderboard.metric.pokemonCount' },
+  { id: 'collectionValue', label: 'leaderboard.metric.collectionValue' },
+  { id: 'achievementCount', label: 'leaderboard.metric.achievementCount' },
+];
+
+/**
+ * Finds the rarity tier an average rarity score rounds to.
+ * @returns The tier, or null for a player without any forged card.
+ */
+export const getAverageRarity = (avgRarity: number): PokemonRarity | null =>
+  avgRarity === 0 ? null : (Object.keys(RARITY_SCORES) as PokemonRarity[]).find(rarity => RARITY_SCORES[rarity] >= Math.round(avgRarity)) ?? PokemonRarity.COMMON;
+
+/**
+ * Computes the scores the player submits to the leaderboard.
+ * @param player The leaderboard ID and the name to publish.
+ * @param pokemons Every stored Pokémon; only the ones forged by the player count.
+ * @param getResellValue Current resale price of a card.
+ * @param achievements The player's achievement records.
+ */
+export const buildScoreSnapshot = (
+  player: { id: string; name: string },
+  pokemons: Pokemon[],
+  getResellValue: (pokemon: Pokemon) => number,
+  achievements: Achievement[],
+): ScoreSnapshot => {
+  const forged = pokemons.filter(p => !p.forgedBy);
+  const held = pokemons.filter(p => p.status === PokemonStatus.OWNED || p.status === PokemonStatus.LISTED);
+  return {
+    playerId: player.id,
+    playerName: player.name,
+    pokemonCount: forged.length,
+    avgRarity: forged.length === 0 ? 0 : forged.reduce((sum, p) => sum + getRarityScore(p), 0) / forged.length,
+    collectionValue: held.reduce((sum, p) => sum + getResellValue(p), 0),
+    achievementCount: achievements.filter(a => a.unlocked).length,
+    submittedAt: new Date().toISOString(),
+  };
+};
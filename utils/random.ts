@@ -0,0 +1,71 @@
+// utils/random.ts
+
+/**
+ * A pseudo-random number source returning floats in [0, 1).
+ */
+export type RandomSource = () => number;
+
+/**
+ * Creates a seeded pseudo-random generator (mulberry32), so procedural output can be reproduced.
+ * @param seed Any 32-bit integer.
+ * @returns A RandomSource producing the same sequence for the same seed.
+ */
+export const createSeededRandom = (seed: number): RandomSource => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Picks an integer in [min, max] inclusive.
+ */
+export const randomInt = (random: RandomSource, min: number, max: number): number =>
+  min + Math.floor(random() * (max - min + 1));
+
+/**
+ * Picks one element of a non-empty array.
+ */
+export const pickOne = <T>(random: RandomSource, items: readonly T[]): T => items[Math.floor(random() * items.length)];
+
+/**
+ * Picks a key according to relative weights. Keys with a non-positive weight are never picked.
+ * @param random The random source.
+ * @param weights Relative odds per key.
+ * @returns The picked key, or the first key if every weight is zero.
+ */
+export const pickWeighted = <K extends string>(random: RandomSource, weights: Record<K, number>): K => {
+  const entries = (Object.entries(weights) as [K, number][]).filter(([, weight]) => weight > 0);
+  const total = entries.reduce((sum, [, weight]) => sum + weight, 0);
+  if (total <= 0) return Object.keys(weights)[0] as K;
+  let roll = random() * total;
+  for (const [key, weight] of entries) {
+    roll -= weight;
+    if (roll < 0) return key;
+  }
+  return entries[entries.length - 1][0];
+};
+
+/**
+ * Picks an element of an array according to a weight computed for each element.
+ * Elements with a non-positive weight are never picked.
+ * @returns The picked element, or null if no element has a positive weight.
+ */
+export const pickWeightedItem = <T>(random: RandomSource, items: readonly T[], getWeight: (item: T) => number): T | null => {
+  const weights = items.map(item => Math.max(0, getWeight(item)));
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  if (total <= 0) return null;
+  let roll = random() * total;
+  let lastPicked = -1; // Guards against rounding leaving a tiny positive roll
+  for (let i = 0; i < items.length; i++) {
+    if (weights[i] <= 0) continue;
+    roll -= weights[i];
+    lastPicked = i;
+    if (roll < 0) return items[i];
+  }
+  return items[lastPicked];
+};
@@ -0,0 +1,51 @@
+// utils/retry.ts
+
+import { RandomSource } from './random';
+
+/**
+ * Options for retrying an operation with exponential backoff.
+ */
+export interface RetryOptions {
+  maxAttempts: number; // Total attempts, including the first one
+  baseDelayMs: number; // Backoff ceiling before the first retry, doubled after each attempt
+  maxDelayMs: number; // Upper bound of the backoff ceiling
+  shouldRetry: (error: unknown) => boolean;
+  getRetryDelay?: (error: unknown) => number | null; // Server-imposed delay (e.g. Retry-After), used instead of the backoff
+  random?: RandomSource;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+const defaultSleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * Computes a "full jitter" backoff delay: a random duration between zero and the exponential ceiling.
+ * @param attempt The number of attempts already made (1 for the first retry).
+ */
+export const computeBackoffDelay = (attempt: number, baseDelayMs: number, maxDelayMs: number, random: RandomSource = Math.random): number => {
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(random() * ceiling);
+};
+
+/**
+ * Runs an operation, retrying it while `shouldRetry` accepts the error and attempts remain.
+ * @param operation The operation to run; receives the 1-based attempt number.
+ * @param options The retry policy.
+ * @returns A promise that resolves with the first successful result.
+ * @throws The last error once the policy gives up.
+ */
+export const retryWithBackoff = async <T>(operation: (attempt: number) => Promise<T>, options: RetryOptions): Promise<T> => {
+  const sleep = options.sleep ?? defaultSleep;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (attempt >= options.maxAttempts || !options.shouldRetry(error)) {
+        throw error;
+      }
+      const imposedDelay = options.getRetryDelay?.(error) ?? null;
+      const delay = imposedDelay ?? computeBackoffDelay(attempt, options.baseDelayMs, options.maxDelayMs, options.random);
+      console.warn(`Attempt ${attempt} failed, retrying in ${delay} ms.`, error);
+      await sleep(delay);
+    }
+  }
+};
@@ -0,0 +1,149 @@
+// utils/routes.ts
+
+import { CollectionQuery, CollectionSortKey, MarketFilters, PokemonGrade, PokemonRarity, PokemonStatus, Route, View, DEFAULT_COLLECTION_QUERY, DEFAULT_MARKET_FILTERS, LEGACY_RARITY_NAMES } from '../types';
+import { POKEMON_GRADES } from './grades';
+
+/**
+ * Path of each view. The Studio is the home page.
+ */
+const VIEW_PATHS: Record<View, string> = {
+  studio: '/',
+  collection: '/collection',
+  market: '/market',
+  achievements: '/achievements',
+  leaderboard: '/leaderboard',
+  ledger: '/ledger',
+  settings: '/settings',
+};
+
+const CARD_PATH_PREFIX = '/card/';
+const COLLECTION_SORT_KEYS: CollectionSortKey[] = ['date', 'name', 'rarity', 'value'];
+const FAVORITES_FILTER = 'FAVORITES';
+
+/**
+ * Reads a rarity from a URL, by code or by its former French name (e.g. `Épique`), ignoring case.
+ */
+const parseRarity = (value: string): PokemonRarity | null => {
+  const code = value.toUpperCase();
+  if ((Object.values(PokemonRarity) as string[]).includes(code)) return code as PokemonRarity;
+  return Object.entries(LEGACY_RARITY_NAMES).find(([name]) => name.toLowerCase() === value.toLowerCase())?.[1] ?? null;
+};
+
+const parseGrade = (value: string): PokemonGrade | null => POKEMON_GRADES.find(grade => grade === value.toUpperCase()) ?? null;
+
+const parseStatus = (value: string): PokemonStatus | null =>
+  (Object.values(PokemonStatus) as string[]).includes(value.toUpperCase()) ? value.toUpperCase() as PokemonStatus : null;
+
+const parseDay = (value: string | null): string | null => value && /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : null;
+
+/**
+ * Reads a comma-separated list parameter, dropping the values the parser rejects.
+ */
+const parseList = <T,>(params: URLSearchParams, name: string, parse: (value: string) => T | null): T[] | null => {
+  const raw = params.get(name);
+  if (raw === null) return null;
+  return raw.split(',').map(value => parse(value.trim())).filter((value): value is T => value !== null);
+};
+
+const parseCollectionQuery = (params: URLSearchParams): CollectionQuery => {
+  const sortBy = params.get('sort') as CollectionSortKey | null;
+  return {
+    ...DEFAULT_COLLECTION_QUERY,
+    search: params.get('q') ?? '',
+    rarities: parseList(params, 'rarity', parseRarity) ?? DEFAULT_COLLECTION_QUERY.rarities,
+    statuses: parseList(params, 'status', parseStatus) ?? DEFAULT_COLLECTION_QUERY.statuses,
+    grades: parseList(params, 'grade', parseGrade) ?? DEFAULT_COLLECTION_QUERY.grades,
+    favoritesOnly: params.get('filter')?.toUpperCase() === FAVORITES_FILTER,
+    generatedFrom: parseDay(params.get('from')),
+    generatedTo: parseDay(params.get('to')),
+    sortBy: sortBy && COLLECTION_SORT_KEYS.includes(sortBy) ? sortBy : DEFAULT_COLLECTION_QUERY.sortBy,
+    sortDirection: params.get('order') === 'asc' ? 'asc' : params.get('order') === 'desc' ? 'desc' : DEFAULT_COLLECTION_QUERY.sortDirection,
+  };
+};
+
+const parseMarketFilters = (params: URLSearchParams): MarketFilters => {
+  const section = params.get('section');
+  const rarity = params.get('rarity');
+  const grade = params.get('grade');
+  return {
+    section: section === 'listings' || section === 'auctions' ? section : DEFAULT_MARKET_FILTERS.section,
+    rarity: (rarity ? parseRarity(rarity) : null) ?? DEFAULT_MARKET_FILTERS.rarity,
+    grade: (grade ? parseGrade(grade) : null) ?? DEFAULT_MARKET_FILTERS.grade,
+    sort: params.get('sort')?.toUpperCase() === 'GRADE' ? 'GRADE' : DEFAULT_MARKET_FILTERS.sort,
+  };
+};
+
+/**
+ * Decodes a location of the app. Unknown paths give a `notFound` route; malformed filter values fall back to their defaults.
+ * @param pathname The URL path, e.g. `/market`.
+ * @param search The query string, with or without its leading `?`.
+ */
+export const parseRoute = (pathname: string, search: string): Route => {
+  const path = pathname.length > 1 ? pathname.replace(/\/+$/, '') : pathname;
+  const params = new URLSearchParams(search);
+
+  if (path.startsWith(CARD_PATH_PREFIX) && path.length > CARD_PATH_PREFIX.length) {
+    return { view: 'card', pokemonId: decodeURIComponent(path.slice(CARD_PATH_PREFIX.length)) };
+  }
+  const view = (Object.keys(VIEW_PATHS) as View[]).find(key => VIEW_PATHS[key] === path);
+  if (!view) return { view: 'notFound', path: pathname };
+  if (view === 'collection') return { view, query: parseCollectionQuery(params) };
+  if (view === 'market') return { view, filters: parseMarketFilters(params) };
+  return { view };
+};
+
+const setList = <T extends string>(params: URLSearchParams, name: string, values: T[], defaults: T[]) => {
+  const isDefault = values.length === defaults.length && values.every(value => defaults.includes(value));
+  if (!isDefault) params.set(name, values.join(','));
+};
+
+/**
+ * Encodes a route as a path and query string. Filters left at their default are omitted, so plain views get plain URLs.
+ */
+export const formatRoute = (route: Route): string => {
+  const params = new URLSearchParams();
+  let path: string;
+
+  switch (route.view) {
+    case 'card':
+      return `${CARD_PATH_PREFIX}${encodeURIComponent(route.pokemonId)}`;
+    case 'notFound':
+      return route.path;
+    case 'collection': {
+      const { query } = route;
+      path = VIEW_PATHS.collection;
+      if (query.search) params.set('q', query.search);
+      setList(params, 'rarity', query.rarities, DEFAULT_COLLECTION_QUERY.rarities);
+      setList(params, 'status', query.statuses, DEFAULT_COLLECTION_QUERY.statuses);
+      setList(params, 'grade', query.grades, DEFAULT_COLLECTION_QUERY.grades);
+      if (query.favoritesOnly) params.set('filter', FAVORITES_FILTER);
+      if (query.generatedFrom) params.set('from', query.generatedFrom);
+      if (query.generatedTo) params.set('to', query.generatedTo);
+      if (query.sortBy !== DEFAULT_COLLECTION_QUERY.sortBy) params.set('sort', query.sortBy);
+      if (query.sortDirection !== DEFAULT_COLLECTION_QUERY.sortDirection) params.set('order', query.sortDirection);
+      break;
+    }
+    case 'market': {
+      const { filters } = route;
+      path = VIEW_PATHS.market;
+      if (filters.section !== DEFAULT_MARKET_FILTERS.section) params.set('section', filters.section);
+      if (filters.rarity !== DEFAULT_MARKET_FILTERS.rarity) params.set('rarity', filters.rarity);
+      if (filters.grade !== DEFAULT_MARKET_FILTERS.grade) params.set('grade', filters.grade);
+      if (filters.sort !== DEFAULT_MARKET_FILTERS.sort) params.set('sort', filters.sort.toLowerCase());
+      break;
+    }
+    default:
+      path = VIEW_PATHS[route.view];
+  }
+  const query = params.toString();
+  return query ? `${path}?${query}` : path;
+};
+
+/**
+ * The route of a view with its default filters.
+ */
+export const getViewRoute = (view: View): Route => {
+  if (view === 'collection') return { view, query: DEFAULT_COLLECTION_QUERY };
+  if (view === 'market') return { view, filters: DEFAULT_MARKET_FILTERS };
+  return { view };
+};
@@ -0,0 +1,34 @@
+// utils/sorting.ts
+
+import { Pokemon, CollectionSortKey } from '../types';
+import { getRarityScore, getGradeRank } from './grades';
+
+/**
+ * Orders a list of Pokémon for the Collection view. Ties fall back to the most recent first.
+ * @param pokemons The Pokémon to sort; the array is not modified.
+ * @param sortBy The criterion to sort on.
+ * @param direction 'asc' for lowest first, 'desc' for highest first.
+ * @param getValue Resale value of a Pokémon, used by the 'value' criterion.
+ * @returns A new sorted array.
+ */
+export const sortPokemons = (
+  pokemons: Pokemon[],
+  sortBy: CollectionSortKey,
+  direction: 'asc' | 'desc',
+  getValue: (pokemon: Pokemon) => number,
+): Pokemon[] => {
+  const sign = direction === 'asc' ? 1 : -1;
+  const compare = (a: Pokemon, b: Pokemon): number => {
+    switch (sortBy) {
+      case 'name':
+        return a.name.localeCompare(b.name, 'fr', { sensitivity: 'base' });
+      case 'rarity':
+        return getRarityScore(a) - getRarityScore(b) || getGradeRank(a.grade) - getGradeRank(b.grade);
+      case 'value':
+        return getValue(a) - getValue(b);
+      case 'date':
+        return a.generatedAt.localeCompare(b.generatedAt);
+    }
+  };
+  return [...pokemons].sort((a, b) => sign * compare(a, b) || b.generatedAt.localeCompare(a.generatedAt));
+};
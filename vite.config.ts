@@ -2,7 +2,7 @@ import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig(({ mode }) => {
+export default defineConfig(({ mode, command }) => {
     const env = loadEnv(mode, '.', '');
     return {
       server: {
@@ -12,7 +12,12 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.POKEMON_API_BASE_URL': JSON.stringify(env.POKEMON_API_BASE_URL ?? ''),
+        'process.env.POKEMON_API_TOKEN': JSON.stringify(env.POKEMON_API_TOKEN ?? ''),
+        'process.env.LEADERBOARD_API_URL': JSON.stringify(env.LEADERBOARD_API_URL ?? ''),
+        // The dev server serves modules that change on every edit, so only builds get the offline service worker.
+        'process.env.REGISTER_SERVICE_WORKER': JSON.stringify(command === 'build')
       },
       resolve: {
         alias: {